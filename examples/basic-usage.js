@@ -5,7 +5,7 @@
  * including Jupiter swaps, connection management, and basic portfolio tracking.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 async function basicUsageExample() {
   console.log("🚀 ForgeX Solana SDK - Basic Usage Example");
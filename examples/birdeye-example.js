@@ -1,4 +1,4 @@
-const { ForgexSDK } = require("../dist/index.js");
+const { ForgexSDK } = require("../dist/cjs/index.js");
 
 class BirdeyeExample {
   constructor(apiKey) {
@@ -5,7 +5,7 @@
  * trading, spot trading, and portfolio management.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 
 async function driftPerpetualExample() {
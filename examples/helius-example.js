@@ -5,7 +5,7 @@
  * transaction parsing, NFT metadata, webhooks, and analytics.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 async function heliusRPCExample() {
   console.log("🌐 Helius RPC & Enhanced APIs Example");
@@ -5,7 +5,7 @@
  * including swap quotes, token discovery, price feeds, and transaction building.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 
 async function jupiterSwapExample() {
@@ -5,7 +5,7 @@
  * borrowing, and liquidity provision on Solana.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 
 async function kaminoLendingExample() {
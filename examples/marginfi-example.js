@@ -11,7 +11,7 @@
  * - Liquidation protection
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 class MarginFiExample {
   constructor() {
@@ -5,7 +5,7 @@
  * including liquid staking, native staking, liquidity pools, and mSOL operations.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 const BN = require("bn.js");
 
@@ -11,7 +11,7 @@
  * - Risk management strategies
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 class MeteoraExample {
   constructor() {
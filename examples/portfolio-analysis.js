@@ -1,15 +1,15 @@
 const {
-  getConnection,
   JupiterClient,
   KaminoClient,
   MarinadeClient,
   RaydiumClient,
 } = require("forgexai-sdk");
+const { getConnectionFromEnv } = require("forgexai-sdk/node");
 const { PublicKey } = require("@solana/web3.js");
 
 const WALLET_ADDRESS = "GZeAvc4zPheRAGxKBqxJdJT8XqQjKC2MiKq4KQYzjkfQ";
 
-const connection = getConnection("mainnet-beta");
+const connection = getConnectionFromEnv("mainnet-beta");
 
 async function analyzeDeFiPortfolio(walletAddress) {
   console.log(`Analyzing DeFi portfolio for wallet: ${walletAddress}`);
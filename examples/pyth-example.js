@@ -5,7 +5,7 @@
  * including price feeds, real-time updates, TWAP calculations, and price feed management.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 
 async function pythPriceFeedsExample() {
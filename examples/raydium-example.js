@@ -5,7 +5,7 @@
  * including API swaps, SDK swaps, routing, farming, and pool operations.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 const { Connection, PublicKey, Keypair } = require("@solana/web3.js");
 const BN = require("bn.js");
 
@@ -11,7 +11,7 @@
  * - Risk assessment across validators
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 class SanctumExample {
   constructor() {
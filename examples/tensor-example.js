@@ -5,7 +5,7 @@
  * trading, analytics, and marketplace interactions.
  */
 
-const { ForgeXSolanaSDK } = require("../dist/index.js");
+const { ForgeXSolanaSDK } = require("../dist/cjs/index.js");
 
 async function tensorNFTExample() {
   console.log("🎨 Tensor NFT Marketplace Example");
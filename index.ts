@@ -1 +1 @@
-export * from "./src/index";
+export * from "./src/index.js";
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+import { runCli } from "../cli.js";
+
+runCli(process.argv.slice(2)).then((code) => {
+  // Exit once stdout is flushed; open RPC or websocket handles of loaded
+  // services would otherwise keep the process alive
+  process.stdout.write("", () => process.exit(code));
+});
@@ -1,12 +1,14 @@
-import axios, { AxiosInstance } from "axios";
+import { AxiosInstance } from "axios";
+import { HttpClient } from "./utils/http.js";
+import type { ServiceOptions } from "./types.js";
 
 const BIRDEYE_API = "https://public-api.birdeye.so";
 
 export class BirdeyeClient {
   private client: AxiosInstance;
 
-  constructor(apiKey: string) {
-    this.client = axios.create({
+  constructor(apiKey: string, options: ServiceOptions = {}) {
+    this.client = (options.httpClient || new HttpClient()).create({
       baseURL: BIRDEYE_API,
       headers: {
         "X-API-KEY": apiKey,
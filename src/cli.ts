@@ -0,0 +1,741 @@
+// The `forgex` command line tool: quotes, swaps, lending, multisig proposals
+// and prices for operational tasks, on top of ForgeXSolanaSDK. Node-only,
+// like ./node which it builds on; src/bin/forgex.ts is the executable.
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { parseArgs } from "util";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { ForgeXSolanaSDK } from "./sdk.js";
+import {
+  apiKeysFromEnv,
+  loadKeypairFile,
+  SOLANA_CLI_KEYPAIR_PATH,
+} from "./node.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { JsonLogger } from "./utils/logger.js";
+import { TokenAmount } from "./utils/token-amount.js";
+import type { ExecutionResult } from "./utils/transaction-executor.js";
+import type { SimulationResult } from "./utils/simulation.js";
+import type { JupiterService, QuoteResponse } from "./jupiter.js";
+import type { KaminoService } from "./kamino.js";
+import type { SquadsService } from "./squads.js";
+import type { PythSolanaService } from "./pyth.js";
+import type { DexScreenerClient } from "./dexscreener.js";
+import type { SDKConfig, SolanaNetwork } from "./types.js";
+
+export type OutputFormat = "table" | "json";
+
+/**
+ * Contents of the config file. Flags win over environment variables, which
+ * win over the file.
+ */
+export interface CliConfig {
+  network?: SolanaNetwork;
+  rpcUrl?: string;
+  /** Keypair file (default: the Solana CLI keypair, when it exists) */
+  keypair?: string;
+  output?: OutputFormat;
+  /** Default slippage of quote and swap */
+  slippageBps?: number;
+  /** Merged over the keys read from the environment */
+  apiKeys?: SDKConfig["apiKeys"];
+}
+
+/**
+ * Where the config file is read from when neither --config nor
+ * FORGEX_CONFIG is set
+ */
+export const CLI_CONFIG_PATH = join(
+  homedir(),
+  ".config",
+  "forgex",
+  "config.json"
+);
+
+/**
+ * Process I/O of runCli, replaceable for tests and embedding
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  env?: Record<string, string | undefined>;
+  createSdk?(config: SDKConfig): ForgeXSolanaSDK;
+}
+
+const OPTIONS = {
+  config: { type: "string" },
+  keypair: { type: "string", short: "k" },
+  network: { type: "string", short: "n" },
+  "rpc-url": { type: "string", short: "u" },
+  output: { type: "string", short: "o" },
+  json: { type: "boolean" },
+  "dry-run": { type: "boolean" },
+  verbose: { type: "boolean", short: "v" },
+  help: { type: "boolean", short: "h" },
+  "slippage-bps": { type: "string" },
+  "vault-index": { type: "string" },
+  memo: { type: "string" },
+  limit: { type: "string" },
+} as const;
+
+const NETWORKS: SolanaNetwork[] = [
+  "mainnet-beta",
+  "devnet",
+  "testnet",
+  "localnet",
+];
+
+const KAMINO_ACTIONS = {
+  deposit: ["buildDepositTransaction", "depositToLending"],
+  withdraw: ["buildWithdrawTransaction", "withdrawFromLending"],
+  borrow: ["buildBorrowTransaction", "borrowFromLending"],
+  repay: ["buildRepayTransaction", "repayToLending"],
+} as const;
+
+interface CommandContext {
+  /** Positionals after the command name */
+  args: string[];
+  options: Record<string, string | boolean | undefined>;
+  config: CliConfig;
+  dryRun: boolean;
+  sdk: ForgeXSolanaSDK;
+  keypair?: Keypair;
+}
+
+interface CommandResult {
+  /** Printed by --output json */
+  data: unknown;
+  /** Printed by --output table (default: data) */
+  table?: unknown;
+  /** Non-zero when the transaction did not land */
+  exitCode?: number;
+}
+
+interface Command {
+  args: string;
+  description: string;
+  run(context: CommandContext): Promise<CommandResult>;
+}
+
+// Mistakes in the command line; printed with the usage and exit code 2
+class UsageError extends Error {}
+
+const COMMANDS: Record<string, Command> = {
+  quote: {
+    args: "<from> <to> <amount> [--slippage-bps N]",
+    description: "Best Jupiter route for a swap",
+    run: async (context) => {
+      const { quote, table } = await getQuote(context);
+      return { data: quote, table };
+    },
+  },
+  swap: {
+    args: "<from> <to> <amount> [--slippage-bps N]",
+    description: "Swap through Jupiter",
+    run: async (context) => {
+      const { sdk } = context;
+      const keypair = requireKeypair(context);
+      const { quote } = await getQuote(context);
+      const jupiter = await sdk.plugins.loadRequired<JupiterService>("jupiter");
+      const instructions = await jupiter.getSwapInstructions({
+        userPublicKey: keypair.publicKey.toBase58(),
+        quoteResponse: quote,
+        dynamicComputeUnitLimit: true,
+      });
+      const transaction = await jupiter.buildSwapTransaction(
+        instructions,
+        keypair.publicKey,
+        sdk.lookupTables
+      );
+      if (context.dryRun) {
+        return simulated(
+          await sdk.simulator.simulate(transaction, keypair.publicKey)
+        );
+      }
+      return executed(await sdk.executor.execute(transaction));
+    },
+  },
+  portfolio: {
+    args: "[wallet]",
+    description: "SOL, token holdings and positions of a wallet",
+    run: async (context) => {
+      const wallet =
+        context.args[0] || requireKeypair(context).publicKey.toBase58();
+      const portfolio = await context.sdk.getPortfolio(
+        parsePublicKey(wallet, "wallet").toBase58()
+      );
+      return {
+        data: portfolio,
+        table: {
+          wallet: portfolio.wallet,
+          sol: portfolio.solAmount,
+          holdings: portfolio.holdings,
+          lending: portfolio.lending,
+          perpetuals: portfolio.perpetuals,
+        },
+      };
+    },
+  },
+  ...Object.fromEntries(
+    Object.entries(KAMINO_ACTIONS).map(([action, [build, send]]) => [
+      `kamino ${action}`,
+      {
+        args: "<symbol> <amount>",
+        description: `${capitalize(action)} on Kamino Lend (UI amount)`,
+        run: async (context: CommandContext): Promise<CommandResult> => {
+          const [symbol, amount] = requireArgs(context, 2);
+          const keypair = requireKeypair(context);
+          const kamino =
+            await context.sdk.plugins.loadRequired<KaminoService>("kamino");
+          if (context.dryRun) {
+            const action = await kamino[build](
+              amount,
+              symbol,
+              keypair.publicKey
+            );
+            const results = await kamino.simulateAction(
+              action,
+              keypair.publicKey
+            );
+            return {
+              data: results,
+              table: results.map(simulationRow),
+              exitCode: results.every((result) => result.success) ? 0 : 1,
+            };
+          }
+          const signature = await kamino[send](amount, symbol, keypair);
+          return { data: { signature } };
+        },
+      },
+    ])
+  ),
+  "squads propose": {
+    args: "<multisig> <to> <amount> [--vault-index N] [--memo TEXT]",
+    description: "Propose a SOL transfer out of a vault",
+    run: async (context) => {
+      const [multisigArg, toArg, amount] = requireArgs(context, 3);
+      const keypair = requireKeypair(context);
+      const squads =
+        await context.sdk.plugins.loadRequired<SquadsService>("squads");
+      const multisigPda = parsePublicKey(multisigArg, "multisig");
+      const vaultIndex = parseInteger(
+        (context.options["vault-index"] as string) || "0",
+        "vault index"
+      );
+      const [vaultPda] = squads.getVaultPda(multisigPda, vaultIndex);
+      const transactionIndex =
+        await squads.getNextTransactionIndex(multisigPda);
+
+      const instructions = [
+        await squads.createVaultTransaction({
+          multisigPda,
+          vaultIndex,
+          creator: keypair.publicKey,
+          instructions: [
+            squads.createSolTransferInstruction(
+              vaultPda,
+              parsePublicKey(toArg, "recipient"),
+              TokenAmount.sol(amount)
+            ),
+          ],
+          memo: context.options.memo as string | undefined,
+        }),
+        await squads.createProposal(
+          multisigPda,
+          transactionIndex,
+          keypair.publicKey
+        ),
+      ];
+      const result = await sendInstructions(context, squads, instructions);
+      return withFields(result, {
+        transactionIndex: transactionIndex.toString(),
+        vault: vaultPda.toBase58(),
+      });
+    },
+  },
+  "squads approve": {
+    args: "<multisig> <transaction-index>",
+    description: "Approve a proposal as a member",
+    run: async (context) => {
+      const [multisigArg, index] = requireArgs(context, 2);
+      const keypair = requireKeypair(context);
+      const squads =
+        await context.sdk.plugins.loadRequired<SquadsService>("squads");
+      const instruction = await squads.approveProposal(
+        parsePublicKey(multisigArg, "multisig"),
+        parseIndex(index),
+        keypair.publicKey
+      );
+      return sendInstructions(context, squads, [instruction]);
+    },
+  },
+  "squads execute": {
+    args: "<multisig> <transaction-index>",
+    description: "Execute an approved vault transaction",
+    run: async (context) => {
+      const [multisigArg, index] = requireArgs(context, 2);
+      const keypair = requireKeypair(context);
+      const squads =
+        await context.sdk.plugins.loadRequired<SquadsService>("squads");
+      const instruction = await squads.executeVaultTransaction(
+        parsePublicKey(multisigArg, "multisig"),
+        parseIndex(index),
+        keypair.publicKey
+      );
+      return sendInstructions(context, squads, [instruction]);
+    },
+  },
+  "pyth price": {
+    args: "<feed...>",
+    description: "Latest Pyth prices by symbol (e.g. SOL_USD) or feed ID",
+    run: async (context) => {
+      const feeds = requireArgs(context, 1);
+      const pyth =
+        await context.sdk.plugins.loadRequired<PythSolanaService>("pyth");
+      const knownFeeds: Record<string, string> = (await import("./pyth.js"))
+        .PythSolanaService.PRICE_FEED_IDS;
+      const ids = feeds.map((feed) => {
+        const id = knownFeeds[feed.toUpperCase()] || feed;
+        if (!/^(0x)?[0-9a-f]{64}$/i.test(id)) {
+          throw new UsageError(
+            `Unknown price feed ${feed}, use one of ${Object.keys(
+              knownFeeds
+            ).join(", ")} or a feed ID`
+          );
+        }
+        return id;
+      });
+
+      const prices = await pyth.getLatestPrices(ids);
+      return {
+        data: prices,
+        table: prices.map((price) => ({
+          feed:
+            feeds[
+              ids.findIndex(
+                (id) => id.replace(/^0x/, "").toLowerCase() === price.id
+              )
+            ] || price.id,
+          price: price.uiPrice,
+          confidence: price.uiConf,
+          published: new Date(price.publishTime * 1000).toISOString(),
+        })),
+      };
+    },
+  },
+  "dexscreener search": {
+    args: "<query> [--limit N]",
+    description: "Search DEX pairs by token name, symbol or address",
+    run: async (context) => {
+      const query = requireArgs(context, 1).join(" ");
+      const dexscreener =
+        await context.sdk.plugins.loadRequired<DexScreenerClient>(
+          "dexscreener"
+        );
+      const limit = parseInteger(
+        (context.options.limit as string) || "20",
+        "limit"
+      );
+      const pairs = (await dexscreener.searchPairs(query)).slice(0, limit);
+      return {
+        data: pairs,
+        table: pairs.map((pair) => ({
+          pair: `${pair.baseToken?.symbol}/${pair.quoteToken?.symbol}`,
+          chain: pair.chainId,
+          dex: pair.dexId,
+          priceUsd: pair.priceUsd,
+          liquidityUsd: pair.liquidity?.usd,
+          volume24h: pair.volume?.h24,
+          address: pair.pairAddress,
+        })),
+      };
+    },
+  },
+};
+
+/**
+ * Run a forgex command line (without the node and script arguments) and
+ * resolve to the process exit code: 0 on success, 1 when the command or its
+ * transaction failed, 2 for usage errors.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = defaultIO()
+): Promise<number> {
+  let output: OutputFormat = "table";
+  try {
+    const { values, positionals } = parseCommandLine(argv);
+    const env = io.env || process.env;
+    const config = loadConfig(values.config as string | undefined, env);
+    output = values.json ? "json" : parseOutput(values.output, config);
+
+    const match = findCommand(positionals);
+    if (values.help || !match) {
+      if (!values.help && positionals.length) {
+        throw new UsageError(`Unknown command: ${positionals.join(" ")}`);
+      }
+      io.stdout(usage(match?.name));
+      return 0;
+    }
+
+    const network = parseNetwork(values.network || env.FORGEX_NETWORK, config);
+    const keypair = loadCliKeypair(values.keypair as string, config, env);
+    const sdkConfig: SDKConfig = {
+      connection: {
+        network,
+        endpoint:
+          (values["rpc-url"] as string) || env.SOLANA_RPC_URL || config.rpcUrl,
+      },
+      apiKeys: { ...apiKeysFromEnv(env), ...config.apiKeys },
+      signer: keypair,
+      logger: values.verbose
+        ? new JsonLogger({ level: "debug", write: (line) => io.stderr(line) })
+        : undefined,
+    };
+    const sdk = (io.createSdk || ((c) => new ForgeXSolanaSDK(c)))(sdkConfig);
+
+    const result = await match.command.run({
+      args: positionals.slice(match.name.split(" ").length),
+      options: values,
+      config,
+      dryRun: !!values["dry-run"],
+      sdk,
+      keypair,
+    });
+    io.stdout(
+      output === "json"
+        ? formatJson(result.data)
+        : formatTable(result.table ?? result.data)
+    );
+    return result.exitCode || 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`error: ${error.message}\nRun "forgex --help" for usage.`);
+      return 2;
+    }
+    const { code, message, service, method, details } = ForgeXSDKError.from(
+      error,
+      { service: "cli" }
+    );
+    io.stderr(
+      output === "json"
+        ? formatJson({ error: { code, message, service, method, details } })
+        : `error: ${message}`
+    );
+    return 1;
+  }
+}
+
+/**
+ * Help text, for one command or all of them
+ */
+export function usage(command?: string): string {
+  const names = command ? [command] : Object.keys(COMMANDS);
+  const lines = names.map((name) => {
+    const { args, description } = COMMANDS[name];
+    return [`forgex ${name} ${args}`, `    ${description}`];
+  });
+  return [
+    "Usage:",
+    ...lines.flat().map((line) => `  ${line}`),
+    "",
+    "Options:",
+    "  -k, --keypair <path>   Keypair file (default: ~/.config/solana/id.json)",
+    "  -n, --network <name>   mainnet-beta, devnet, testnet or localnet",
+    "  -u, --rpc-url <url>    RPC endpoint (default: SOLANA_RPC_URL)",
+    "  -o, --output <format>  table or json (--json for short)",
+    "      --dry-run          Simulate transactions instead of sending them",
+    "      --config <path>    Config file (default: ~/.config/forgex/config.json)",
+    "  -v, --verbose          Write SDK logs to stderr",
+    "  -h, --help             Show this help",
+  ].join("\n");
+}
+
+/**
+ * JSON with bigints as strings and TokenAmounts in their toJSON() shape
+ */
+export function formatJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item) => (typeof item === "bigint" ? item.toString() : item),
+    2
+  );
+}
+
+/**
+ * Arrays of objects as aligned columns, objects as key/value rows. Nested
+ * values are printed as compact JSON.
+ */
+export function formatTable(value: unknown): string {
+  if (Array.isArray(value)) {
+    if (!value.length) return "(none)";
+    if (!value.every(isRecord)) return value.map(formatCell).join("\n");
+    const columns = [...new Set(value.flatMap((row) => Object.keys(row)))];
+    return alignRows([
+      columns,
+      ...value.map((row) => columns.map((column) => formatCell(row[column]))),
+    ]);
+  }
+  if (isRecord(value) && !(value instanceof TokenAmount)) {
+    return alignRows(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, formatCell(item)])
+    );
+  }
+  return formatCell(value);
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+function defaultIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+  };
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError(error.message);
+  }
+}
+
+// Longest command name matching the leading positionals
+function findCommand(
+  positionals: string[]
+): { name: string; command: Command } | undefined {
+  for (const length of [2, 1]) {
+    const name = positionals.slice(0, length).join(" ");
+    if (positionals.length >= length && COMMANDS[name]) {
+      return { name, command: COMMANDS[name] };
+    }
+  }
+  return undefined;
+}
+
+function loadConfig(
+  path: string | undefined,
+  env: Record<string, string | undefined>
+): CliConfig {
+  const file = path || env.FORGEX_CONFIG;
+  if (!file && !existsSync(CLI_CONFIG_PATH)) return {};
+  const resolved = expandHome(file || CLI_CONFIG_PATH);
+  try {
+    return JSON.parse(readFileSync(resolved, "utf-8"));
+  } catch (error) {
+    throw new ForgeXSDKError(
+      "INVALID_INPUT",
+      `Could not read config file ${resolved}`,
+      undefined,
+      { service: "cli", method: "loadConfig", cause: error }
+    );
+  }
+}
+
+// An explicitly configured keypair must load; the Solana CLI default is
+// only used when it exists, so read-only commands work without one
+function loadCliKeypair(
+  path: string | undefined,
+  config: CliConfig,
+  env: Record<string, string | undefined>
+): Keypair | undefined {
+  const explicit = path || env.SOLANA_KEYPAIR_PATH || config.keypair;
+  if (explicit) return loadKeypairFile(explicit);
+  return existsSync(SOLANA_CLI_KEYPAIR_PATH)
+    ? loadKeypairFile(SOLANA_CLI_KEYPAIR_PATH)
+    : undefined;
+}
+
+function requireKeypair(context: CommandContext): Keypair {
+  if (!context.keypair) {
+    throw new ForgeXSDKError(
+      "WALLET_REQUIRED",
+      "This command signs transactions, pass --keypair or set keypair in the config file",
+      undefined,
+      { service: "cli" }
+    );
+  }
+  return context.keypair;
+}
+
+function requireArgs(context: CommandContext, count: number): string[] {
+  if (context.args.length < count) {
+    throw new UsageError("Missing arguments");
+  }
+  return context.args;
+}
+
+async function getQuote(
+  context: CommandContext
+): Promise<{ quote: QuoteResponse; table: Record<string, unknown> }> {
+  const [from, to, amount] = requireArgs(context, 3);
+  const { sdk, options, config } = context;
+  const [input, output] = await Promise.all([
+    sdk.tokens.lookup(from),
+    sdk.tokens.lookup(to),
+  ]);
+  const slippageBps = parseInteger(
+    (options["slippage-bps"] as string) || String(config.slippageBps ?? 50),
+    "slippage"
+  );
+
+  const jupiter = await sdk.plugins.loadRequired<JupiterService>("jupiter");
+  const quote = await jupiter.getQuote({
+    inputMint: input.mint,
+    outputMint: output.mint,
+    amount: TokenAmount.fromUi(amount, input.decimals),
+    slippageBps,
+  });
+  return {
+    quote,
+    table: {
+      in: `${TokenAmount.fromRaw(quote.inAmount, input.decimals)} ${input.symbol}`,
+      out: `${TokenAmount.fromRaw(quote.outAmount, output.decimals)} ${output.symbol}`,
+      minimumOut: `${TokenAmount.fromRaw(
+        quote.otherAmountThreshold,
+        output.decimals
+      )} ${output.symbol}`,
+      priceImpactPct: quote.priceImpactPct,
+      slippageBps: quote.slippageBps,
+      route: quote.routePlan.map((step) => step.swapInfo.label).join(" > "),
+    },
+  };
+}
+
+// Simulate or send instructions from the Squads builders
+async function sendInstructions(
+  context: CommandContext,
+  squads: SquadsService,
+  instructions: Parameters<SquadsService["buildTransaction"]>[0]
+): Promise<CommandResult> {
+  const payer = context.keypair.publicKey;
+  if (context.dryRun) {
+    return simulated(await squads.simulateInstructions(instructions, payer));
+  }
+  const transaction = await squads.buildTransaction(instructions, payer);
+  return executed(await context.sdk.executor.execute(transaction));
+}
+
+function simulated(result: SimulationResult): CommandResult {
+  return {
+    data: result,
+    table: simulationRow(result),
+    exitCode: result.success ? 0 : 1,
+  };
+}
+
+function simulationRow(result: SimulationResult): Record<string, unknown> {
+  return {
+    success: result.success,
+    unitsConsumed: result.unitsConsumed,
+    solChange: TokenAmount.lamports(result.balanceChanges.sol.change),
+    error: result.error?.message,
+  };
+}
+
+function executed(result: ExecutionResult): CommandResult {
+  return {
+    data: result,
+    table: {
+      status: result.status,
+      signature: result.signature,
+      slot: result.slot,
+      error: result.error,
+    },
+    exitCode: result.status === "confirmed" ? 0 : 1,
+  };
+}
+
+function withFields(
+  result: CommandResult,
+  fields: Record<string, unknown>
+): CommandResult {
+  return {
+    ...result,
+    data: { ...fields, ...(result.data as object) },
+    table: { ...fields, ...(result.table as object) },
+  };
+}
+
+function parseNetwork(
+  value: string | boolean | undefined,
+  config: CliConfig
+): SolanaNetwork {
+  const network = (value || config.network || "mainnet-beta") as SolanaNetwork;
+  if (!NETWORKS.includes(network)) {
+    throw new UsageError(
+      `Unknown network ${network}, use one of ${NETWORKS.join(", ")}`
+    );
+  }
+  return network;
+}
+
+function parseOutput(
+  value: string | boolean | undefined,
+  config: CliConfig
+): OutputFormat {
+  const output = value || config.output || "table";
+  if (output !== "table" && output !== "json") {
+    throw new UsageError(`Unknown output format ${output}, use table or json`);
+  }
+  return output;
+}
+
+function parsePublicKey(value: string, name: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid ${name} address: ${value}`);
+  }
+}
+
+function parseInteger(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`Invalid ${name}: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseIndex(value: string): bigint {
+  return BigInt(parseInteger(value, "transaction index"));
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof TokenAmount) return value.toString();
+  if (typeof value !== "object") return String(value);
+  const json = JSON.parse(formatJson(value));
+  return typeof json === "string" ? json : JSON.stringify(json);
+}
+
+function alignRows(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~") ? join(homedir(), path.slice(1)) : path;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
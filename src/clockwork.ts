@@ -1,44 +1,63 @@
 import { ClockworkProvider } from "@clockwork-xyz/sdk";
 import { AnchorProvider } from "@project-serum/anchor";
-import NodeWallet from "@project-serum/anchor/dist/cjs/nodewallet";
+import type NodeWallet from "@project-serum/anchor/dist/cjs/nodewallet";
 import {
-  clusterApiUrl,
   Connection,
   Keypair,
   PublicKey,
   Commitment,
   TransactionInstruction,
 } from "@solana/web3.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { getClusterUrl } from "./utils/connection.js";
+import type { ServiceOptions, SolanaNetwork } from "./types.js";
+
+export interface ClockworkServiceOptions extends ServiceOptions {
+  /** Shared connection; defaults to the network's public endpoint */
+  connection?: Connection;
+}
 
 export class ClockworkService {
-  private keypair: Keypair;
+  private signer: Signer;
   private connection: Connection;
   private anchorProvider: AnchorProvider;
   private clockworkProvider: ClockworkProvider;
   private readonly commitment: Commitment = "processed";
+  private logger: Logger;
 
+  /**
+   * @param signer Thread authority: keypair, browser wallet, signer or raw
+   * secret key. A throwaway keypair is generated when omitted.
+   */
   constructor(
-    private readonly network: "mainnet-beta" | "devnet" | "testnet" = "devnet",
-    private readonly secretKey?: Uint8Array
+    private readonly network: SolanaNetwork = "devnet",
+    signer?: SignerInput | Uint8Array,
+    options: ClockworkServiceOptions = {}
   ) {
-    this.keypair = secretKey
-      ? Keypair.fromSecretKey(secretKey)
-      : Keypair.generate();
-
-    this.connection = new Connection(
-      clusterApiUrl(this.network),
-      this.commitment
+    this.signer = toSigner(
+      signer instanceof Uint8Array
+        ? Keypair.fromSecretKey(signer)
+        : signer || Keypair.generate()
     );
 
+    this.connection =
+      options.connection ||
+      new Connection(getClusterUrl(this.network), this.commitment);
+
     this.anchorProvider = new AnchorProvider(
       this.connection,
-      this.keypair as unknown as NodeWallet,
+      this.signer as unknown as NodeWallet,
       {}
     );
 
     this.clockworkProvider = ClockworkProvider.fromAnchorProvider(
       this.anchorProvider
     );
+
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "ClockworkService",
+    });
   }
 
   /**
@@ -50,7 +69,10 @@ export class ClockworkService {
       const threads = await program.account.thread.all();
       return threads;
     } catch (error) {
-      console.error("❌ Error fetching threads:", error);
+      this.logger.debug("Error fetching threads", {
+        method: "getAllThreads",
+        error,
+      });
       throw error;
     }
   }
@@ -65,7 +87,11 @@ export class ClockworkService {
       );
       return thread;
     } catch (error) {
-      console.error(`❌ Error fetching thread ${pubkey}:`, error);
+      this.logger.debug("Error fetching thread", {
+        method: "getThreadAccount",
+        thread: pubkey,
+        error,
+      });
       throw error;
     }
   }
@@ -80,7 +106,7 @@ export class ClockworkService {
     amount = 0
   ) {
     try {
-      const authority = this.keypair.publicKey;
+      const authority = this.signer.publicKey;
       const ix = await this.clockworkProvider.threadCreate(
         authority,
         id,
@@ -90,7 +116,10 @@ export class ClockworkService {
       );
       return ix;
     } catch (error) {
-      console.error("❌ Error creating thread:", error);
+      this.logger.debug("Error creating thread", {
+        method: "createThread",
+        error,
+      });
       throw error;
     }
   }
@@ -100,14 +129,17 @@ export class ClockworkService {
    */
   public async deleteThread(threadPubkey: string) {
     try {
-      const authority = this.keypair.publicKey;
+      const authority = this.signer.publicKey;
       const ix = await this.clockworkProvider.threadDelete(
         authority,
         new PublicKey(threadPubkey)
       );
       return ix;
     } catch (error) {
-      console.error("❌ Error deleting thread:", error);
+      this.logger.debug("Error deleting thread", {
+        method: "deleteThread",
+        error,
+      });
       throw error;
     }
   }
@@ -117,14 +149,17 @@ export class ClockworkService {
    */
   public async pauseThread(threadPubkey: string) {
     try {
-      const authority = this.keypair.publicKey;
+      const authority = this.signer.publicKey;
       const ix = await this.clockworkProvider.threadPause(
         authority,
         new PublicKey(threadPubkey)
       );
       return ix;
     } catch (error) {
-      console.error("❌ Error pausing thread:", error);
+      this.logger.debug("Error pausing thread", {
+        method: "pauseThread",
+        error,
+      });
       throw error;
     }
   }
@@ -134,14 +169,17 @@ export class ClockworkService {
    */
   public async resumeThread(threadPubkey: string) {
     try {
-      const authority = this.keypair.publicKey;
+      const authority = this.signer.publicKey;
       const ix = await this.clockworkProvider.threadResume(
         authority,
         new PublicKey(threadPubkey)
       );
       return ix;
     } catch (error) {
-      console.error("❌ Error resuming thread:", error);
+      this.logger.debug("Error resuming thread", {
+        method: "resumeThread",
+        error,
+      });
       throw error;
     }
   }
@@ -150,7 +188,7 @@ export class ClockworkService {
    * Utility: get wallet pubkey
    */
   public getWalletPublicKey(): PublicKey {
-    return this.keypair.publicKey;
+    return this.signer.publicKey;
   }
 
   /**
@@ -0,0 +1,21 @@
+// Shared infrastructure without any protocol SDK, for the
+// "forgexai-sdk/core" entry point
+export * from "./utils/connection.js";
+export * from "./utils/transaction-executor.js";
+export * from "./utils/priority-fees.js";
+export * from "./utils/simulation.js";
+export * from "./utils/http.js";
+export * from "./utils/cache.js";
+export * from "./utils/logger.js";
+export * from "./utils/errors.js";
+export * from "./utils/rpc-pool.js";
+export * from "./utils/signer.js";
+export * from "./utils/lookup-tables.js";
+export * from "./utils/transaction-packer.js";
+export * from "./utils/jito-bundles.js";
+export * from "./utils/telemetry.js";
+export * from "./utils/plugins.js";
+export * from "./utils/addresses.js";
+export * from "./utils/token-registry.js";
+export * from "./utils/token-amount.js";
+export * from "./utils/schema.js";
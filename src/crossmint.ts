@@ -6,9 +6,11 @@ import {
   type Wallet,
   type Chain,
 } from "@crossmint/wallets-sdk";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
 
 export interface CrossmintConfig {
   apiKey: string;
+  logger?: Logger;
 }
 export interface WalletConfig {
   chain: Chain;
@@ -32,6 +34,7 @@ export interface CustomTransactionParams {
 export class CrossmintWalletService {
   private crossmintWallets: CrossmintWallets;
   private walletCache: Map<string, Wallet<any>> = new Map();
+  private logger: Logger;
 
   constructor(config: CrossmintConfig) {
     const crossmint = createCrossmint({
@@ -39,6 +42,9 @@ export class CrossmintWalletService {
     });
 
     this.crossmintWallets = CrossmintWallets.from(crossmint);
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "CrossmintWalletService",
+    });
   }
 
   /**
@@ -69,7 +75,9 @@ export class CrossmintWalletService {
           (async (needsAuth, sendEmailWithOtp, verifyOtp) => {
             if (needsAuth) {
               await sendEmailWithOtp();
-              console.log("OTP sent to email. Please verify.");
+              this.logger.info("OTP sent to email", {
+                method: "getOrCreateWallet",
+              });
             }
           }),
       },
@@ -193,10 +201,8 @@ export class CrossmintWalletService {
   }
 }
 
-export async function exampleUsage() {
-  const walletService = new CrossmintWalletService({
-    apiKey: process.env.CROSSMINT_API_KEY!,
-  });
+export async function exampleUsage(apiKey: string) {
+  const walletService = new CrossmintWalletService({ apiKey });
 
   const wallet = await walletService.getOrCreateWallet({
     chain: "solana",
@@ -1,4 +1,6 @@
-import axios from "axios";
+import { AxiosInstance } from "axios";
+import { HttpClient } from "./utils/http.js";
+import type { ServiceOptions } from "./types.js";
 
 const DEXSCREENER_API = "https://api.dexscreener.com";
 
@@ -48,13 +50,21 @@ export interface DexPair {
 }
 
 export class DexScreenerClient {
+  private client: AxiosInstance;
+
+  constructor(options: ServiceOptions = {}) {
+    this.client = (options.httpClient || new HttpClient()).create({
+      baseURL: DEXSCREENER_API,
+    });
+  }
+
   async getTokenPairs(
     chainId: string,
     tokenAddress: string
   ): Promise<DexPair[]> {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/latest/dex/tokens/${chainId}/${tokenAddress}`
+      const response = await this.client.get(
+        `/latest/dex/tokens/${chainId}/${tokenAddress}`
       );
       return response.data.pairs || [];
     } catch (error: any) {
@@ -64,7 +74,7 @@ export class DexScreenerClient {
 
   async searchPairs(query: string): Promise<DexPair[]> {
     try {
-      const response = await axios.get(`${DEXSCREENER_API}/latest/dex/search`, {
+      const response = await this.client.get(`/latest/dex/search`, {
         params: { q: query },
       });
       return response.data.pairs || [];
@@ -78,8 +88,8 @@ export class DexScreenerClient {
     pairAddress: string
   ): Promise<DexPair | null> {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/latest/dex/pairs/${chainId}/${pairAddress}`
+      const response = await this.client.get(
+        `/latest/dex/pairs/${chainId}/${pairAddress}`
       );
       return response.data.pairs?.[0] || null;
     } catch (error: any) {
@@ -89,9 +99,7 @@ export class DexScreenerClient {
 
   async getLatestTokenProfiles() {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/token-profiles/latest/v1`
-      );
+      const response = await this.client.get(`/token-profiles/latest/v1`);
       return response.data;
     } catch (error: any) {
       throw new Error(`Failed to get token profiles: ${error.message}`);
@@ -100,9 +108,7 @@ export class DexScreenerClient {
 
   async getLatestBoostedTokens() {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/token-boosts/latest/v1`
-      );
+      const response = await this.client.get(`/token-boosts/latest/v1`);
       return response.data;
     } catch (error: any) {
       throw new Error(`Failed to get boosted tokens: ${error.message}`);
@@ -111,9 +117,7 @@ export class DexScreenerClient {
 
   async getTopBoostedTokens() {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/token-boosts/top/v1`
-      );
+      const response = await this.client.get(`/token-boosts/top/v1`);
       return response.data;
     } catch (error: any) {
       throw new Error(`Failed to get top boosted tokens: ${error.message}`);
@@ -134,8 +138,8 @@ export class DexScreenerClient {
         throw new Error("Maximum 30 token addresses allowed");
       }
       const addressesParam = tokenAddresses.join(",");
-      const response = await axios.get(
-        `${DEXSCREENER_API}/tokens/v1/${chainId}/${addressesParam}`
+      const response = await this.client.get(
+        `/tokens/v1/${chainId}/${addressesParam}`
       );
       return response.data || [];
     } catch (error: any) {
@@ -153,8 +157,8 @@ export class DexScreenerClient {
     tokenAddress: string
   ): Promise<DexPair[]> {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/token-pairs/v1/${chainId}/${tokenAddress}`
+      const response = await this.client.get(
+        `/token-pairs/v1/${chainId}/${tokenAddress}`
       );
       return response.data || [];
     } catch (error: any) {
@@ -172,8 +176,8 @@ export class DexScreenerClient {
     pairId: string
   ): Promise<{ schemaVersion: string; pairs: DexPair[] }> {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/latest/dex/pairs/${chainId}/${pairId}`
+      const response = await this.client.get(
+        `/latest/dex/pairs/${chainId}/${pairId}`
       );
       return response.data;
     } catch (error: any) {
@@ -199,8 +203,8 @@ export class DexScreenerClient {
     }>
   > {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/orders/v1/${chainId}/${tokenAddress}`
+      const response = await this.client.get(
+        `/orders/v1/${chainId}/${tokenAddress}`
       );
       return response.data || [];
     } catch (error: any) {
@@ -216,7 +220,7 @@ export class DexScreenerClient {
     query: string
   ): Promise<{ schemaVersion: string; pairs: DexPair[] }> {
     try {
-      const response = await axios.get(`${DEXSCREENER_API}/latest/dex/search`, {
+      const response = await this.client.get(`/latest/dex/search`, {
         params: { q: query },
       });
       return response.data;
@@ -235,8 +239,8 @@ export class DexScreenerClient {
     tokenAddress: string
   ): Promise<{ schemaVersion: string; pairs: DexPair[] }> {
     try {
-      const response = await axios.get(
-        `${DEXSCREENER_API}/latest/dex/tokens/${chainId}/${tokenAddress}`
+      const response = await this.client.get(
+        `/latest/dex/tokens/${chainId}/${tokenAddress}`
       );
       return response.data;
     } catch (error: any) {
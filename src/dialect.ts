@@ -13,12 +13,29 @@ import {
 } from "@dialectlabs/sdk";
 
 import {
-  NodeDialectSolanaWalletAdapter,
   Solana,
   SolanaSdkFactory,
+  type DialectSolanaWalletAdapter,
 } from "@dialectlabs/blockchain-sdk-solana";
 
-import { PublicKey, Keypair } from "@solana/web3.js";
+import { Connection, PublicKey, Keypair } from "@solana/web3.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import {
+  KeypairSigner,
+  toSigner,
+  type Signer,
+  type SignerInput,
+} from "./utils/signer.js";
+import { getClusterUrl } from "./utils/connection.js";
+import type { ServiceOptions } from "./types.js";
+
+export interface DialectServiceOptions extends ServiceOptions {
+  /** Wallet messaging as; takes precedence over keypair credentials */
+  signer?: SignerInput;
+  /** Shared connection; defaults to `rpcUrl` or the network's public endpoint */
+  connection?: Connection;
+}
 
 /**
  * DialectService
@@ -32,6 +49,9 @@ import { PublicKey, Keypair } from "@solana/web3.js";
 export class DialectService {
   private sdk: DialectSdk<Solana>;
   private apikey: string;
+  private signer?: Signer;
+  private connection: Connection;
+  private logger: Logger;
   constructor(
     private readonly network:
       | "mainnet-beta"
@@ -39,33 +59,29 @@ export class DialectService {
       | "testnet" = "mainnet-beta",
     private readonly rpcUrl?: string,
     private readonly dialectApiUrl?: string,
-    apikey?: string
+    apikey?: string,
+    options: DialectServiceOptions = {}
   ) {
-    this.apikey = apikey || process.env.DIALECT_API_KEY || "";
+    this.apikey = apikey || "";
+    if (options.signer) {
+      this.signer = toSigner(options.signer);
+    }
+    this.connection =
+      options.connection ||
+      new Connection(this.rpcUrl || getClusterUrl(this.network));
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "DialectService",
+    });
   }
 
   /**
    * Initialize the Dialect SDK
-   * NOTE: Requires DIALECT_SDK_CREDENTIALS in your environment
-   *       (Solana keypair JSON array)
+   * NOTE: Requires a signer, or credentials (Solana keypair JSON array)
+   *       passed as the API key
    */
   public async init() {
     try {
-      const credentials = this.apikey;
-      if (!credentials) {
-        throw new Error(
-          "Missing DIALECT_SDK_CREDENTIALS (expects a JSON array keypair)"
-        );
-      }
-
-      const secret = Uint8Array.from(JSON.parse(credentials));
-      const keypair = Keypair.fromSecretKey(secret);
-
-      const rpc =
-        this.rpcUrl ||
-        (this.network === "mainnet-beta"
-          ? "https://api.mainnet-beta.solana.com"
-          : "https://api.devnet.solana.com");
+      const wallet = toWalletAdapter(this.signer || this.credentialsSigner());
 
       const dialectCloud = {
         url: this.dialectApiUrl || "https://api.dialect.to",
@@ -77,8 +93,6 @@ export class DialectService {
 
       const encryptionKeysStore = EncryptionKeysStore.createInMemory();
 
-      const walletAdapter = NodeDialectSolanaWalletAdapter.create();
-
       this.sdk = Dialect.sdk(
         {
           environment,
@@ -86,13 +100,19 @@ export class DialectService {
           encryptionKeysStore,
         },
         SolanaSdkFactory.create({
-          wallet: walletAdapter,
+          wallet,
         })
       );
 
-      console.log("✅ Dialect SDK initialized for", this.network);
+      this.logger.info("Dialect SDK initialized", {
+        method: "init",
+        network: this.network,
+      });
     } catch (err) {
-      console.error("❌ Failed to initialize Dialect SDK:", err);
+      this.logger.debug("Failed to initialize Dialect SDK", {
+        method: "init",
+        error: err,
+      });
       throw err;
     }
   }
@@ -105,7 +125,10 @@ export class DialectService {
     try {
       return await this.sdk.threads.findAll();
     } catch (err) {
-      console.error("❌ Error fetching threads:", err);
+      this.logger.debug("Error fetching threads", {
+        method: "getAllThreads",
+        error: err,
+      });
       throw err;
     }
   }
@@ -120,7 +143,10 @@ export class DialectService {
     try {
       return await this.sdk.threads.find(query);
     } catch (err) {
-      console.error("❌ Error fetching thread:", err);
+      this.logger.debug("Error fetching thread", {
+        method: "getThreadById",
+        error: err,
+      });
       throw err;
     }
   }
@@ -148,7 +174,10 @@ export class DialectService {
       return await this.sdk.threads.create(command);
       return await this.sdk.threads.create(command);
     } catch (err) {
-      console.error("❌ Error creating thread:", err);
+      this.logger.debug("Error creating thread", {
+        method: "createThread",
+        error: err,
+      });
       throw err;
     }
   }
@@ -162,7 +191,10 @@ export class DialectService {
       const command: SendMessageCommand = { text };
       await thread.send(command);
     } catch (err) {
-      console.error("❌ Error sending message:", err);
+      this.logger.debug("Error sending message", {
+        method: "sendMessage",
+        error: err,
+      });
       throw err;
     }
   }
@@ -175,7 +207,10 @@ export class DialectService {
     try {
       return await thread.messages();
     } catch (err) {
-      console.error("❌ Error fetching messages:", err);
+      this.logger.debug("Error fetching messages", {
+        method: "getMessages",
+        error: err,
+      });
       throw err;
     }
   }
@@ -188,7 +223,10 @@ export class DialectService {
     try {
       await thread.delete();
     } catch (err) {
-      console.error("❌ Error deleting thread:", err);
+      this.logger.debug("Error deleting thread", {
+        method: "deleteThread",
+        error: err,
+      });
       throw err;
     }
   }
@@ -204,10 +242,13 @@ export class DialectService {
         description,
         blockchainType: BlockchainType.SOLANA,
       });
-      console.log(`✅ Dapp registered: ${name}`);
+      this.logger.info("Dapp registered", { method: "registerDapp", name });
       return dapp;
     } catch (err) {
-      console.error("❌ Error registering dapp:", err);
+      this.logger.debug("Error registering dapp", {
+        method: "registerDapp",
+        error: err,
+      });
       throw err;
     }
   }
@@ -220,7 +261,10 @@ export class DialectService {
     try {
       return await this.sdk.dapps.find();
     } catch (err) {
-      console.error("❌ Error fetching dapp:", err);
+      this.logger.debug("Error fetching dapp", {
+        method: "getDapp",
+        error: err,
+      });
       throw err;
     }
   }
@@ -233,7 +277,10 @@ export class DialectService {
     try {
       return await this.sdk.dapps.findAll();
     } catch (err) {
-      console.error("❌ Error fetching dapps:", err);
+      this.logger.debug("Error fetching dapps", {
+        method: "getAllDapps",
+        error: err,
+      });
       throw err;
     }
   }
@@ -248,7 +295,10 @@ export class DialectService {
         dappVerified: true,
       });
     } catch (err) {
-      console.error("❌ Error fetching whitelisted messages:", err);
+      this.logger.debug("Error fetching whitelisted messages", {
+        method: "getWhitelistedMessages",
+        error: err,
+      });
       throw err;
     }
   }
@@ -261,9 +311,44 @@ export class DialectService {
     return this.sdk.wallet.address ?? "unknown";
   }
 
+  /**
+   * Utility: get connection
+   */
+  public getConnection(): Connection {
+    return this.connection;
+  }
+
   private ensureInitialized() {
     if (!this.sdk) {
-      throw new Error("⚠️ DialectService not initialized. Call init() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "⚠️ DialectService not initialized. Call init() first.",
+        undefined,
+        { service: "DialectService" }
+      );
     }
   }
+
+  private credentialsSigner(): Signer {
+    if (!this.apikey) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "Missing Dialect signer or credentials (expects a JSON array keypair)",
+        undefined,
+        { service: "DialectService", method: "init" }
+      );
+    }
+    const secret = Uint8Array.from(JSON.parse(this.apikey));
+    return new KeypairSigner(Keypair.fromSecretKey(secret));
+  }
+}
+
+function toWalletAdapter(signer: Signer): DialectSolanaWalletAdapter {
+  return {
+    publicKey: signer.publicKey,
+    signTransaction: (transaction) => signer.signTransaction(transaction),
+    signAllTransactions: (transactions) =>
+      signer.signAllTransactions(transactions),
+    signMessage: (message) => signer.signMessage(message),
+  };
 }
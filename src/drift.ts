@@ -1,18 +1,30 @@
 import {
+  BN,
   DriftClient as Drift,
-  Wallet,
-  loadKeypair,
   OrderType,
   PositionDirection,
-  convertToNumber,
 } from "@drift-labs/sdk";
-import { Connection } from "@solana/web3.js";
+import { Connection, Transaction } from "@solana/web3.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
+
+// Drift's fixed-point precisions: quote (USDC) values and perp base sizes
+const QUOTE_DECIMALS = 6;
+const BASE_DECIMALS = 9;
 
 export interface DriftOrderParams {
   marketIndex: number;
   side: "buy" | "sell";
-  size: number;
-  price?: number;
+  /** Base asset size */
+  size: AmountInput;
+  /** Limit price in USDC */
+  price?: AmountInput;
   orderType?: "market" | "limit";
   reduceOnly?: boolean;
   postOnly?: boolean;
@@ -21,12 +33,19 @@ export interface DriftOrderParams {
 export class DriftClient {
   private client: Drift;
   private connection: Connection;
-  private wallet?: Wallet;
+  private wallet?: Signer;
+  private simulator: TransactionSimulator;
+  private logger: Logger;
 
+  /**
+   * @param signer Keypair, browser wallet or signer; in Node, loadKeypairFile()
+   * from "forgexai-sdk/node" reads one from disk
+   */
   constructor(
     rpcUrl: Connection | string,
-    keypairPath?: string,
-    private env: "mainnet-beta" | "devnet" = "devnet"
+    signer?: SignerInput,
+    private env: "mainnet-beta" | "devnet" = "devnet",
+    options: ServiceOptions = {}
   ) {
     if (typeof rpcUrl === "string") {
       this.connection = new Connection(rpcUrl, "confirmed");
@@ -34,9 +53,13 @@ export class DriftClient {
       this.connection = rpcUrl;
     }
 
-    if (keypairPath) {
-      const keypair = loadKeypair(keypairPath);
-      this.wallet = new Wallet(keypair);
+    this.simulator = new TransactionSimulator(this.connection);
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "DriftClient",
+    });
+
+    if (signer) {
+      this.wallet = toSigner(signer);
       this.client = new Drift({
         connection: this.connection,
         wallet: this.wallet,
@@ -51,22 +74,26 @@ export class DriftClient {
   }
   async init() {
     await this.client.subscribe();
-    console.log(`DriftClient initialized for ${this.env}`);
+    this.logger.info("Drift client initialized", {
+      method: "init",
+      env: this.env,
+    });
   }
 
   async getUser() {
     const user = this.client.getUser();
-    const totalCollateral = convertToNumber(await user.getTotalCollateral());
-    const freeCollateral = convertToNumber(await user.getFreeCollateral());
+    const totalCollateral = quote(await user.getTotalCollateral());
+    const freeCollateral = quote(await user.getFreeCollateral());
     const leverage = await user.getLeverage();
-    const pnl = await user.getUnrealizedPNL();
+    const pnl = quote((await user.getUnrealizedPNL()) || 0);
 
     return {
       publicKey: user.userAccountPublicKey.toBase58(),
-      totalCollateral,
-      freeCollateral,
+      totalCollateral: totalCollateral.toNumber(),
+      freeCollateral: freeCollateral.toNumber(),
       leverage,
-      pnl: pnl ? convertToNumber(pnl) : 0,
+      pnl: pnl.toNumber(),
+      amounts: { totalCollateral, freeCollateral, pnl },
     };
   }
 
@@ -80,19 +107,12 @@ export class DriftClient {
     for (const position of positions) {
       if (position.baseAssetAmount.eqn(0)) continue;
 
-      const marketIndex = position.marketIndex;
-      const baseAmount = convertToNumber(position.baseAssetAmount);
-      const quoteEntryAmount = convertToNumber(position.quoteEntryAmount);
-      const pnl = convertToNumber(
-        await user.getUnrealizedPNL(true, marketIndex)
+      positionDetails.push(
+        perpPositionDetails(
+          position,
+          await user.getUnrealizedPNL(true, position.marketIndex)
+        )
       );
-
-      positionDetails.push({
-        marketIndex,
-        baseAmount,
-        quoteEntryAmount,
-        pnl,
-      });
     }
 
     return positionDetails;
@@ -103,74 +123,126 @@ export class DriftClient {
     const position = user.getPerpPosition(marketIndex);
     if (!position) return null;
 
-    return {
-      marketIndex,
-      baseAmount: convertToNumber(position.baseAssetAmount),
-      quoteEntryAmount: convertToNumber(position.quoteEntryAmount),
-      pnl: convertToNumber(await user.getUnrealizedPNL(true, marketIndex)),
-    };
+    return perpPositionDetails(
+      position,
+      await user.getUnrealizedPNL(true, marketIndex)
+    );
   }
 
+  /**
+   * Spot balance as a number; see getSpotTokenAmount() for the exact amount
+   */
   async getSpotBalance(marketIndex: number = 0) {
+    return (await this.getSpotTokenAmount(marketIndex)).toNumber();
+  }
+
+  async getSpotTokenAmount(marketIndex: number = 0): Promise<TokenAmount> {
     const user = this.client.getUser();
-    const tokenAmount = user.getTokenAmount(marketIndex);
-    return convertToNumber(tokenAmount);
+    return TokenAmount.fromRaw(
+      user.getTokenAmount(marketIndex),
+      this.spotDecimals(marketIndex)
+    );
   }
 
-  async placePerpOrder(order: DriftOrderParams) {
+  /**
+   * Place a perp order, or simulate it without sending when `dryRun` is set
+   */
+  async placePerpOrder(order: DriftOrderParams): Promise<string>;
+  async placePerpOrder(
+    order: DriftOrderParams,
+    options: { dryRun: true }
+  ): Promise<SimulationResult>;
+  async placePerpOrder(
+    order: DriftOrderParams,
+    options?: { dryRun?: boolean }
+  ): Promise<string | SimulationResult> {
     const params = {
       orderType:
         order.orderType === "market" ? OrderType.MARKET : OrderType.LIMIT,
       marketIndex: order.marketIndex,
       direction:
         order.side === "buy" ? PositionDirection.LONG : PositionDirection.SHORT,
-      baseAssetAmount: this.client.convertToPerpPrecision(order.size),
-      price: order.price ? this.client.convertToPricePrecision(order.price) : 0,
+      baseAssetAmount: toBN(order.size, BASE_DECIMALS),
+      price: order.price ? toBN(order.price, QUOTE_DECIMALS) : 0,
       reduceOnly: order.reduceOnly || false,
       postOnly:
         order.postOnly === true ? { mustPostOnly: true } : { none: true },
     } as any;
 
+    if (options?.dryRun) {
+      const ix = await this.client.getPlacePerpOrderIx(params);
+      return this.simulator.simulate(
+        new Transaction().add(ix),
+        this.client.wallet.publicKey
+      );
+    }
+
+    const start = Date.now();
     const txSig = await this.client.placePerpOrder(params);
-    console.log(`✅ Order placed with signature: ${txSig}`);
+    this.logger.info("Order placed", {
+      method: "placePerpOrder",
+      signature: txSig,
+      marketIndex: order.marketIndex,
+      durationMs: Date.now() - start,
+    });
     return txSig;
   }
 
   async cancelOrder(orderId: number) {
+    const start = Date.now();
     const txSig = await this.client.cancelOrder(orderId);
-    console.log(`🛑 Order ${orderId} canceled - tx: ${txSig}`);
+    this.logger.info("Order canceled", {
+      method: "cancelOrder",
+      signature: txSig,
+      orderId,
+      durationMs: Date.now() - start,
+    });
     return txSig;
   }
 
-  async modifyOrder(orderId: number, price?: number, size?: number) {
+  async modifyOrder(orderId: number, price?: AmountInput, size?: AmountInput) {
     const modifyParams: any = { orderId };
-    if (price)
-      modifyParams.newLimitPrice = this.client.convertToPricePrecision(price);
-    if (size)
-      modifyParams.newBaseAmount = this.client.convertToPerpPrecision(size);
+    if (price) modifyParams.newLimitPrice = toBN(price, QUOTE_DECIMALS);
+    if (size) modifyParams.newBaseAmount = toBN(size, BASE_DECIMALS);
 
+    const start = Date.now();
     const txSig = await this.client.modifyOrder(modifyParams);
-    console.log(`✏️ Order ${orderId} modified - tx: ${txSig}`);
+    this.logger.info("Order modified", {
+      method: "modifyOrder",
+      signature: txSig,
+      orderId,
+      durationMs: Date.now() - start,
+    });
     return txSig;
   }
 
-  async deposit(amount: number, marketIndex = 0) {
+  async deposit(amount: AmountInput, marketIndex = 0) {
     const ata = await this.client.getAssociatedTokenAccount(marketIndex);
-    const amt = this.client.convertToSpotPrecision(marketIndex, amount);
+    const amt = toBN(amount, this.spotDecimals(marketIndex));
+    const start = Date.now();
     const txSig = await this.client.deposit(amt, marketIndex, ata);
-    console.log(
-      `💰 Deposited ${amount} to market ${marketIndex} - tx: ${txSig}`
-    );
+    this.logger.info("Deposited", {
+      method: "deposit",
+      signature: txSig,
+      amount: amount.toString(),
+      marketIndex,
+      durationMs: Date.now() - start,
+    });
     return txSig;
   }
 
-  async withdraw(amount: number, marketIndex = 0) {
+  async withdraw(amount: AmountInput, marketIndex = 0) {
     const ata = await this.client.getAssociatedTokenAccount(marketIndex);
-    const amt = this.client.convertToSpotPrecision(marketIndex, amount);
+    const amt = toBN(amount, this.spotDecimals(marketIndex));
+    const start = Date.now();
     const txSig = await this.client.withdraw(amt, marketIndex, ata);
-    console.log(
-      `🏦 Withdrawn ${amount} from market ${marketIndex} - tx: ${txSig}`
-    );
+    this.logger.info("Withdrawn", {
+      method: "withdraw",
+      signature: txSig,
+      amount: amount.toString(),
+      marketIndex,
+      durationMs: Date.now() - start,
+    });
     return txSig;
   }
 
@@ -182,6 +254,38 @@ export class DriftClient {
 
   async close() {
     await this.client.unsubscribe();
-    console.log("Drift client unsubscribed and resources freed.");
+    this.logger.info("Drift client unsubscribed", { method: "close" });
+  }
+
+  private spotDecimals(marketIndex: number): number {
+    return this.client.getSpotMarketAccount(marketIndex).decimals;
   }
 }
+
+function quote(value: BN | number): TokenAmount {
+  return TokenAmount.fromRaw(value, QUOTE_DECIMALS);
+}
+
+function toBN(amount: AmountInput, decimals: number): BN {
+  return new BN(TokenAmount.from(amount, decimals).raw.toString());
+}
+
+// Numbers for compatibility, with the exact amounts under `amounts`
+function perpPositionDetails(
+  position: { marketIndex: number; baseAssetAmount: BN; quoteEntryAmount: BN },
+  unrealizedPnl: BN
+) {
+  const baseAmount = TokenAmount.fromRaw(
+    position.baseAssetAmount,
+    BASE_DECIMALS
+  );
+  const quoteEntryAmount = quote(position.quoteEntryAmount);
+  const pnl = quote(unrealizedPnl);
+  return {
+    marketIndex: position.marketIndex,
+    baseAmount: baseAmount.toNumber(),
+    quoteEntryAmount: quoteEntryAmount.toNumber(),
+    pnl: pnl.toNumber(),
+    amounts: { baseAmount, quoteEntryAmount, pnl },
+  };
+}
@@ -13,21 +13,26 @@ import {
 } from "@elusiv/sdk";
 import { sign } from "@noble/ed25519";
 import { Cluster } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import type { TokenSource } from "./utils/token-registry.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
 
 export interface ElusivPrivateTransferParams {
-  amount: number;
+  amount: AmountInput;
   recipient: PublicKey;
   token: TokenType;
   memo?: string;
 }
 
 export interface ElusivTopUpParams {
-  amount: number;
+  amount: AmountInput;
   token: TokenType;
 }
 
 export interface ElusivWithdrawParams {
-  amount: number;
+  amount: AmountInput;
   token: TokenType;
   recipient: PublicKey;
 }
@@ -38,6 +43,8 @@ export interface ElusivBalanceInfo {
   privateBalance: bigint;
   formattedPublicBalance: string;
   formattedPrivateBalance: string;
+  publicAmount: TokenAmount;
+  privateAmount: TokenAmount;
   decimals: number;
 }
 
@@ -50,6 +57,7 @@ export interface ElusivTransactionResult {
 export interface ElusivConfig {
   cluster: "mainnet-beta" | "devnet" | "testnet";
   commitment?: "processed" | "confirmed" | "finalized";
+  logger?: Logger;
 }
 
 /**
@@ -65,11 +73,15 @@ export class ElusivClient {
   private elusivInstance?: Elusiv;
   private keypair?: Keypair;
   private config: ElusivConfig;
+  private logger: Logger;
 
   constructor(connection: Connection, config: ElusivConfig) {
     this.connection = connection;
     this.cluster = config.cluster;
     this.config = config;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "ElusivClient",
+    });
   }
 
   /**
@@ -92,11 +104,15 @@ export class ElusivClient {
         this.cluster
       );
 
-      console.log(
-        `Elusiv instance initialized for ${keypair.publicKey.toBase58()}`
-      );
+      this.logger.info("Elusiv instance initialized", {
+        method: "initialize",
+        wallet: keypair.publicKey.toBase58(),
+      });
     } catch (error) {
-      console.error("Failed to initialize Elusiv:", error);
+      this.logger.debug("Failed to initialize Elusiv", {
+        method: "initialize",
+        error,
+      });
       throw new Error(`Elusiv initialization failed: ${error}`);
     }
   }
@@ -151,7 +167,10 @@ export class ElusivClient {
 
       return associatedTokenAddress;
     } catch (error) {
-      console.error("Error in getOrCreateAssociatedTokenAccount:", error);
+      this.logger.debug("Error in getOrCreateAssociatedTokenAccount", {
+        method: "getOrCreateAssociatedTokenAccount",
+        error,
+      });
       throw error;
     }
   }
@@ -171,6 +190,30 @@ export class ElusivClient {
     ] as TokenType[];
   }
 
+  /**
+   * Elusiv's supported SPL tokens as a TokenRegistry source
+   */
+  public getTokenSource(): TokenSource {
+    return {
+      name: "elusiv",
+      verified: true,
+      list: async () =>
+        this.getSupportedTokens()
+          .filter((token) => token !== "LAMPORTS")
+          .map((token) => {
+            const info = this.getTokenInfo(token);
+            return {
+              mint: (this.cluster === "devnet"
+                ? info.mintDevnet
+                : info.mintMainnet
+              ).toString(),
+              symbol: token,
+              decimals: info.decimals,
+            };
+          }),
+    };
+  }
+
   /**
    * Get token information for a supported currency
    */
@@ -187,13 +230,17 @@ export class ElusivClient {
    */
   public async getBalances(token: TokenType): Promise<ElusivBalanceInfo> {
     if (!this.elusivInstance || !this.keypair) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
       const tokenInfo = this.getTokenInfo(token);
       const decimals = tokenInfo.decimals;
-      const divisor = BigInt(10 ** decimals);
 
       const privateBalance = await this.elusivInstance.getLatestPrivateBalance(
         token
@@ -228,16 +275,16 @@ export class ElusivClient {
         }
       }
 
+      const publicAmount = TokenAmount.fromRaw(publicBalance, decimals);
+      const privateAmount = TokenAmount.fromRaw(privateBalance, decimals);
       return {
         token,
         publicBalance,
         privateBalance,
-        formattedPublicBalance: (
-          Number(publicBalance) / Number(divisor)
-        ).toString(),
-        formattedPrivateBalance: (
-          Number(privateBalance) / Number(divisor)
-        ).toString(),
+        formattedPublicBalance: publicAmount.toString(),
+        formattedPrivateBalance: privateAmount.toString(),
+        publicAmount,
+        privateAmount,
         decimals,
       };
     } catch (error) {
@@ -252,19 +299,26 @@ export class ElusivClient {
     params: ElusivTopUpParams
   ): Promise<ElusivTransactionResult> {
     if (!this.elusivInstance || !this.keypair) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
       const tokenInfo = this.getTokenInfo(params.token);
-      const lamportAmount = params.amount * 10 ** tokenInfo.decimals;
+      const amount = TokenAmount.from(params.amount, tokenInfo.decimals);
 
-      console.log(
-        `Topping up ${params.amount} ${params.token} to private balance...`
-      );
+      this.logger.info("Topping up private balance", {
+        method: "topUpPrivateBalance",
+        amount: amount.toString(),
+        token: params.token,
+      });
 
       const topupTx = await this.elusivInstance.buildTopUpTx(
-        lamportAmount,
+        amount.toRawNumber(),
         params.token
       );
       topupTx.tx.partialSign(this.keypair);
@@ -288,30 +342,36 @@ export class ElusivClient {
     params: ElusivPrivateTransferParams
   ): Promise<ElusivTransactionResult> {
     if (!this.elusivInstance || !this.keypair) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
       const tokenInfo = this.getTokenInfo(params.token);
-      const lamportAmount = params.amount * 10 ** tokenInfo.decimals;
+      const amount = TokenAmount.from(params.amount, tokenInfo.decimals);
 
       const privateBalance = await this.elusivInstance.getLatestPrivateBalance(
         params.token
       );
-      if (privateBalance < BigInt(lamportAmount)) {
+      if (privateBalance < amount.raw) {
         throw new Error(
-          `Insufficient private balance. Have: ${privateBalance}, Need: ${lamportAmount}`
+          `Insufficient private balance. Have: ${privateBalance}, Need: ${amount.raw}`
         );
       }
 
-      console.log(
-        `Sending ${params.amount} ${
-          params.token
-        } privately to ${params.recipient.toBase58()}...`
-      );
+      // Recipient deliberately left out of logs
+      this.logger.info("Sending private transfer", {
+        method: "sendPrivateTransfer",
+        amount: amount.toString(),
+        token: params.token,
+      });
 
       const sendTx = await this.elusivInstance.buildSendTx(
-        lamportAmount,
+        amount.toRawNumber(),
         params.recipient,
         params.token
       );
@@ -335,28 +395,35 @@ export class ElusivClient {
     params: ElusivWithdrawParams
   ): Promise<ElusivTransactionResult> {
     if (!this.elusivInstance || !this.keypair) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
       const tokenInfo = this.getTokenInfo(params.token);
-      const lamportAmount = params.amount * 10 ** tokenInfo.decimals;
+      const amount = TokenAmount.from(params.amount, tokenInfo.decimals);
 
       const privateBalance = await this.elusivInstance.getLatestPrivateBalance(
         params.token
       );
-      if (privateBalance < BigInt(lamportAmount)) {
+      if (privateBalance < amount.raw) {
         throw new Error(
-          `Insufficient private balance. Have: ${privateBalance}, Need: ${lamportAmount}`
+          `Insufficient private balance. Have: ${privateBalance}, Need: ${amount.raw}`
         );
       }
 
-      console.log(
-        `Withdrawing ${params.amount} ${params.token} from private balance...`
-      );
+      this.logger.info("Withdrawing from private balance", {
+        method: "withdrawFromPrivate",
+        amount: amount.toString(),
+        token: params.token,
+      });
 
       const sendTx = await this.elusivInstance.buildSendTx(
-        lamportAmount,
+        amount.toRawNumber(),
         params.recipient,
         params.token
       );
@@ -440,7 +507,7 @@ export class ElusivClient {
    */
   public async airdropTestTokens(
     token: TokenType,
-    amount: number
+    amount: AmountInput
   ): Promise<void> {
     if (this.cluster !== "devnet") {
       throw new Error("Airdrop only available on devnet");
@@ -452,7 +519,10 @@ export class ElusivClient {
 
     try {
       const tokenInfo = this.getTokenInfo(token);
-      const lamportAmount = amount * 10 ** tokenInfo.decimals;
+      const lamportAmount = TokenAmount.from(
+        amount,
+        tokenInfo.decimals
+      ).toRawNumber();
 
       if (token === "LAMPORTS") {
         const signature = await this.connection.requestAirdrop(
@@ -460,7 +530,12 @@ export class ElusivClient {
           lamportAmount
         );
         await this.connection.confirmTransaction(signature);
-        console.log(`Airdropped ${amount} SOL`);
+        this.logger.info("Airdropped test tokens", {
+          method: "airdropTestTokens",
+          signature,
+          amount: amount.toString(),
+          token,
+        });
       } else {
         const mintAddress = tokenInfo.mintDevnet;
         const ata = await this.getOrCreateAssociatedTokenAccount(
@@ -470,7 +545,11 @@ export class ElusivClient {
         );
 
         await airdropToken(token, lamportAmount, ata);
-        console.log(`Airdropped ${amount} ${token}`);
+        this.logger.info("Airdropped test tokens", {
+          method: "airdropTestTokens",
+          amount: amount.toString(),
+          token,
+        });
       }
     } catch (error) {
       throw new Error(`Failed to airdrop test tokens: ${error}`);
@@ -505,7 +584,12 @@ export class ElusivClient {
    */
   public async getAllBalances(): Promise<ElusivBalanceInfo[]> {
     if (!this.elusivInstance || !this.keypair) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     const tokens = this.getSupportedTokens();
@@ -516,7 +600,11 @@ export class ElusivClient {
         const balance = await this.getBalances(token);
         balances.push(balance);
       } catch (error) {
-        console.error(`Error fetching balance for ${token}:`, error);
+        this.logger.warn("Error fetching balance", {
+          method: "getAllBalances",
+          token,
+          error,
+        });
       }
     }
 
@@ -528,15 +616,19 @@ export class ElusivClient {
    */
   public async estimatePrivateTransferFee(
     token: TokenType,
-    amount: number
+    amount: AmountInput
   ): Promise<{ fee: number; feeInSOL: string }> {
     if (!this.elusivInstance) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
-      const tokenInfo = this.getTokenInfo(token);
-      const lamportAmount = amount * 10 ** tokenInfo.decimals;
+      this.getTokenInfo(token);
 
       // Elusiv transactions typically cost around 0.001-0.002 SOL
       // This is an estimate as exact fees depend on network conditions
@@ -544,7 +636,7 @@ export class ElusivClient {
 
       return {
         fee: estimatedFee,
-        feeInSOL: (estimatedFee / 1e9).toString(),
+        feeInSOL: TokenAmount.lamports(estimatedFee).toString(),
       };
     } catch (error) {
       throw new Error(`Failed to estimate fee: ${error}`);
@@ -556,26 +648,31 @@ export class ElusivClient {
    */
   public async canSendPrivateTransfer(
     token: TokenType,
-    amount: number
+    amount: AmountInput
   ): Promise<{ canSend: boolean; currentBalance: string; required: string }> {
     if (!this.elusivInstance) {
-      throw new Error("Elusiv not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Elusiv not initialized. Call initialize() first.",
+        undefined,
+        { service: "ElusivClient" }
+      );
     }
 
     try {
       const tokenInfo = this.getTokenInfo(token);
-      const lamportAmount = amount * 10 ** tokenInfo.decimals;
+      const required = TokenAmount.from(amount, tokenInfo.decimals);
       const privateBalance = await this.elusivInstance.getLatestPrivateBalance(
         token
       );
 
       return {
-        canSend: privateBalance >= BigInt(lamportAmount),
-        currentBalance: (
-          Number(privateBalance) /
-          10 ** tokenInfo.decimals
+        canSend: required.lte(privateBalance),
+        currentBalance: TokenAmount.fromRaw(
+          privateBalance,
+          tokenInfo.decimals
         ).toString(),
-        required: amount.toString(),
+        required: required.toString(),
       };
     } catch (error) {
       throw new Error(`Failed to check transfer eligibility: ${error}`);
@@ -1,10 +1,13 @@
-import axios from "axios";
+import { AxiosInstance } from "axios";
 import { Connection, PublicKey } from "@solana/web3.js";
 import type {
   HeliusNftMetadata,
   HeliusWalletActivity,
   HeliusWebhookConfig,
-} from "./types";
+  ServiceOptions,
+} from "./types.js";
+import { HttpClient } from "./utils/http.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
 
 const HELIUS_API_BASE = "https://api.helius.xyz/v1";
 
@@ -14,18 +17,31 @@ const HELIUS_API_BASE = "https://api.helius.xyz/v1";
 export class HeliusClient {
   private apiKey: string;
   private connection: Connection;
+  private client: AxiosInstance;
+  private logger: Logger;
 
   /**
    * Create a new Helius client instance
    * @param connection - Solana connection
    * @param apiKey - Helius API key (required)
+   * @param options - Shared HTTP client and logger
    */
-  constructor(connection: Connection, apiKey: string) {
+  constructor(
+    connection: Connection,
+    apiKey: string,
+    options: ServiceOptions = {}
+  ) {
     if (!apiKey) {
       throw new Error("Helius API key is required");
     }
     this.connection = connection;
     this.apiKey = apiKey;
+    this.client = (options.httpClient || new HttpClient()).create({
+      baseURL: HELIUS_API_BASE,
+    });
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "HeliusClient",
+    });
   }
 
   /**
@@ -35,17 +51,14 @@ export class HeliusClient {
    */
   async getNftMetadata(mintAddress: string): Promise<HeliusNftMetadata> {
     try {
-      const response = await axios.post(
-        `${HELIUS_API_BASE}/nfts?api-key=${this.apiKey}`,
-        {
-          query: {
-            mintAccounts: [mintAddress],
-          },
-          options: {
-            showCollectionMetadata: true,
-          },
-        }
-      );
+      const response = await this.client.post(`/nfts?api-key=${this.apiKey}`, {
+        query: {
+          mintAccounts: [mintAddress],
+        },
+        options: {
+          showCollectionMetadata: true,
+        },
+      });
 
       if (
         !response.data ||
@@ -72,7 +85,11 @@ export class HeliusClient {
         royalty: nft.royalty,
       };
     } catch (error) {
-      console.error(`Error fetching NFT metadata for ${mintAddress}:`, error);
+      this.logger.debug("Error fetching NFT metadata", {
+        method: "getNftMetadata",
+        mint: mintAddress,
+        error,
+      });
       throw new Error(
         `Failed to fetch NFT metadata: ${(error as Error).message}`
       );
@@ -88,17 +105,14 @@ export class HeliusClient {
     mintAddresses: string[]
   ): Promise<HeliusNftMetadata[]> {
     try {
-      const response = await axios.post(
-        `${HELIUS_API_BASE}/nfts?api-key=${this.apiKey}`,
-        {
-          query: {
-            mintAccounts: mintAddresses,
-          },
-          options: {
-            showCollectionMetadata: true,
-          },
-        }
-      );
+      const response = await this.client.post(`/nfts?api-key=${this.apiKey}`, {
+        query: {
+          mintAccounts: mintAddresses,
+        },
+        options: {
+          showCollectionMetadata: true,
+        },
+      });
 
       if (
         !response.data ||
@@ -123,7 +137,10 @@ export class HeliusClient {
         royalty: nft.royalty,
       }));
     } catch (error) {
-      console.error("Error fetching batch NFT metadata:", error);
+      this.logger.debug("Error fetching batch NFT metadata", {
+        method: "getBatchNftMetadata",
+        error,
+      });
       throw new Error(
         `Failed to fetch batch NFT metadata: ${(error as Error).message}`
       );
@@ -137,17 +154,14 @@ export class HeliusClient {
    */
   async getWalletNfts(walletAddress: string): Promise<HeliusNftMetadata[]> {
     try {
-      const response = await axios.post(
-        `${HELIUS_API_BASE}/nfts?api-key=${this.apiKey}`,
-        {
-          query: {
-            ownerAddress: walletAddress,
-          },
-          options: {
-            showCollectionMetadata: true,
-          },
-        }
-      );
+      const response = await this.client.post(`/nfts?api-key=${this.apiKey}`, {
+        query: {
+          ownerAddress: walletAddress,
+        },
+        options: {
+          showCollectionMetadata: true,
+        },
+      });
 
       if (
         !response.data ||
@@ -172,7 +186,11 @@ export class HeliusClient {
         royalty: nft.royalty,
       }));
     } catch (error) {
-      console.error(`Error fetching NFTs for wallet ${walletAddress}:`, error);
+      this.logger.debug("Error fetching wallet NFTs", {
+        method: "getWalletNfts",
+        wallet: walletAddress,
+        error,
+      });
       throw new Error(
         `Failed to fetch wallet NFTs: ${(error as Error).message}`
       );
@@ -190,8 +208,8 @@ export class HeliusClient {
     limit = 10
   ): Promise<HeliusWalletActivity[]> {
     try {
-      const response = await axios.post(
-        `${HELIUS_API_BASE}/transactions?api-key=${this.apiKey}`,
+      const response = await this.client.post(
+        `/transactions?api-key=${this.apiKey}`,
         {
           query: {
             accounts: [walletAddress],
@@ -222,10 +240,11 @@ export class HeliusClient {
         source: activity.source,
       }));
     } catch (error) {
-      console.error(
-        `Error fetching wallet activity for ${walletAddress}:`,
-        error
-      );
+      this.logger.debug("Error fetching wallet activity", {
+        method: "getWalletActivity",
+        wallet: walletAddress,
+        error,
+      });
       throw new Error(
         `Failed to fetch wallet activity: ${(error as Error).message}`
       );
@@ -253,8 +272,8 @@ export class HeliusClient {
     webhookName?: string;
   }): Promise<HeliusWebhookConfig> {
     try {
-      const response = await axios.post(
-        `${HELIUS_API_BASE}/webhooks?api-key=${this.apiKey}`,
+      const response = await this.client.post(
+        `/webhooks?api-key=${this.apiKey}`,
         {
           webhookURL,
           accountAddresses: walletAddresses,
@@ -273,7 +292,10 @@ export class HeliusClient {
         webhookName: response.data.webhookName,
       };
     } catch (error) {
-      console.error("Error creating Helius webhook:", error);
+      this.logger.debug("Error creating Helius webhook", {
+        method: "createWebhook",
+        error,
+      });
       throw new Error(`Failed to create webhook: ${(error as Error).message}`);
     }
   }
@@ -285,13 +307,15 @@ export class HeliusClient {
    */
   async deleteWebhook(webhookID: string): Promise<{ success: boolean }> {
     try {
-      await axios.delete(
-        `${HELIUS_API_BASE}/webhooks/${webhookID}?api-key=${this.apiKey}`
-      );
+      await this.client.delete(`/webhooks/${webhookID}?api-key=${this.apiKey}`);
 
       return { success: true };
     } catch (error) {
-      console.error(`Error deleting webhook ${webhookID}:`, error);
+      this.logger.debug("Error deleting webhook", {
+        method: "deleteWebhook",
+        webhookID,
+        error,
+      });
       throw new Error(`Failed to delete webhook: ${(error as Error).message}`);
     }
   }
@@ -302,8 +326,8 @@ export class HeliusClient {
    */
   async getWebhooks(): Promise<HeliusWebhookConfig[]> {
     try {
-      const response = await axios.get(
-        `${HELIUS_API_BASE}/webhooks?api-key=${this.apiKey}`
+      const response = await this.client.get(
+        `/webhooks?api-key=${this.apiKey}`
       );
 
       return response.data.map((webhook: any) => ({
@@ -314,7 +338,10 @@ export class HeliusClient {
         webhookName: webhook.webhookName,
       }));
     } catch (error) {
-      console.error("Error fetching Helius webhooks:", error);
+      this.logger.debug("Error fetching Helius webhooks", {
+        method: "getWebhooks",
+        error,
+      });
       throw new Error(`Failed to fetch webhooks: ${(error as Error).message}`);
     }
   }
@@ -1,10 +1,18 @@
-import axios, { AxiosInstance } from "axios";
+import { AxiosInstance } from "axios";
 import {
   Connection,
   PublicKey,
   Transaction,
+  TransactionInstruction,
   VersionedTransaction,
 } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { HttpClient } from "./utils/http.js";
+import { AddressLookupTableManager } from "./utils/lookup-tables.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import type { TokenSource } from "./utils/token-registry.js";
+import { toBaseUnits, type BaseUnitsInput } from "./utils/token-amount.js";
 
 /**
  * Configuration for Jupiter Service
@@ -13,6 +21,9 @@ export interface JupiterServiceConfig {
   apiKey?: string;
   usePaidTier?: boolean;
   connection?: Connection;
+  httpClient?: HttpClient;
+  cache?: ResponseCache;
+  logger?: Logger;
 }
 
 /**
@@ -229,7 +240,8 @@ export interface SwapStats {
 export interface QuoteParams {
   inputMint: string;
   outputMint: string;
-  amount: number;
+  /** Input amount in base units; a TokenAmount sends its base units */
+  amount: BaseUnitsInput;
   slippageBps?: number;
   swapMode?: "ExactIn" | "ExactOut";
   dexes?: string[];
@@ -407,16 +419,22 @@ export class JupiterService {
   private axiosInstance: AxiosInstance;
   private connection?: Connection;
   private usePaidTier: boolean;
+  private cache: ResponseCache;
+  private logger: Logger;
 
   constructor(config: JupiterServiceConfig = {}) {
     this.connection = config.connection;
     this.usePaidTier = config.usePaidTier || false;
+    this.cache = config.cache || new ResponseCache();
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "JupiterService",
+    });
 
     const baseURL = this.usePaidTier
       ? "https://api.jup.ag"
       : "https://lite-api.jup.ag";
 
-    this.axiosInstance = axios.create({
+    this.axiosInstance = (config.httpClient || new HttpClient()).create({
       baseURL,
       headers: config.apiKey
         ? {
@@ -469,11 +487,13 @@ export class JupiterService {
    * Search for tokens by symbol, name, or mint address
    */
   async searchTokens(query: string): Promise<MintInformation[]> {
-    const response = await this.axiosInstance.get<MintInformation[]>(
-      "/ultra/v1/search",
-      { params: { query } }
-    );
-    return response.data;
+    return this.cache.wrap("jupiter:searchTokens", { query }, async () => {
+      const response = await this.axiosInstance.get<MintInformation[]>(
+        "/ultra/v1/search",
+        { params: { query } }
+      );
+      return response.data;
+    });
   }
 
   /**
@@ -497,6 +517,7 @@ export class JupiterService {
       {
         params: {
           ...params,
+          amount: toBaseUnits(params.amount).toString(),
           dexes: params.dexes?.join(","),
           excludeDexes: params.excludeDexes?.join(","),
         },
@@ -611,10 +632,12 @@ export class JupiterService {
    * Get available lending tokens
    */
   async getEarnTokens(): Promise<TokenInfo[]> {
-    const response = await this.axiosInstance.get<TokenInfo[]>(
-      "/lend/v1/earn/tokens"
-    );
-    return response.data;
+    return this.cache.wrap("jupiter:getEarnTokens", null, async () => {
+      const response = await this.axiosInstance.get<TokenInfo[]>(
+        "/lend/v1/earn/tokens"
+      );
+      return response.data;
+    });
   }
 
   /**
@@ -704,13 +727,54 @@ export class JupiterService {
     }
   }
 
+  /**
+   * Build an unsigned transaction from swap instructions, compiled against
+   * the route's address lookup tables when it does not fit as legacy
+   */
+  async buildSwapTransaction(
+    swapInstructions: SwapInstructionsResponse,
+    payer: PublicKey | string,
+    lookupTables?: AddressLookupTableManager
+  ): Promise<Transaction | VersionedTransaction> {
+    if (!lookupTables && !this.connection) {
+      throw new Error("Connection required for building swap transactions");
+    }
+    const manager =
+      lookupTables || new AddressLookupTableManager(this.connection!);
+
+    const instructions = [
+      ...swapInstructions.computeBudgetInstructions,
+      ...swapInstructions.setupInstructions,
+      swapInstructions.swapInstruction,
+      ...(swapInstructions.cleanupInstruction
+        ? [swapInstructions.cleanupInstruction]
+        : []),
+      ...swapInstructions.otherInstructions,
+    ].map(
+      (instruction) =>
+        new TransactionInstruction({
+          programId: new PublicKey(instruction.programId),
+          keys: instruction.accounts.map((account) => ({
+            pubkey: new PublicKey(account.pubkey),
+            isSigner: account.isSigner,
+            isWritable: account.isWritable,
+          })),
+          data: Buffer.from(instruction.data, "base64"),
+        })
+    );
+
+    return manager.compileTransaction(instructions, new PublicKey(payer), {
+      lookupTables: swapInstructions.addressLookupTableAddresses,
+    });
+  }
+
   /**
    * Execute complete swap flow (quote + swap + send)
    */
   async executeSwap(params: {
     inputMint: string;
     outputMint: string;
-    amount: number;
+    amount: BaseUnitsInput;
     userPublicKey: string;
     slippageBps?: number;
   }): Promise<string> {
@@ -743,10 +807,11 @@ export class JupiterService {
   async getBestRoute(
     inputMint: string,
     outputMint: string,
-    amount: number
+    amount: BaseUnitsInput
   ): Promise<{
     quote: QuoteResponse;
     priceImpact: number;
+    /** Base units; may lose precision, see quote.outAmount */
     estimatedOutput: number;
   }> {
     const quote = await this.getQuote({
@@ -763,6 +828,25 @@ export class JupiterService {
     };
   }
 
+  /**
+   * Jupiter token search as a TokenRegistry source
+   */
+  getTokenSource(): TokenSource {
+    return {
+      name: "jupiter",
+      search: async (query) =>
+        (await this.searchTokens(query)).map((token) => ({
+          mint: token.id,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          programId: token.tokenProgram,
+          verified: !!token.isVerified,
+          logoURI: token.icon || undefined,
+        })),
+    };
+  }
+
   /**
    * Get token statistics
    */
@@ -805,7 +889,11 @@ export class JupiterService {
           gasless: order.gasless,
         });
       } catch (error) {
-        console.error(`Error fetching from ${excludeRouter}:`, error);
+        this.logger.warn("Error fetching router quote", {
+          method: "compareRouterPrices",
+          router: excludeRouter,
+          error,
+        });
       }
     }
 
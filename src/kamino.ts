@@ -5,6 +5,7 @@ import {
   Transaction,
   TransactionInstruction,
   Signer,
+  ComputeBudgetProgram,
 } from "@solana/web3.js";
 import {
   KaminoMarket,
@@ -21,10 +22,69 @@ import {
   StrategiesFilters,
   WithdrawShares,
 } from "@kamino-finance/kliquidity-sdk";
-import { Address, TransactionSigner, Rpc, Instruction } from "@solana/kit";
+import {
+  Address,
+  TransactionSigner,
+  Rpc,
+  Instruction,
+  isSignerRole,
+  isWritableRole,
+} from "@solana/kit";
 import { address } from "@solana/addresses";
 import { WhirlpoolStrategy } from "@kamino-finance/kliquidity-sdk/dist/@codegen/kliquidity/accounts";
 import Decimal from "decimal.js";
+import { Buffer } from "buffer";
+import { TransactionExecutor } from "./utils/transaction-executor.js";
+import { KeypairSigner } from "./utils/signer.js";
+import {
+  TransactionPacker,
+  type InstructionGroup,
+} from "./utils/transaction-packer.js";
+import {
+  PriorityFeeService,
+  type PriorityOptions,
+} from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { AddressRegistry } from "./utils/addresses.js";
+import { TokenRegistry, type RegistryToken } from "./utils/token-registry.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
+
+/**
+ * Custom send callback accepted by the lending workflows
+ */
+export type KaminoSendTransaction = (
+  tx: Transaction,
+  signers: Signer[]
+) => Promise<string>;
+
+/**
+ * Plain, serializable summary of a lending reserve
+ */
+export interface KaminoReserveStats {
+  address: string;
+  symbol: string;
+  mint: string;
+  decimals: number;
+  totalSupply: TokenAmount;
+  totalBorrow: TokenAmount;
+  availableLiquidity: TokenAmount;
+  /** Borrowed share of the supply, 0 to 1 */
+  utilization: number;
+  supplyApy: number;
+  borrowApy: number;
+  loanToValue: number;
+  liquidationThreshold: number;
+}
+
+// Room left in packed transactions for the ComputeBudget instructions a
+// priority fee adds
+const PRIORITY_FEE_HEADROOM_BYTES = 64;
 
 /**
  * Utility function to convert PublicKey to Address
@@ -60,39 +120,57 @@ export class KaminoService {
   private kaminoLiquidity: KaminoLiquidity;
   private liquidityProgramId: PublicKey;
 
+  private executor: TransactionExecutor;
+  private packer: TransactionPacker;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
+  private tokens: TokenRegistry;
+  private logger: Logger;
+
   /**
    * Initialize Kamino Service with connection and cluster
    * @param connection - Solana RPC connection
    * @param cluster - Network cluster (mainnet-beta or devnet)
-   * @param marketAddress - Kamino lending market address (defaults to Main market)
+   * @param marketAddress - Kamino lending market address (defaults to the
+   * network's Main market from the address registry)
    * @param lendingProgramId - Kamino Lend program ID (optional)
    * @param liquidityProgramId - Kamino Liquidity program ID (optional)
+   * @param options - Shared logger, fee estimates, address and token registries
    */
   constructor(
     connection: Connection,
     cluster: "mainnet-beta" | "devnet" = "mainnet-beta",
     marketAddress?: PublicKey,
     lendingProgramId?: PublicKey,
-    liquidityProgramId?: PublicKey
+    liquidityProgramId?: PublicKey,
+    options: ServiceOptions = {}
   ) {
     this.connection = connection;
     this.cluster = cluster;
 
-    // Default to Main market on mainnet
-    this.marketAddress =
-      marketAddress ||
-      new PublicKey("7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF");
-
-    // Program IDs
+    // Default to the Main market and programs of the cluster
+    const addresses = options.addresses || new AddressRegistry(cluster);
+    this.tokens = options.tokens || new TokenRegistry();
+    this.marketAddress = marketAddress || addresses.require("kamino", "market");
     this.lendingProgramId =
-      lendingProgramId ||
-      new PublicKey("KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD");
+      lendingProgramId || addresses.require("kamino", "lendingProgram");
     this.liquidityProgramId =
-      liquidityProgramId ||
-      new PublicKey("E35i5qn7872eEmBt15e5VGhziUBzCTm43XCSWvDoQNNv");
+      liquidityProgramId || addresses.require("kamino", "liquidityProgram");
 
     // Initialize Kamino Liquidity with connection cast as Rpc type
     this.kaminoLiquidity = new KaminoLiquidity(cluster, connection as any);
+
+    this.executor = new TransactionExecutor(connection);
+    this.priorityFees =
+      options.priorityFees || new PriorityFeeService(connection);
+    this.simulator = new TransactionSimulator(connection);
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "KaminoService",
+    });
+    this.packer = new TransactionPacker(connection, {
+      executor: this.executor,
+      logger: options.logger,
+    });
   }
 
   // ============================================
@@ -132,20 +210,14 @@ export class KaminoService {
   }
 
   /**
-   * Get specific reserve by symbol
+   * Get specific reserve by symbol or mint, resolved through the token
+   * registry
    */
   async getReserve(symbol: string): Promise<KaminoReserve | undefined> {
     try {
       const market = await this.loadLendingMarket();
       await market.loadReserves();
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-      return reserve;
+      return await this.findReserve(market, symbol);
     } catch (error) {
       throw this.handleError("getReserve", error);
     }
@@ -164,6 +236,39 @@ export class KaminoService {
     }
   }
 
+  /**
+   * Supply, borrows, utilization and APYs of every reserve
+   */
+  async getReserveStats(): Promise<KaminoReserveStats[]> {
+    try {
+      const [reserves, slot] = await Promise.all([
+        this.getReserves(),
+        this.connection.getSlot(),
+      ]);
+      return reserves.map((reserve) => {
+        const decimals = reserve.getMintDecimals();
+        const amount = (value: Decimal) =>
+          TokenAmount.fromRaw(value.floor().toFixed(0), decimals);
+        return {
+          address: reserve.address.toString(),
+          symbol: reserve.symbol,
+          mint: reserve.getLiquidityMint().toString(),
+          decimals,
+          totalSupply: amount(reserve.getTotalSupply()),
+          totalBorrow: amount(reserve.getBorrowedAmount()),
+          availableLiquidity: amount(reserve.getLiquidityAvailableAmount()),
+          utilization: reserve.calculateUtilizationRatio(),
+          supplyApy: reserve.totalSupplyAPY(BigInt(slot)),
+          borrowApy: reserve.totalBorrowAPY(BigInt(slot)),
+          loanToValue: reserve.stats.loanToValue,
+          liquidationThreshold: reserve.stats.liquidationThreshold,
+        };
+      });
+    } catch (error) {
+      throw this.handleError("getReserveStats", error);
+    }
+  }
+
   /**
    * Refresh all market data (reserves, obligations, etc.)
    */
@@ -260,10 +365,11 @@ export class KaminoService {
   // ============================================
 
   /**
-   * Build deposit transaction
+   * Build deposit transaction. Numbers and decimal strings are UI
+   * amounts of the reserve's token; bigints are base units.
    */
   async buildDepositTransaction(
-    amount: Decimal,
+    amount: AmountInput,
     symbol: string,
     userPublicKey: PublicKey,
     obligation?: VanillaObligation
@@ -273,22 +379,11 @@ export class KaminoService {
       const obligationToUse =
         obligation || new VanillaObligation(toAddress(this.lendingProgramId));
 
-      // Get the reserve by symbol
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-
-      if (!reserve) {
-        throw new Error(`Reserve for symbol ${symbol} not found`);
-      }
+      const reserve = await this.requireReserve(market, symbol);
 
       return await KaminoAction.buildDepositTxns(
         market,
-        amount.toString(),
+        this.baseUnits(amount, reserve),
         reserve.state.liquidity.mintPubkey,
         { address: toAddress(userPublicKey) } as any,
         obligationToUse,
@@ -301,10 +396,11 @@ export class KaminoService {
   }
 
   /**
-   * Build withdraw transaction
+   * Build withdraw transaction. Numbers and decimal strings are UI
+   * amounts of the reserve's token; bigints are base units.
    */
   async buildWithdrawTransaction(
-    amount: Decimal,
+    amount: AmountInput,
     symbol: string,
     userPublicKey: PublicKey,
     obligation?: VanillaObligation
@@ -314,22 +410,11 @@ export class KaminoService {
       const obligationToUse =
         obligation || new VanillaObligation(toAddress(this.lendingProgramId));
 
-      // Get the reserve by symbol
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-
-      if (!reserve) {
-        throw new Error(`Reserve for symbol ${symbol} not found`);
-      }
+      const reserve = await this.requireReserve(market, symbol);
 
       return await KaminoAction.buildWithdrawTxns(
         market,
-        amount.toString(),
+        this.baseUnits(amount, reserve),
         reserve.state.liquidity.mintPubkey,
         { address: toAddress(userPublicKey) } as any,
         obligationToUse,
@@ -342,10 +427,11 @@ export class KaminoService {
   }
 
   /**
-   * Build borrow transaction
+   * Build borrow transaction. Numbers and decimal strings are UI
+   * amounts of the reserve's token; bigints are base units.
    */
   async buildBorrowTransaction(
-    amount: Decimal,
+    amount: AmountInput,
     symbol: string,
     userPublicKey: PublicKey,
     obligation?: VanillaObligation
@@ -355,22 +441,11 @@ export class KaminoService {
       const obligationToUse =
         obligation || new VanillaObligation(toAddress(this.lendingProgramId));
 
-      // Get the reserve by symbol
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-
-      if (!reserve) {
-        throw new Error(`Reserve for symbol ${symbol} not found`);
-      }
+      const reserve = await this.requireReserve(market, symbol);
 
       return await KaminoAction.buildBorrowTxns(
         market,
-        amount.toString(),
+        this.baseUnits(amount, reserve),
         reserve.state.liquidity.mintPubkey,
         { address: toAddress(userPublicKey) } as any,
         obligationToUse,
@@ -383,10 +458,11 @@ export class KaminoService {
   }
 
   /**
-   * Build repay transaction
+   * Build repay transaction. Numbers and decimal strings are UI
+   * amounts of the reserve's token; bigints are base units.
    */
   async buildRepayTransaction(
-    amount: Decimal,
+    amount: AmountInput,
     symbol: string,
     userPublicKey: PublicKey,
     obligation?: VanillaObligation
@@ -396,22 +472,11 @@ export class KaminoService {
       const obligationToUse =
         obligation || new VanillaObligation(toAddress(this.lendingProgramId));
 
-      // Get the reserve by symbol
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-
-      if (!reserve) {
-        throw new Error(`Reserve for symbol ${symbol} not found`);
-      }
+      const reserve = await this.requireReserve(market, symbol);
 
       return await KaminoAction.buildRepayTxns(
         market,
-        amount.toString(),
+        this.baseUnits(amount, reserve),
         reserve.state.liquidity.mintPubkey,
         { address: toAddress(userPublicKey) } as any,
         obligationToUse,
@@ -425,10 +490,11 @@ export class KaminoService {
   }
 
   /**
-   * Build liquidation transaction
+   * Build liquidation transaction. Numbers and decimal strings are UI
+   * amounts of the reserve's token; bigints are base units.
    */
   async buildLiquidationTransaction(
-    amount: Decimal,
+    amount: AmountInput,
     symbol: string,
     obligationAddress: PublicKey,
     userPublicKey: PublicKey
@@ -436,23 +502,12 @@ export class KaminoService {
     try {
       const market = await this.loadLendingMarket();
 
-      // Get the reserve by symbol
-      const reserves = market.getReserves();
-      const reserve = reserves.find((r) =>
-        r.state.config.tokenInfo.name
-          .toString()
-          .toLowerCase()
-          .includes(symbol.toLowerCase())
-      );
-
-      if (!reserve) {
-        throw new Error(`Reserve for symbol ${symbol} not found`);
-      }
+      const reserve = await this.requireReserve(market, symbol);
 
       return await KaminoAction.buildLiquidateTxns(
         market,
-        amount.toString(),
-        amount.toString(), // minCollateralReceiveAmount
+        this.baseUnits(amount, reserve),
+        this.baseUnits(amount, reserve), // minCollateralReceiveAmount
         reserve.state.liquidity.mintPubkey, // repayTokenMint
         reserve.state.liquidity.mintPubkey, // withdrawTokenMint
         { address: toAddress(userPublicKey) } as any, // liquidator
@@ -563,7 +618,7 @@ export class KaminoService {
       );
 
       const tx = new Transaction();
-      const txInstruction = this.convertInstruction(instruction);
+      const txInstruction = KaminoService.convertInstruction(instruction);
       tx.add(txInstruction);
 
       return tx;
@@ -591,7 +646,7 @@ export class KaminoService {
       );
 
       const tx = new Transaction();
-      const txInstruction = this.convertInstruction(instruction);
+      const txInstruction = KaminoService.convertInstruction(instruction);
       tx.add(txInstruction);
 
       return tx;
@@ -618,7 +673,7 @@ export class KaminoService {
       );
 
       const tx = new Transaction();
-      const txInstruction = this.convertInstruction(depositIx);
+      const txInstruction = KaminoService.convertInstruction(depositIx);
       tx.add(txInstruction);
 
       return tx;
@@ -643,7 +698,7 @@ export class KaminoService {
       );
 
       const tx = new Transaction();
-      const txInstruction = this.convertInstruction(withdrawIx as any);
+      const txInstruction = KaminoService.convertInstruction(withdrawIx as any);
       tx.add(txInstruction);
 
       return tx;
@@ -674,11 +729,13 @@ export class KaminoService {
       // withdrawAllShares may return multiple instructions
       if (Array.isArray(withdrawIxns)) {
         for (const ix of withdrawIxns) {
-          const txInstruction = this.convertInstruction(ix);
+          const txInstruction = KaminoService.convertInstruction(ix);
           tx.add(txInstruction);
         }
       } else {
-        const txInstruction = this.convertInstruction(withdrawIxns as any);
+        const txInstruction = KaminoService.convertInstruction(
+          withdrawIxns as any
+        );
         tx.add(txInstruction);
       }
 
@@ -705,7 +762,7 @@ export class KaminoService {
       );
 
       const tx = new Transaction();
-      const txInstruction = this.convertInstruction(collectIx);
+      const txInstruction = KaminoService.convertInstruction(collectIx);
       tx.add(txInstruction);
 
       return tx;
@@ -719,56 +776,115 @@ export class KaminoService {
   // ============================================
 
   /**
-   * Helper method to build transactions from KaminoAction instruction arrays
-   * KaminoAction contains multiple instruction arrays that need to be assembled into transactions
+   * Build transactions from a KaminoAction, optionally replacing its compute
+   * budget with an estimated priority fee
    */
-  private buildTransactionsFromAction(
-    kaminoAction: KaminoAction
-  ): Transaction[] {
-    const transactions: Transaction[] = [];
-
-    // Collect all instructions in order
-    const allInstructions = [
-      ...kaminoAction.computeBudgetIxs,
-      ...kaminoAction.setupIxs,
-      ...kaminoAction.inBetweenIxs,
-      ...kaminoAction.lendingIxs,
-      ...kaminoAction.cleanupIxs,
-    ];
-
-    // If there are no instructions, return empty array
-    if (allInstructions.length === 0) {
+  async buildActionTransactions(
+    kaminoAction: KaminoAction,
+    options?: PriorityOptions
+  ): Promise<Transaction[]> {
+    try {
+      const transactions = await this.buildTransactionsFromAction(
+        kaminoAction,
+        options?.priority ? PRIORITY_FEE_HEADROOM_BYTES : 0
+      );
+      if (options?.priority) {
+        for (const tx of transactions) {
+          await this.priorityFees.applyToTransaction(tx, options.priority);
+        }
+      }
       return transactions;
+    } catch (error) {
+      throw this.handleError("buildActionTransactions", error);
     }
+  }
 
-    // Create a transaction with all instructions
-    const tx = new Transaction();
+  /**
+   * Dry-run the transactions of a KaminoAction (e.g. from
+   * buildDepositTransaction) without signing or sending them
+   */
+  async simulateAction(
+    kaminoAction: KaminoAction,
+    userPublicKey: PublicKey,
+    options?: PriorityOptions
+  ): Promise<SimulationResult[]> {
+    try {
+      const transactions = await this.buildActionTransactions(
+        kaminoAction,
+        options
+      );
+      return await this.simulator.simulateAll(transactions, userPublicKey);
+    } catch (error) {
+      throw this.handleError("simulateAction", error);
+    }
+  }
 
-    for (const ix of allInstructions) {
-      // Convert from @solana/kit Instruction to @solana/web3.js TransactionInstruction
-      const txInstruction = this.convertInstruction(ix);
-      tx.add(txInstruction);
+  /**
+   * Pack the instruction arrays of a KaminoAction into as few transactions
+   * as fit. Account setup may go ahead in its own transactions; reserve and
+   * obligation refreshes stay with the lending instructions they precede.
+   */
+  private async buildTransactionsFromAction(
+    kaminoAction: KaminoAction,
+    reserveBytes = 0
+  ): Promise<Transaction[]> {
+    const convert = (ixs: Instruction[]) =>
+      ixs.map((ix) => KaminoService.convertInstruction(ix));
+
+    const setup = convert(kaminoAction.setupIxs);
+    const setupLabels = kaminoAction.setupIxsLabels || [];
+    const isRefresh = (index: number) =>
+      (setupLabels[index] || "").startsWith("Refresh");
+
+    const groups: InstructionGroup[] = [
+      ...setup
+        .filter((_, index) => !isRefresh(index))
+        .map((ix) => ({ instructions: [ix] })),
+      {
+        instructions: [
+          ...setup.filter((_, index) => isRefresh(index)),
+          ...convert(kaminoAction.inBetweenIxs),
+          ...convert(kaminoAction.lendingIxs),
+        ],
+      },
+      ...convert(kaminoAction.cleanupIxs).map((ix) => ({
+        instructions: [ix],
+      })),
+    ].filter((group) => group.instructions.length > 0);
+
+    // If there are no instructions, return empty array
+    if (groups.length === 0) {
+      return [];
     }
 
-    transactions.push(tx);
+    const payer = groups
+      .flatMap((group) => group.instructions)
+      .flatMap((ix) => ix.keys)
+      .find((key) => key.isSigner)?.pubkey;
+    if (!payer) {
+      throw new Error("KaminoAction has no signer to pay for transactions");
+    }
 
-    return transactions;
+    // Without lookup tables every packed transaction is legacy
+    const packed = await this.packer.pack(groups, payer, {
+      prefix: convert(kaminoAction.computeBudgetIxs),
+      reserveBytes,
+    });
+    return packed.map(({ transaction }) => transaction as Transaction);
   }
 
   /**
    * Convert @solana/kit Instruction to @solana/web3.js TransactionInstruction
    */
-  private convertInstruction(instruction: Instruction): TransactionInstruction {
-    // The Instruction from @solana/kit has:
-    // - programAddress: Address
-    // - accounts: AccountMeta[]
-    // - data: Uint8Array
-
+  static convertInstruction(instruction: Instruction): TransactionInstruction {
+    // AccountRole is a bitfield: bit 1 marks a signer, bit 0 a writable
+    // account (READONLY = 0, WRITABLE = 1, READONLY_SIGNER = 2,
+    // WRITABLE_SIGNER = 3)
     const keys =
-      instruction.accounts?.map((meta: any) => ({
+      instruction.accounts?.map((meta) => ({
         pubkey: new PublicKey(meta.address),
-        isSigner: meta.role === 0 || meta.role === 1, // AccountRole.WRITABLE_SIGNER = 0, READONLY_SIGNER = 1
-        isWritable: meta.role === 0 || meta.role === 2, // AccountRole.WRITABLE_SIGNER = 0, WRITABLE = 2
+        isSigner: isSignerRole(meta.role),
+        isWritable: isWritableRole(meta.role),
       })) || [];
 
     return new TransactionInstruction({
@@ -797,10 +913,32 @@ export class KaminoService {
 
   /**
    * Create transaction with extra compute budget
+   * @param feePayer - Transaction fee payer
+   * @param budget - Compute unit limit and price (micro-lamports per unit)
    */
-  createTransactionWithBudget(feePayer: PublicKey): Transaction {
+  createTransactionWithBudget(
+    feePayer: PublicKey,
+    budget?: { computeUnits?: number; microLamports?: number }
+  ): Transaction {
     const tx = new Transaction();
     tx.feePayer = feePayer;
+
+    if (budget?.computeUnits) {
+      tx.add(
+        ComputeBudgetProgram.setComputeUnitLimit({
+          units: budget.computeUnits,
+        })
+      );
+    }
+
+    if (budget?.microLamports) {
+      tx.add(
+        ComputeBudgetProgram.setComputeUnitPrice({
+          microLamports: budget.microLamports,
+        })
+      );
+    }
+
     return tx;
   }
 
@@ -812,30 +950,31 @@ export class KaminoService {
    * Complete deposit workflow for lending
    */
   async depositToLending(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     userKeypair: Keypair,
-    sendTransaction: (tx: Transaction, signers: Signer[]) => Promise<string>
+    sendTransaction?: KaminoSendTransaction,
+    options?: PriorityOptions
   ): Promise<string> {
     try {
       const market = await this.loadLendingMarket();
       const kaminoAction = await this.buildDepositTransaction(
-        new Decimal(amount),
+        amount,
         symbol,
         userKeypair.publicKey
       );
 
       // Build transactions from KaminoAction instruction arrays
-      const transactions = this.buildTransactionsFromAction(kaminoAction);
-
-      // Send transactions
-      const signatures: string[] = [];
-      for (const tx of transactions) {
-        const sig = await sendTransaction(tx, [userKeypair]);
-        signatures.push(sig);
-      }
+      const transactions = await this.buildActionTransactions(
+        kaminoAction,
+        options
+      );
 
-      return signatures[signatures.length - 1];
+      return await this.sendTransactions(
+        transactions,
+        userKeypair,
+        sendTransaction
+      );
     } catch (error) {
       throw this.handleError("depositToLending", error);
     }
@@ -845,28 +984,30 @@ export class KaminoService {
    * Complete withdraw workflow for lending
    */
   async withdrawFromLending(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     userKeypair: Keypair,
-    sendTransaction: (tx: Transaction, signers: Signer[]) => Promise<string>
+    sendTransaction?: KaminoSendTransaction,
+    options?: PriorityOptions
   ): Promise<string> {
     try {
       const market = await this.loadLendingMarket();
       const kaminoAction = await this.buildWithdrawTransaction(
-        new Decimal(amount),
+        amount,
         symbol,
         userKeypair.publicKey
       );
 
-      const transactions = this.buildTransactionsFromAction(kaminoAction);
-
-      const signatures: string[] = [];
-      for (const tx of transactions) {
-        const sig = await sendTransaction(tx, [userKeypair]);
-        signatures.push(sig);
-      }
+      const transactions = await this.buildActionTransactions(
+        kaminoAction,
+        options
+      );
 
-      return signatures[signatures.length - 1];
+      return await this.sendTransactions(
+        transactions,
+        userKeypair,
+        sendTransaction
+      );
     } catch (error) {
       throw this.handleError("withdrawFromLending", error);
     }
@@ -876,28 +1017,30 @@ export class KaminoService {
    * Complete borrow workflow
    */
   async borrowFromLending(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     userKeypair: Keypair,
-    sendTransaction: (tx: Transaction, signers: Signer[]) => Promise<string>
+    sendTransaction?: KaminoSendTransaction,
+    options?: PriorityOptions
   ): Promise<string> {
     try {
       const market = await this.loadLendingMarket();
       const kaminoAction = await this.buildBorrowTransaction(
-        new Decimal(amount),
+        amount,
         symbol,
         userKeypair.publicKey
       );
 
-      const transactions = this.buildTransactionsFromAction(kaminoAction);
-
-      const signatures: string[] = [];
-      for (const tx of transactions) {
-        const sig = await sendTransaction(tx, [userKeypair]);
-        signatures.push(sig);
-      }
+      const transactions = await this.buildActionTransactions(
+        kaminoAction,
+        options
+      );
 
-      return signatures[signatures.length - 1];
+      return await this.sendTransactions(
+        transactions,
+        userKeypair,
+        sendTransaction
+      );
     } catch (error) {
       throw this.handleError("borrowFromLending", error);
     }
@@ -907,44 +1050,123 @@ export class KaminoService {
    * Complete repay workflow
    */
   async repayToLending(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     userKeypair: Keypair,
-    sendTransaction: (tx: Transaction, signers: Signer[]) => Promise<string>
+    sendTransaction?: KaminoSendTransaction,
+    options?: PriorityOptions
   ): Promise<string> {
     try {
       const market = await this.loadLendingMarket();
       const kaminoAction = await this.buildRepayTransaction(
-        new Decimal(amount),
+        amount,
         symbol,
         userKeypair.publicKey
       );
 
-      const transactions = this.buildTransactionsFromAction(kaminoAction);
-
-      const signatures: string[] = [];
-      for (const tx of transactions) {
-        const sig = await sendTransaction(tx, [userKeypair]);
-        signatures.push(sig);
-      }
+      const transactions = await this.buildActionTransactions(
+        kaminoAction,
+        options
+      );
 
-      return signatures[signatures.length - 1];
+      return await this.sendTransactions(
+        transactions,
+        userKeypair,
+        sendTransaction
+      );
     } catch (error) {
       throw this.handleError("repayToLending", error);
     }
   }
 
+  /**
+   * Send workflow transactions in order, returning the last signature.
+   * Uses the shared executor unless a custom callback is supplied.
+   */
+  private async sendTransactions(
+    transactions: Transaction[],
+    userKeypair: Keypair,
+    sendTransaction?: KaminoSendTransaction
+  ): Promise<string> {
+    const signatures: string[] = [];
+    const signer = new KeypairSigner(userKeypair);
+
+    for (const tx of transactions) {
+      const sig = sendTransaction
+        ? await sendTransaction(tx, [userKeypair])
+        : TransactionExecutor.assertConfirmed(
+            await this.executor.execute(tx, { signer })
+          );
+      signatures.push(sig);
+    }
+
+    return signatures[signatures.length - 1];
+  }
+
+  /**
+   * Use a shared transaction executor for the lending workflows
+   */
+  setExecutor(executor: TransactionExecutor): void {
+    this.executor = executor;
+    this.packer.setExecutor(executor);
+  }
+
   // ============================================
   // ERROR HANDLING
   // ============================================
 
+  /**
+   * Reserve of a symbol or mint. The token registry maps symbols to mints;
+   * reserves the registry does not know are matched by exact symbol, never
+   * by substring (so "SOL" cannot pick the JitoSOL reserve).
+   */
+  private async findReserve(
+    market: KaminoMarket,
+    symbol: string
+  ): Promise<KaminoReserve | undefined> {
+    const token = await this.tokens
+      .lookup(symbol)
+      .catch((error): RegistryToken | undefined => {
+        if (error instanceof ForgeXSDKError && error.code === "NOT_FOUND") {
+          return undefined;
+        }
+        throw error;
+      });
+    if (token) {
+      return market.getReserveByMint(address(token.mint));
+    }
+    return market
+      .getReserves()
+      .find((reserve) => reserve.symbol.toLowerCase() === symbol.toLowerCase());
+  }
+
+  private async requireReserve(
+    market: KaminoMarket,
+    symbol: string
+  ): Promise<KaminoReserve> {
+    const reserve = await this.findReserve(market, symbol);
+    if (!reserve) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `Reserve for symbol ${symbol} not found`,
+        { symbol },
+        { service: "KaminoService" }
+      );
+    }
+    return reserve;
+  }
+
+  // Kamino takes base units as a string
+  private baseUnits(amount: AmountInput, reserve: KaminoReserve): string {
+    return TokenAmount.from(amount, reserve.getMintDecimals()).raw.toString();
+  }
+
   /**
    * Centralized error handler
    */
-  private handleError(method: string, error: any): Error {
-    const errorMessage = error?.message || error?.toString() || "Unknown error";
-    console.error(`[KaminoService:${method}] Error:`, errorMessage);
-    return new Error(`${method} failed: ${errorMessage}`);
+  private handleError(method: string, error: any): ForgeXSDKError {
+    this.logger.debug(`${method} failed`, { method, error });
+    return ForgeXSDKError.from(error, { service: "KaminoService", method });
   }
 
   /**
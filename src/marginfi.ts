@@ -6,7 +6,20 @@ import {
   AccountType,
   Bank,
 } from "@mrgnlabs/marginfi-client-v2";
-import { NodeWallet } from "@mrgnlabs/mrgn-common";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { TokenRegistry } from "./utils/token-registry.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
+
+export interface MarginfiServiceOptions extends ServiceOptions {
+  /**
+   * Account authority, required by initialize(). In Node, loadLocalSigner()
+   * from "forgexai-sdk/node" reads the Solana CLI keypair.
+   */
+  signer?: SignerInput;
+}
 
 /**
  * Service for MarginFi protocol actions.
@@ -14,28 +27,52 @@ import { NodeWallet } from "@mrgnlabs/mrgn-common";
  */
 export class MarginfiService {
   private connection: Connection;
-  private wallet: NodeWallet;
+  private wallet?: Signer;
   private client: MarginfiClient;
   private config: any; // MarginfiConfig
+  private tokens: TokenRegistry;
+  private logger: Logger;
 
   /**
-   * Setup MarginFi with a Solana connection and Anchor-compliant wallet.
-   * @param rpcUrl RPC endpoint for Solana
+   * Setup MarginFi with a Solana connection and signer.
+   * @param rpc RPC endpoint for Solana, or a shared connection
    * @param environment "dev" | "production"
+   * @param options Signer, shared logger and token registry
    */
-  constructor(rpcUrl: string, environment: "dev" | "production" = "dev") {
-    this.connection = new Connection(rpcUrl, { commitment: "confirmed" });
-    this.wallet = NodeWallet.local(); // Reads from ~/.config/solana/id.json
+  constructor(
+    rpc: string | Connection,
+    environment: "dev" | "production" = "dev",
+    options: MarginfiServiceOptions = {}
+  ) {
+    this.connection =
+      typeof rpc === "string"
+        ? new Connection(rpc, { commitment: "confirmed" })
+        : rpc;
+    if (options.signer) {
+      this.wallet = toSigner(options.signer);
+    }
     this.config = getConfig(environment);
+    this.tokens = options.tokens || new TokenRegistry();
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "MarginfiService",
+    });
   }
 
   /**
    * Initialize and fetch client. Must run before other actions.
    */
   async initialize(): Promise<void> {
+    if (!this.wallet) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "MarginfiService needs a signer to initialize",
+        undefined,
+        { service: "MarginfiService", method: "initialize" }
+      );
+    }
     this.client = await MarginfiClient.fetch(
       this.config,
-      this.wallet,
+      this.wallet as any,
       this.connection
     );
   }
@@ -77,15 +114,23 @@ export class MarginfiService {
       // Return bank addresses for now, full Bank objects require complex setup
       return bankPubKeys;
     } catch (error) {
-      console.error("Error fetching banks:", error);
+      this.logger.warn("Error fetching banks", {
+        method: "getAllBanks",
+        error,
+      });
       return [];
     }
   }
 
   /**
-   * Get a bank by token symbol.
+   * Get a bank by token symbol or mint. Symbols the token registry knows are
+   * looked up by their mint.
    */
   async getBankByTokenSymbol(tokenSymbol: string): Promise<Bank | null> {
+    const token = this.tokens.find(tokenSymbol);
+    if (token) {
+      return await this.client.getBankByMint(new PublicKey(token.mint));
+    }
     return await this.client.getBankByTokenSymbol(tokenSymbol);
   }
 
@@ -108,61 +153,75 @@ export class MarginfiService {
   /**
    * Deposit asset to a Marginfi account.
    * @param marginfiAccount Marginfi account wrapper
-   * @param amount Asset amount
+   * @param amount Asset amount (UI amount, or bigint base units)
    * @param bankAddress Bank to deposit into
    */
   async deposit(
     marginfiAccount: MarginfiAccountWrapper,
-    amount: number,
+    amount: AmountInput,
     bankAddress: PublicKey
   ): Promise<string> {
-    return await marginfiAccount.deposit(amount, bankAddress);
+    return await marginfiAccount.deposit(
+      this.uiAmount(amount, bankAddress),
+      bankAddress
+    );
   }
 
   /**
    * Borrow asset from a Marginfi account.
    * @param marginfiAccount Marginfi account wrapper
-   * @param amount Asset amount
+   * @param amount Asset amount (UI amount, or bigint base units)
    * @param bankAddress Bank to borrow from
    */
   async borrow(
     marginfiAccount: MarginfiAccountWrapper,
-    amount: number,
+    amount: AmountInput,
     bankAddress: PublicKey
   ): Promise<string[]> {
-    return await marginfiAccount.borrow(amount, bankAddress);
+    return await marginfiAccount.borrow(
+      this.uiAmount(amount, bankAddress),
+      bankAddress
+    );
   }
 
   /**
    * Repay borrowed asset in Marginfi account.
    * @param marginfiAccount Marginfi account wrapper
-   * @param amount Asset amount to repay
+   * @param amount Asset amount to repay (UI amount, or bigint base units)
    * @param bankAddress Bank to repay to
    * @param repayAll Repay entire amount
    */
   async repay(
     marginfiAccount: MarginfiAccountWrapper,
-    amount: number,
+    amount: AmountInput,
     bankAddress: PublicKey,
     repayAll = false
   ): Promise<string> {
-    return await marginfiAccount.repay(amount, bankAddress, repayAll);
+    return await marginfiAccount.repay(
+      this.uiAmount(amount, bankAddress),
+      bankAddress,
+      repayAll
+    );
   }
 
   /**
    * Withdraw asset from a Marginfi account.
    * @param marginfiAccount Marginfi account wrapper
-   * @param amount Asset amount to withdraw
+   * @param amount Asset amount to withdraw (UI amount, or bigint base units)
    * @param bankAddress Bank to withdraw from
    * @param withdrawAll Withdraw entire amount
    */
   async withdraw(
     marginfiAccount: MarginfiAccountWrapper,
-    amount: number,
+    amount: AmountInput,
     bankAddress: PublicKey,
     withdrawAll = false
   ): Promise<string[]> {
-    return await marginfiAccount.withdraw(amount, bankAddress, withdrawAll);
+    return await marginfiAccount.withdraw(
+      this.uiAmount(amount, bankAddress),
+      bankAddress,
+      withdrawAll
+    );
   }
 
   /**
@@ -184,6 +243,22 @@ export class MarginfiService {
     await marginfiAccount.reload();
     return marginfiAccount.activeBalances;
   }
+
+  // MarginFi takes UI amounts as numbers; other inputs are read with the
+  // bank's decimals so bigint base units convert exactly
+  private uiAmount(amount: AmountInput, bankAddress: PublicKey): number {
+    if (typeof amount === "number") return amount;
+    const bank = this.client.getBankByPk(bankAddress);
+    if (!bank) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `Bank ${bankAddress.toBase58()} not found`,
+        undefined,
+        { service: "MarginfiService", method: "uiAmount" }
+      );
+    }
+    return TokenAmount.from(amount, bank.mintDecimals).toNumber();
+  }
 }
 
 export default MarginfiService;
@@ -1,34 +1,56 @@
 import {
   Marinade,
   MarinadeConfig,
-  Wallet,
   Provider as MarinadeProvider,
   getRefNativeStakeSOLTx,
   getRefNativeStakeAccountTx,
   getPrepareNativeUnstakeSOLIx,
   BN,
 } from "@marinade.finance/marinade-ts-sdk";
-import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  PriorityFeeService,
+  type PriorityOptions,
+} from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { toBaseUnits, type BaseUnitsInput } from "./utils/token-amount.js";
 
 /**
  * Service class for interacting with Marinade Finance staking and liquidity pools.
  */
 export class MarinadeService {
   private connection: Connection;
-  private wallet: Wallet;
+  private wallet: Signer;
   private provider: MarinadeProvider;
   private marinade: Marinade;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
 
   /**
-   * Initialize Marinade SDK with connection and Wallet object.
-   * You can use your own Wallet implementation or pass a public key for view-only actions.
-   * @param rpcUrl The Solana RPC endpoint.
-   * @param wallet Wallet instance (from marinade-ts-sdk or custom).
+   * Initialize Marinade SDK with connection and signer.
+   * @param rpc The Solana RPC endpoint, or a shared connection.
+   * @param wallet Keypair, browser wallet or signer (Marinade's Wallet works too).
    * @param referralCode Optional referral public key.
+   * @param priorityFees Shared fee estimates, e.g. sdk.priorityFees.
    */
-  constructor(rpcUrl: string, wallet: Wallet, referralCode?: PublicKey) {
-    this.connection = new Connection(rpcUrl, "confirmed");
-    this.wallet = wallet;
+  constructor(
+    rpc: string | Connection,
+    wallet: SignerInput,
+    referralCode?: PublicKey,
+    priorityFees?: PriorityFeeService
+  ) {
+    this.connection =
+      typeof rpc === "string" ? new Connection(rpc, "confirmed") : rpc;
+    this.wallet = toSigner(wallet);
 
     // Marinade config, add referral if needed
     const config = new MarinadeConfig({
@@ -40,6 +62,8 @@ export class MarinadeService {
     this.marinade = new Marinade(config);
 
     this.provider = this.marinade.provider;
+    this.priorityFees = priorityFees || new PriorityFeeService(this.connection);
+    this.simulator = new TransactionSimulator(this.connection);
   }
 
   /** Get underlying Marinade instance (for advanced calls). */
@@ -53,7 +77,7 @@ export class MarinadeService {
   }
 
   /** Get current wallet. */
-  getWallet(): Wallet {
+  getWallet(): Signer {
     return this.wallet;
   }
 
@@ -71,9 +95,10 @@ export class MarinadeService {
    * @param lamports Amount of SOL in lamports.
    * @returns Transaction, associated mSOL token account.
    */
-  async deposit(lamports: BN) {
+  async deposit(lamports: BN | BaseUnitsInput, options?: PriorityOptions) {
     const { associatedMSolTokenAccountAddress, transaction } =
-      await this.marinade.deposit(lamports);
+      await this.marinade.deposit(toBN(lamports));
+    await this.applyPriority(transaction, options);
     return { associatedMSolTokenAccountAddress, transaction };
   }
 
@@ -82,9 +107,13 @@ export class MarinadeService {
    * @param lamports Amount of mSOL in lamports.
    * @returns Transaction, associated mSOL token account.
    */
-  async liquidUnstake(lamports: BN) {
+  async liquidUnstake(
+    lamports: BN | BaseUnitsInput,
+    options?: PriorityOptions
+  ) {
     const { associatedMSolTokenAccountAddress, transaction } =
-      await this.marinade.liquidUnstake(lamports);
+      await this.marinade.liquidUnstake(toBN(lamports));
+    await this.applyPriority(transaction, options);
     return { associatedMSolTokenAccountAddress, transaction };
   }
 
@@ -101,14 +130,15 @@ export class MarinadeService {
   async stakeNativeWithReferral(
     userPublicKey: PublicKey,
     lamports: BN,
-    referralCode: string
+    referralCode: string,
+    options?: PriorityOptions
   ) {
     const versionedTransaction = await getRefNativeStakeSOLTx(
       userPublicKey,
       lamports,
       referralCode
     );
-    return versionedTransaction;
+    return this.applyVersionedPriority(versionedTransaction, options);
   }
 
   /**
@@ -120,14 +150,15 @@ export class MarinadeService {
   async depositStakeNativeWithReferral(
     userPublicKey: PublicKey,
     stakeAccountAddress: PublicKey,
-    referralCode: string
+    referralCode: string,
+    options?: PriorityOptions
   ) {
     const versionedTransaction = await getRefNativeStakeAccountTx(
       userPublicKey,
       stakeAccountAddress,
       referralCode
     );
-    return versionedTransaction;
+    return this.applyVersionedPriority(versionedTransaction, options);
   }
 
   /**
@@ -136,13 +167,18 @@ export class MarinadeService {
    * @param userPublicKey
    * @param lamports Amount to unstake.
    */
-  async prepareNativeUnstake(userPublicKey: PublicKey, lamports: BN) {
+  async prepareNativeUnstake(
+    userPublicKey: PublicKey,
+    lamports: BN,
+    options?: PriorityOptions
+  ) {
     const transaction = new Transaction();
     const prepareIx = await getPrepareNativeUnstakeSOLIx(
       userPublicKey,
       lamports
     );
     transaction.add(...prepareIx.payFees);
+    await this.applyPriority(transaction, options);
     return transaction;
   }
 
@@ -151,9 +187,10 @@ export class MarinadeService {
   // =========================
 
   /** Add liquidity to Marinade pool and receive LP tokens. */
-  async addLiquidity(lamports: BN) {
+  async addLiquidity(lamports: BN | BaseUnitsInput, options?: PriorityOptions) {
     const { associatedLPTokenAccountAddress, transaction } =
-      await this.marinade.addLiquidity(lamports);
+      await this.marinade.addLiquidity(toBN(lamports));
+    await this.applyPriority(transaction, options);
     return { associatedLPTokenAccountAddress, transaction };
   }
 
@@ -162,12 +199,16 @@ export class MarinadeService {
    * @param lamports Amount of LP tokens to burn.
    * @returns Addresses of LP, mSOL accounts and transaction.
    */
-  async removeLiquidity(lamports: number) {
+  async removeLiquidity(
+    lamports: BN | BaseUnitsInput,
+    options?: PriorityOptions
+  ) {
     const {
       associatedLPTokenAccountAddress,
       associatedMSolTokenAccountAddress,
       transaction,
-    } = await this.marinade.removeLiquidity(new BN(lamports));
+    } = await this.marinade.removeLiquidity(toBN(lamports));
+    await this.applyPriority(transaction, options);
     return {
       associatedLPTokenAccountAddress,
       associatedMSolTokenAccountAddress,
@@ -175,6 +216,48 @@ export class MarinadeService {
     };
   }
 
+  // =========================
+  // Simulation
+  // =========================
+
+  /**
+   * Dry-run a transaction returned by deposit, liquidUnstake, etc.
+   * @param transaction Legacy or versioned transaction.
+   * @returns Compute units, logs, decoded error and balance changes for the wallet.
+   */
+  async simulate(
+    transaction: Transaction | VersionedTransaction
+  ): Promise<SimulationResult> {
+    return this.simulator.simulate(transaction, this.wallet.publicKey);
+  }
+
+  // =========================
+  // Priority Fees
+  // =========================
+
+  /** Inject ComputeBudget instructions when a priority is requested. */
+  private async applyPriority(
+    transaction: Transaction,
+    options?: PriorityOptions
+  ): Promise<void> {
+    if (options?.priority) {
+      await this.priorityFees.applyToTransaction(transaction, options.priority);
+    }
+  }
+
+  /** Rebuild a versioned transaction with the requested priority. */
+  private async applyVersionedPriority(
+    transaction: VersionedTransaction,
+    options?: PriorityOptions
+  ): Promise<VersionedTransaction> {
+    return options?.priority
+      ? this.priorityFees.applyToVersionedTransaction(
+          transaction,
+          options.priority
+        )
+      : transaction;
+  }
+
   // =========================
   // Lookup Table Utilities
   // =========================
@@ -187,15 +270,19 @@ export class MarinadeService {
   );
 }
 
+function toBN(lamports: BN | BaseUnitsInput): BN {
+  return BN.isBN(lamports)
+    ? (lamports as BN)
+    : new BN(toBaseUnits(lamports as BaseUnitsInput).toString());
+}
+
 // Example usage
 
 /*
 import { Keypair, PublicKey } from "@solana/web3.js";
-import { Wallet } from '@marinade.finance/marinade-ts-sdk';
 
 const keypair = Keypair.generate();
-const wallet = new Wallet(keypair);
-const service = new MarinadeService('https://api.mainnet-beta.solana.com', wallet);
+const service = new MarinadeService('https://api.mainnet-beta.solana.com', keypair);
 
 // --- Stake 1 SOL (1_000_000_000 lamports)
 const { transaction, associatedMSolTokenAccountAddress } = await service.deposit(1_000_000_000);
@@ -24,7 +24,25 @@ import {
   solMint,
   SolanaBridgeOptions,
 } from "@mayanfinance/swap-sdk";
-import axios, { AxiosInstance } from "axios";
+import { AxiosInstance } from "axios";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import {
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TOKEN_PROGRAM_ADDRESS,
+  TokenRegistry,
+  type TokenListEntry,
+  type TokenSource,
+} from "./utils/token-registry.js";
+import {
+  TokenAmount,
+  toBaseUnits,
+  type AmountInput,
+  type BaseUnitsInput,
+} from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 /**
  * Token standard types supported by Mayan on Solana
@@ -106,6 +124,9 @@ export class MayanSolanaService {
   private originWallet: PublicKey;
   private priceApiClient: AxiosInstance;
   private explorerApiClient: AxiosInstance;
+  private cache: ResponseCache;
+  private tokens: TokenRegistry;
+  private logger: Logger;
 
   // API Base URLs
   private static readonly PRICE_API_BASE = "https://price-api.mayan.finance";
@@ -127,20 +148,31 @@ export class MayanSolanaService {
   /**
    * @param connection Solana RPC connection
    * @param originWalletAddress Originating Solana wallet public key
-   */
-  constructor(connection: Connection, originWalletAddress: PublicKey) {
+   * @param options Shared HTTP client, response cache, logger and token
+   * registry
+   */
+  constructor(
+    connection: Connection,
+    originWalletAddress: PublicKey,
+    options: ServiceOptions = {}
+  ) {
     this.connection = connection;
     this.originWallet = originWalletAddress;
 
     // Initialize API clients
-    this.priceApiClient = axios.create({
+    const http = options.httpClient || new HttpClient();
+    this.priceApiClient = http.create({
       baseURL: MayanSolanaService.PRICE_API_BASE,
-      timeout: 30000,
     });
 
-    this.explorerApiClient = axios.create({
+    this.explorerApiClient = http.create({
       baseURL: MayanSolanaService.EXPLORER_API_BASE,
-      timeout: 30000,
+    });
+
+    this.cache = options.cache || new ResponseCache();
+    this.tokens = options.tokens || new TokenRegistry();
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "MayanSolanaService",
     });
   }
 
@@ -214,29 +246,39 @@ export class MayanSolanaService {
    */
   async getAllSolanaTokens(nonPortal = true): Promise<MayanToken[]> {
     try {
-      const [native, spl, spl2022] = await Promise.all([
-        this.getSolanaTokens("native", nonPortal),
-        this.getSolanaTokens("spl", nonPortal),
-        this.getSolanaTokens("spl2022", nonPortal),
-      ]);
-
-      return [...native, ...spl, ...spl2022];
+      return await this.cache.wrap(
+        "mayan:getAllSolanaTokens",
+        { nonPortal },
+        async () => {
+          const [native, spl, spl2022] = await Promise.all([
+            this.getSolanaTokens("native", nonPortal),
+            this.getSolanaTokens("spl", nonPortal),
+            this.getSolanaTokens("spl2022", nonPortal),
+          ]);
+
+          return [...native, ...spl, ...spl2022];
+        }
+      );
     } catch (error) {
       throw this.handleError("getAllSolanaTokens", error);
     }
   }
 
   /**
-   * Search for a token by symbol
+   * Search for a token by symbol. When several tokens share the symbol, the
+   * token registry picks the verified one or throws INVALID_INPUT.
    */
   async findTokenBySymbol(symbol: string): Promise<MayanToken | null> {
     try {
       const allTokens = await this.getAllSolanaTokens();
-      return (
-        allTokens.find(
-          (t) => t.symbol.toLowerCase() === symbol.toLowerCase()
-        ) || null
+      const matches = allTokens.filter(
+        (t) => t.symbol.toLowerCase() === symbol.toLowerCase()
       );
+      if (matches.length <= 1) return matches[0] || null;
+
+      this.tokens.add(matches.map(toTokenListEntry), "mayan");
+      const token = this.tokens.resolve(symbol);
+      return matches.find((t) => t.mint === token.mint) || null;
     } catch (error) {
       throw this.handleError("findTokenBySymbol", error);
     }
@@ -254,6 +296,19 @@ export class MayanSolanaService {
     }
   }
 
+  /**
+   * Mayan's Solana token list as a TokenRegistry source
+   */
+  getTokenSource(): TokenSource {
+    return {
+      name: "mayan",
+      list: async () =>
+        (await this.getAllSolanaTokens())
+          .filter((t) => t.standard !== "native")
+          .map(toTokenListEntry),
+    };
+  }
+
   /**
    * Get verified tokens only
    */
@@ -284,10 +339,11 @@ export class MayanSolanaService {
 
   /**
    * Get swap quote from Solana to another chain
-   * @param params Quote parameters
+   * @param params Quote parameters. Numbers are UI amounts; bigints and
+   * TokenAmounts are sent as exact base units.
    */
   async getQuote(params: {
-    amount: number;
+    amount: AmountInput;
     fromToken: string;
     toToken: string;
     toChain: string;
@@ -303,9 +359,12 @@ export class MayanSolanaService {
             params.toChain as keyof typeof MayanSolanaService.GAS_DROP_LIMITS
           ];
         if (limit && params.gasDrop > limit) {
-          console.warn(
-            `gasDrop ${params.gasDrop} exceeds limit ${limit} for ${params.toChain}`
-          );
+          this.logger.warn("gasDrop exceeds chain limit", {
+            method: "getQuote",
+            gasDrop: params.gasDrop,
+            limit,
+            toChain: params.toChain,
+          });
         }
       }
 
@@ -319,7 +378,7 @@ export class MayanSolanaService {
         : undefined;
 
       const quotes = await fetchQuote({
-        amount: params.amount,
+        ...(await this.quoteAmount(params.amount, params.fromToken)),
         fromToken: params.fromToken,
         toToken: params.toToken,
         fromChain: "solana",
@@ -379,7 +438,7 @@ export class MayanSolanaService {
    * Complete swap workflow: get quote and execute
    */
   async executeSwap(params: {
-    amount: number;
+    amount: AmountInput;
     fromTokenSymbol: string;
     toTokenSymbol: string;
     toChain: string;
@@ -401,7 +460,10 @@ export class MayanSolanaService {
 
       // Get quote
       const quote = await this.getQuote({
-        amount: params.amount,
+        amount:
+          typeof params.amount === "string"
+            ? TokenAmount.fromUi(params.amount, fromToken.decimals)
+            : params.amount,
         fromToken: fromToken.contract,
         toToken: params.toTokenSymbol,
         toChain: params.toChain,
@@ -468,13 +530,13 @@ export class MayanSolanaService {
    * Wrap SOL to wSOL
    */
   async wrapSOL(
-    amount: number,
+    amount: AmountInput,
     signTransaction: SolanaTransactionSigner
   ): Promise<{ signature: string; serializedTrx: Uint8Array }> {
     try {
       return await wrapSol(
         this.originWallet,
-        amount,
+        TokenAmount.sol(amount).toNumber(),
         signTransaction,
         this.connection
       );
@@ -487,13 +549,13 @@ export class MayanSolanaService {
    * Unwrap wSOL to SOL
    */
   async unwrapSOL(
-    amount: number,
+    amount: AmountInput,
     signTransaction: SolanaTransactionSigner
   ): Promise<{ signature: string; serializedTrx: Uint8Array }> {
     try {
       return await unwrapSol(
         this.originWallet,
-        amount,
+        TokenAmount.sol(amount).toNumber(),
         signTransaction,
         this.connection
       );
@@ -532,9 +594,9 @@ export class MayanSolanaService {
     account: PublicKey,
     delegate: PublicKey,
     owner: PublicKey,
-    amount: bigint
+    amount: BaseUnitsInput
   ): TransactionInstruction {
-    return createApprove(account, delegate, owner, amount);
+    return createApprove(account, delegate, owner, toBaseUnits(amount));
   }
 
   /**
@@ -660,7 +722,12 @@ export class MayanSolanaService {
       }
     }
 
-    throw new Error(`Swap polling timeout after ${timeoutMs}ms`);
+    throw new ForgeXSDKError(
+      "TIMEOUT",
+      `Swap polling timeout after ${timeoutMs}ms`,
+      { txHash },
+      { service: "MayanSolanaService", method: "pollSwapStatus" }
+    );
   }
 
   // ============================================
@@ -713,28 +780,49 @@ export class MayanSolanaService {
     );
   }
 
+  // Mayan takes a UI number in `amount` or exact base units in `amountIn64`
+  private async quoteAmount(
+    amount: AmountInput,
+    fromToken: string
+  ): Promise<{ amount: number } | { amountIn64: string }> {
+    if (typeof amount === "number") return { amount };
+    if (typeof amount === "bigint") return { amountIn64: amount.toString() };
+    const exact =
+      amount instanceof TokenAmount
+        ? amount
+        : TokenAmount.fromUi(
+            amount,
+            (await this.tokens.lookup(fromToken)).decimals
+          );
+    return { amountIn64: exact.raw.toString() };
+  }
+
   // ============================================
   // ERROR HANDLING
   // ============================================
 
-  private handleError(method: string, error: any): Error {
-    const errorMessage =
-      error?.response?.data?.message ||
-      error?.message ||
-      error?.toString() ||
-      "Unknown error";
-
-    console.error(`[MayanSolanaService:${method}] Error:`, errorMessage);
-
-    if (error?.response?.status === 404) {
-      return new Error(`${method}: Resource not found`);
-    }
-    if (error?.response?.status === 429) {
-      return new Error(`${method}: Rate limit exceeded`);
-    }
-
-    return new Error(`${method} failed: ${errorMessage}`);
+  private handleError(method: string, error: any): ForgeXSDKError {
+    this.logger.debug(`${method} failed`, { method, error });
+    return ForgeXSDKError.from(error, {
+      service: "MayanSolanaService",
+      method,
+    });
   }
 }
 
+function toTokenListEntry(token: MayanToken): TokenListEntry {
+  return {
+    mint: token.mint,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    programId:
+      token.standard === "spl2022"
+        ? TOKEN_2022_PROGRAM_ADDRESS
+        : TOKEN_PROGRAM_ADDRESS,
+    verified: token.verified,
+    logoURI: token.logoURI,
+  };
+}
+
 export default MayanSolanaService;
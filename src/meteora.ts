@@ -1,9 +1,9 @@
+import { AxiosInstance } from "axios";
 import {
   Connection,
   PublicKey,
   Transaction,
   TransactionInstruction,
-  Keypair,
 } from "@solana/web3.js";
 import { BN, Program, AnchorProvider } from "@coral-xyz/anchor";
 import DLMM from "@meteora-ag/dlmm";
@@ -15,6 +15,27 @@ import {
   StaticTokenListResolutionStrategy,
   TokenInfo,
 } from "@solana/spl-token-registry";
+import {
+  PriorityFeeService,
+  type PriorityOptions,
+} from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { AddressRegistry, DEFAULT_ADDRESSES } from "./utils/addresses.js";
+import {
+  TokenRegistry,
+  type TokenListEntry,
+  type TokenSource,
+} from "./utils/token-registry.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 /**
  * Meteora cluster configuration
@@ -80,7 +101,14 @@ export interface VaultDetails {
 export class MeteoraService {
   private connection: Connection;
   private cluster: MeteoraCluster;
-  private wallet?: Keypair;
+  private wallet?: Signer;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
+  private http: AxiosInstance;
+  private cache: ResponseCache;
+  private addresses: AddressRegistry;
+  private tokens: TokenRegistry;
+  private logger: Logger;
 
   /**
    * API endpoints for each cluster
@@ -93,28 +121,46 @@ export class MeteoraService {
 
   /**
    * Meteora program IDs
+   * @deprecated Use getProgramIds(), which honours SDKConfig.addresses
    */
   static readonly PROGRAM_IDS = {
-    DLMM_MAINNET: new PublicKey("LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo"),
-    DLMM_DEVNET: new PublicKey("LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo"),
-    VAULT_MAINNET: new PublicKey("vaU6kP7iNEGkbmPkLmZfGwiGxd4Mob24QQCie5R9kd2"),
-    VAULT_DEVNET: new PublicKey("vaU6kP7iNEGkbmPkLmZfGwiGxd4Mob24QQCie5R9kd2"),
+    DLMM_MAINNET: new PublicKey(
+      DEFAULT_ADDRESSES["mainnet-beta"].meteora.dlmmProgram
+    ),
+    DLMM_DEVNET: new PublicKey(DEFAULT_ADDRESSES.devnet.meteora.dlmmProgram),
+    VAULT_MAINNET: new PublicKey(
+      DEFAULT_ADDRESSES["mainnet-beta"].meteora.vaultProgram
+    ),
+    VAULT_DEVNET: new PublicKey(DEFAULT_ADDRESSES.devnet.meteora.vaultProgram),
   };
 
   /**
    * Initialize Meteora service
    * @param connection Solana RPC connection
    * @param cluster Network cluster
-   * @param wallet Optional wallet keypair for signing transactions
+   * @param wallet Optional keypair, browser wallet or signer for transactions
+   * @param options Shared HTTP client, response cache, logger, fee estimates,
+   * address and token registries
    */
   constructor(
     connection: Connection,
     cluster: MeteoraCluster = "mainnet-beta",
-    wallet?: Keypair
+    wallet?: SignerInput,
+    options: ServiceOptions = {}
   ) {
     this.connection = connection;
     this.cluster = cluster;
-    this.wallet = wallet;
+    this.addresses = options.addresses || new AddressRegistry(cluster);
+    this.tokens = options.tokens || new TokenRegistry();
+    this.wallet = wallet && toSigner(wallet);
+    this.priorityFees =
+      options.priorityFees || new PriorityFeeService(connection);
+    this.simulator = new TransactionSimulator(connection);
+    this.http = (options.httpClient || new HttpClient()).create();
+    this.cache = options.cache || new ResponseCache();
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "MeteoraService",
+    });
   }
 
   // ============================================
@@ -148,8 +194,16 @@ export class MeteoraService {
    */
   async getAllDLMMPools(): Promise<any[]> {
     try {
-      const response = await fetch("https://dlmm-api.meteora.ag/pair/all");
-      return await response.json();
+      return await this.cache.wrap(
+        "meteora:getAllDLMMPools",
+        null,
+        async () => {
+          const response = await this.http.get(
+            "https://dlmm-api.meteora.ag/pair/all"
+          );
+          return response.data;
+        }
+      );
     } catch (error) {
       throw this.handleError("getAllDLMMPools", error);
     }
@@ -166,20 +220,24 @@ export class MeteoraService {
       totalYAmount: BN;
       strategy: any;
       slippage: number;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for adding liquidity");
       }
-      return await pool.addLiquidityByStrategy({
-        positionPubKey: params.positionPubKey,
-        totalXAmount: params.totalXAmount,
-        totalYAmount: params.totalYAmount,
-        strategy: params.strategy,
-        slippage: params.slippage,
-        user: this.wallet.publicKey,
-      });
+      return await this.withPriority(
+        await pool.addLiquidityByStrategy({
+          positionPubKey: params.positionPubKey,
+          totalXAmount: params.totalXAmount,
+          totalYAmount: params.totalYAmount,
+          strategy: params.strategy,
+          slippage: params.slippage,
+          user: this.wallet.publicKey,
+        }),
+        options
+      );
     } catch (error) {
       throw this.handleError("addDLMMLiquidity", error);
     }
@@ -196,20 +254,24 @@ export class MeteoraService {
       shouldClaimAndClose: boolean;
       fromBinId?: number;
       toBinId?: number;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction[]> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for removing liquidity");
       }
-      return await pool.removeLiquidity({
-        position: params.position,
-        user: this.wallet.publicKey,
-        fromBinId: params.fromBinId ?? 0,
-        toBinId: params.toBinId ?? 0,
-        bps: params.bps,
-        shouldClaimAndClose: params.shouldClaimAndClose,
-      });
+      return await this.withPriorityAll(
+        await pool.removeLiquidity({
+          position: params.position,
+          user: this.wallet.publicKey,
+          fromBinId: params.fromBinId ?? 0,
+          toBinId: params.toBinId ?? 0,
+          bps: params.bps,
+          shouldClaimAndClose: params.shouldClaimAndClose,
+        }),
+        options
+      );
     } catch (error) {
       throw this.handleError("removeDLMMLiquidity", error);
     }
@@ -225,19 +287,23 @@ export class MeteoraService {
       inToken: PublicKey;
       binArrays: PublicKey[];
       swapYtoX: boolean;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for swap");
       }
-      return await pool.swap({
-        inAmount: params.inAmount,
-        inToken: params.inToken,
-        binArrays: params.binArrays,
-        swapYtoX: params.swapYtoX,
-        user: this.wallet.publicKey,
-      } as any);
+      return await this.withPriority(
+        await pool.swap({
+          inAmount: params.inAmount,
+          inToken: params.inToken,
+          binArrays: params.binArrays,
+          swapYtoX: params.swapYtoX,
+          user: this.wallet.publicKey,
+        } as any),
+        options
+      );
     } catch (error) {
       throw this.handleError("swapDLMM", error);
     }
@@ -275,19 +341,23 @@ export class MeteoraService {
       tokenAAmount: BN;
       tokenBAmount: BN;
       minLpTokenAmount: BN;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for adding liquidity");
       }
-      return await cpAmm.addLiquidity({
-        pool: params.poolAddress,
-        tokenAAmount: params.tokenAAmount,
-        tokenBAmount: params.tokenBAmount,
-        minLpTokenAmount: params.minLpTokenAmount,
-        user: this.wallet.publicKey,
-      } as any);
+      return await this.withPriority(
+        await cpAmm.addLiquidity({
+          pool: params.poolAddress,
+          tokenAAmount: params.tokenAAmount,
+          tokenBAmount: params.tokenBAmount,
+          minLpTokenAmount: params.minLpTokenAmount,
+          user: this.wallet.publicKey,
+        } as any),
+        options
+      );
     } catch (error) {
       throw this.handleError("addDAMMLiquidity", error);
     }
@@ -303,19 +373,23 @@ export class MeteoraService {
       lpTokenAmount: BN;
       minTokenAAmount: BN;
       minTokenBAmount: BN;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for removing liquidity");
       }
-      return await cpAmm.removeLiquidity({
-        pool: params.poolAddress,
-        lpTokenAmount: params.lpTokenAmount,
-        minTokenAAmount: params.minTokenAAmount,
-        minTokenBAmount: params.minTokenBAmount,
-        user: this.wallet.publicKey,
-      } as any);
+      return await this.withPriority(
+        await cpAmm.removeLiquidity({
+          pool: params.poolAddress,
+          lpTokenAmount: params.lpTokenAmount,
+          minTokenAAmount: params.minTokenAAmount,
+          minTokenBAmount: params.minTokenBAmount,
+          user: this.wallet.publicKey,
+        } as any),
+        options
+      );
     } catch (error) {
       throw this.handleError("removeDAMMLiquidity", error);
     }
@@ -331,19 +405,23 @@ export class MeteoraService {
       tokenIn: PublicKey;
       inAmount: BN;
       minOutAmount: BN;
-    }
+    },
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
       if (!this.wallet) {
         throw new Error("Wallet required for swap");
       }
-      return await cpAmm.swap({
-        pool: params.poolAddress,
-        tokenIn: params.tokenIn,
-        inAmount: params.inAmount,
-        minOutAmount: params.minOutAmount,
-        user: this.wallet.publicKey,
-      } as any);
+      return await this.withPriority(
+        await cpAmm.swap({
+          pool: params.poolAddress,
+          tokenIn: params.tokenIn,
+          inAmount: params.inAmount,
+          minOutAmount: params.minOutAmount,
+          user: this.wallet.publicKey,
+        } as any),
+        options
+      );
     } catch (error) {
       throw this.handleError("swapDAMM", error);
     }
@@ -428,10 +506,14 @@ export class MeteoraService {
   async depositToVault(
     vault: VaultImpl,
     owner: PublicKey,
-    amount: BN
+    amount: BN,
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
-      return await vault.deposit(owner, amount);
+      return await this.withPriority(
+        await vault.deposit(owner, amount),
+        options
+      );
     } catch (error) {
       throw this.handleError("depositToVault", error);
     }
@@ -443,10 +525,14 @@ export class MeteoraService {
   async withdrawFromVault(
     vault: VaultImpl,
     owner: PublicKey,
-    lpAmount: BN
+    lpAmount: BN,
+    options?: PriorityOptions
   ): Promise<Transaction> {
     try {
-      return await vault.withdraw(owner, lpAmount);
+      return await this.withPriority(
+        await vault.withdraw(owner, lpAmount),
+        options
+      );
     } catch (error) {
       throw this.handleError("withdrawFromVault", error);
     }
@@ -553,10 +639,9 @@ export class MeteoraService {
         : vaultUnlockedAmount / vaultSupplyBn.toNumber();
 
       const apiUrl = MeteoraService.KEEPER_URLS[this.cluster];
-      const response = await fetch(
+      const { data: vaultStateAPI } = await this.http.get(
         `${apiUrl}/vault_state/${tokenInfo.address}`
       );
-      const vaultStateAPI = await response.json();
 
       const totalAllocation = vaultStateAPI.strategies.reduce(
         (acc: number, item: any) => acc + item.liquidity,
@@ -606,21 +691,46 @@ export class MeteoraService {
   // ============================================
 
   /**
-   * Get token info by symbol from SPL Token Registry
+   * Get token info by symbol from SPL Token Registry. When several mints
+   * share the symbol, the token registry picks the verified one or throws
+   * INVALID_INPUT.
    */
   async getTokenInfo(symbol: string): Promise<TokenInfo | undefined> {
     try {
       const tokenMap = new StaticTokenListResolutionStrategy().resolve();
-      return tokenMap.find((token) => token.symbol === symbol);
+      const matches = tokenMap.filter((token) => token.symbol === symbol);
+      if (matches.length <= 1) return matches[0];
+
+      this.tokens.add(matches.map(toTokenListEntry), "spl-token-registry");
+      const token = this.tokens.resolve(symbol);
+      return matches.find((info) => info.address === token.mint);
     } catch (error) {
       throw this.handleError("getTokenInfo", error);
     }
   }
 
+  /**
+   * The (unmaintained) SPL Token Registry as a TokenRegistry source; its
+   * entries are not verified
+   */
+  getTokenSource(): TokenSource {
+    return {
+      name: "spl-token-registry",
+      list: async () =>
+        new StaticTokenListResolutionStrategy()
+          .resolve()
+          .filter((token) => token.chainId === 101)
+          .map(toTokenListEntry),
+    };
+  }
+
   /**
    * Airdrop SOL to wallet (devnet only)
    */
-  async airdropSOL(publicKey: PublicKey, amount = 1): Promise<string> {
+  async airdropSOL(
+    publicKey: PublicKey,
+    amount: AmountInput = 1
+  ): Promise<string> {
     try {
       if (this.cluster !== "devnet") {
         throw new Error("Airdrop only available on devnet");
@@ -628,7 +738,7 @@ export class MeteoraService {
 
       const airdropSignature = await this.connection.requestAirdrop(
         publicKey,
-        amount * 1e9
+        TokenAmount.sol(amount).toRawNumber()
       );
 
       const latestBlockHash = await this.connection.getLatestBlockhash();
@@ -658,29 +768,87 @@ export class MeteoraService {
     return this.cluster;
   }
 
+  /**
+   * DLMM and vault program IDs of the cluster
+   */
+  getProgramIds(): { dlmm: PublicKey; vault: PublicKey } {
+    return {
+      dlmm: this.addresses.require("meteora", "dlmmProgram"),
+      vault: this.addresses.require("meteora", "vaultProgram"),
+    };
+  }
+
   /**
    * Get wallet (if set)
    */
-  getWallet(): Keypair | undefined {
+  getWallet(): Signer | undefined {
     return this.wallet;
   }
 
   /**
    * Set wallet for transactions
    */
-  setWallet(wallet: Keypair): void {
-    this.wallet = wallet;
+  setWallet(wallet: SignerInput): void {
+    this.wallet = toSigner(wallet);
+  }
+
+  /**
+   * Dry-run a transaction from any builder above (swapDLMM, depositToVault...)
+   * @param signer Defaults to the service wallet
+   */
+  async simulateTransaction(
+    transaction: Transaction,
+    signer?: PublicKey
+  ): Promise<SimulationResult> {
+    try {
+      const payer = signer || this.wallet?.publicKey;
+      if (!payer) {
+        throw new Error("Signer or wallet required for simulation");
+      }
+      return await this.simulator.simulate(transaction, payer);
+    } catch (error) {
+      throw this.handleError("simulateTransaction", error);
+    }
+  }
+
+  /**
+   * Inject ComputeBudget instructions when a priority is requested
+   */
+  private async withPriority(
+    transaction: Transaction,
+    options?: PriorityOptions
+  ): Promise<Transaction> {
+    if (!options?.priority) return transaction;
+    return this.priorityFees.applyToTransaction(transaction, options.priority);
+  }
+
+  private async withPriorityAll(
+    transactions: Transaction[],
+    options?: PriorityOptions
+  ): Promise<Transaction[]> {
+    return Promise.all(
+      transactions.map((tx) => this.withPriority(tx, options))
+    );
   }
 
   // ============================================
   // ERROR HANDLING
   // ============================================
 
-  private handleError(method: string, error: any): Error {
-    const errorMessage = error?.message || error?.toString() || "Unknown error";
-    console.error(`[MeteoraService:${method}] Error:`, errorMessage);
-    return new Error(`${method} failed: ${errorMessage}`);
+  private handleError(method: string, error: any): ForgeXSDKError {
+    this.logger.debug(`${method} failed`, { method, error });
+    return ForgeXSDKError.from(error, { service: "MeteoraService", method });
   }
 }
 
+function toTokenListEntry(token: TokenInfo): TokenListEntry {
+  return {
+    mint: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    logoURI: token.logoURI,
+  };
+}
+
 export default MeteoraService;
@@ -0,0 +1,90 @@
+// Node-only conveniences (keypair files, environment variables) for the
+// "forgexai-sdk/node" entry point. The rest of the SDK runs in browsers and
+// edge runtimes, so nothing else may import this module.
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { Keypair, type Commitment, type Connection } from "@solana/web3.js";
+import { getConnection } from "./utils/connection.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { KeypairSigner } from "./utils/signer.js";
+import type { SDKConfig, SolanaNetwork } from "./types.js";
+
+/**
+ * Where the Solana CLI keeps its default keypair
+ */
+export const SOLANA_CLI_KEYPAIR_PATH = join(
+  homedir(),
+  ".config",
+  "solana",
+  "id.json"
+);
+
+// SDKConfig.apiKeys entries and the environment variables they are read from
+const API_KEY_ENV = {
+  tensor: "TENSOR_API_KEY",
+  sanctum: "SANCTUM_API_KEY",
+  helius: "HELIUS_API_KEY",
+  birdeye: "BIRDEYE_API_KEY",
+  shyft: "SHYFT_API_KEY",
+  dialect: "DIALECT_API_KEY",
+} as const;
+
+/**
+ * Read a keypair file (a JSON array of secret key bytes, as written by
+ * `solana-keygen`). A leading "~" expands to the home directory.
+ */
+export function loadKeypairFile(path: string): Keypair {
+  const resolved = path.startsWith("~") ? join(homedir(), path.slice(1)) : path;
+  try {
+    const secret = JSON.parse(readFileSync(resolved, "utf-8"));
+    return Keypair.fromSecretKey(Uint8Array.from(secret));
+  } catch (error) {
+    throw new ForgeXSDKError(
+      "INVALID_INPUT",
+      `Could not read keypair file ${resolved}`,
+      undefined,
+      { service: "node", method: "loadKeypairFile", cause: error }
+    );
+  }
+}
+
+/**
+ * Signer for the local Solana CLI keypair, or the file named by
+ * SOLANA_KEYPAIR_PATH
+ */
+export function loadLocalSigner(
+  path: string = process.env.SOLANA_KEYPAIR_PATH || SOLANA_CLI_KEYPAIR_PATH
+): KeypairSigner {
+  return new KeypairSigner(loadKeypairFile(path));
+}
+
+/**
+ * Like getConnection, but honours SOLANA_RPC_URL
+ */
+export function getConnectionFromEnv(
+  network: SolanaNetwork = "mainnet-beta",
+  commitment: Commitment = "confirmed"
+): Connection {
+  return getConnection(network, commitment, process.env.SOLANA_RPC_URL);
+}
+
+/**
+ * API keys set in the environment (TENSOR_API_KEY, DIALECT_API_KEY,
+ * CROSSMINT_API_KEY, ...), to spread into SDKConfig.apiKeys
+ */
+export function apiKeysFromEnv(
+  env: Record<string, string | undefined> = process.env
+): SDKConfig["apiKeys"] {
+  const apiKeys: SDKConfig["apiKeys"] = {};
+  for (const [name, variable] of Object.entries(API_KEY_ENV)) {
+    if (env[variable]) apiKeys[name] = env[variable];
+  }
+  if (env.CROSSMINT_API_KEY) {
+    apiKeys.crossmint = {
+      apiKey: env.CROSSMINT_API_KEY,
+      jwt: env.CROSSMINT_JWT,
+    };
+  }
+  return apiKeys;
+}
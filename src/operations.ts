@@ -0,0 +1,458 @@
+// Named SDK operations with validated, JSON Schema-described parameters and
+// JSON-safe results, for callers outside TypeScript. The gateway server
+// (./server) exposes them over HTTP and ./tools offers them to LLM agents.
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { schema, type Infer, type Schema } from "./utils/schema.js";
+import { TokenAmount } from "./utils/token-amount.js";
+import type { SendableTransaction } from "./utils/transaction-executor.js";
+import type { ForgeXSolanaSDK } from "./sdk.js";
+import type { DriftClient } from "./drift.js";
+import type { JupiterService, QuoteResponse } from "./jupiter.js";
+import type { KaminoService } from "./kamino.js";
+import type { PythSolanaService } from "./pyth.js";
+import type { SanctumService } from "./sanctum.js";
+import type { SquadsService } from "./squads.js";
+
+/**
+ * "read" operations only query; "build" operations return unsigned
+ * transactions for the caller to sign and send; "send" operations sign with
+ * the SDK's wallet and change on-chain state
+ */
+export type OperationKind = "read" | "build" | "send";
+
+export interface Operation<P = any, R = unknown> {
+  /** "<service>.<method>", e.g. "jupiter.getQuote" */
+  name: string;
+  description: string;
+  kind: OperationKind;
+  params: Schema<P>;
+  run(sdk: ForgeXSolanaSDK, params: P): Promise<R>;
+}
+
+/**
+ * Result of "build" operations
+ */
+export interface UnsignedTransactions {
+  /** Base64 wire transactions without signatures, in sending order */
+  transactions: string[];
+  blockhash: string;
+  /** Sign and send before the chain passes this height */
+  lastValidBlockHeight: number;
+}
+
+/**
+ * Declare an operation, typing run()'s params from its schema
+ */
+export function defineOperation<S extends Schema<any>, R>(operation: {
+  name: string;
+  description: string;
+  kind: OperationKind;
+  params: S;
+  run(sdk: ForgeXSolanaSDK, params: Infer<S>): Promise<R>;
+}): Operation<Infer<S>, R> {
+  return operation;
+}
+
+const token = (description: string) =>
+  schema.string({ description: `${description}: symbol or mint address` });
+
+const swapParams = {
+  inputToken: token("Token to sell"),
+  outputToken: token("Token to buy"),
+  amount: schema.amount({ description: "UI amount of the input token" }),
+  slippageBps: schema.optional(
+    schema.integer({ minimum: 0, maximum: 10_000 }),
+    50
+  ),
+};
+
+const lendingParams = schema.object({
+  wallet: schema.publicKey({ description: "Owner and fee payer" }),
+  symbol: token("Reserve token"),
+  amount: schema.amount({ description: "UI amount of the reserve token" }),
+});
+
+const proposalParams = schema.object({
+  multisig: schema.publicKey({ description: "Multisig account" }),
+  transactionIndex: schema.integer({ minimum: 1 }),
+  member: schema.publicKey({ description: "Signing member and fee payer" }),
+});
+
+const feeds = schema.array(
+  schema.string({ description: "Symbol (e.g. SOL_USD) or feed ID" }),
+  { minItems: 1, maxItems: 50 }
+);
+
+const KAMINO_BUILDERS = {
+  buildDepositTransaction: "Deposit into",
+  buildWithdrawTransaction: "Withdraw from",
+  buildBorrowTransaction: "Borrow from",
+  buildRepayTransaction: "Repay to",
+} as const;
+
+/**
+ * Operations of the gateway and the tool catalog; the gateway leaves out
+ * "send" operations
+ */
+export const OPERATIONS: Operation[] = [
+  defineOperation({
+    name: "sdk.getPortfolio",
+    description: "SOL balance, token holdings and positions of a wallet",
+    kind: "read",
+    params: schema.object({ wallet: schema.publicKey() }),
+    run: (sdk, { wallet }) => sdk.getPortfolio(wallet),
+  }),
+  defineOperation({
+    name: "jupiter.getQuote",
+    description: "Best Jupiter route for swapping a UI amount",
+    kind: "read",
+    params: schema.object(swapParams),
+    run: (sdk, params) => getQuote(sdk, params),
+  }),
+  defineOperation({
+    name: "pyth.getLatestPrices",
+    description: "Latest Pyth prices by symbol (e.g. SOL_USD) or feed ID",
+    kind: "read",
+    params: schema.object({ feeds }),
+    run: async (sdk, { feeds }) => {
+      const pyth = await sdk.plugins.loadRequired<PythSolanaService>("pyth");
+      return pyth.getLatestPrices(await toFeedIds(feeds));
+    },
+  }),
+  defineOperation({
+    name: "pyth.fetchLatestPriceUpdates",
+    description:
+      "Signed Pyth price update data (base64), for posting on-chain or passing to programs",
+    kind: "read",
+    params: schema.object({ feeds }),
+    run: async (sdk, { feeds }) => {
+      const pyth = await sdk.plugins.loadRequired<PythSolanaService>("pyth");
+      return pyth.fetchLatestPriceUpdates(await toFeedIds(feeds));
+    },
+  }),
+  defineOperation({
+    name: "kamino.getReserveStats",
+    description: "Supply, borrows, utilization and APYs of Kamino reserves",
+    kind: "read",
+    params: schema.object({}),
+    run: async (sdk) =>
+      (
+        await sdk.plugins.loadRequired<KaminoService>("kamino")
+      ).getReserveStats(),
+  }),
+  defineOperation({
+    name: "sanctum.getLst",
+    description: "TVL, APY and SOL value of a liquid staking token",
+    kind: "read",
+    params: schema.object({ lst: token("Liquid staking token") }),
+    run: async (sdk, { lst }) =>
+      (await sdk.plugins.loadRequired<SanctumService>("sanctum")).getLst(lst),
+  }),
+  defineOperation({
+    name: "sanctum.getLstApys",
+    description: "APY history of a liquid staking token by epoch",
+    kind: "read",
+    params: schema.object({
+      lst: token("Liquid staking token"),
+      limit: schema.optional(schema.integer({ minimum: 1, maximum: 100 })),
+    }),
+    run: async (sdk, { lst, limit }) =>
+      (await sdk.plugins.loadRequired<SanctumService>("sanctum")).getLstApys(
+        lst,
+        limit
+      ),
+  }),
+  defineOperation({
+    name: "jupiter.buildSwapTransaction",
+    description: "Unsigned Jupiter swap transaction and the quote it follows",
+    kind: "build",
+    params: schema.object({
+      wallet: schema.publicKey({ description: "Swapper and fee payer" }),
+      ...swapParams,
+    }),
+    run: async (sdk, { wallet, ...params }) => {
+      const jupiter = await sdk.plugins.loadRequired<JupiterService>("jupiter");
+      const quote = await getQuote(sdk, params);
+      const instructions = await jupiter.getSwapInstructions({
+        userPublicKey: wallet,
+        quoteResponse: quote,
+        dynamicComputeUnitLimit: true,
+      });
+      const transaction = await jupiter.buildSwapTransaction(
+        instructions,
+        wallet,
+        sdk.lookupTables
+      );
+      return {
+        ...(await toUnsigned(sdk, [transaction], new PublicKey(wallet))),
+        quote,
+      };
+    },
+  }),
+  ...Object.entries(KAMINO_BUILDERS).map(([method, action]) =>
+    defineOperation({
+      name: `kamino.${method}`,
+      description: `${action} a Kamino Lend reserve`,
+      kind: "build",
+      params: lendingParams,
+      run: async (sdk, { wallet, symbol, amount }) => {
+        const kamino = await sdk.plugins.loadRequired<KaminoService>("kamino");
+        const owner = new PublicKey(wallet);
+        const action = await kamino[method as keyof typeof KAMINO_BUILDERS](
+          amount,
+          symbol,
+          owner
+        );
+        return toUnsigned(
+          sdk,
+          await kamino.buildActionTransactions(action),
+          owner
+        );
+      },
+    })
+  ),
+  defineOperation({
+    name: "squads.approveProposal",
+    description: "Approve a Squads proposal as a member",
+    kind: "build",
+    params: proposalParams,
+    run: async (sdk, { multisig, transactionIndex, member }) => {
+      const squads = await sdk.plugins.loadRequired<SquadsService>("squads");
+      const payer = new PublicKey(member);
+      const instruction = await squads.approveProposal(
+        new PublicKey(multisig),
+        BigInt(transactionIndex),
+        payer
+      );
+      return toUnsigned(
+        sdk,
+        [await squads.buildTransaction([instruction], payer)],
+        payer
+      );
+    },
+  }),
+  defineOperation({
+    name: "squads.executeVaultTransaction",
+    description: "Execute an approved Squads vault transaction",
+    kind: "build",
+    params: proposalParams,
+    run: async (sdk, { multisig, transactionIndex, member }) => {
+      const squads = await sdk.plugins.loadRequired<SquadsService>("squads");
+      const payer = new PublicKey(member);
+      const instruction = await squads.executeVaultTransaction(
+        new PublicKey(multisig),
+        BigInt(transactionIndex),
+        payer
+      );
+      return toUnsigned(
+        sdk,
+        [await squads.buildTransaction([instruction], payer)],
+        payer
+      );
+    },
+  }),
+  defineOperation({
+    name: "drift.placePerpOrder",
+    description:
+      "Place a Drift perp order from the SDK wallet, or simulate it with dryRun",
+    kind: "send",
+    params: schema.object({
+      marketIndex: schema.integer({
+        minimum: 0,
+        description: "Perp market, e.g. 0 for SOL-PERP",
+      }),
+      side: schema.enum(["buy", "sell"] as const),
+      size: schema.amount({ description: 'Base asset size, e.g. "0.5"' }),
+      price: schema.optional(
+        schema.amount({ description: "Limit price in USDC" })
+      ),
+      orderType: schema.optional(schema.enum(["market", "limit"] as const)),
+      reduceOnly: schema.optional(schema.boolean()),
+      postOnly: schema.optional(schema.boolean()),
+      dryRun: schema.optional(
+        schema.boolean({ description: "Simulate without sending" }),
+        false
+      ),
+    }),
+    run: async (sdk, { dryRun, ...order }) => {
+      const drift = await loadWithWallet<DriftClient>(sdk, "drift");
+      return dryRun
+        ? drift.placePerpOrder(order, { dryRun: true })
+        : { signature: await drift.placePerpOrder(order) };
+    },
+  }),
+  defineOperation({
+    name: "drift.cancelOrder",
+    description: "Cancel an open Drift order of the SDK wallet",
+    kind: "send",
+    params: schema.object({ orderId: schema.integer({ minimum: 0 }) }),
+    run: async (sdk, { orderId }) => {
+      const drift = await loadWithWallet<DriftClient>(sdk, "drift");
+      return { signature: await drift.cancelOrder(orderId) };
+    },
+  }),
+  defineOperation({
+    name: "pyth.fetchAndUpdatePriceFeeds",
+    description:
+      "Post the latest Pyth prices to price feed accounts, paid by the SDK wallet",
+    kind: "send",
+    params: schema.object({
+      feeds,
+      shardId: schema.optional(schema.integer({ minimum: 0 }), 0),
+    }),
+    run: async (sdk, { feeds, shardId }) => {
+      const pyth = await loadWithWallet<PythSolanaService>(sdk, "pyth");
+      return pyth.fetchAndUpdatePriceFeeds(await toFeedIds(feeds), shardId);
+    },
+  }),
+];
+
+/**
+ * The operation with this name; throws NOT_FOUND
+ */
+export function getOperation(
+  name: string,
+  operations: Operation[] = OPERATIONS
+): Operation {
+  const operation = operations.find((candidate) => candidate.name === name);
+  if (!operation) {
+    throw new ForgeXSDKError(
+      "NOT_FOUND",
+      `Unknown operation: ${name}`,
+      { operation: name },
+      { service: "operations", method: "getOperation" }
+    );
+  }
+  return operation;
+}
+
+/**
+ * Validate params, run the operation and return its result as plain JSON
+ */
+export async function runOperation(
+  sdk: ForgeXSolanaSDK,
+  operation: Operation,
+  params: unknown
+): Promise<unknown> {
+  const parsed = operation.params.parse(params ?? {}, "params");
+  return toJsonValue(await operation.run(sdk, parsed));
+}
+
+/**
+ * A JSON-safe copy of a result: bigints and BNs become decimal strings,
+ * public keys base58, bytes and transactions base64, and TokenAmounts their
+ * toJSON() shape
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value !== "object") {
+    return typeof value === "function" ? undefined : value;
+  }
+  if (value instanceof Transaction || value instanceof VersionedTransaction) {
+    return encodeTransaction(value);
+  }
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("base64");
+  if (value instanceof PublicKey) return value.toBase58();
+  // BN serializes to hex through toJSON()
+  if (typeof (value as any).toArrayLike === "function") return value.toString();
+  if (typeof (value as any).toJSON === "function") {
+    return toJsonValue((value as any).toJSON());
+  }
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  return Object.fromEntries(
+    Object.entries(value)
+      .map(([key, item]) => [key, toJsonValue(item)])
+      .filter(([, item]) => item !== undefined)
+  );
+}
+
+/**
+ * Base64 wire format of a transaction, signed or not
+ */
+export function encodeTransaction(transaction: SendableTransaction): string {
+  const bytes =
+    transaction instanceof VersionedTransaction
+      ? transaction.serialize()
+      : transaction.serialize({
+          requireAllSignatures: false,
+          verifySignatures: false,
+        });
+  return Buffer.from(bytes).toString("base64");
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+async function getQuote(
+  sdk: ForgeXSolanaSDK,
+  params: {
+    inputToken: string;
+    outputToken: string;
+    amount: string;
+    slippageBps?: number;
+  }
+): Promise<QuoteResponse> {
+  const [input, output] = await Promise.all([
+    sdk.tokens.lookup(params.inputToken),
+    sdk.tokens.lookup(params.outputToken),
+  ]);
+  const jupiter = await sdk.plugins.loadRequired<JupiterService>("jupiter");
+  return jupiter.getQuote({
+    inputMint: input.mint,
+    outputMint: output.mint,
+    amount: TokenAmount.fromUi(params.amount, input.decimals),
+    slippageBps: params.slippageBps,
+  });
+}
+
+// Symbols of PythSolanaService.PRICE_FEED_IDS to feed IDs; others pass
+// through
+async function toFeedIds(feeds: string[]): Promise<string[]> {
+  const known: Record<string, string> = (await import("./pyth.js"))
+    .PythSolanaService.PRICE_FEED_IDS;
+  return feeds.map((feed) => known[feed.toUpperCase()] || feed);
+}
+
+// "send" operations sign with the SDK wallet; fail before building
+// anything when there is none
+async function loadWithWallet<T>(
+  sdk: ForgeXSolanaSDK,
+  name: string
+): Promise<T> {
+  if (!sdk.plugins.getWallet()) {
+    throw new ForgeXSDKError(
+      "WALLET_REQUIRED",
+      `${name} operations sign transactions, connect a wallet or set an SDK signer`,
+      undefined,
+      { service: "operations" }
+    );
+  }
+  return sdk.plugins.loadRequired<T>(name);
+}
+
+// Builders leave a placeholder blockhash; callers get a fresh one to sign
+async function toUnsigned(
+  sdk: ForgeXSolanaSDK,
+  transactions: SendableTransaction[],
+  feePayer: PublicKey
+): Promise<UnsignedTransactions> {
+  const { blockhash, lastValidBlockHeight } =
+    await sdk.connection.getLatestBlockhash();
+  for (const transaction of transactions) {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.message.recentBlockhash = blockhash;
+    } else {
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = transaction.feePayer || feePayer;
+    }
+  }
+  return {
+    transactions: transactions.map(encodeTransaction),
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
@@ -0,0 +1,288 @@
+import { definePlugin, type ServicePlugin } from "./utils/plugins.js";
+
+// ============================================
+// CORE SERVICES (no API key or wallet required)
+// ============================================
+
+export const jupiterPlugin = definePlugin({
+  name: "jupiter",
+  load: () => import("./jupiter.js"),
+  create: ({ connection, serviceOptions }, { JupiterService }) =>
+    new JupiterService({ connection, ...serviceOptions }),
+});
+
+export const kaminoPlugin = definePlugin({
+  name: "kamino",
+  load: () => import("./kamino.js"),
+  create: (
+    { config, connection, executor, priorityFees, serviceOptions },
+    { KaminoService }
+  ) => {
+    const kamino = new KaminoService(
+      connection,
+      config.connection.network === "devnet" ? "devnet" : "mainnet-beta",
+      undefined,
+      undefined,
+      undefined,
+      { ...serviceOptions, priorityFees }
+    );
+    kamino.setExecutor(executor);
+    return kamino;
+  },
+});
+
+export const driftPlugin = definePlugin({
+  name: "drift",
+  wallet: "optional",
+  load: () => import("./drift.js"),
+  create: ({ connection, wallet, serviceOptions }, { DriftClient }) =>
+    new DriftClient(connection, wallet, undefined, serviceOptions),
+});
+
+export const solendPlugin = definePlugin({
+  name: "solend",
+  load: () => import("./solend.js"),
+  create: (
+    { config, connection, executor, priorityFees, serviceOptions },
+    { SolendClient }
+  ) => {
+    const solend = new SolendClient(
+      connection,
+      config.connection.network === "devnet" ? "devnet" : "production",
+      { ...serviceOptions, priorityFees }
+    );
+    solend.setExecutor(executor);
+    return solend;
+  },
+});
+
+export const dexscreenerPlugin = definePlugin({
+  name: "dexscreener",
+  load: () => import("./dexscreener.js"),
+  create: ({ serviceOptions }, { DexScreenerClient }) =>
+    new DexScreenerClient(serviceOptions),
+});
+
+export const squadsPlugin = definePlugin({
+  name: "squads",
+  load: () => import("./squads.js"),
+  create: (
+    { connection, priorityFees, logger, serviceOptions },
+    { SquadsService }
+  ) =>
+    new SquadsService({
+      connection,
+      addresses: serviceOptions.addresses,
+      priorityFees,
+      logger,
+    }),
+});
+
+export const meteoraPlugin = definePlugin({
+  name: "meteora",
+  wallet: "optional",
+  load: () => import("./meteora.js"),
+  create: (
+    { config, connection, wallet, priorityFees, serviceOptions },
+    { MeteoraService }
+  ) =>
+    new MeteoraService(
+      connection,
+      config.connection.network === "localnet"
+        ? "mainnet-beta"
+        : config.connection.network,
+      wallet,
+      { ...serviceOptions, priorityFees }
+    ),
+});
+
+export const marginfiPlugin = definePlugin({
+  name: "marginfi",
+  wallet: "optional",
+  load: () => import("./marginfi.js"),
+  create: ({ connection, wallet, serviceOptions }, { MarginfiService }) =>
+    new MarginfiService(connection, "production", {
+      ...serviceOptions,
+      signer: wallet,
+    }),
+});
+
+export const clockworkPlugin = definePlugin({
+  name: "clockwork",
+  wallet: "optional",
+  load: () => import("./clockwork.js"),
+  create: (
+    { config, connection, wallet, serviceOptions },
+    { ClockworkService }
+  ) =>
+    new ClockworkService(config.connection.network, wallet, {
+      ...serviceOptions,
+      connection,
+    }),
+});
+
+// ============================================
+// API KEY SERVICES
+// ============================================
+
+export const tensorPlugin = definePlugin({
+  name: "tensor",
+  requiredConfig: ["apiKeys.tensor"],
+  load: () => import("./tensor.js"),
+  create: ({ config, connection, serviceOptions }, { TensorService }) =>
+    new TensorService({
+      connection,
+      apiKey: config.apiKeys.tensor,
+      ...serviceOptions,
+    }),
+});
+
+export const sanctumPlugin = definePlugin({
+  name: "sanctum",
+  requiredConfig: ["apiKeys.sanctum"],
+  load: () => import("./sanctum.js"),
+  create: ({ config, serviceOptions }, { SanctumService }) =>
+    new SanctumService(config.apiKeys.sanctum, undefined, serviceOptions),
+});
+
+export const heliusPlugin = definePlugin({
+  name: "helius",
+  requiredConfig: ["apiKeys.helius"],
+  load: () => import("./helius.js"),
+  create: ({ config, connection, serviceOptions }, { HeliusClient }) =>
+    new HeliusClient(connection, config.apiKeys.helius, serviceOptions),
+});
+
+export const birdeyePlugin = definePlugin({
+  name: "birdeye",
+  requiredConfig: ["apiKeys.birdeye"],
+  load: () => import("./birdeye.js"),
+  create: ({ config, serviceOptions }, { BirdeyeClient }) =>
+    new BirdeyeClient(config.apiKeys.birdeye, serviceOptions),
+});
+
+export const shyftPlugin = definePlugin({
+  name: "shyft",
+  requiredConfig: ["apiKeys.shyft"],
+  load: () => import("./shyft.js"),
+  create: ({ config }, { ShyftService }) =>
+    new ShyftService(config.apiKeys.shyft),
+});
+
+export const crossmintPlugin = definePlugin({
+  name: "crossmint",
+  requiredConfig: ["apiKeys.crossmint.apiKey"],
+  load: () => import("./crossmint.js"),
+  create: ({ config, logger }, { CrossmintWalletService }) =>
+    new CrossmintWalletService({
+      apiKey: config.apiKeys.crossmint.apiKey,
+      logger,
+    }),
+});
+
+export const dialectPlugin = definePlugin({
+  name: "dialect",
+  requiredConfig: ["apiKeys.dialect"],
+  wallet: "optional",
+  load: () => import("./dialect.js"),
+  create: (
+    { config, connection, wallet, serviceOptions },
+    { DialectService }
+  ) =>
+    new DialectService(
+      undefined,
+      undefined,
+      undefined,
+      config.apiKeys.dialect,
+      {
+        ...serviceOptions,
+        signer: wallet,
+        connection,
+      }
+    ),
+});
+
+// ============================================
+// WALLET SERVICES (need initializeWalletServices or an SDK signer)
+// ============================================
+
+export const marinadePlugin = definePlugin({
+  name: "marinade",
+  wallet: "required",
+  load: () => import("./marinade.js"),
+  create: (
+    { connection, wallet, walletOptions, priorityFees },
+    { MarinadeService }
+  ) =>
+    new MarinadeService(
+      connection,
+      wallet,
+      walletOptions.referralCode,
+      priorityFees
+    ),
+});
+
+export const pythPlugin = definePlugin({
+  name: "pyth",
+  wallet: "optional",
+  load: () => import("./pyth.js"),
+  create: (
+    { connection, wallet, walletOptions, serviceOptions },
+    { PythSolanaService }
+  ) =>
+    new PythSolanaService(
+      connection,
+      wallet,
+      walletOptions.hermesUrl,
+      serviceOptions
+    ),
+});
+
+export const mayanPlugin = definePlugin({
+  name: "mayan",
+  wallet: "required",
+  load: () => import("./mayan.js"),
+  create: ({ connection, wallet, serviceOptions }, { MayanSolanaService }) =>
+    new MayanSolanaService(connection, wallet.publicKey, serviceOptions),
+});
+
+// API swaps work right away; call raydium.initialize() for SDK swaps
+export const raydiumPlugin = definePlugin({
+  name: "raydium",
+  wallet: "required",
+  load: () => import("./raydium.js"),
+  create: (
+    { connection, wallet, executor, serviceOptions },
+    { RaydiumV2Service }
+  ) => {
+    const raydium = new RaydiumV2Service(connection, wallet, serviceOptions);
+    raydium.setExecutor(executor);
+    return raydium;
+  },
+});
+
+/**
+ * Every protocol service ForgeXSolanaSDK registers by default
+ */
+export const BUILTIN_PLUGINS: ServicePlugin[] = [
+  jupiterPlugin,
+  kaminoPlugin,
+  tensorPlugin,
+  marinadePlugin,
+  driftPlugin,
+  pythPlugin,
+  squadsPlugin,
+  raydiumPlugin,
+  mayanPlugin,
+  sanctumPlugin,
+  meteoraPlugin,
+  marginfiPlugin,
+  heliusPlugin,
+  solendPlugin,
+  birdeyePlugin,
+  clockworkPlugin,
+  crossmintPlugin,
+  dexscreenerPlugin,
+  dialectPlugin,
+  shyftPlugin,
+];
@@ -1,29 +1,20 @@
-import {
-  Connection,
-  PublicKey,
-  Transaction,
-  VersionedTransaction,
-  Signer,
-} from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { HermesClient } from "@pythnetwork/hermes-client";
 import {
   PythSolanaReceiver,
   InstructionWithEphemeralSigners,
   PythTransactionBuilder,
 } from "@pythnetwork/pyth-solana-receiver";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { TokenAmount } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 /**
- * Custom Wallet interface that's compatible with both transaction types
+ * @deprecated Pass any `SignerInput`; services now share one `Signer` model
  */
-export interface CompatibleWallet {
-  publicKey: PublicKey;
-  signTransaction<T extends Transaction | VersionedTransaction>(
-    tx: T
-  ): Promise<T>;
-  signAllTransactions<T extends Transaction | VersionedTransaction>(
-    txs: T[]
-  ): Promise<T[]>;
-}
+export type CompatibleWallet = Signer;
 
 /**
  * Price feed data structure
@@ -35,6 +26,18 @@ export interface PythPrice {
   publishTime: number;
 }
 
+/**
+ * Latest parsed price of a feed
+ */
+export interface PythFeedPrice extends PythPrice {
+  /** Feed ID without the 0x prefix, as Hermes returns it */
+  id: string;
+  /** Exact decimal price, e.g. "171.23456789" */
+  uiPrice: string;
+  /** Exact decimal confidence interval */
+  uiConf: string;
+}
+
 /**
  * Price update options
  */
@@ -61,10 +64,11 @@ export interface PriceFeedAccountConfig {
  */
 export class PythSolanaService {
   private connection: Connection;
-  private wallet: CompatibleWallet;
+  private wallet?: Signer;
   private hermesClient: HermesClient;
-  private pythReceiver: PythSolanaReceiver;
+  private pythReceiver?: PythSolanaReceiver;
   private hermesUrl: string;
+  private logger: Logger;
 
   /**
    * Well-known Pyth price feed IDs
@@ -101,16 +105,19 @@ export class PythSolanaService {
   /**
    * Initialize Pyth Solana Service
    * @param connection Solana RPC connection
-   * @param wallet Compatible wallet for signing transactions
+   * @param wallet Keypair, browser wallet or signer; only needed for price
+   * feed accounts and posting updates, not for Hermes reads
    * @param hermesUrl Custom Hermes URL (optional)
+   * @param options Shared logger
    */
   constructor(
     connection: Connection,
-    wallet: CompatibleWallet,
-    hermesUrl: string = PythSolanaService.HERMES_ENDPOINTS.PUBLIC
+    wallet: SignerInput | undefined,
+    hermesUrl: string = PythSolanaService.HERMES_ENDPOINTS.PUBLIC,
+    options: ServiceOptions = {}
   ) {
     this.connection = connection;
-    this.wallet = wallet;
+    this.wallet = wallet && toSigner(wallet);
     this.hermesUrl = hermesUrl;
 
     // Initialize Hermes client for fetching price updates
@@ -120,9 +127,15 @@ export class PythSolanaService {
     });
 
     // Initialize Pyth Solana receiver with compatible wallet
-    this.pythReceiver = new PythSolanaReceiver({
-      connection,
-      wallet: wallet as any, // Cast to satisfy the type requirement
+    if (this.wallet) {
+      this.pythReceiver = new PythSolanaReceiver({
+        connection,
+        wallet: this.wallet as any, // Cast to satisfy the type requirement
+      });
+    }
+
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "PythSolanaService",
     });
   }
 
@@ -136,7 +149,7 @@ export class PythSolanaService {
    */
   getPriceFeedAccountAddress(config: PriceFeedAccountConfig): PublicKey {
     try {
-      return this.pythReceiver.getPriceFeedAccountAddress(
+      return this.receiver().getPriceFeedAccountAddress(
         config.shardId,
         config.priceFeedId
       );
@@ -180,7 +193,7 @@ export class PythSolanaService {
    */
   async fetchPriceFeedAccount(config: PriceFeedAccountConfig) {
     try {
-      return await this.pythReceiver.fetchPriceFeedAccount(
+      return await this.receiver().fetchPriceFeedAccount(
         config.shardId,
         config.priceFeedId
       );
@@ -211,6 +224,29 @@ export class PythSolanaService {
     }
   }
 
+  /**
+   * Fetch and parse the latest prices from Hermes, without posting them
+   */
+  async getLatestPrices(priceFeedIds: string[]): Promise<PythFeedPrice[]> {
+    try {
+      const priceUpdates = await this.hermesClient.getLatestPriceUpdates(
+        priceFeedIds,
+        { parsed: true }
+      );
+      return (priceUpdates.parsed || []).map(({ id, price }) => ({
+        id,
+        price: price.price,
+        conf: price.conf,
+        exponent: price.expo,
+        publishTime: price.publish_time,
+        uiPrice: scalePrice(price.price, price.expo),
+        uiConf: scalePrice(price.conf, price.expo),
+      }));
+    } catch (error) {
+      throw this.handleError("getLatestPrices", error);
+    }
+  }
+
   /**
    * Fetch price updates at a specific timestamp
    * Fixed: Using correct method name
@@ -265,7 +301,7 @@ export class PythSolanaService {
     options: PriceUpdateOptions = {}
   ): Promise<string[]> {
     try {
-      const transactionBuilder = this.pythReceiver.newTransactionBuilder({
+      const transactionBuilder = this.receiver().newTransactionBuilder({
         closeUpdateAccounts: options.closeUpdateAccounts ?? true,
       });
 
@@ -281,10 +317,9 @@ export class PythSolanaService {
           options.computeUnitPriceMicroLamports ?? 50000,
       });
 
-      const signatures = await this.pythReceiver.provider.sendAll(
-        transactions,
-        { skipPreflight: options.skipPreflight ?? true }
-      );
+      const signatures = await this.receiver().provider.sendAll(transactions, {
+        skipPreflight: options.skipPreflight ?? true,
+      });
 
       return signatures;
     } catch (error) {
@@ -303,7 +338,7 @@ export class PythSolanaService {
     options: PriceUpdateOptions = {}
   ): Promise<string[]> {
     try {
-      const transactionBuilder = this.pythReceiver.newTransactionBuilder({
+      const transactionBuilder = this.receiver().newTransactionBuilder({
         closeUpdateAccounts: options.closeUpdateAccounts ?? true,
       });
 
@@ -321,10 +356,9 @@ export class PythSolanaService {
           options.computeUnitPriceMicroLamports ?? 50000,
       });
 
-      const signatures = await this.pythReceiver.provider.sendAll(
-        transactions,
-        { skipPreflight: options.skipPreflight ?? true }
-      );
+      const signatures = await this.receiver().provider.sendAll(transactions, {
+        skipPreflight: options.skipPreflight ?? true,
+      });
 
       return signatures;
     } catch (error) {
@@ -355,7 +389,7 @@ export class PythSolanaService {
     options: PriceUpdateOptions = {}
   ): Promise<string[]> {
     try {
-      const transactionBuilder = this.pythReceiver.newTransactionBuilder({
+      const transactionBuilder = this.receiver().newTransactionBuilder({
         closeUpdateAccounts: options.closeUpdateAccounts ?? true,
       });
 
@@ -368,10 +402,9 @@ export class PythSolanaService {
           options.computeUnitPriceMicroLamports ?? 50000,
       });
 
-      const signatures = await this.pythReceiver.provider.sendAll(
-        transactions,
-        { skipPreflight: options.skipPreflight ?? true }
-      );
+      const signatures = await this.receiver().provider.sendAll(transactions, {
+        skipPreflight: options.skipPreflight ?? true,
+      });
 
       return signatures;
     } catch (error) {
@@ -394,7 +427,10 @@ export class PythSolanaService {
     try {
       // Validate window (max 600 seconds / 10 minutes)
       if (windowSeconds <= 0 || windowSeconds > 600) {
-        throw new Error("TWAP window must be between 1 and 600 seconds");
+        throw new ForgeXSDKError(
+          "INVALID_INPUT",
+          "TWAP window must be between 1 and 600 seconds"
+        );
       }
 
       const twapUpdates = await this.hermesClient.getLatestTwaps(
@@ -520,7 +556,7 @@ export class PythSolanaService {
     maxInstructions: number = 10
   ): Promise<string[]> {
     try {
-      const transactionBuilder = this.pythReceiver.newTransactionBuilder({
+      const transactionBuilder = this.receiver().newTransactionBuilder({
         closeUpdateAccounts: true,
       });
 
@@ -532,7 +568,7 @@ export class PythSolanaService {
         computeUnitPriceMicroLamports: 50000,
       });
 
-      return await this.pythReceiver.provider.sendAll(transactions);
+      return await this.receiver().provider.sendAll(transactions);
     } catch (error) {
       throw this.handleError("closePreviousEncodedVaas", error);
     }
@@ -543,7 +579,7 @@ export class PythSolanaService {
    */
   async findOwnedEncodedVaaAccounts(): Promise<PublicKey[]> {
     try {
-      return await this.pythReceiver.findOwnedEncodedVaaAccounts();
+      return await this.receiver().findOwnedEncodedVaaAccounts();
     } catch (error) {
       throw this.handleError("findOwnedEncodedVaaAccounts", error);
     }
@@ -609,7 +645,7 @@ export class PythSolanaService {
   /**
    * Get wallet
    */
-  getWallet(): CompatibleWallet {
+  getWallet(): Signer | undefined {
     return this.wallet;
   }
 
@@ -624,7 +660,7 @@ export class PythSolanaService {
    * Get Pyth receiver
    */
   getPythReceiver(): PythSolanaReceiver {
-    return this.pythReceiver;
+    return this.receiver();
   }
 
   /**
@@ -640,18 +676,37 @@ export class PythSolanaService {
   newTransactionBuilder(options?: {
     closeUpdateAccounts?: boolean;
   }): PythTransactionBuilder {
-    return this.pythReceiver.newTransactionBuilder(options || {});
+    return this.receiver().newTransactionBuilder(options || {});
   }
 
   // ============================================
   // ERROR HANDLING
   // ============================================
 
-  private handleError(method: string, error: any): Error {
-    const errorMessage = error?.message || error?.toString() || "Unknown error";
-    console.error(`[PythSolanaService:${method}] Error:`, errorMessage);
-    return new Error(`${method} failed: ${errorMessage}`);
+  // The receiver signs with the wallet; Hermes reads work without one
+  private receiver(): PythSolanaReceiver {
+    if (!this.pythReceiver) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "A wallet is required for price feed accounts and price updates",
+        undefined,
+        { service: "PythSolanaService" }
+      );
+    }
+    return this.pythReceiver;
+  }
+
+  private handleError(method: string, error: any): ForgeXSDKError {
+    this.logger.debug(`${method} failed`, { method, error });
+    return ForgeXSDKError.from(error, { service: "PythSolanaService", method });
   }
 }
 
+// Integer price times 10^exponent as an exact decimal string
+function scalePrice(value: string, exponent: number): string {
+  return exponent <= 0
+    ? TokenAmount.fromRaw(value, -exponent).toString()
+    : (BigInt(value) * 10n ** BigInt(exponent)).toString();
+}
+
 export default PythSolanaService;
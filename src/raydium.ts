@@ -1,10 +1,8 @@
 import {
   Connection,
   PublicKey,
-  Keypair,
   Transaction,
   VersionedTransaction,
-  sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import {
   Raydium,
@@ -23,9 +21,22 @@ import {
   NATIVE_MINT,
   ASSOCIATED_TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
-import axios, { AxiosInstance } from "axios";
+import { AxiosInstance } from "axios";
 import BN from "bn.js";
-import Decimal from "decimal.js";
+import { Buffer } from "buffer";
+import { TransactionExecutor } from "./utils/transaction-executor.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import type { TokenSource } from "./utils/token-registry.js";
+import {
+  TokenAmount as SDKTokenAmount,
+  toBaseUnits,
+  type BaseUnitsInput,
+} from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 /**
  * Swap compute response from Raydium API
@@ -69,7 +80,8 @@ export interface PriorityFee {
 export interface SwapParams {
   inputMint: string;
   outputMint: string;
-  amount: number;
+  /** Input amount in base units */
+  amount: BaseUnitsInput;
   slippage: number;
   txVersion?: "V0" | "LEGACY";
   priorityLevel?: keyof PriorityFee;
@@ -104,23 +116,38 @@ export interface FarmOperationParams {
  */
 export class RaydiumV2Service {
   private connection: Connection;
-  private owner: Keypair;
+  private owner: Signer;
   private raydium?: Raydium;
   private apiClient: AxiosInstance;
+  private executor: TransactionExecutor;
+  private cache: ResponseCache;
+  private logger: Logger;
 
   /**
    * Initialize Raydium V2 service
-   * @param rpcUrl RPC endpoint
-   * @param ownerKeypair Wallet keypair for signing
+   * @param rpc RPC endpoint, or a shared connection
+   * @param owner Keypair, browser wallet or signer that signs swaps
+   * @param options Shared HTTP client, response cache and logger
    */
-  constructor(rpcUrl: string, ownerKeypair: Keypair) {
-    this.connection = new Connection(rpcUrl, { commitment: "confirmed" });
-    this.owner = ownerKeypair;
+  constructor(
+    rpc: string | Connection,
+    owner: SignerInput,
+    options: ServiceOptions = {}
+  ) {
+    this.connection =
+      typeof rpc === "string"
+        ? new Connection(rpc, { commitment: "confirmed" })
+        : rpc;
+    this.owner = toSigner(owner);
 
     // Initialize API client
-    this.apiClient = axios.create({
-      timeout: 30000,
+    this.apiClient = (options.httpClient || new HttpClient()).create();
+    this.cache = options.cache || new ResponseCache();
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "RaydiumV2Service",
     });
+
+    this.executor = new TransactionExecutor(this.connection);
   }
 
   /**
@@ -134,7 +161,9 @@ export class RaydiumV2Service {
     try {
       this.raydium = await Raydium.load({
         connection: this.connection,
-        owner: this.owner,
+        owner: this.owner.publicKey,
+        signAllTransactions: (transactions) =>
+          this.owner.signAllTransactions(transactions),
         disableLoadToken: options?.disableLoadToken ?? false,
         tokenAccounts: options?.tokenAccounts,
         tokenAccountRawInfos: options?.tokenAccountRawInfos,
@@ -149,7 +178,12 @@ export class RaydiumV2Service {
    */
   private ensureInitialized(): Raydium {
     if (!this.raydium) {
-      throw new Error("Raydium not initialized. Call initialize() first.");
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        "Raydium not initialized. Call initialize() first.",
+        undefined,
+        { service: "RaydiumV2Service" }
+      );
     }
     return this.raydium;
   }
@@ -206,13 +240,33 @@ export class RaydiumV2Service {
   async getTokenList(): Promise<any[]> {
     try {
       const raydium = this.ensureInitialized();
-      const result = await raydium.api.getTokenList();
-      return result.mintList || [];
+      return await this.cache.wrap("raydium:getTokenList", null, async () => {
+        const result = await raydium.api.getTokenList();
+        return result.mintList || [];
+      });
     } catch (error) {
       throw this.handleError("getTokenList", error);
     }
   }
 
+  /**
+   * Raydium's token list as a TokenRegistry source (needs initialize())
+   */
+  getTokenSource(): TokenSource {
+    return {
+      name: "raydium",
+      list: async () =>
+        (await this.getTokenList()).map((token) => ({
+          mint: token.address,
+          symbol: token.symbol,
+          name: token.name,
+          decimals: token.decimals,
+          programId: token.programId,
+          logoURI: token.logoURI,
+        })),
+    };
+  }
+
   /**
    * Get token info by mint addresses
    */
@@ -231,7 +285,9 @@ export class RaydiumV2Service {
   async getPoolList(params: any = {}): Promise<any> {
     try {
       const raydium = this.ensureInitialized();
-      return await raydium.api.getPoolList(params);
+      return await this.cache.wrap("raydium:getPoolList", params, () =>
+        raydium.api.getPoolList(params)
+      );
     } catch (error) {
       throw this.handleError("getPoolList", error);
     }
@@ -300,7 +356,8 @@ export class RaydiumV2Service {
   async computeSwap(params: {
     inputMint: string;
     outputMint: string;
-    amount: number;
+    /** Input amount in base units */
+    amount: BaseUnitsInput;
     slippageBps: number;
     txVersion: "V0" | "LEGACY";
   }): Promise<SwapCompute> {
@@ -311,7 +368,7 @@ export class RaydiumV2Service {
           params: {
             inputMint: params.inputMint,
             outputMint: params.outputMint,
-            amount: params.amount,
+            amount: toBaseUnits(params.amount).toString(),
             slippageBps: params.slippageBps,
             txVersion: params.txVersion,
           },
@@ -411,30 +468,14 @@ export class RaydiumV2Service {
         outputAccount: isOutputSol ? undefined : outputTokenAcc?.toBase58(),
       });
 
-      // Send transactions
+      // Send transactions; each one must land before the next is sent
       const signatures: string[] = [];
-      const isV0 = params.txVersion === "V0";
-
       for (const tx of transactions) {
-        if (isV0) {
-          const versionedTx = tx as VersionedTransaction;
-          versionedTx.sign([this.owner]);
-          const txId = await this.connection.sendTransaction(versionedTx, {
-            skipPreflight: true,
-          });
-          await this.connection.confirmTransaction(txId, "confirmed");
-          signatures.push(txId);
-        } else {
-          const legacyTx = tx as Transaction;
-          legacyTx.sign(this.owner);
-          const txId = await sendAndConfirmTransaction(
-            this.connection,
-            legacyTx,
-            [this.owner],
-            { skipPreflight: true }
-          );
-          signatures.push(txId);
-        }
+        const result = await this.executor.execute(tx, {
+          signer: this.owner,
+          skipPreflight: true,
+        });
+        signatures.push(TransactionExecutor.assertConfirmed(result));
       }
 
       return signatures;
@@ -697,12 +738,19 @@ export class RaydiumV2Service {
   }
 
   /**
-   * Get owner keypair
+   * Get owner signer
    */
-  getOwner(): Keypair {
+  getOwner(): Signer {
     return this.owner;
   }
 
+  /**
+   * Use a shared transaction executor for API swaps
+   */
+  setExecutor(executor: TransactionExecutor): void {
+    this.executor = executor;
+  }
+
   /**
    * Get Raydium instance
    */
@@ -712,25 +760,19 @@ export class RaydiumV2Service {
 
   /**
    * Format amount with decimals
+   * @deprecated Use TokenAmount.fromRaw(amount, decimals).toString()
    */
   static formatAmount(amount: BN | string, decimals: number): string {
-    return new Decimal(amount.toString())
-      .div(new Decimal(10).pow(decimals))
-      .toString();
+    return SDKTokenAmount.fromRaw(amount, decimals).toString();
   }
 
   // ============================================
   // ERROR HANDLING
   // ============================================
 
-  private handleError(method: string, error: any): Error {
-    const errorMessage =
-      error?.response?.data?.message ||
-      error?.message ||
-      error?.toString() ||
-      "Unknown error";
-    console.error(`[RaydiumV2Service:${method}] Error:`, errorMessage);
-    return new Error(`${method} failed: ${errorMessage}`);
+  private handleError(method: string, error: any): ForgeXSDKError {
+    this.logger.debug(`${method} failed`, { method, error });
+    return ForgeXSDKError.from(error, { service: "RaydiumV2Service", method });
   }
 }
 
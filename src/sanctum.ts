@@ -1,5 +1,17 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { AxiosInstance, AxiosRequestConfig } from "axios";
 import { PublicKey, Transaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { ForgeXSDKError } from "./utils/errors.js";
+import {
+  AddressRegistry,
+  DEFAULT_ADDRESSES,
+  type ProtocolAddresses,
+} from "./utils/addresses.js";
+import type { ServiceOptions } from "./types.js";
+
+const SANCTUM_PROGRAMS = DEFAULT_ADDRESSES["mainnet-beta"].sanctum;
 
 // ==================== Types & Interfaces ====================
 
@@ -229,32 +241,38 @@ export interface SanctumError {
 export class SanctumService {
   private client: AxiosInstance;
   private apiKey: string;
+  private cache: ResponseCache;
   private readonly baseURL: string = "https://sanctum-api.ironforge.network";
 
-  // Program IDs
+  private addresses: AddressRegistry;
+
+  /**
+   * Mainnet program IDs
+   * @deprecated Use getPrograms(), which honours SDKConfig.addresses
+   */
   public static readonly PROGRAMS = {
-    S_CONTROLLER: "5ocnV1qiCgaQR8Jb8xWnVbApfaygJ8tNoZfgPwsgx9kx",
-    FLAT_FEE_PRICING: "f1tUoNEKrDp1oeGn4zxr7bh41eN6VcfHjfrL3ZqQday",
-    SPL_SOL_VALUE_CALCULATOR: "sp1V4h2gWorkGhVcazBc22Hfo2f5sd7jcjT4EDPrWFF",
+    S_CONTROLLER: SANCTUM_PROGRAMS.sController,
+    FLAT_FEE_PRICING: SANCTUM_PROGRAMS.flatFeePricing,
+    SPL_SOL_VALUE_CALCULATOR: SANCTUM_PROGRAMS.splSolValueCalculator,
     SANCTUM_SPL_1_SOL_VALUE_CALCULATOR:
-      "sspUE1vrh7xRoXxGsg7vR1zde2WdGtJRbyK9uRumBDy",
+      SANCTUM_PROGRAMS.sanctumSpl1SolValueCalculator,
     SANCTUM_SPL_2_SOL_VALUE_CALCULATOR:
-      "ssmbu3KZxgonUtjEMCKspZzxvUQCxAFnyh1rcHUeEDo",
-    MARINADE_SOL_VALUE_CALCULATOR:
-      "mare3SCyfZkAndpBRBeonETmkCCB3TJTTrz8ZN2dnhP",
-    LIDO_SOL_VALUE_CALCULATOR: "1idUSy4MGGKyKhvjSnGZ6Zc7Q4eKQcibym4BkEEw9KR",
-    WSOL_SOL_VALUE_CALCULATOR: "wsoGmxQLSvwWpuaidCApxN5kEowLe2HLQLJhCQnj4bE",
-  } as const;
-
-  constructor(apiKey: string, baseURL?: string) {
+      SANCTUM_PROGRAMS.sanctumSpl2SolValueCalculator,
+    MARINADE_SOL_VALUE_CALCULATOR: SANCTUM_PROGRAMS.marinadeSolValueCalculator,
+    LIDO_SOL_VALUE_CALCULATOR: SANCTUM_PROGRAMS.lidoSolValueCalculator,
+    WSOL_SOL_VALUE_CALCULATOR: SANCTUM_PROGRAMS.wsolSolValueCalculator,
+  };
+
+  constructor(apiKey: string, baseURL?: string, options: ServiceOptions = {}) {
     this.apiKey = apiKey;
     if (baseURL) {
       this.baseURL = baseURL;
     }
 
-    this.client = axios.create({
+    this.cache = options.cache || new ResponseCache();
+    this.addresses = options.addresses || new AddressRegistry();
+    this.client = (options.httpClient || new HttpClient()).create({
       baseURL: this.baseURL,
-      timeout: 30000,
       headers: {
         "Content-Type": "application/json",
       },
@@ -276,13 +294,7 @@ export class SanctumService {
     this.client.interceptors.response.use(
       (response) => response,
       (error) => {
-        if (error.response?.data) {
-          const sanctumError = error.response.data as SanctumError;
-          throw new Error(
-            `Sanctum API Error [${sanctumError.error.code}]: ${sanctumError.error.message}`
-          );
-        }
-        throw error;
+        throw ForgeXSDKError.from(error, { service: "SanctumService" });
       }
     );
   }
@@ -294,8 +306,10 @@ export class SanctumService {
    * @returns Array of LSTs with stats
    */
   async getAllLsts(): Promise<LstWithStats[]> {
-    const response = await this.client.get<{ data: LstWithStats[] }>("/lsts");
-    return response.data.data;
+    return this.cache.wrap("sanctum:getAllLsts", null, async () => {
+      const response = await this.client.get<{ data: LstWithStats[] }>("/lsts");
+      return response.data.data;
+    });
   }
 
   /**
@@ -336,9 +350,10 @@ export class SanctumService {
    * @returns Record of validator vote accounts to APY records
    */
   async getValidatorApys(): Promise<Record<string, ValidatorApyRecord>> {
-    const response = await this.client.get<Record<string, ValidatorApyRecord>>(
-      "/validators/apy"
-    );
+    const response =
+      await this.client.get<Record<string, ValidatorApyRecord>>(
+        "/validators/apy"
+      );
     return response.data;
   }
 
@@ -517,6 +532,16 @@ export class SanctumService {
     }
   }
 
+  /**
+   * Infinity pool program IDs from the address registry
+   * @returns Program IDs keyed by name, e.g. sController
+   */
+  getPrograms(): Partial<
+    Record<keyof ProtocolAddresses["sanctum"], PublicKey>
+  > {
+    return this.addresses.getAll("sanctum");
+  }
+
   /**
    * Get best APY from LST list
    * @param lsts - Array of LSTs
@@ -577,13 +602,15 @@ export class SanctumService {
  * Create a new Sanctum service instance
  * @param apiKey - Sanctum API key
  * @param baseURL - Optional custom base URL
+ * @param options - Shared HTTP client and response cache
  * @returns SanctumService instance
  */
 export function createSanctumService(
   apiKey: string,
-  baseURL?: string
+  baseURL?: string,
+  options?: ServiceOptions
 ): SanctumService {
-  return new SanctumService(apiKey, baseURL);
+  return new SanctumService(apiKey, baseURL, options);
 }
 
 export default SanctumService;
@@ -0,0 +1,650 @@
+import { Connection, PublicKey, Keypair } from "@solana/web3.js";
+import type { JupiterService } from "./jupiter.js";
+import type { KaminoService } from "./kamino.js";
+import type { TensorService } from "./tensor.js";
+import type { MarinadeService } from "./marinade.js";
+import type { DriftClient } from "./drift.js";
+import type { PythSolanaService } from "./pyth.js";
+import type { SquadsService } from "./squads.js";
+import type { RaydiumV2Service } from "./raydium.js";
+import type { MayanSolanaService } from "./mayan.js";
+import type { SanctumService } from "./sanctum.js";
+import type { MeteoraService } from "./meteora.js";
+import type { MarginfiService } from "./marginfi.js";
+import type { HeliusClient } from "./helius.js";
+import type { SolendClient } from "./solend.js";
+import type { BirdeyeClient } from "./birdeye.js";
+import type { ClockworkService } from "./clockwork.js";
+import type { CrossmintWalletService } from "./crossmint.js";
+import type { DexScreenerClient } from "./dexscreener.js";
+import type { DialectService } from "./dialect.js";
+import type { ShyftService } from "./shyft.js";
+import { TransactionExecutor } from "./utils/transaction-executor.js";
+import { PriorityFeeService } from "./utils/priority-fees.js";
+import { TransactionSimulator } from "./utils/simulation.js";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, type Logger } from "./utils/logger.js";
+import { RpcPool } from "./utils/rpc-pool.js";
+import { toSigner, type Signer, type SignerInput } from "./utils/signer.js";
+import { AddressLookupTableManager } from "./utils/lookup-tables.js";
+import { TransactionPacker } from "./utils/transaction-packer.js";
+import { JitoBundleSender } from "./utils/jito-bundles.js";
+import { noopTelemetry, type Telemetry } from "./utils/telemetry.js";
+import { PluginRegistry, type WalletServiceOptions } from "./utils/plugins.js";
+import { AddressRegistry } from "./utils/addresses.js";
+import { TokenRegistry, type TokenSource } from "./utils/token-registry.js";
+import { TokenAmount } from "./utils/token-amount.js";
+import { getClusterUrl } from "./utils/connection.js";
+import { BUILTIN_PLUGINS } from "./plugins.js";
+import type { SDKConfig, ServiceOptions } from "./types.js";
+
+// Services whose token lists back sdk.tokens, loaded on first lookup miss
+const TOKEN_SOURCE_SERVICES = ["jupiter", "mayan", "meteora"];
+
+export class ForgeXSolanaSDK {
+  public connection: Connection;
+  public rpc: RpcPool;
+  public signer?: Signer;
+  public logger: Logger;
+  public telemetry: Telemetry;
+  public executor: TransactionExecutor;
+  public priorityFees: PriorityFeeService;
+  public simulator: TransactionSimulator;
+  public lookupTables: AddressLookupTableManager;
+  public packer: TransactionPacker;
+  public bundles: JitoBundleSender;
+  public http: HttpClient;
+  public cache: ResponseCache;
+  /** Program and market addresses of the configured network */
+  public addresses: AddressRegistry;
+  /** Symbol, mint, decimals and token program resolution */
+  public tokens: TokenRegistry;
+  /** Protocol services, constructed on first access */
+  public plugins: PluginRegistry;
+  private serviceOptions: ServiceOptions;
+
+  constructor(config: SDKConfig) {
+    this.logger = config.logger || silentLogger;
+    this.telemetry = config.telemetry || noopTelemetry;
+
+    // One pooled connection shared by every on-chain service
+    this.rpc = new RpcPool({
+      endpoints: config.connection.endpoints || [
+        config.connection.endpoint || getClusterUrl(config.connection.network),
+      ],
+      commitment: config.connection.commitment || "confirmed",
+      logger: this.logger,
+      telemetry: this.telemetry,
+      ...config.connection.pool,
+    });
+    this.connection = this.rpc.connection;
+    this.signer = config.signer && toSigner(config.signer);
+
+    // Shared send path for every transaction-building service
+    // Services share the untraced instances; SDK fields are traced
+    const executor = new TransactionExecutor(this.connection, {
+      commitment: config.connection.commitment || "confirmed",
+      signer: this.signer,
+      logger: this.logger,
+      ...config.execution,
+    });
+    const priorityFees = new PriorityFeeService(
+      this.connection,
+      config.priorityFees
+    );
+    const lookupTables = new AddressLookupTableManager(this.connection, {
+      authority: this.signer,
+      executor,
+      logger: this.logger,
+      ...config.lookupTables,
+    });
+    const packer = new TransactionPacker(this.connection, {
+      executor,
+      lookupTables,
+      logger: this.logger,
+    });
+    this.executor = this.traced(executor);
+    this.priorityFees = this.traced(priorityFees);
+    this.simulator = this.traced(new TransactionSimulator(this.connection));
+    this.lookupTables = this.traced(lookupTables);
+    this.packer = this.traced(packer);
+
+    // Shared HTTP layer and response cache for every REST-based service
+    this.http = new HttpClient({
+      timeout: config.timeout,
+      retries: config.retries,
+      logger: this.logger,
+      telemetry: this.telemetry,
+      ...config.http,
+    });
+    this.cache = new ResponseCache(config.cache);
+    this.addresses = new AddressRegistry(
+      config.connection.network,
+      config.addresses
+    );
+    this.tokens = new TokenRegistry({ ...config.tokens, logger: this.logger });
+    this.serviceOptions = {
+      httpClient: this.http,
+      cache: this.cache,
+      logger: this.logger,
+      addresses: this.addresses,
+      tokens: this.tokens,
+    };
+
+    // Atomic, MEV-protected sending through the Jito block engine
+    this.bundles = this.traced(
+      new JitoBundleSender(this.connection, {
+        commitment: config.connection.commitment || "confirmed",
+        ...config.jito,
+        signer: this.signer,
+        executor,
+        httpClient: this.http,
+        logger: this.logger,
+      })
+    );
+
+    // Protocol services, constructed on first access
+    this.plugins = new PluginRegistry(
+      {
+        config,
+        connection: this.connection,
+        executor,
+        priorityFees,
+        packer,
+        serviceOptions: this.serviceOptions,
+        logger: this.logger,
+      },
+      { wallet: this.signer, telemetry: this.telemetry, logger: this.logger }
+    );
+    for (const plugin of BUILTIN_PLUGINS) {
+      if (!config.services || config.services.includes(plugin.name)) {
+        this.plugins.register(plugin);
+      }
+    }
+    config.plugins?.forEach((plugin) => this.plugins.register(plugin));
+    for (const name of TOKEN_SOURCE_SERVICES) {
+      if (this.plugins.has(name)) {
+        this.tokens.addSource(this.serviceTokenSource(name));
+      }
+    }
+  }
+
+  // ============================================
+  // PROTOCOL SERVICES
+  // ============================================
+
+  get jupiter(): JupiterService {
+    return this.plugins.require<JupiterService>("jupiter");
+  }
+
+  get kamino(): KaminoService {
+    return this.plugins.require<KaminoService>("kamino");
+  }
+
+  get tensor(): TensorService | undefined {
+    return this.plugins.get<TensorService>("tensor");
+  }
+
+  get marinade(): MarinadeService | undefined {
+    return this.plugins.get<MarinadeService>("marinade");
+  }
+
+  get drift(): DriftClient {
+    return this.plugins.require<DriftClient>("drift");
+  }
+
+  get pyth(): PythSolanaService | undefined {
+    return this.plugins.get<PythSolanaService>("pyth");
+  }
+
+  get squads(): SquadsService | undefined {
+    return this.plugins.get<SquadsService>("squads");
+  }
+
+  get raydium(): RaydiumV2Service | undefined {
+    return this.plugins.get<RaydiumV2Service>("raydium");
+  }
+
+  get mayan(): MayanSolanaService | undefined {
+    return this.plugins.get<MayanSolanaService>("mayan");
+  }
+
+  get sanctum(): SanctumService | undefined {
+    return this.plugins.get<SanctumService>("sanctum");
+  }
+
+  get meteora(): MeteoraService | undefined {
+    return this.plugins.get<MeteoraService>("meteora");
+  }
+
+  get marginfi(): MarginfiService | undefined {
+    return this.plugins.get<MarginfiService>("marginfi");
+  }
+
+  get helius(): HeliusClient | undefined {
+    return this.plugins.get<HeliusClient>("helius");
+  }
+
+  get solend(): SolendClient {
+    return this.plugins.require<SolendClient>("solend");
+  }
+
+  get birdeye(): BirdeyeClient | undefined {
+    return this.plugins.get<BirdeyeClient>("birdeye");
+  }
+
+  get clockwork(): ClockworkService | undefined {
+    return this.plugins.get<ClockworkService>("clockwork");
+  }
+
+  get crossmint(): CrossmintWalletService | undefined {
+    return this.plugins.get<CrossmintWalletService>("crossmint");
+  }
+
+  get dexscreener(): DexScreenerClient {
+    return this.plugins.require<DexScreenerClient>("dexscreener");
+  }
+
+  get dialect(): DialectService | undefined {
+    return this.plugins.get<DialectService>("dialect");
+  }
+
+  get shyft(): ShyftService | undefined {
+    return this.plugins.get<ShyftService>("shyft");
+  }
+
+  /**
+   * Initialize wallet-dependent services after user connects their wallet
+   * Call this method when the user connects their browser wallet
+   */
+  async initializeWalletServices(
+    walletAdapter: SignerInput, // Phantom, Solflare, keypair or signer
+    options?: WalletServiceOptions
+  ): Promise<void> {
+    try {
+      const signer = toSigner(walletAdapter);
+      try {
+        signer.publicKey.toBase58();
+      } catch {
+        throw new Error(
+          "Wallet must be connected before initializing services"
+        );
+      }
+      if (!this.signer) {
+        this.lookupTables.setAuthority(signer);
+        this.bundles.setSigner(signer);
+      }
+
+      // Marinade, Pyth, Mayan and Raydium are built for this wallet on
+      // first access
+      this.plugins.setWallet(signer, options);
+    } catch (error: any) {
+      throw new Error(`Failed to initialize wallet services: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check if wallet-dependent services are available
+   */
+  getWalletServicesStatus(): {
+    marinade: boolean;
+    pyth: boolean;
+    mayan: boolean;
+    raydium: boolean;
+  } {
+    return {
+      marinade: this.plugins.isAvailable("marinade"),
+      pyth: this.plugins.isAvailable("pyth"),
+      mayan: this.plugins.isAvailable("mayan"),
+      raydium: this.plugins.isAvailable("raydium"),
+    };
+  }
+
+  /**
+   * Disconnect wallet and clear wallet-dependent services. Services fall
+   * back to the SDK signer, if one was configured.
+   */
+  disconnectWallet(): void {
+    this.plugins.setWallet(this.signer);
+  }
+
+  /**
+   * Import the modules of the given services (every registered service by
+   * default) so their getters can be used. The main entry point bundles
+   * every module up front; the "forgexai-sdk/sdk" entry imports them here.
+   */
+  async load(...services: string[]): Promise<void> {
+    await this.plugins.loadAll(services.length ? services : undefined);
+  }
+
+  /**
+   * Create SDK instance with the modules of its services loaded. Like the
+   * factories below, it constructs the class it is called on.
+   */
+  static async create(config: SDKConfig): Promise<ForgeXSolanaSDK> {
+    const sdk = new this(config);
+    await sdk.load();
+    return sdk;
+  }
+
+  /**
+   * Create SDK instance with default mainnet configuration
+   */
+  static mainnet(apiKeys?: {
+    tensor?: string;
+    squads?: string;
+    sanctum?: string;
+    meteora?: string;
+    marginfi?: string;
+    helius?: string;
+    birdeye?: string;
+    shyft?: string;
+    crossmint?: {
+      apiKey: string;
+      jwt?: string;
+    };
+    clockwork?: string;
+    dialect?: string;
+  }): ForgeXSolanaSDK {
+    return new this({
+      connection: {
+        network: "mainnet-beta",
+        commitment: "confirmed",
+      },
+      apiKeys,
+    });
+  }
+
+  /**
+   * Create SDK instance with devnet configuration
+   */
+  static devnet(apiKeys?: {
+    tensor?: string;
+    squads?: string;
+    sanctum?: string;
+    meteora?: string;
+    marginfi?: string;
+    helius?: string;
+    birdeye?: string;
+    shyft?: string;
+    crossmint?: {
+      apiKey: string;
+      jwt?: string;
+    };
+    clockwork?: string;
+    dialect?: string;
+  }): ForgeXSolanaSDK {
+    return new this({
+      connection: {
+        network: "devnet",
+        commitment: "confirmed",
+      },
+      apiKeys,
+    });
+  }
+
+  /**
+   * Create SDK instance with custom RPC endpoint
+   */
+  static custom(
+    endpoint: string,
+    apiKeys?: {
+      tensor?: string;
+      squads?: string;
+      sanctum?: string;
+      meteora?: string;
+      marginfi?: string;
+      helius?: string;
+      birdeye?: string;
+      shyft?: string;
+      crossmint?: {
+        apiKey: string;
+        jwt?: string;
+      };
+      clockwork?: string;
+      dialect?: string;
+    }
+  ): ForgeXSolanaSDK {
+    return new this({
+      connection: {
+        network: "mainnet-beta",
+        endpoint,
+        commitment: "confirmed",
+      },
+      apiKeys,
+    });
+  }
+
+  /**
+   * Trace calls to an infrastructure service when telemetry is configured;
+   * plugin services are traced by the registry
+   */
+  private traced<T extends object>(service: T): T {
+    return this.telemetry === noopTelemetry
+      ? service
+      : this.telemetry.instrument(service);
+  }
+
+  /**
+   * Get comprehensive DeFi portfolio for a wallet
+   */
+  async getPortfolio(walletAddress: string) {
+    try {
+      const [jupiter, drift, kamino] = await Promise.all([
+        this.tryLoad<JupiterService>("jupiter"),
+        this.tryLoad<DriftClient>("drift"),
+        this.tryLoad<KaminoService>("kamino"),
+      ]);
+      const results = await Promise.allSettled([
+        // Get SOL balance
+        this.connection.getBalance(
+          new (await import("@solana/web3.js")).PublicKey(walletAddress)
+        ),
+        // Get Jupiter token holdings if available
+        jupiter?.getHoldings?.(walletAddress).catch(() => null),
+        // Get basic drift positions if available
+        drift?.getPositions?.(walletAddress).catch(() => []),
+        // Try to get Kamino lending info if available
+        kamino ? this.tryGetKaminoData(walletAddress) : null,
+      ]);
+
+      const [solBalance, holdings, perpPositions, lendingData] = results;
+      const solAmount = TokenAmount.lamports(
+        solBalance.status === "fulfilled" ? solBalance.value : 0
+      );
+
+      return {
+        wallet: walletAddress,
+        solBalance: solAmount.toNumber(),
+        solAmount,
+        holdings: holdings.status === "fulfilled" ? holdings.value : null,
+        lending: lendingData,
+        perpetuals:
+          perpPositions.status === "fulfilled" ? perpPositions.value : [],
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get portfolio: ${error.message}`);
+    }
+  }
+
+  // Services for the aggregate helpers below; undefined when unavailable
+  private async tryLoad<T>(name: string): Promise<T | undefined> {
+    try {
+      return await this.plugins.load<T>(name);
+    } catch (error) {
+      this.logger.warn("Failed to load service", { plugin: name, error });
+      return undefined;
+    }
+  }
+
+  // Token source of a service, loading the service when first queried
+  private serviceTokenSource(name: string): TokenSource {
+    const source = async () =>
+      (
+        await this.tryLoad<{ getTokenSource(): TokenSource }>(name)
+      )?.getTokenSource();
+    return {
+      name,
+      list: async () => (await (await source())?.list?.()) || [],
+      search: async (query) => (await (await source())?.search?.(query)) || [],
+    };
+  }
+
+  /**
+   * Try to get Kamino lending data safely
+   */
+  private async tryGetKaminoData(walletAddress: string) {
+    try {
+      // Add safe Kamino method calls here when available
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get market overview data. Sources that fail are listed in `errors`
+   * instead of silently falling back to defaults.
+   */
+  async getMarketOverview() {
+    try {
+      const results = await Promise.allSettled([
+        // Get Jupiter price data if available
+        this.plugins
+          .load<JupiterService>("jupiter")
+          .then((jupiter) =>
+            jupiter?.getPrices?.([
+              "So11111111111111111111111111111111111111112",
+            ])
+          ),
+        // Get basic connection info
+        this.connection.getSlot(),
+        // Get DexScreener data
+        this.plugins
+          .load<DexScreenerClient>("dexscreener")
+          .then((dexscreener) =>
+            dexscreener?.getTokenPairs?.(
+              "solana",
+              "So11111111111111111111111111111111111111112"
+            )
+          ),
+      ]);
+
+      const [prices, slot, dexData] = results;
+      const sources = ["jupiter", "rpc", "dexscreener"];
+      const errors = results.flatMap((result, index) =>
+        result.status === "rejected"
+          ? [
+              {
+                source: sources[index],
+                message: result.reason?.message || String(result.reason),
+              },
+            ]
+          : []
+      );
+
+      return {
+        prices: {
+          sol:
+            prices.status === "fulfilled" && prices.value
+              ? Object.values(prices.value)[0]?.usdPrice || 0
+              : 0,
+        },
+        network: {
+          slot: slot.status === "fulfilled" ? slot.value : 0,
+        },
+        dex: dexData.status === "fulfilled" ? dexData.value : [],
+        errors,
+        timestamp: Date.now(),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get market overview: ${error.message}`);
+    }
+  }
+
+  /**
+   * Health check for all services
+   */
+  async healthCheck() {
+    const checks = {
+      connection: false,
+      jupiter: false,
+      kamino: false,
+      tensor: false,
+      drift: false,
+      helius: false,
+      solend: false,
+      dexscreener: false,
+    };
+
+    try {
+      await this.connection.getSlot();
+      checks.connection = true;
+    } catch {}
+
+    const [jupiter, kamino, tensor, drift, helius, solend, dexscreener] =
+      await Promise.all([
+        this.tryLoad<JupiterService>("jupiter"),
+        this.tryLoad<KaminoService>("kamino"),
+        this.tryLoad<TensorService>("tensor"),
+        this.tryLoad<DriftClient>("drift"),
+        this.tryLoad<HeliusClient>("helius"),
+        this.tryLoad<SolendClient>("solend"),
+        this.tryLoad<DexScreenerClient>("dexscreener"),
+      ]);
+
+    try {
+      await jupiter?.searchTokens?.("SOL");
+      checks.jupiter = true;
+    } catch {}
+
+    try {
+      // Check if kamino service is available
+      if (kamino) {
+        checks.kamino = true;
+      }
+    } catch {}
+
+    try {
+      await tensor?.getCollectionBySlug?.("degods");
+      checks.tensor = true;
+    } catch {}
+
+    try {
+      // Check if drift service is available
+      if (drift) {
+        checks.drift = true;
+      }
+    } catch {}
+
+    try {
+      await helius?.getWebhooks?.();
+      checks.helius = true;
+    } catch {}
+
+    try {
+      await solend?.initialize?.();
+      checks.solend = true;
+    } catch {}
+
+    try {
+      await dexscreener?.getTokenPairs?.(
+        "solana",
+        "So11111111111111111111111111111111111111112"
+      );
+      checks.dexscreener = true;
+    } catch {}
+
+    return {
+      ...checks,
+      overall:
+        Object.values(checks).filter(Boolean).length /
+        Object.keys(checks).length,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+export default ForgeXSolanaSDK;
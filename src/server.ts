@@ -0,0 +1,527 @@
+// HTTP gateway over the SDK operations in ./operations, for services that
+// are not written in TypeScript. Node-only, like ./node. Build operations
+// return unsigned transactions: the gateway never holds keys.
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { ForgeXSDKError } from "./utils/errors.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import type { RateLimit } from "./utils/http.js";
+import type { JsonSchema } from "./utils/schema.js";
+import {
+  OPERATIONS,
+  getOperation,
+  runOperation,
+  type Operation,
+} from "./operations.js";
+import type { ForgeXSolanaSDK } from "./sdk.js";
+
+export interface GatewayConfig {
+  /** SDK the operations run against; it needs no signer */
+  sdk: ForgeXSolanaSDK;
+  /**
+   * Accepted keys, sent as `x-api-key` or `Authorization: Bearer <key>`.
+   * An empty list turns authentication off.
+   */
+  apiKeys: string[];
+  /**
+   * Budgets per API key and operation, by operation name; `default`
+   * applies to the others (default DEFAULT_GATEWAY_RATE_LIMIT)
+   */
+  rateLimits?: Record<string, RateLimit>;
+  /**
+   * Operations to expose (default OPERATIONS); "send" operations are left
+   * out
+   */
+  operations?: Operation[];
+  /** Prefix of every route (default "/v1") */
+  basePath?: string;
+  /** Largest accepted request body (default 64 KiB) */
+  maxBodyBytes?: number;
+  /** OpenAPI `info` */
+  title?: string;
+  version?: string;
+  logger?: Logger;
+}
+
+export const DEFAULT_GATEWAY_RATE_LIMIT: RateLimit = {
+  requestsPerSecond: 5,
+  burst: 20,
+};
+
+export type GatewayHandler = (
+  request: IncomingMessage,
+  response: ServerResponse
+) => Promise<void>;
+
+interface GatewayResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+}
+
+// HTTP status and JSON-RPC code of each error code; others are 500/-32000
+const ERROR_STATUS: Record<string, [number, number]> = {
+  INVALID_INPUT: [400, -32602],
+  WALLET_REQUIRED: [400, -32602],
+  UNAUTHORIZED: [401, -32001],
+  NOT_FOUND: [404, -32601],
+  RATE_LIMITED: [429, -32029],
+  NOT_INITIALIZED: [503, -32003],
+  API_ERROR: [502, -32002],
+  NETWORK_ERROR: [502, -32002],
+  TIMEOUT: [504, -32002],
+};
+
+/**
+ * Request handler serving, under the base path:
+ * - `GET /openapi.json`, the OpenAPI document (no key needed)
+ * - `GET /<service>/<method>?...` for read operations
+ * - `POST /<service>/<method>` with a JSON body for build operations
+ * - `POST /rpc` for JSON-RPC 2.0 calls of any operation, batches included
+ *
+ * Mount it in an existing server or use createGatewayServer().
+ */
+export function createGatewayHandler(config: GatewayConfig): GatewayHandler {
+  const operations = servable(config.operations);
+  const basePath = (config.basePath ?? "/v1").replace(/\/$/, "");
+  const maxBodyBytes = config.maxBodyBytes ?? 64 * 1024;
+  const logger = withLogFields(config.logger || silentLogger, {
+    service: "Gateway",
+  });
+  const keyDigests = config.apiKeys.map(digest);
+  const limiter = new RateLimiter({
+    default: DEFAULT_GATEWAY_RATE_LIMIT,
+    ...config.rateLimits,
+  });
+  const spec = createOpenApiSpec({
+    operations,
+    basePath,
+    title: config.title,
+    version: config.version,
+    authenticated: keyDigests.length > 0,
+  });
+
+  // Upstream details (API bodies, RPC payloads, logs) go to the logger,
+  // never to the client
+  const logFailure = (error: ForgeXSDKError, status: number, url?: string) => {
+    if (status >= 500) {
+      logger.error("Request failed", { url, error });
+    } else if (error.code !== "INVALID_INPUT" && error.details !== undefined) {
+      logger.warn("Request failed", {
+        url,
+        code: error.code,
+        details: error.details,
+      });
+    }
+  };
+
+  // Runs one operation for a caller, applying its rate limit
+  const call = async (caller: string, name: string, params: unknown) => {
+    const operation = getOperation(name, operations);
+    const retryAfterMs = limiter.take(`${caller}:${name}`, name);
+    if (retryAfterMs > 0) {
+      throw new ForgeXSDKError(
+        "RATE_LIMITED",
+        `Rate limit exceeded for ${name}`,
+        { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) },
+        { service: "Gateway" }
+      );
+    }
+    return runOperation(config.sdk, operation, params);
+  };
+
+  const route = async (request: IncomingMessage): Promise<GatewayResponse> => {
+    const url = new URL(request.url || "/", "http://gateway");
+    if (!url.pathname.startsWith(`${basePath}/`)) {
+      throw new ForgeXSDKError("NOT_FOUND", `No route for ${url.pathname}`);
+    }
+    const path = url.pathname.slice(basePath.length + 1);
+
+    if (path === "openapi.json" && request.method === "GET") {
+      return { status: 200, body: spec };
+    }
+
+    const caller = authenticate(request, keyDigests);
+
+    if (path === "rpc" && request.method === "POST") {
+      const body = await readJson(request, maxBodyBytes);
+      const calls: unknown[] = Array.isArray(body) ? body : [body];
+      const replies = await Promise.all(
+        calls.map((rpc) =>
+          callJsonRpc(rpc as JsonRpcRequest, caller, call, (error, status) =>
+            logFailure(error, status, request.url)
+          )
+        )
+      );
+      return { status: 200, body: Array.isArray(body) ? replies : replies[0] };
+    }
+
+    const name = path.replace("/", ".");
+    const operation = operations.find((candidate) => candidate.name === name);
+    const method = operation?.kind === "read" ? "GET" : "POST";
+    if (!operation || request.method !== method) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `No route for ${request.method} ${url.pathname}`
+      );
+    }
+    const params =
+      method === "GET"
+        ? queryParams(url.searchParams)
+        : await readJson(request, maxBodyBytes);
+    return { status: 200, body: { result: await call(caller, name, params) } };
+  };
+
+  return async (request, response) => {
+    const startedAt = Date.now();
+    let reply: GatewayResponse;
+    try {
+      reply = await route(request);
+    } catch (error) {
+      const sdkError = ForgeXSDKError.from(error, { service: "Gateway" });
+      const [status] = ERROR_STATUS[sdkError.code] || [500];
+      reply = {
+        status,
+        body: { error: errorBody(sdkError) },
+        headers: retryAfterHeader(sdkError),
+      };
+      logFailure(sdkError, status, request.url);
+    }
+
+    response.writeHead(reply.status, {
+      "content-type": "application/json",
+      ...reply.headers,
+    });
+    response.end(JSON.stringify(reply.body));
+    logger.info("Request", {
+      method: request.method,
+      url: request.url?.split("?")[0],
+      status: reply.status,
+      durationMs: Date.now() - startedAt,
+    });
+  };
+}
+
+/**
+ * HTTP server for the gateway; call listen() on it
+ */
+export function createGatewayServer(config: GatewayConfig): Server {
+  const handler = createGatewayHandler(config);
+  return createServer((request, response) => {
+    void handler(request, response);
+  });
+}
+
+/**
+ * OpenAPI 3.1 document of the operations. Parameter schemas are the ones
+ * the operations validate with, so the document cannot drift from the
+ * TypeScript parameter types inferred from them.
+ */
+export function createOpenApiSpec(
+  options: {
+    operations?: Operation[];
+    basePath?: string;
+    title?: string;
+    version?: string;
+    authenticated?: boolean;
+  } = {}
+): Record<string, unknown> {
+  const operations = servable(options.operations);
+  const basePath = options.basePath ?? "/v1";
+  const security = options.authenticated === false ? [] : [{ apiKey: [] }];
+  const responses = (result: JsonSchema | { $ref: string }) => ({
+    "200": {
+      description: "Success",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: { result },
+            required: ["result"],
+          },
+        },
+      },
+    },
+    default: {
+      description: "Error",
+      content: {
+        "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+      },
+    },
+  });
+
+  const paths: Record<string, unknown> = {};
+  for (const operation of operations) {
+    const [tag] = operation.name.split(".");
+    const json = operation.params.json;
+    const base = {
+      operationId: operation.name,
+      summary: operation.description,
+      tags: [tag],
+      security,
+      "x-operation-kind": operation.kind,
+    };
+    paths[`${basePath}/${operation.name.replace(".", "/")}`] =
+      operation.kind === "read"
+        ? {
+            get: {
+              ...base,
+              parameters: Object.entries(json.properties || {}).map(
+                ([name, schema]) => ({
+                  name,
+                  in: "query",
+                  required: (json.required || []).includes(name),
+                  description: schema.description,
+                  schema,
+                  ...(schema.type === "array"
+                    ? { style: "form", explode: false }
+                    : {}),
+                })
+              ),
+              responses: responses({}),
+            },
+          }
+        : {
+            post: {
+              ...base,
+              requestBody: {
+                required: true,
+                content: { "application/json": { schema: json } },
+              },
+              responses: responses({
+                $ref: "#/components/schemas/UnsignedTransactions",
+              }),
+            },
+          };
+  }
+
+  paths[`${basePath}/rpc`] = {
+    post: {
+      operationId: "rpc",
+      summary:
+        "JSON-RPC 2.0: `method` is an operation ID, `params` its parameters",
+      security,
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: {
+                jsonrpc: { const: "2.0" },
+                id: { type: ["string", "number", "null"] },
+                method: { enum: operations.map(({ name }) => name) },
+                params: { type: "object" },
+              },
+              required: ["jsonrpc", "method"],
+            },
+          },
+        },
+      },
+      responses: { "200": { description: "JSON-RPC response" } },
+    },
+  };
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title || "ForgeX SDK Gateway",
+      version: options.version || "1.0.0",
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: {
+                code: { type: "string" },
+                message: { type: "string" },
+                details: {
+                  description: "Validation details, for INVALID_INPUT only",
+                },
+              },
+              required: ["code", "message"],
+            },
+          },
+        },
+        UnsignedTransactions: {
+          type: "object",
+          properties: {
+            transactions: {
+              type: "array",
+              items: { type: "string", contentEncoding: "base64" },
+              description: "Unsigned wire transactions, in sending order",
+            },
+            blockhash: { type: "string" },
+            lastValidBlockHeight: { type: "integer" },
+          },
+          required: ["transactions", "blockhash", "lastValidBlockHeight"],
+        },
+      },
+    },
+  };
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+/**
+ * Token buckets per caller and operation; rejects instead of queueing
+ */
+class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private limits: Record<string, RateLimit>) {}
+
+  /**
+   * Take a token; returns 0, or the milliseconds until one is available
+   */
+  take(key: string, operation: string): number {
+    const limit = this.limits[operation] || this.limits.default;
+    const burst = limit.burst ?? 1;
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens +
+        ((now - bucket.updatedAt) / 1000) * limit.requestsPerSecond
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return ((1 - bucket.tokens) / limit.requestsPerSecond) * 1000;
+    }
+    bucket.tokens -= 1;
+    return 0;
+  }
+}
+
+// Operations signing with the SDK wallet would let any caller spend it
+function servable(operations: Operation[] = OPERATIONS): Operation[] {
+  return operations.filter((operation) => operation.kind !== "send");
+}
+
+async function callJsonRpc(
+  rpc: JsonRpcRequest,
+  caller: string,
+  call: (caller: string, name: string, params: unknown) => Promise<unknown>,
+  onError: (error: ForgeXSDKError, status: number) => void
+): Promise<unknown> {
+  const id = rpc?.id ?? null;
+  if (rpc?.jsonrpc !== "2.0" || typeof rpc.method !== "string") {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code: -32600, message: "Invalid JSON-RPC request" },
+    };
+  }
+  try {
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: await call(caller, rpc.method, rpc.params),
+    };
+  } catch (error) {
+    const sdkError = ForgeXSDKError.from(error, { service: "Gateway" });
+    const [status, code] = ERROR_STATUS[sdkError.code] || [500, -32000];
+    onError(sdkError, status);
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code, message: sdkError.message, data: errorBody(sdkError) },
+    };
+  }
+}
+
+// Caller identity for rate limits: a key's digest, or "anonymous" when
+// authentication is off
+function authenticate(request: IncomingMessage, keyDigests: Buffer[]): string {
+  if (keyDigests.length === 0) return "anonymous";
+  const header = request.headers["x-api-key"];
+  const bearer = /^Bearer (.+)$/i.exec(request.headers.authorization || "");
+  const key = (Array.isArray(header) ? header[0] : header) || bearer?.[1];
+  const presented = key && digest(key);
+  if (
+    !presented ||
+    !keyDigests.some((known) => timingSafeEqual(known, presented))
+  ) {
+    throw new ForgeXSDKError("UNAUTHORIZED", "Missing or invalid API key");
+  }
+  return presented.toString("hex");
+}
+
+function digest(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+async function readJson(
+  request: IncomingMessage,
+  maxBodyBytes: number
+): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBodyBytes) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Request body exceeds ${maxBodyBytes} bytes`
+      );
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ForgeXSDKError("INVALID_INPUT", "Request body is not valid JSON");
+  }
+}
+
+// Repeated query keys become arrays; schemas coerce the rest
+function queryParams(search: URLSearchParams): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const key of new Set(search.keys())) {
+    const values = search.getAll(key);
+    params[key] = values.length > 1 ? values : values[0];
+  }
+  return params;
+}
+
+// Only validation details are the client's own; anything else may echo a
+// third-party response
+function errorBody(error: ForgeXSDKError) {
+  return error.code === "INVALID_INPUT"
+    ? { code: error.code, message: error.message, details: error.details }
+    : { code: error.code, message: error.message };
+}
+
+function retryAfterHeader(
+  error: ForgeXSDKError
+): Record<string, string> | undefined {
+  const seconds = error.details?.retryAfterSeconds;
+  return error.code === "RATE_LIMITED" && seconds
+    ? { "retry-after": String(seconds) }
+    : undefined;
+}
@@ -1,4 +1,5 @@
 import { ShyftSdk, Network, ValidDepthSizePair } from "@shyft-to/js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
 
 export class ShyftService {
   private shyft: ShyftSdk;
@@ -27,19 +28,19 @@ export class ShyftService {
    * Send SOL from one wallet to another
    * @param fromAddress - Sender wallet address
    * @param toAddress - Recipient wallet address
-   * @param amount - Amount in SOL
+   * @param amount - Amount in SOL, or lamports as a bigint
    * @returns Transaction details
    */
   async sendSol(
     fromAddress: string,
     toAddress: string,
-    amount: number
+    amount: AmountInput
   ): Promise<any> {
     try {
       const result = await this.shyft.wallet.sendSol({
         fromAddress,
         toAddress,
-        amount,
+        amount: TokenAmount.sol(amount).toNumber(),
       });
       return result;
     } catch (error) {
@@ -435,21 +436,21 @@ export class ShyftService {
    * @param tokenAddress - Token mint address
    * @param mintAuthority - Mint authority wallet address (required by SDK)
    * @param receiverWallet - Receiver wallet address
-   * @param amount - Amount to mint
+   * @param amount - UI amount to mint
    * @returns Transaction details
    */
   async mintTokens(
     tokenAddress: string,
     mintAuthority: string,
     receiverWallet: string,
-    amount: number
+    amount: number | TokenAmount
   ): Promise<any> {
     try {
       const result = await this.shyft.token.mint({
         tokenAddress,
         mintAuthority,
         receiver: receiverWallet,
-        amount,
+        amount: typeof amount === "number" ? amount : amount.toNumber(),
       });
       return result;
     } catch (error) {
@@ -462,21 +463,21 @@ export class ShyftService {
    * @param fromAddress - Sender wallet
    * @param toAddress - Recipient wallet
    * @param tokenAddress - Token mint address
-   * @param amount - Amount to transfer
+   * @param amount - UI amount to transfer
    * @returns Transaction details
    */
   async transferTokens(
     fromAddress: string,
     toAddress: string,
     tokenAddress: string,
-    amount: number
+    amount: number | TokenAmount
   ): Promise<any> {
     try {
       const result = await this.shyft.token.transfer({
         fromAddress,
         toAddress,
         tokenAddress,
-        amount,
+        amount: typeof amount === "number" ? amount : amount.toNumber(),
       });
       return result;
     } catch (error) {
@@ -16,6 +16,24 @@ import {
 } from "@solana/web3.js";
 import BigNumber from "bignumber.js";
 import BN from "bn.js";
+import {
+  TransactionExecutor,
+  type TransactionSigner,
+} from "./utils/transaction-executor.js";
+import {
+  PriorityFeeService,
+  type PriorityOptions,
+} from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { AddressRegistry } from "./utils/addresses.js";
+import { TokenRegistry } from "./utils/token-registry.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 export interface InputPoolType {
   address: string;
@@ -61,11 +79,35 @@ export interface SolendPosition {
 export class SolendClient {
   private connection: Connection;
   private environment: string;
+  private programId: PublicKey;
   private pools: { [key: string]: PoolType } = {};
-
-  constructor(connection: Connection, environment: string = "production") {
+  private executor: TransactionExecutor;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
+  private cache: ResponseCache;
+  private tokens: TokenRegistry;
+  private logger: Logger;
+
+  constructor(
+    connection: Connection,
+    environment: string = "production",
+    options: ServiceOptions = {}
+  ) {
     this.connection = connection;
     this.environment = environment;
+    const addresses =
+      options.addresses ||
+      new AddressRegistry(environment === "devnet" ? "devnet" : "mainnet-beta");
+    this.programId = addresses.require("solend", "program");
+    this.executor = new TransactionExecutor(connection);
+    this.priorityFees =
+      options.priorityFees || new PriorityFeeService(connection);
+    this.simulator = new TransactionSimulator(connection);
+    this.cache = options.cache || new ResponseCache();
+    this.tokens = options.tokens || new TokenRegistry();
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "SolendClient",
+    });
   }
 
   /**
@@ -73,18 +115,29 @@ export class SolendClient {
    */
   public async initialize(): Promise<void> {
     try {
-      this.pools = await fetchPools(
-        [],
-        this.connection,
-        null as any,
-        "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
-        await this.connection.getSlot(),
-        false,
-        false
+      this.pools = await this.cache.wrap(
+        "solend:fetchPools",
+        { environment: this.environment, programId: this.programId.toBase58() },
+        async () =>
+          fetchPools(
+            [],
+            this.connection,
+            null as any,
+            this.programId.toBase58(),
+            await this.connection.getSlot(),
+            false,
+            false
+          )
       );
-      console.log("Initialized Solend with pools:", Object.keys(this.pools));
+      this.logger.debug("Initialized Solend pools", {
+        method: "initialize",
+        pools: Object.keys(this.pools),
+      });
     } catch (error) {
-      console.error("Failed to initialize Solend:", error);
+      this.logger.debug("Failed to initialize Solend", {
+        method: "initialize",
+        error,
+      });
       throw error;
     }
   }
@@ -97,7 +150,8 @@ export class SolendClient {
   }
 
   /**
-   * Get reserve info by symbol
+   * Get reserve info by symbol or mint. Symbols the token registry knows
+   * only match the reserve of their mint.
    */
   public getReserveBySymbol(symbol: string, poolName = "main"): any {
     const pool = this.pools[poolName];
@@ -105,8 +159,11 @@ export class SolendClient {
       throw new Error(`Pool "${poolName}" not found`);
     }
 
-    return pool.reserves.find(
-      (reserve: any) => reserve.symbol?.toLowerCase() === symbol.toLowerCase()
+    const token = this.tokens.find(symbol);
+    return pool.reserves.find((reserve: any) =>
+      token
+        ? reserve.mintAddress === token.mint
+        : reserve.symbol?.toLowerCase() === symbol.toLowerCase()
     );
   }
 
@@ -159,7 +216,10 @@ export class SolendClient {
         (account) => account !== null
       );
     } catch (error) {
-      console.error("Failed to fetch wallet assets:", error);
+      this.logger.warn("Failed to fetch wallet assets", {
+        method: "getWalletAssets",
+        error,
+      });
       return [];
     }
   }
@@ -168,7 +228,7 @@ export class SolendClient {
    * Build deposit transaction
    */
   public async buildDepositTransaction(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     walletPublicKey: PublicKey,
     poolName = "main"
@@ -184,7 +244,7 @@ export class SolendClient {
     }
 
     const wallet: SaveWallet = { publicKey: walletPublicKey };
-    const amountBN = new BN(amount * Math.pow(10, reserve.decimals || 6));
+    const baseUnits = TokenAmount.from(amount, reserve.decimals || 6).raw;
 
     const poolInput: InputPoolType = {
       address: pool.address,
@@ -215,7 +275,7 @@ export class SolendClient {
       poolInput,
       reserveInput,
       this.connection,
-      amountBN.toString(),
+      baseUnits.toString(),
       wallet,
       { environment: this.environment as any }
     );
@@ -225,7 +285,7 @@ export class SolendClient {
    * Build borrow transaction
    */
   public async buildBorrowTransaction(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     walletPublicKey: PublicKey,
     poolName = "main"
@@ -241,7 +301,7 @@ export class SolendClient {
     }
 
     const wallet: SaveWallet = { publicKey: walletPublicKey };
-    const amountBN = new BN(amount * Math.pow(10, reserve.decimals || 6));
+    const baseUnits = TokenAmount.from(amount, reserve.decimals || 6).raw;
 
     const poolInput: InputPoolType = {
       address: pool.address,
@@ -272,7 +332,7 @@ export class SolendClient {
       poolInput,
       reserveInput,
       this.connection,
-      amountBN.toString(),
+      baseUnits.toString(),
       wallet,
       { environment: this.environment as any }
     );
@@ -282,7 +342,7 @@ export class SolendClient {
    * Build repay transaction
    */
   public async buildRepayTransaction(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     walletPublicKey: PublicKey,
     poolName = "main"
@@ -298,7 +358,7 @@ export class SolendClient {
     }
 
     const wallet: SaveWallet = { publicKey: walletPublicKey };
-    const amountBN = new BN(amount * Math.pow(10, reserve.decimals || 6));
+    const baseUnits = TokenAmount.from(amount, reserve.decimals || 6).raw;
 
     const poolInput: InputPoolType = {
       address: pool.address,
@@ -329,7 +389,7 @@ export class SolendClient {
       poolInput,
       reserveInput,
       this.connection,
-      amountBN.toString(),
+      baseUnits.toString(),
       wallet,
       { environment: this.environment as any }
     );
@@ -339,7 +399,7 @@ export class SolendClient {
    * Build withdraw transaction
    */
   public async buildWithdrawTransaction(
-    amount: number,
+    amount: AmountInput,
     symbol: string,
     walletPublicKey: PublicKey,
     poolName = "main"
@@ -355,7 +415,7 @@ export class SolendClient {
     }
 
     const wallet: SaveWallet = { publicKey: walletPublicKey };
-    const amountBN = new BN(amount * Math.pow(10, reserve.decimals || 6));
+    const baseUnits = TokenAmount.from(amount, reserve.decimals || 6).raw;
 
     const poolInput: InputPoolType = {
       address: pool.address,
@@ -386,7 +446,7 @@ export class SolendClient {
       poolInput,
       reserveInput,
       this.connection,
-      amountBN.toString(),
+      baseUnits.toString(),
       wallet,
       { environment: this.environment as any }
     );
@@ -412,20 +472,76 @@ export class SolendClient {
   }
 
   /**
-   * Execute a Solend action and send transaction
+   * Build the versioned transaction for a Solend action
+   */
+  public async buildVersionedTransaction(
+    action: SolendActionCore,
+    options?: PriorityOptions
+  ): Promise<VersionedTransaction> {
+    const transaction = await action.getVersionedTransaction();
+    return options?.priority
+      ? this.priorityFees.applyToVersionedTransaction(
+          transaction,
+          options.priority
+        )
+      : transaction;
+  }
+
+  /**
+   * Dry-run a Solend action (e.g. from buildBorrowTransaction) for the wallet
+   */
+  public async simulateAction(
+    action: SolendActionCore,
+    walletPublicKey: PublicKey,
+    options?: PriorityOptions
+  ): Promise<SimulationResult> {
+    const transaction = await this.buildVersionedTransaction(action, options);
+    return this.simulator.simulate(transaction, walletPublicKey);
+  }
+
+  /**
+   * Execute a Solend action and send transaction.
+   * Pass a signer to send through the shared executor, or a callback to
+   * handle sending yourself.
    */
   public async executeAction(
     action: SolendActionCore,
-    sendTransaction: (transaction: VersionedTransaction) => Promise<string>
+    sendTransaction:
+      | ((transaction: VersionedTransaction) => Promise<string>)
+      | TransactionSigner,
+    options?: PriorityOptions
   ): Promise<string> {
+    const start = Date.now();
     try {
-      const transaction = await action.getVersionedTransaction();
-      const signature = await sendTransaction(transaction);
-      console.log("Solend action executed. Transaction signature:", signature);
+      const transaction = await this.buildVersionedTransaction(action, options);
+      const signature =
+        typeof sendTransaction === "function"
+          ? await sendTransaction(transaction)
+          : TransactionExecutor.assertConfirmed(
+              await this.executor.execute(transaction, {
+                signer: sendTransaction,
+              })
+            );
+      this.logger.info("Solend action executed", {
+        method: "executeAction",
+        signature,
+        durationMs: Date.now() - start,
+      });
       return signature;
     } catch (error) {
-      console.error("Failed to execute Solend action:", error);
+      this.logger.debug("Failed to execute Solend action", {
+        method: "executeAction",
+        durationMs: Date.now() - start,
+        error,
+      });
       throw error;
     }
   }
+
+  /**
+   * Use a shared transaction executor for executeAction
+   */
+  public setExecutor(executor: TransactionExecutor): void {
+    this.executor = executor;
+  }
 }
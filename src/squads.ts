@@ -11,13 +11,30 @@ import {
   TransactionInstruction,
 } from "@solana/web3.js";
 import * as beet from "@metaplex-foundation/beet";
+import {
+  PriorityFeeService,
+  type PriorityOptions,
+} from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { TransactionPacker } from "./utils/transaction-packer.js";
+import { AddressRegistry } from "./utils/addresses.js";
+import { toBaseUnits, type BaseUnitsInput } from "./utils/token-amount.js";
 
 /**
  * Configuration options for SquadsService
  */
 export interface SquadsServiceConfig {
   connection: Connection;
+  /** Defaults to the registry's squads.program */
   programId?: PublicKey;
+  addresses?: AddressRegistry;
+  /** Shared fee estimates, e.g. sdk.priorityFees */
+  priorityFees?: PriorityFeeService;
+  logger?: Logger;
 }
 
 /**
@@ -92,12 +109,25 @@ export interface BatchTransactionParams {
 export class SquadsService {
   private connection: Connection;
   private programId: PublicKey;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
+  private packer: TransactionPacker;
+  private logger: Logger;
 
   constructor(config: SquadsServiceConfig) {
     this.connection = config.connection;
     this.programId =
       config.programId ||
-      new PublicKey("SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf");
+      (config.addresses || new AddressRegistry()).require("squads", "program");
+    this.priorityFees =
+      config.priorityFees || new PriorityFeeService(config.connection);
+    this.simulator = new TransactionSimulator(config.connection);
+    this.packer = new TransactionPacker(config.connection, {
+      logger: config.logger,
+    });
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "SquadsService",
+    });
   }
 
   /**
@@ -289,7 +319,10 @@ export class SquadsService {
         version: data.version || "",
       };
     } catch (error) {
-      console.error("Error checking vault:", error);
+      this.logger.warn("Error checking vault", {
+        method: "isSquadsVault",
+        error,
+      });
       return { isSquad: false, version: "" };
     }
   }
@@ -547,6 +580,34 @@ export class SquadsService {
     return instructions;
   }
 
+  /**
+   * Create a batch and pack its instructions into as few transactions as
+   * fit, in the order they must be sent
+   */
+  async buildBatchTransactions(
+    params: BatchTransactionParams,
+    options?: PriorityOptions
+  ): Promise<Transaction[]> {
+    const instructions = await this.createBatch(params);
+    const packed = await this.packer.pack(instructions, params.creator, {
+      // Room for the ComputeBudget instructions a priority fee adds
+      reserveBytes: options?.priority ? 64 : 0,
+    });
+
+    const { blockhash } = await this.connection.getLatestBlockhash();
+    const transactions: Transaction[] = [];
+    for (const { transaction } of packed) {
+      // Without lookup tables every packed transaction is legacy
+      const legacy = transaction as Transaction;
+      legacy.recentBlockhash = blockhash;
+      if (options?.priority) {
+        await this.priorityFees.applyToTransaction(legacy, options.priority);
+      }
+      transactions.push(legacy);
+    }
+    return transactions;
+  }
+
   /**
    * Execute a batch transaction
    */
@@ -636,7 +697,7 @@ export class SquadsService {
     createKey: PublicKey,
     vaultIndex: number,
     mint: PublicKey,
-    amount: bigint,
+    amount: BaseUnitsInput,
     period: multisig.generated.Period,
     members: PublicKey[] | null,
     destinations: PublicKey[],
@@ -651,7 +712,7 @@ export class SquadsService {
       spendingLimit: spendingLimitPda,
       createKey,
       rentPayer,
-      amount,
+      amount: toBaseUnits(amount),
       configAuthority: configAuthority.publicKey,
       period,
       mint,
@@ -682,6 +743,40 @@ export class SquadsService {
     });
   }
 
+  // ==================== Transaction Building ====================
+
+  /**
+   * Wrap instructions from the builders above into a transaction, with
+   * ComputeBudget instructions when a priority is requested
+   */
+  async buildTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    options?: PriorityOptions
+  ): Promise<Transaction> {
+    const transaction = new Transaction().add(...instructions);
+    transaction.feePayer = feePayer;
+    transaction.recentBlockhash = (
+      await this.connection.getLatestBlockhash()
+    ).blockhash;
+
+    if (options?.priority) {
+      await this.priorityFees.applyToTransaction(transaction, options.priority);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Dry-run instructions from the builders above (e.g. createVaultTransaction)
+   */
+  async simulateInstructions(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey
+  ): Promise<SimulationResult> {
+    return this.simulator.simulateInstructions(instructions, feePayer);
+  }
+
   // ==================== Account Closing ====================
 
   /**
@@ -723,12 +818,12 @@ export class SquadsService {
   createSolTransferInstruction(
     from: PublicKey,
     to: PublicKey,
-    lamports: number
+    lamports: BaseUnitsInput
   ): TransactionInstruction {
     return SystemProgram.transfer({
       fromPubkey: from,
       toPubkey: to,
-      lamports,
+      lamports: toBaseUnits(lamports),
     });
   }
 
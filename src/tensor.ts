@@ -22,7 +22,11 @@ import {
 import { TokenStandard } from "@metaplex-foundation/mpl-bubblegum";
 import BN from "bn.js";
 import { keccak_256 } from "js-sha3";
-import axios from "axios";
+import { AxiosInstance } from "axios";
+import { Buffer } from "buffer";
+import { HttpClient } from "./utils/http.js";
+import { ResponseCache } from "./utils/cache.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
 
 /**
  * Configuration for TensorService
@@ -32,6 +36,9 @@ export interface TensorServiceConfig {
   wallet?: Wallet;
   apiKey?: string; // For Tensor API access
   heliusApiKey?: string; // For DAS API (compressed NFTs)
+  httpClient?: HttpClient;
+  cache?: ResponseCache;
+  logger?: Logger;
 }
 
 /**
@@ -227,12 +234,20 @@ export class TensorService {
   private tcompSdk: TCompSDK;
   private apiKey?: string;
   private heliusApiKey?: string;
+  private http: AxiosInstance;
+  private cache: ResponseCache;
+  private logger: Logger;
   private apiBaseUrl = "https://api.tensor.so/graphql";
 
   constructor(config: TensorServiceConfig) {
     this.connection = config.connection;
     this.apiKey = config.apiKey;
     this.heliusApiKey = config.heliusApiKey;
+    this.http = (config.httpClient || new HttpClient()).create();
+    this.cache = config.cache || new ResponseCache();
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "TensorService",
+    });
 
     // Create provider with wallet or empty wallet
     const wallet = config.wallet || new Wallet(Keypair.generate());
@@ -504,7 +519,7 @@ export class TensorService {
     const url = `https://mainnet.helius-rpc.com/?api-key=${this.heliusApiKey}`;
 
     try {
-      const response = await axios.post(url, {
+      const response = await this.http.post(url, {
         jsonrpc: "2.0",
         id: "0",
         method: "getAsset",
@@ -515,7 +530,10 @@ export class TensorService {
 
       return response.data.result;
     } catch (error) {
-      console.error("Error fetching asset from DAS:", error);
+      this.logger.warn("Error fetching asset from DAS", {
+        method: "fetchAssetFromDAS",
+        error,
+      });
       return null;
     }
   }
@@ -648,7 +666,7 @@ export class TensorService {
     }
 
     try {
-      const response = await axios.post(
+      const response = await this.http.post(
         this.apiBaseUrl,
         {
           query,
@@ -664,7 +682,10 @@ export class TensorService {
 
       return response.data;
     } catch (error) {
-      console.error("Error querying Tensor API:", error);
+      this.logger.debug("Error querying Tensor API", {
+        method: "queryTensorApi",
+        error,
+      });
       throw error;
     }
   }
@@ -691,8 +712,10 @@ export class TensorService {
       }
     `;
 
-    const response = await this.queryTensorApi(query, { limit });
-    return response.data?.instrumentTV2 || [];
+    return this.cache.wrap("tensor:getAllCollections", { limit }, async () => {
+      const response = await this.queryTensorApi(query, { limit });
+      return response.data?.instrumentTV2 || [];
+    });
   }
 
   /**
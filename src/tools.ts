@@ -0,0 +1,185 @@
+// SDK operations as LLM tools: JSON Schema function definitions for model
+// APIs and a dispatcher running the calls a model makes
+import { ForgeXSDKError } from "./utils/errors.js";
+import type { JsonSchema } from "./utils/schema.js";
+import {
+  OPERATIONS,
+  runOperation,
+  type Operation,
+  type OperationKind,
+} from "./operations.js";
+import type { ForgeXSolanaSDK } from "./sdk.js";
+
+export interface ToolDefinition {
+  /**
+   * Operation name with "_" for ".", e.g. "jupiter_getQuote"; model APIs
+   * reject dots in tool names
+   */
+  name: string;
+  /** Operation name, e.g. "jupiter.getQuote" */
+  operation: string;
+  /** Operation description followed by its read-only or state-changing flag */
+  description: string;
+  parameters: JsonSchema;
+  kind: OperationKind;
+  /** False for tools that sign and send transactions with the SDK wallet */
+  readOnly: boolean;
+}
+
+/**
+ * A tool call as models emit it; arguments may still be a JSON string
+ */
+export interface ToolCall {
+  name: string;
+  arguments?: string | Record<string, unknown>;
+}
+
+/**
+ * Outcome of a tool call, ready to hand back to the model as JSON. Failures
+ * are results too, so the model can correct its arguments.
+ */
+export type ToolResult =
+  | { tool: string; readOnly: boolean; ok: true; result: unknown }
+  | {
+      tool: string;
+      readOnly: boolean;
+      ok: false;
+      error: { code: string; message: string; details?: unknown };
+    };
+
+export interface ToolCatalogOptions {
+  /** Operations to offer (default OPERATIONS) */
+  operations?: Operation[];
+  /**
+   * Leave out state-changing tools, so an agent can only query and build
+   * unsigned transactions (default false)
+   */
+  readOnly?: boolean;
+}
+
+const KIND_NOTES: Record<OperationKind, string> = {
+  read: "Read-only.",
+  build:
+    "Read-only: returns unsigned base64 transactions for the user to sign.",
+  send: "STATE-CHANGING: signs and sends a transaction with the connected wallet.",
+};
+
+/**
+ * SDK operations described as tools for function calling
+ *
+ * @example
+ * const tools = new ToolCatalog({ readOnly: true });
+ * // model request: tools.toAnthropicTools() or tools.toOpenAITools()
+ * const result = await tools.execute(sdk, { name, arguments: input });
+ */
+export class ToolCatalog {
+  private operations: Operation[];
+
+  constructor(options: ToolCatalogOptions = {}) {
+    const operations = options.operations || OPERATIONS;
+    this.operations = options.readOnly
+      ? operations.filter((operation) => operation.kind !== "send")
+      : operations;
+  }
+
+  list(): ToolDefinition[] {
+    return this.operations.map((operation) => ({
+      name: toToolName(operation.name),
+      operation: operation.name,
+      description: `${operation.description}. ${KIND_NOTES[operation.kind]}`,
+      parameters: operation.params.json,
+      kind: operation.kind,
+      readOnly: operation.kind !== "send",
+    }));
+  }
+
+  /**
+   * The tool with this tool or operation name
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.list().find(
+      (tool) => tool.name === name || tool.operation === name
+    );
+  }
+
+  /**
+   * Definitions for OpenAI-compatible chat completion APIs
+   */
+  toOpenAITools() {
+    return this.list().map(({ name, description, parameters }) => ({
+      type: "function" as const,
+      function: { name, description, parameters },
+    }));
+  }
+
+  /**
+   * Definitions for the Anthropic Messages API
+   */
+  toAnthropicTools() {
+    return this.list().map(({ name, description, parameters }) => ({
+      name,
+      description,
+      input_schema: parameters,
+    }));
+  }
+
+  /**
+   * Validate a tool call's arguments and run it against the SDK. Never
+   * throws: errors come back as `{ ok: false, error }`.
+   */
+  async execute(sdk: ForgeXSolanaSDK, call: ToolCall): Promise<ToolResult> {
+    const operation = this.operations.find(
+      ({ name }) => name === call.name || toToolName(name) === call.name
+    );
+    const tool = operation ? toToolName(operation.name) : call.name;
+    const readOnly = operation ? operation.kind !== "send" : true;
+
+    try {
+      if (!operation) {
+        throw new ForgeXSDKError(
+          "NOT_FOUND",
+          `Unknown tool: ${call.name}`,
+          { tool: call.name },
+          { service: "ToolCatalog", method: "execute" }
+        );
+      }
+      const result = await runOperation(
+        sdk,
+        operation,
+        parseArguments(call.arguments)
+      );
+      return { tool, readOnly, ok: true, result };
+    } catch (error) {
+      const { code, message, details } = ForgeXSDKError.from(error, {
+        service: "ToolCatalog",
+        method: operation?.name,
+      });
+      return { tool, readOnly, ok: false, error: { code, message, details } };
+    }
+  }
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+function toToolName(operation: string): string {
+  return operation.replace(/\./g, "_");
+}
+
+function parseArguments(
+  args: ToolCall["arguments"]
+): Record<string, unknown> | undefined {
+  if (typeof args !== "string") return args;
+  if (!args.trim()) return undefined;
+  try {
+    return JSON.parse(args);
+  } catch {
+    throw new ForgeXSDKError(
+      "INVALID_INPUT",
+      "Tool arguments are not valid JSON",
+      undefined,
+      { service: "ToolCatalog", method: "execute" }
+    );
+  }
+}
@@ -1,4 +1,23 @@
 import { Transaction } from "@solana/web3.js";
+import type { TransactionExecutorConfig } from "./utils/transaction-executor.js";
+import type { HttpClient, HttpClientConfig } from "./utils/http.js";
+import type { ResponseCache, ResponseCacheConfig } from "./utils/cache.js";
+import type { Logger } from "./utils/logger.js";
+import type { RpcEndpoint, RpcPoolConfig } from "./utils/rpc-pool.js";
+import type { SignerInput } from "./utils/signer.js";
+import type { LookupTableInput } from "./utils/lookup-tables.js";
+import type { JitoBundleSenderConfig } from "./utils/jito-bundles.js";
+import type {
+  PriorityFeeService,
+  PriorityFeeServiceConfig,
+} from "./utils/priority-fees.js";
+import type { Telemetry } from "./utils/telemetry.js";
+import type { ServicePlugin } from "./utils/plugins.js";
+import type { AddressOverrides, AddressRegistry } from "./utils/addresses.js";
+import type {
+  TokenRegistry,
+  TokenRegistryConfig,
+} from "./utils/token-registry.js";
 
 export interface SwapQuote {
   inputMint: string;
@@ -111,33 +130,26 @@ export interface SDKError {
   timestamp: number;
 }
 
-export class ForgeXSDKError extends Error {
-  public code: string;
-  public details?: any;
-  public timestamp: number;
+export {
+  ForgeXSDKError,
+  classifyError,
+  type ErrorCode,
+  type ErrorContext,
+} from "./utils/errors.js";
 
-  constructor(code: string, message: string, details?: any) {
-    super(message);
-    this.name = "ForgeXSDKError";
-    this.code = code;
-    this.details = details;
-    this.timestamp = Date.now();
-  }
-}
-
-export * from "./jupiter";
+export * from "./jupiter.js";
 
-export * from "./kamino";
+export * from "./kamino.js";
 
-export * from "./tensor";
+export * from "./tensor.js";
 
-export * from "./marinade";
+export * from "./marinade.js";
 
-export * from "./drift";
+export * from "./drift.js";
 
-export * from "./pyth";
+export * from "./pyth.js";
 
-export * from "./squads";
+export * from "./squads.js";
 
 export interface PhantomProvider {
   isPhantom: boolean;
@@ -150,12 +162,16 @@ export interface PhantomProvider {
   signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }>;
 }
 
-export type SolanaNetwork = "mainnet-beta" | "devnet" | "testnet";
+export type SolanaNetwork = "mainnet-beta" | "devnet" | "testnet" | "localnet";
 
 export interface ConnectionConfig {
   network: SolanaNetwork;
   endpoint?: string;
+  /** RPC pool with weighted routing and failover; replaces `endpoint` */
+  endpoints?: Array<string | RpcEndpoint>;
   commitment?: "processed" | "confirmed" | "finalized";
+  /** Timeouts, cooldown and slot lag tuning for the RPC pool */
+  pool?: Omit<RpcPoolConfig, "endpoints" | "commitment" | "logger">;
 }
 
 export interface SDKConfig {
@@ -177,8 +193,54 @@ export interface SDKConfig {
     };
     [key: string]: string | object | undefined;
   };
+  /** Default HTTP timeout in ms for REST-based services */
   timeout?: number;
+  /** Default HTTP retry count for REST-based services */
   retries?: number;
+  http?: HttpClientConfig;
+  cache?: ResponseCacheConfig;
+  /** Receives SDK and service logs (silent by default) */
+  logger?: Logger;
+  /** Spans and metrics for service calls, RPC requests and HTTP retries */
+  telemetry?: Telemetry;
+  execution?: TransactionExecutorConfig;
+  /** Percentiles and bounds of the fee estimates every service shares */
+  priorityFees?: PriorityFeeServiceConfig;
+  /** Default signer for the executor and signing services */
+  signer?: SignerInput;
+  lookupTables?: {
+    /** Tables offered to every transaction compiled by the SDK */
+    lookupTables?: LookupTableInput[];
+    cacheTtlMs?: number;
+  };
+  /** Block engine, tip and fallback settings for sdk.bundles */
+  jito?: Omit<
+    JitoBundleSenderConfig,
+    "signer" | "executor" | "httpClient" | "logger"
+  >;
+  /** Built-in services to register (all by default), e.g. ["jupiter"] */
+  services?: string[];
+  /** Third-party services, registered after and overriding built-ins */
+  plugins?: ServicePlugin[];
+  /** Program and market addresses replacing the network's defaults */
+  addresses?: AddressOverrides;
+  /** Extra tokens and sources for symbol resolution, and its strictness */
+  tokens?: Omit<TokenRegistryConfig, "logger">;
+}
+
+/**
+ * Shared infrastructure injected into services by ForgeXSolanaSDK
+ */
+export interface ServiceOptions {
+  httpClient?: HttpClient;
+  cache?: ResponseCache;
+  logger?: Logger;
+  /** Program and market addresses of the configured network */
+  addresses?: AddressRegistry;
+  /** Resolves the symbols services accept to mints */
+  tokens?: TokenRegistry;
+  /** Shared fee estimates, so each service doesn't fetch its own */
+  priorityFees?: PriorityFeeService;
 }
 
 export interface DeFiPortfolio {
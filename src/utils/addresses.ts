@@ -0,0 +1,189 @@
+import { PublicKey } from "@solana/web3.js";
+import type { SolanaNetwork } from "../types.js";
+import { ForgeXSDKError } from "./errors.js";
+
+/**
+ * Program and market addresses each protocol service reads
+ */
+export interface ProtocolAddresses {
+  kamino: {
+    /** Main lending market */
+    market: string;
+    lendingProgram: string;
+    liquidityProgram: string;
+  };
+  solend: {
+    program: string;
+  };
+  meteora: {
+    dlmmProgram: string;
+    vaultProgram: string;
+  };
+  squads: {
+    program: string;
+  };
+  sanctum: {
+    sController: string;
+    flatFeePricing: string;
+    splSolValueCalculator: string;
+    sanctumSpl1SolValueCalculator: string;
+    sanctumSpl2SolValueCalculator: string;
+    marinadeSolValueCalculator: string;
+    lidoSolValueCalculator: string;
+    wsolSolValueCalculator: string;
+  };
+}
+
+export type Protocol = keyof ProtocolAddresses;
+
+export type AddressName<P extends Protocol> = keyof ProtocolAddresses[P] &
+  string;
+
+/**
+ * Known addresses of a network, by protocol
+ */
+export type AddressBook = {
+  [P in Protocol]?: Partial<ProtocolAddresses[P]>;
+};
+
+/**
+ * Addresses to use instead of the defaults, e.g. a staging market on devnet
+ */
+export type AddressOverrides = {
+  [P in Protocol]?: { [K in AddressName<P>]?: PublicKey | string };
+};
+
+const MAINNET_ADDRESSES: ProtocolAddresses = {
+  kamino: {
+    market: "7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF",
+    lendingProgram: "KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD",
+    liquidityProgram: "E35i5qn7872eEmBt15e5VGhziUBzCTm43XCSWvDoQNNv",
+  },
+  solend: {
+    program: "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo",
+  },
+  meteora: {
+    dlmmProgram: "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo",
+    vaultProgram: "vaU6kP7iNEGkbmPkLmZfGwiGxd4Mob24QQCie5R9kd2",
+  },
+  squads: {
+    program: "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf",
+  },
+  sanctum: {
+    sController: "5ocnV1qiCgaQR8Jb8xWnVbApfaygJ8tNoZfgPwsgx9kx",
+    flatFeePricing: "f1tUoNEKrDp1oeGn4zxr7bh41eN6VcfHjfrL3ZqQday",
+    splSolValueCalculator: "sp1V4h2gWorkGhVcazBc22Hfo2f5sd7jcjT4EDPrWFF",
+    sanctumSpl1SolValueCalculator:
+      "sspUE1vrh7xRoXxGsg7vR1zde2WdGtJRbyK9uRumBDy",
+    sanctumSpl2SolValueCalculator:
+      "ssmbu3KZxgonUtjEMCKspZzxvUQCxAFnyh1rcHUeEDo",
+    marinadeSolValueCalculator: "mare3SCyfZkAndpBRBeonETmkCCB3TJTTrz8ZN2dnhP",
+    lidoSolValueCalculator: "1idUSy4MGGKyKhvjSnGZ6Zc7Q4eKQcibym4BkEEw9KR",
+    wsolSolValueCalculator: "wsoGmxQLSvwWpuaidCApxN5kEowLe2HLQLJhCQnj4bE",
+  },
+};
+
+const DEVNET_ADDRESSES: AddressBook = {
+  solend: {
+    program: "ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx",
+  },
+  meteora: MAINNET_ADDRESSES.meteora,
+  squads: MAINNET_ADDRESSES.squads,
+};
+
+/**
+ * Default addresses per network. Protocols without a known deployment on a
+ * network are left out and must be set through SDKConfig.addresses. Localnet
+ * assumes a validator started with the mainnet programs and accounts cloned.
+ */
+export const DEFAULT_ADDRESSES: Record<SolanaNetwork, AddressBook> = {
+  "mainnet-beta": MAINNET_ADDRESSES,
+  devnet: DEVNET_ADDRESSES,
+  testnet: DEVNET_ADDRESSES,
+  localnet: MAINNET_ADDRESSES,
+};
+
+/**
+ * Program and market addresses for one network, with overrides applied
+ */
+export class AddressRegistry {
+  private addresses = new Map<string, PublicKey>();
+
+  constructor(
+    readonly network: SolanaNetwork = "mainnet-beta",
+    overrides: AddressOverrides = {}
+  ) {
+    for (const book of [DEFAULT_ADDRESSES[network], overrides]) {
+      for (const [protocol, entries] of Object.entries(book || {})) {
+        for (const [name, address] of Object.entries(entries || {})) {
+          if (address) {
+            this.addresses.set(
+              `${protocol}.${name}`,
+              toPublicKey(address as PublicKey | string, protocol, name)
+            );
+          }
+        }
+      }
+    }
+  }
+
+  get<P extends Protocol>(
+    protocol: P,
+    name: AddressName<P>
+  ): PublicKey | undefined {
+    return this.addresses.get(`${protocol}.${name}`);
+  }
+
+  /**
+   * Like get(), but throws NOT_FOUND when the network has no such address
+   */
+  require<P extends Protocol>(protocol: P, name: AddressName<P>): PublicKey {
+    const address = this.get(protocol, name);
+    if (!address) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `No ${protocol}.${name} address for ${this.network}, set it in SDKConfig.addresses`,
+        { protocol, name, network: this.network },
+        { service: "AddressRegistry", method: "require" }
+      );
+    }
+    return address;
+  }
+
+  /**
+   * Every known address of a protocol
+   */
+  getAll<P extends Protocol>(
+    protocol: P
+  ): Partial<Record<AddressName<P>, PublicKey>> {
+    const addresses: Partial<Record<string, PublicKey>> = {};
+    for (const [key, address] of this.addresses) {
+      const [owner, name] = key.split(".");
+      if (owner === protocol) addresses[name] = address;
+    }
+    return addresses;
+  }
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+function toPublicKey(
+  address: PublicKey | string,
+  protocol: string,
+  name: string
+): PublicKey {
+  try {
+    return new PublicKey(address);
+  } catch (error) {
+    throw new ForgeXSDKError(
+      "INVALID_INPUT",
+      `Invalid ${protocol}.${name} address: ${address}`,
+      undefined,
+      { service: "AddressRegistry", method: "constructor", cause: error }
+    );
+  }
+}
+
+export default AddressRegistry;
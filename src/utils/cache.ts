@@ -0,0 +1,246 @@
+/**
+ * Cached value with its freshness window
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch ms after which the value is stale */
+  expiresAt: number;
+  /** Epoch ms after which the value may no longer be served at all */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for ResponseCache. The in-memory store keeps values as-is;
+ * external stores (Redis, files) are responsible for serialization and may
+ * use `staleUntil` as the key expiry.
+ */
+export interface CacheStore {
+  get<T>(
+    key: string
+  ): Promise<CacheEntry<T> | undefined> | CacheEntry<T> | undefined;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+}
+
+export interface CachePolicy {
+  ttlMs: number;
+  /** How long a stale value is served while it refreshes in the background */
+  staleWhileRevalidateMs?: number;
+}
+
+export interface ResponseCacheConfig {
+  store?: CacheStore;
+  /** Capacity of the default in-memory store (default 500) */
+  maxEntries?: number;
+  /** Per-endpoint policies, merged over DEFAULT_POLICIES */
+  policies?: Record<string, CachePolicy>;
+  /** Prefix for every key, to share one store between apps */
+  namespace?: string;
+  enabled?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Least-recently-used in-memory store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  set<T>(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Read-through cache for slow-changing API responses, with per-endpoint TTLs
+ * and stale-while-revalidate
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private policies: Record<string, CachePolicy>;
+  private namespace: string;
+  private enabled: boolean;
+  private pending = new Map<string, Promise<unknown>>();
+
+  static readonly DEFAULT_POLICY: CachePolicy = {
+    ttlMs: MINUTE,
+    staleWhileRevalidateMs: 0,
+  };
+
+  static readonly DEFAULT_POLICIES: Record<string, CachePolicy> = {
+    "mayan:getAllSolanaTokens": {
+      ttlMs: HOUR,
+      staleWhileRevalidateMs: 24 * HOUR,
+    },
+    "jupiter:searchTokens": {
+      ttlMs: 5 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "jupiter:getEarnTokens": {
+      ttlMs: 10 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "solend:fetchPools": {
+      ttlMs: 5 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "meteora:getAllDLMMPools": {
+      ttlMs: 5 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "raydium:getTokenList": {
+      ttlMs: HOUR,
+      staleWhileRevalidateMs: 24 * HOUR,
+    },
+    "raydium:getPoolList": {
+      ttlMs: 5 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "sanctum:getAllLsts": {
+      ttlMs: 10 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+    "tensor:getAllCollections": {
+      ttlMs: 10 * MINUTE,
+      staleWhileRevalidateMs: HOUR,
+    },
+  };
+
+  constructor(config: ResponseCacheConfig = {}) {
+    this.store = config.store || new MemoryCacheStore(config.maxEntries);
+    this.policies = { ...ResponseCache.DEFAULT_POLICIES, ...config.policies };
+    this.namespace = config.namespace ? `${config.namespace}:` : "";
+    this.enabled = config.enabled ?? true;
+  }
+
+  /**
+   * Return the cached response for `endpoint` + `args`, calling `fetcher` on
+   * a miss. Stale values are returned immediately and refreshed in the
+   * background; concurrent misses share one request.
+   */
+  async wrap<T>(
+    endpoint: string,
+    args: unknown,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled) return fetcher();
+
+    const key = this.getKey(endpoint, args);
+    const entry = await this.store.get<T>(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt > now) {
+      return entry.value;
+    }
+
+    if (entry && entry.staleUntil > now) {
+      // Keep serving the stale value if the refresh fails
+      this.refresh(endpoint, key, fetcher).catch(() => undefined);
+      return entry.value;
+    }
+
+    return this.refresh(endpoint, key, fetcher);
+  }
+
+  /**
+   * Drop cached responses: one call when `args` is given, every call to
+   * `endpoint` otherwise, or everything when called without arguments
+   */
+  async invalidate(endpoint?: string, args?: unknown): Promise<void> {
+    if (endpoint && args !== undefined) {
+      await this.store.delete(this.getKey(endpoint, args));
+      return;
+    }
+
+    const prefix = endpoint ? `${this.namespace}${endpoint}:` : this.namespace;
+    const keys = await this.store.keys();
+    await Promise.all(
+      keys
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => this.store.delete(key))
+    );
+  }
+
+  /**
+   * Set or replace the policy for an endpoint
+   */
+  setPolicy(endpoint: string, policy: CachePolicy): void {
+    this.policies[endpoint] = policy;
+  }
+
+  getPolicy(endpoint: string): CachePolicy {
+    return this.policies[endpoint] || ResponseCache.DEFAULT_POLICY;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private refresh<T>(
+    endpoint: string,
+    key: string,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight as Promise<T>;
+
+    const request = (async () => {
+      try {
+        const value = await fetcher();
+        const policy = this.getPolicy(endpoint);
+        const expiresAt = Date.now() + policy.ttlMs;
+        await this.store.set(key, {
+          value,
+          expiresAt,
+          staleUntil: expiresAt + (policy.staleWhileRevalidateMs ?? 0),
+        });
+        return value;
+      } finally {
+        this.pending.delete(key);
+      }
+    })();
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private getKey(endpoint: string, args: unknown): string {
+    return `${this.namespace}${endpoint}:${JSON.stringify(args ?? null)}`;
+  }
+}
+
+export default ResponseCache;
@@ -1,17 +1,33 @@
 import { Connection, clusterApiUrl, type Commitment } from "@solana/web3.js";
 
+/**
+ * Public RPC endpoint of a cluster, or the default local validator port
+ */
+export const getClusterUrl = (
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet" = "mainnet-beta"
+): string => {
+  return network === "localnet"
+    ? "http://127.0.0.1:8899"
+    : clusterApiUrl(network);
+};
+
+/**
+ * Connection to `rpcUrl`, or the cluster's public endpoint. In Node,
+ * getConnectionFromEnv() from "forgexai-sdk/node" honours SOLANA_RPC_URL.
+ */
 export const getConnection = (
-  network: "mainnet-beta" | "devnet" | "testnet" = "mainnet-beta",
-  commitment: Commitment = "confirmed"
+  network: "mainnet-beta" | "devnet" | "testnet" | "localnet" = "mainnet-beta",
+  commitment: Commitment = "confirmed",
+  rpcUrl?: string
 ): Connection => {
-  const rpcUrl = process.env.SOLANA_RPC_URL || clusterApiUrl(network);
-  return new Connection(rpcUrl, commitment);
+  return new Connection(rpcUrl || getClusterUrl(network), commitment);
 };
 
 export const SOLANA_NETWORKS = {
   MAINNET: "mainnet-beta" as const,
   DEVNET: "devnet" as const,
   TESTNET: "testnet" as const,
+  LOCALNET: "localnet" as const,
 };
 
 export const TOKENS = {
@@ -22,4 +38,5 @@ export const TOKENS = {
   BONK: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
   mSOL: "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So",
   jitoSOL: "J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn",
+  PYUSD: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
 };
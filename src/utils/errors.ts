@@ -0,0 +1,229 @@
+import type { TransactionError } from "@solana/web3.js";
+import {
+  decodeTransactionError,
+  parseProgramLogs,
+  type DecodedTransactionError,
+} from "./simulation.js";
+
+/**
+ * Stable failure categories to branch on instead of matching messages
+ */
+export type ErrorCode =
+  | "INSUFFICIENT_FUNDS"
+  | "SLIPPAGE_EXCEEDED"
+  | "RATE_LIMITED"
+  | "PROGRAM_ERROR"
+  | "NOT_INITIALIZED"
+  | "BLOCKHASH_EXPIRED"
+  | "TRANSACTION_FAILED"
+  | "WALLET_REQUIRED"
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "UNAUTHORIZED"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "NETWORK_ERROR"
+  | "API_ERROR"
+  | "UNKNOWN";
+
+/**
+ * Where an error originated
+ */
+export interface ErrorContext {
+  service?: string;
+  method?: string;
+}
+
+export interface ForgeXSDKErrorOptions extends ErrorContext {
+  cause?: unknown;
+  /** Decoded program failure, for errors raised by a transaction */
+  programError?: DecodedTransactionError;
+  logs?: string[];
+  /** HTTP status, for failed API calls */
+  status?: number;
+}
+
+export class ForgeXSDKError extends Error {
+  public code: ErrorCode | (string & {});
+  public details?: any;
+  public timestamp: number;
+  public service?: string;
+  public method?: string;
+  public cause?: unknown;
+  public programError?: DecodedTransactionError;
+  public logs?: string[];
+  public status?: number;
+
+  constructor(
+    code: ErrorCode | (string & {}),
+    message: string,
+    details?: any,
+    options: ForgeXSDKErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "ForgeXSDKError";
+    this.code = code;
+    this.details = details;
+    this.timestamp = Date.now();
+    this.service = options.service;
+    this.method = options.method;
+    this.cause = options.cause;
+    this.programError = options.programError;
+    this.logs = options.logs;
+    this.status = options.status;
+  }
+
+  is(code: ErrorCode): boolean {
+    return this.code === code;
+  }
+
+  /**
+   * Wrap any thrown value, classifying it and keeping it as `cause`.
+   * ForgeXSDKErrors pass through with the context filled in.
+   */
+  static from(error: unknown, context: ErrorContext = {}): ForgeXSDKError {
+    if (error instanceof ForgeXSDKError) {
+      error.service = error.service || context.service;
+      error.method = error.method || context.method;
+      return error;
+    }
+
+    const classified = classifyError(error);
+    return new ForgeXSDKError(
+      classified.code,
+      context.method
+        ? `${context.method} failed: ${classified.message}`
+        : classified.message,
+      classified.details,
+      {
+        ...context,
+        cause: error,
+        programError: classified.programError,
+        logs: classified.logs,
+        status: classified.status,
+      }
+    );
+  }
+}
+
+export interface ClassifiedError {
+  code: ErrorCode;
+  message: string;
+  details?: any;
+  programError?: DecodedTransactionError;
+  logs?: string[];
+  status?: number;
+}
+
+// Checked in order against program error names and messages
+const MESSAGE_CODES: Array<[RegExp, ErrorCode]> = [
+  [/too many requests|rate limit|\b429\b/i, "RATE_LIMITED"],
+  [
+    /blockhash not found|block height exceeded|blockhash expired|transaction ?expired/i,
+    "BLOCKHASH_EXPIRED",
+  ],
+  [
+    /insufficient.?(funds|lamports|balance|liquidity|collateral)|no record of a prior credit/i,
+    "INSUFFICIENT_FUNDS",
+  ],
+  [/slippage|minimum.?(amount|out)|exceeds desired/i, "SLIPPAGE_EXCEEDED"],
+  [/not initialized|call init\w*\(\) first/i, "NOT_INITIALIZED"],
+  [/wallet (is )?required|wallet must be connected/i, "WALLET_REQUIRED"],
+  [/timed? ?out|ETIMEDOUT|ECONNABORTED/i, "TIMEOUT"],
+  [
+    /ECONNREFUSED|ENOTFOUND|ECONNRESET|fetch failed|network error/i,
+    "NETWORK_ERROR",
+  ],
+  [/not found/i, "NOT_FOUND"],
+];
+
+/**
+ * Classify a thrown value: HTTP failures by status, transaction failures by
+ * the decoded program error, everything else by message
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  const err = error as any;
+  const message = getErrorMessage(err);
+
+  if (err?.code === "ERR_CANCELED" || err?.name === "CanceledError") {
+    return { code: "CANCELLED", message };
+  }
+
+  const status: number | undefined = err?.response?.status;
+  if (status !== undefined) {
+    return {
+      code: codeForStatus(status, message),
+      message,
+      details: err.response.data,
+      status,
+    };
+  }
+
+  const logs: string[] | undefined = Array.isArray(err?.logs)
+    ? err.logs
+    : Array.isArray(err?.transactionLogs)
+      ? err.transactionLogs
+      : undefined;
+  const transactionError: TransactionError | undefined = [
+    err,
+    err?.err,
+    err?.transactionError,
+  ].find((candidate) => candidate?.InstructionError);
+
+  const fromLogs = parseProgramLogs(logs);
+  if (transactionError || fromLogs) {
+    const programError = transactionError
+      ? decodeTransactionError(transactionError, logs)
+      : {
+          message: fromLogs.name
+            ? `${fromLogs.name}: ${fromLogs.message}`
+            : fromLogs.message || message,
+          code: fromLogs.code,
+          name: fromLogs.name,
+          programId: fromLogs.programId,
+          raw: undefined,
+        };
+    // SPL programs report the reason as "Program log: Error: ..."
+    const errorLogs = (logs || []).filter((log) =>
+      log.startsWith("Program log: Error")
+    );
+    const code =
+      matchCode(
+        [programError.name, programError.message, ...errorLogs].join(" ")
+      ) || "PROGRAM_ERROR";
+    return { code, message: programError.message, programError, logs };
+  }
+
+  return { code: matchCode(message) || "UNKNOWN", message, logs };
+}
+
+function matchCode(text: string): ErrorCode | undefined {
+  return MESSAGE_CODES.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function codeForStatus(status: number, message: string): ErrorCode {
+  if (status === 429) return "RATE_LIMITED";
+  if (status === 401 || status === 403) return "UNAUTHORIZED";
+  if (status === 404) return "NOT_FOUND";
+  if (status === 408) return "TIMEOUT";
+  if (status >= 400 && status < 500) {
+    return matchCode(message) || "INVALID_INPUT";
+  }
+  return "API_ERROR";
+}
+
+function getErrorMessage(err: any): string {
+  const data = err?.response?.data;
+  const apiMessage =
+    data?.error?.message ||
+    data?.message ||
+    (typeof data?.error === "string" ? data.error : undefined);
+  return (
+    apiMessage ||
+    err?.message ||
+    (typeof err === "string" ? err : err?.toString?.()) ||
+    "Unknown error"
+  );
+}
+
+export default ForgeXSDKError;
@@ -0,0 +1,260 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  type AxiosRequestConfig,
+  type CreateAxiosDefaults,
+  type GenericAbortSignal,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { silentLogger, type Logger } from "./logger.js";
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from "./telemetry.js";
+
+/**
+ * Request budget for a single host (token bucket)
+ */
+export interface RateLimit {
+  requestsPerSecond: number;
+  /** Requests allowed back-to-back before throttling (default 1) */
+  burst?: number;
+}
+
+export interface HttpClientConfig {
+  /** Per-request timeout in ms (default 30000) */
+  timeout?: number;
+  /** Retries on 429, 5xx and network errors (default 3) */
+  retries?: number;
+  /** Base delay for exponential backoff (default 500) */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  /** Per-host budgets, merged over DEFAULT_RATE_LIMITS */
+  rateLimits?: Record<string, RateLimit>;
+  /** Cancels every request made through this client, e.g. on shutdown */
+  signal?: AbortSignal;
+  /** Custom axios adapter (fixtures, edge runtimes) */
+  adapter?: AxiosRequestConfig["adapter"];
+  logger?: Logger;
+  /** Counts retries and rate-limited responses */
+  telemetry?: Telemetry;
+}
+
+interface RetryState {
+  __retryCount?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: RateLimit;
+}
+
+const IDEMPOTENT_METHODS = ["get", "head", "options"];
+
+/**
+ * Shared HTTP layer for every REST-based client: timeouts, exponential
+ * backoff with Retry-After support, per-host rate limits and cancellation
+ */
+export class HttpClient {
+  private config: Required<
+    Omit<
+      HttpClientConfig,
+      "signal" | "adapter" | "rateLimits" | "logger" | "telemetry"
+    >
+  >;
+  private signal?: AbortSignal;
+  private adapter?: AxiosRequestConfig["adapter"];
+  private logger: Logger;
+  private telemetry: Telemetry;
+  private rateLimits: Record<string, RateLimit>;
+  private buckets = new Map<string, Bucket>();
+
+  /**
+   * Published limits of the public APIs, kept slightly below the cap
+   */
+  static readonly DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+    "public-api.birdeye.so": { requestsPerSecond: 15, burst: 5 },
+    "api.dexscreener.com": { requestsPerSecond: 4, burst: 4 },
+    "lite-api.jup.ag": { requestsPerSecond: 1, burst: 5 },
+    "api.helius.xyz": { requestsPerSecond: 10, burst: 10 },
+    "mainnet.block-engine.jito.wtf": { requestsPerSecond: 1 },
+  };
+
+  constructor(config: HttpClientConfig = {}) {
+    this.config = {
+      timeout: config.timeout ?? 30000,
+      retries: config.retries ?? 3,
+      retryDelayMs: config.retryDelayMs ?? 500,
+      maxRetryDelayMs: config.maxRetryDelayMs ?? 30000,
+    };
+    this.signal = config.signal;
+    this.adapter = config.adapter;
+    this.logger = config.logger || silentLogger;
+    this.telemetry = config.telemetry || noopTelemetry;
+    this.rateLimits = {
+      ...HttpClient.DEFAULT_RATE_LIMITS,
+      ...config.rateLimits,
+    };
+  }
+
+  /**
+   * Create an axios instance routed through this client
+   */
+  create(defaults: CreateAxiosDefaults = {}): AxiosInstance {
+    const instance = axios.create({
+      timeout: this.config.timeout,
+      ...(this.adapter ? { adapter: this.adapter } : {}),
+      ...defaults,
+    });
+
+    instance.interceptors.request.use(async (request) => {
+      if (!request.signal && this.signal) {
+        request.signal = this.signal;
+      }
+      await this.throttle(this.getHost(instance, request), request.signal);
+      return request;
+    });
+
+    instance.interceptors.response.use(undefined, (error) =>
+      this.retry(instance, error)
+    );
+
+    return instance;
+  }
+
+  /**
+   * Set or replace the budget for a host
+   */
+  setRateLimit(host: string, limit: RateLimit): void {
+    this.rateLimits[host] = limit;
+    this.buckets.delete(host);
+  }
+
+  getConfig(): HttpClientConfig {
+    return { ...this.config, rateLimits: { ...this.rateLimits } };
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async retry(instance: AxiosInstance, error: any): Promise<any> {
+    const request = error?.config as
+      (InternalAxiosRequestConfig & RetryState) | undefined;
+
+    if (request && error.response?.status === 429) {
+      this.telemetry.count(TELEMETRY_METRICS.rateLimits, {
+        host: this.getHost(instance, request),
+      });
+    }
+
+    if (!request || axios.isCancel(error) || !this.isRetryable(error)) {
+      throw error;
+    }
+
+    const attempt = request.__retryCount ?? 0;
+    if (attempt >= this.config.retries) {
+      throw error;
+    }
+    request.__retryCount = attempt + 1;
+
+    const delayMs = this.getRetryDelay(error, attempt);
+    this.telemetry.count(TELEMETRY_METRICS.retries, {
+      host: this.getHost(instance, request),
+      status: error.response?.status,
+    });
+    this.logger.debug("Retrying HTTP request", {
+      service: "HttpClient",
+      url: request.url,
+      status: error.response?.status,
+      attempt: attempt + 1,
+      delayMs,
+    });
+    await sleep(delayMs, request.signal);
+    return instance.request(request);
+  }
+
+  private isRetryable(error: AxiosError): boolean {
+    const status = error.response?.status;
+    const method = (error.config?.method || "get").toLowerCase();
+
+    // Rate limited requests were never processed, so any method is safe
+    if (status === 429) return true;
+    if (!IDEMPOTENT_METHODS.includes(method)) return false;
+    return status === undefined || status >= 500;
+  }
+
+  private getRetryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = error.response?.headers?.["retry-after"];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? new Date(retryAfter).getTime() - Date.now()
+        : seconds * 1000;
+      if (delay >= 0) return Math.min(delay, this.config.maxRetryDelayMs);
+    }
+
+    const backoff = this.config.retryDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.config.retryDelayMs;
+    return Math.min(backoff + jitter, this.config.maxRetryDelayMs);
+  }
+
+  private getHost(
+    instance: AxiosInstance,
+    request: InternalAxiosRequestConfig
+  ): string | undefined {
+    try {
+      const url = instance.getUri(request);
+      return new URL(url).host;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async throttle(
+    host?: string,
+    signal?: GenericAbortSignal
+  ): Promise<void> {
+    const limit = host && this.rateLimits[host];
+    if (!limit) return;
+
+    const now = Date.now();
+    const burst = limit.burst ?? 1;
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = { tokens: burst, updatedAt: now, limit };
+      this.buckets.set(host, bucket);
+    }
+
+    // Refill, then reserve a token; a negative balance is the queue ahead
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens +
+        ((now - bucket.updatedAt) / 1000) * limit.requestsPerSecond
+    );
+    bucket.updatedAt = now;
+    bucket.tokens -= 1;
+
+    if (bucket.tokens < 0) {
+      await sleep((-bucket.tokens / limit.requestsPerSecond) * 1000, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError("Request aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError("Request aborted"));
+    };
+    signal?.addEventListener?.("abort", onAbort);
+  });
+}
+
+export default HttpClient;
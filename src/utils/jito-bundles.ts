@@ -0,0 +1,488 @@
+import { AxiosInstance } from "axios";
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Commitment,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { Buffer } from "buffer";
+import { ForgeXSDKError } from "./errors.js";
+import { HttpClient } from "./http.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+import { resolveLookupTables } from "./lookup-tables.js";
+import {
+  TransactionExecutor,
+  type ExecutionResult,
+  type SendableTransaction,
+  type TransactionSigner,
+} from "./transaction-executor.js";
+
+/**
+ * Jito's published mainnet tip accounts
+ */
+export const JITO_TIP_ACCOUNTS = [
+  "96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5",
+  "HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe",
+  "Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY",
+  "ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49",
+  "DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh",
+  "ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt",
+  "DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL",
+  "3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT",
+];
+
+// A bundle carries at most five transactions, tip included
+const MAX_BUNDLE_SIZE = 5;
+
+export interface JitoBundleSenderConfig {
+  /** Block engine URL (default mainnet) */
+  blockEngineUrl?: string;
+  /** Sent as x-jito-auth for higher rate limits */
+  uuid?: string;
+  /** Tip accounts to pick from at random (default JITO_TIP_ACCOUNTS) */
+  tipAccounts?: Array<PublicKey | string>;
+  /** Default tip in lamports (default 10000) */
+  tipLamports?: number;
+  /** Signs bundled transactions and pays the tip */
+  signer?: TransactionSigner;
+  /** Send path used when a bundle does not land */
+  executor?: TransactionExecutor;
+  /** Send transactions over RPC when a bundle is rejected or expires (default true) */
+  fallbackToRpc?: boolean;
+  /** Delay between bundle status polls (default 1000) */
+  pollIntervalMs?: number;
+  commitment?: Commitment;
+  httpClient?: HttpClient;
+  logger?: Logger;
+}
+
+export interface SendBundleOptions {
+  signer?: TransactionSigner;
+  tipLamports?: number;
+  tipAccount?: PublicKey | string;
+  fallbackToRpc?: boolean;
+}
+
+export type BundleStatus = "landed" | "failed" | "expired";
+
+/**
+ * Bundle status as reported by the block engine
+ */
+export type InflightBundleStatus = "Invalid" | "Pending" | "Failed" | "Landed";
+
+const INFLIGHT_STATUSES: InflightBundleStatus[] = [
+  "Invalid",
+  "Pending",
+  "Failed",
+  "Landed",
+];
+
+/**
+ * Outcome of a bundle sent through the block engine, or of its RPC fallback
+ */
+export interface BundleResult {
+  status: BundleStatus;
+  /** "rpc" when the transactions were sent one by one after the bundle failed */
+  via: "bundle" | "rpc";
+  bundleId?: string;
+  /** Signatures in bundle order */
+  signatures: string[];
+  slot?: number;
+  error?: string;
+  /** Per-transaction results of the RPC fallback */
+  fallbackResults?: ExecutionResult[];
+}
+
+/**
+ * Sends up to five transactions as an atomic Jito bundle with a tip, so
+ * they land together, in order, and cannot be sandwiched
+ */
+export class JitoBundleSender {
+  private connection: Connection;
+  private http: AxiosInstance;
+  private tipAccounts: PublicKey[];
+  private tipLamports: number;
+  private signer?: TransactionSigner;
+  private executor: TransactionExecutor;
+  private fallbackToRpc: boolean;
+  private pollIntervalMs: number;
+  private commitment: Commitment;
+  private logger: Logger;
+
+  constructor(connection: Connection, config: JitoBundleSenderConfig = {}) {
+    this.connection = connection;
+    this.tipAccounts = (config.tipAccounts || JITO_TIP_ACCOUNTS).map(
+      (account) => new PublicKey(account)
+    );
+    this.tipLamports = config.tipLamports ?? 10_000;
+    this.signer = config.signer;
+    this.executor =
+      config.executor ||
+      new TransactionExecutor(connection, { logger: config.logger });
+    this.fallbackToRpc = config.fallbackToRpc ?? true;
+    this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+    this.commitment = config.commitment || "confirmed";
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "JitoBundleSender",
+    });
+    this.http = (config.httpClient || new HttpClient()).create({
+      baseURL: config.blockEngineUrl || "https://mainnet.block-engine.jito.wtf",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.uuid ? { "x-jito-auth": config.uuid } : {}),
+      },
+    });
+  }
+
+  /**
+   * Sign the transactions against one blockhash, add the tip, submit them
+   * as a bundle and wait until it lands or its blockhash expires
+   */
+  async sendBundle(
+    transactions: SendableTransaction[],
+    options: SendBundleOptions = {}
+  ): Promise<BundleResult> {
+    const signer = options.signer || this.signer;
+    if (!signer) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "A signer is required to send bundles",
+        undefined,
+        { service: "JitoBundleSender", method: "sendBundle" }
+      );
+    }
+    if (transactions.length === 0 || transactions.length > MAX_BUNDLE_SIZE) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `A bundle takes 1 to ${MAX_BUNDLE_SIZE} transactions (got ${transactions.length})`,
+        { transactions: transactions.length },
+        { service: "JitoBundleSender", method: "sendBundle" }
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.connection.getLatestBlockhash(this.commitment);
+    const bundle = await this.withTip(
+      transactions,
+      signer.publicKey,
+      new PublicKey(options.tipAccount || this.pickTipAccount()),
+      options.tipLamports ?? this.tipLamports,
+      blockhash
+    );
+    for (const transaction of bundle) {
+      await this.sign(transaction, signer);
+    }
+    const signatures = bundle.map(getSignature);
+
+    let result: BundleResult;
+    let bundleId: string | undefined;
+    try {
+      bundleId = await this.rpc<string>("sendBundle", [
+        bundle.map((transaction) =>
+          Buffer.from(transaction.serialize()).toString("base64")
+        ),
+        { encoding: "base64" },
+      ]);
+    } catch (error) {
+      const wrapped = ForgeXSDKError.from(error, {
+        service: "JitoBundleSender",
+        method: "sendBundle",
+      });
+      // A timeout or dropped connection may still have delivered the bundle,
+      // so only an explicit rejection is safe to retry over RPC
+      if (!isRejection(wrapped)) throw wrapped;
+      result = {
+        status: "failed",
+        via: "bundle",
+        signatures,
+        error: wrapped.message,
+      };
+    }
+
+    if (bundleId) {
+      this.logger.info("Bundle submitted", {
+        method: "sendBundle",
+        bundleId,
+        transactions: bundle.length,
+      });
+      result = await this.waitForBundle(
+        bundleId,
+        signatures,
+        lastValidBlockHeight
+      );
+    }
+
+    if (
+      result.status === "landed" ||
+      !(options.fallbackToRpc ?? this.fallbackToRpc)
+    ) {
+      return result;
+    }
+
+    // Not atomic and not MEV-protected, but the transactions still go out
+    this.logger.warn("Bundle did not land, sending over RPC", {
+      method: "sendBundle",
+      bundleId: result.bundleId,
+      error: result.error,
+    });
+    const fallbackResults = await this.executor.executeAll(transactions, {
+      signer,
+    });
+    // executeAll stops at the first transaction that does not confirm
+    const last = fallbackResults[fallbackResults.length - 1];
+    const allConfirmed =
+      fallbackResults.length === transactions.length &&
+      last.status === "confirmed";
+    let status: BundleStatus = allConfirmed ? "landed" : "failed";
+    if (last.status === "expired") status = "expired";
+    return {
+      status,
+      via: "rpc",
+      bundleId: result.bundleId,
+      signatures: fallbackResults.map((r) => r.signature || ""),
+      slot: last.slot,
+      error: last.error || result.error,
+      fallbackResults,
+    };
+  }
+
+  /**
+   * Status of a submitted bundle as reported by the block engine; statuses
+   * it adds later read as "Invalid"
+   */
+  async getBundleStatus(bundleId: string): Promise<{
+    status: InflightBundleStatus;
+    landedSlot?: number;
+  }> {
+    const response = await this.rpc<{
+      value: Array<{ status: string; landed_slot: number | null }>;
+    }>("getInflightBundleStatuses", [[bundleId]]);
+    const entry = response.value?.[0];
+    return {
+      status:
+        INFLIGHT_STATUSES.find((status) => status === entry?.status) ||
+        "Invalid",
+      landedSlot: entry?.landed_slot ?? undefined,
+    };
+  }
+
+  /**
+   * Tip accounts currently accepted by the block engine
+   */
+  async getTipAccounts(): Promise<PublicKey[]> {
+    const accounts = await this.rpc<string[]>("getTipAccounts", []);
+    return accounts.map((account) => new PublicKey(account));
+  }
+
+  /**
+   * Throw unless the bundle (or its fallback) landed, returning the
+   * signatures otherwise
+   */
+  static assertLanded(result: BundleResult): string[] {
+    if (result.status === "landed") return result.signatures;
+
+    const message = `Bundle ${result.status}${
+      result.error ? `: ${result.error}` : ""
+    }`;
+    throw new ForgeXSDKError(
+      result.status === "expired" ? "BLOCKHASH_EXPIRED" : "TRANSACTION_FAILED",
+      message,
+      result,
+      { service: "JitoBundleSender" }
+    );
+  }
+
+  setSigner(signer: TransactionSigner): void {
+    this.signer = signer;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async waitForBundle(
+    bundleId: string,
+    signatures: string[],
+    lastValidBlockHeight: number
+  ): Promise<BundleResult> {
+    while (true) {
+      const { status, landedSlot } = await this.getBundleStatus(bundleId);
+      if (status === "Landed") {
+        return {
+          status: "landed",
+          via: "bundle",
+          bundleId,
+          signatures,
+          slot: landedSlot,
+        };
+      }
+      if (status === "Failed") {
+        return {
+          status: "failed",
+          via: "bundle",
+          bundleId,
+          signatures,
+          error: "Bundle failed in the block engine",
+        };
+      }
+
+      // The block engine forgets bundles after a while; the chain does not
+      const { value } = await this.connection.getSignatureStatuses([
+        signatures[0],
+      ]);
+      if (value[0] && !value[0].err && value[0].confirmationStatus) {
+        return {
+          status: "landed",
+          via: "bundle",
+          bundleId,
+          signatures,
+          slot: value[0].slot,
+        };
+      }
+
+      const blockHeight = await this.connection.getBlockHeight(this.commitment);
+      if (blockHeight > lastValidBlockHeight) {
+        return {
+          status: "expired",
+          via: "bundle",
+          bundleId,
+          signatures,
+          error: `Blockhash expired at block height ${lastValidBlockHeight}`,
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Bundle with the tip transfer: its own transaction when there is room,
+   * appended to the last transaction otherwise. Transactions are rebuilt
+   * rather than mutated, so the RPC fallback sends them without the tip.
+   */
+  private async withTip(
+    transactions: SendableTransaction[],
+    payer: PublicKey,
+    tipAccount: PublicKey,
+    lamports: number,
+    blockhash: string
+  ): Promise<SendableTransaction[]> {
+    const tip = SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: tipAccount,
+      lamports,
+    });
+    const bundle = transactions.map((transaction) =>
+      this.rebuild(transaction, payer, blockhash)
+    );
+
+    if (bundle.length < MAX_BUNDLE_SIZE) {
+      bundle.push(
+        new Transaction({ feePayer: payer, recentBlockhash: blockhash }).add(
+          tip
+        )
+      );
+      return bundle;
+    }
+
+    const last = bundle[bundle.length - 1];
+    if (last instanceof VersionedTransaction) {
+      const lookupTables = await resolveLookupTables(
+        this.connection,
+        last.message
+      );
+      const message = TransactionMessage.decompile(last.message, {
+        addressLookupTableAccounts: lookupTables,
+      });
+      message.instructions.push(tip);
+      bundle[bundle.length - 1] = new VersionedTransaction(
+        last.version === "legacy"
+          ? message.compileToLegacyMessage()
+          : message.compileToV0Message(lookupTables)
+      );
+    } else {
+      last.add(tip);
+    }
+    return bundle;
+  }
+
+  /**
+   * Unsigned copy of a transaction on the bundle blockhash
+   */
+  private rebuild(
+    transaction: SendableTransaction,
+    payer: PublicKey,
+    blockhash: string
+  ): SendableTransaction {
+    if (transaction instanceof VersionedTransaction) {
+      const copy = VersionedTransaction.deserialize(transaction.serialize());
+      copy.message.recentBlockhash = blockhash;
+      copy.signatures = copy.signatures.map(() => new Uint8Array(64));
+      return copy;
+    }
+    return new Transaction({
+      feePayer: transaction.feePayer || payer,
+      recentBlockhash: blockhash,
+    }).add(...transaction.instructions);
+  }
+
+  private async sign(
+    transaction: SendableTransaction,
+    signer: TransactionSigner
+  ): Promise<void> {
+    const signed = await signer.signTransaction(transaction);
+    // Wallets may return a new instance instead of signing in place
+    if (signed !== transaction) {
+      if (transaction instanceof VersionedTransaction) {
+        transaction.signatures = (signed as VersionedTransaction).signatures;
+      } else {
+        transaction.signatures = (signed as Transaction).signatures;
+      }
+    }
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.http.post("/api/v1/bundles", {
+      jsonrpc: "2.0",
+      id: 1,
+      method,
+      params,
+    });
+    if (response.data?.error) {
+      throw new ForgeXSDKError(
+        "API_ERROR",
+        `${method} failed: ${response.data.error.message}`,
+        response.data.error,
+        { service: "JitoBundleSender", method }
+      );
+    }
+    return response.data.result;
+  }
+
+  private pickTipAccount(): PublicKey {
+    return this.tipAccounts[
+      Math.floor(Math.random() * this.tipAccounts.length)
+    ];
+  }
+}
+
+function isRejection(error: ForgeXSDKError): boolean {
+  return (
+    error.code === "API_ERROR" ||
+    (error.status !== undefined && error.status !== 408)
+  );
+}
+
+function getSignature(transaction: SendableTransaction): string {
+  const signature =
+    transaction instanceof VersionedTransaction
+      ? transaction.signatures[0]
+      : transaction.signature;
+  return signature ? bs58.encode(signature) : "";
+}
+
+export default JitoBundleSender;
@@ -0,0 +1,158 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+  service?: string;
+  method?: string;
+  signature?: string;
+  durationMs?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Leveled logger accepted by the SDK and every service
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface JsonLoggerConfig {
+  /** Minimum level written (default "info") */
+  level?: LogLevel;
+  /** Fields added to every entry */
+  fields?: LogFields;
+  /** Line sink (default: stdout, stderr for warn and error) */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Default logger: discards everything
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Writes one JSON object per line:
+ * `{"time":"...","level":"info","msg":"...","service":"DriftClient",...}`
+ */
+export class JsonLogger implements Logger {
+  private level: LogLevel;
+  private fields: LogFields;
+  private write: (line: string, level: LogLevel) => void;
+
+  constructor(config: JsonLoggerConfig = {}) {
+    this.level = config.level || "info";
+    this.fields = config.fields || {};
+    this.write = config.write || defaultWrite;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  /**
+   * Logger sharing this sink with extra fields on every entry
+   */
+  child(fields: LogFields): JsonLogger {
+    return new JsonLogger({
+      level: this.level,
+      fields: { ...this.fields, ...fields },
+      write: this.write,
+    });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_RANK[level] < LEVEL_RANK[this.level]) return;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.fields,
+      ...fields,
+    };
+    if (entry.error !== undefined) {
+      entry.error = serializeError(entry.error);
+    }
+
+    this.write(JSON.stringify(entry, jsonReplacer), level);
+  }
+}
+
+/**
+ * Wrap a logger so every entry carries `fields`, e.g. the service name
+ */
+export function withLogFields(logger: Logger, fields: LogFields): Logger {
+  if (logger === silentLogger) return logger;
+  return {
+    debug: (message, extra) => logger.debug(message, { ...fields, ...extra }),
+    info: (message, extra) => logger.info(message, { ...fields, ...extra }),
+    warn: (message, extra) => logger.warn(message, { ...fields, ...extra }),
+    error: (message, extra) => logger.error(message, { ...fields, ...extra }),
+  };
+}
+
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      ...((error as any).code !== undefined && { code: (error as any).code }),
+      stack: error.stack,
+    };
+  }
+  return error;
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  // PublicKey and other base58 keys
+  if (
+    value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof (value as any).toBase58 === "function"
+  ) {
+    return (value as any).toBase58();
+  }
+  return value;
+}
+
+function defaultWrite(line: string, level: LogLevel): void {
+  if (level === "warn" || level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export default JsonLogger;
@@ -0,0 +1,569 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type MessageAccountKeys,
+  type VersionedMessage,
+} from "@solana/web3.js";
+import { ForgeXSDKError } from "./errors.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+import {
+  TransactionExecutor,
+  type SendableTransaction,
+} from "./transaction-executor.js";
+import type { Signer } from "./signer.js";
+
+/**
+ * Anything that identifies a lookup table
+ */
+export type LookupTableInput = PublicKey | string | AddressLookupTableAccount;
+
+export interface AddressLookupTableManagerConfig {
+  /** Authority and payer of app-owned tables */
+  authority?: Signer;
+  /** Send path for table management transactions */
+  executor?: TransactionExecutor;
+  /** Tables offered to every compiled transaction */
+  lookupTables?: LookupTableInput[];
+  /** How long fetched tables are reused (default 60000) */
+  cacheTtlMs?: number;
+  logger?: Logger;
+}
+
+export interface CompileTransactionOptions {
+  /** Tables to compile against, on top of the configured ones */
+  lookupTables?: LookupTableInput[];
+  /** Placeholder by default; the executor sets a fresh one before signing */
+  recentBlockhash?: string;
+  /** Compile a v0 message even when the legacy transaction fits */
+  versioned?: boolean;
+}
+
+export interface ReclaimOptions {
+  /** Tables never deactivated */
+  keep?: LookupTableInput[];
+  /**
+   * Slots since a table was last extended or used through this manager
+   * before it counts as stale (default 216000, about a day)
+   */
+  maxIdleSlots?: number;
+}
+
+export interface ReclaimResult {
+  deactivated: PublicKey[];
+  closed: PublicKey[];
+}
+
+// Lookup tables hold at most 256 addresses
+const MAX_TABLE_ADDRESSES = 256;
+// Addresses per extend instruction, keeping the transaction under the limit
+const EXTEND_BATCH_SIZE = 20;
+// A deactivated table can be closed once its slot leaves SlotHashes
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+// Authority pubkey offset in the lookup table account layout
+const AUTHORITY_OFFSET = 22;
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Fetch the address lookup tables a versioned message loads accounts from
+ */
+export async function resolveLookupTables(
+  connection: Connection,
+  message: VersionedMessage
+): Promise<AddressLookupTableAccount[]> {
+  const lookups = message.addressTableLookups || [];
+  return Promise.all(
+    lookups.map(async (lookup) => {
+      const { value } = await connection.getAddressLookupTable(
+        lookup.accountKey
+      );
+      if (!value) {
+        throw new ForgeXSDKError(
+          "NOT_FOUND",
+          `Address lookup table ${lookup.accountKey.toBase58()} not found`,
+          { lookupTable: lookup.accountKey.toBase58() },
+          { service: "AddressLookupTables", method: "resolveLookupTables" }
+        );
+      }
+      return value;
+    })
+  );
+}
+
+/**
+ * Every account a message touches, including those loaded from lookup tables
+ */
+export async function resolveAccountKeys(
+  connection: Connection,
+  message: VersionedMessage
+): Promise<MessageAccountKeys> {
+  const addressLookupTableAccounts = await resolveLookupTables(
+    connection,
+    message
+  );
+  return message.getAccountKeys({ addressLookupTableAccounts });
+}
+
+/**
+ * Serialized size in bytes, signatures included. Infinity when the message
+ * does not even serialize (it overflows the packet buffer).
+ */
+export function getTransactionSize(transaction: SendableTransaction): number {
+  try {
+    const message =
+      transaction instanceof VersionedTransaction
+        ? transaction.message
+        : transaction.compileMessage();
+    const signatures = message.header.numRequiredSignatures;
+    return (
+      shortVecLength(signatures) + signatures * 64 + message.serialize().length
+    );
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * Fetches and caches lookup tables, manages app-owned tables and compiles
+ * transactions against them once a legacy transaction no longer fits
+ */
+export class AddressLookupTableManager {
+  private connection: Connection;
+  private authority?: Signer;
+  private executor: TransactionExecutor;
+  private defaultTables: LookupTableInput[];
+  private cacheTtlMs: number;
+  private cache = new Map<
+    string,
+    { account: AddressLookupTableAccount; expiresAt: number }
+  >();
+  private lastUsedSlot = new Map<string, number>();
+  private logger: Logger;
+
+  constructor(
+    connection: Connection,
+    config: AddressLookupTableManagerConfig = {}
+  ) {
+    this.connection = connection;
+    this.authority = config.authority;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "AddressLookupTableManager",
+    });
+    this.executor =
+      config.executor ||
+      new TransactionExecutor(connection, { logger: config.logger });
+    this.defaultTables = config.lookupTables || [];
+    this.cacheTtlMs = config.cacheTtlMs ?? 60000;
+  }
+
+  // ============================================
+  // FETCHING
+  // ============================================
+
+  /**
+   * Fetch a lookup table, served from cache while fresh
+   */
+  async getLookupTable(
+    table: LookupTableInput,
+    options: { refresh?: boolean } = {}
+  ): Promise<AddressLookupTableAccount> {
+    if (table instanceof AddressLookupTableAccount) return table;
+
+    const key = new PublicKey(table).toBase58();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now() && !options.refresh) {
+      return cached.account;
+    }
+
+    const { value } = await this.connection.getAddressLookupTable(
+      new PublicKey(key)
+    );
+    if (!value) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `Address lookup table ${key} not found`,
+        { lookupTable: key },
+        { service: "AddressLookupTableManager", method: "getLookupTable" }
+      );
+    }
+    this.cache.set(key, {
+      account: value,
+      expiresAt: Date.now() + this.cacheTtlMs,
+    });
+    return value;
+  }
+
+  async getLookupTables(
+    tables: LookupTableInput[]
+  ): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(tables.map((table) => this.getLookupTable(table)));
+  }
+
+  /**
+   * Lookup tables the authority owns, active and deactivated
+   */
+  async getOwnedLookupTables(): Promise<AddressLookupTableAccount[]> {
+    const authority = this.requireAuthority("getOwnedLookupTables");
+    const accounts = await this.connection.getProgramAccounts(
+      AddressLookupTableProgram.programId,
+      {
+        filters: [
+          {
+            memcmp: {
+              offset: AUTHORITY_OFFSET,
+              bytes: authority.publicKey.toBase58(),
+            },
+          },
+        ],
+      }
+    );
+    return accounts.map(
+      ({ pubkey, account }) =>
+        new AddressLookupTableAccount({
+          key: pubkey,
+          state: AddressLookupTableAccount.deserialize(account.data),
+        })
+    );
+  }
+
+  /**
+   * Forget cached tables (all of them when no table is given)
+   */
+  invalidate(table?: LookupTableInput): void {
+    if (table === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(toAddress(table).toBase58());
+    }
+  }
+
+  // ============================================
+  // COMPILING
+  // ============================================
+
+  /**
+   * Build a legacy transaction, or a v0 one compiled against the lookup
+   * tables when the legacy transaction exceeds the packet size
+   */
+  async compileTransaction(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    options: CompileTransactionOptions = {}
+  ): Promise<SendableTransaction> {
+    const recentBlockhash = options.recentBlockhash || PLACEHOLDER_BLOCKHASH;
+    const tableInputs = [
+      ...this.defaultTables,
+      ...(options.lookupTables || []),
+    ];
+
+    if (!options.versioned) {
+      const legacy = new Transaction({
+        feePayer: payer,
+        recentBlockhash,
+      }).add(...instructions);
+      const size = getTransactionSize(legacy);
+      if (size <= PACKET_DATA_SIZE) return legacy;
+      if (tableInputs.length === 0) {
+        throw this.tooLarge(size, "Pass lookup tables to compile a v0 message");
+      }
+    }
+
+    const tables = await this.getLookupTables(tableInputs);
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash,
+        instructions,
+      }).compileToV0Message(tables)
+    );
+    const size = getTransactionSize(transaction);
+    if (size > PACKET_DATA_SIZE) {
+      throw this.tooLarge(size, "Split the instructions or extend the tables");
+    }
+
+    this.markUsed(transaction.message.addressTableLookups);
+    return transaction;
+  }
+
+  // ============================================
+  // APP-OWNED TABLES
+  // ============================================
+
+  /**
+   * Create a table owned by the authority holding `addresses`, and wait
+   * until it can be used
+   */
+  async createLookupTable(addresses: PublicKey[] = []): Promise<PublicKey> {
+    const authority = this.requireAuthority("createLookupTable");
+    const recentSlot = await this.connection.getSlot("finalized");
+    const [create, lookupTable] = AddressLookupTableProgram.createLookupTable({
+      authority: authority.publicKey,
+      payer: authority.publicKey,
+      recentSlot,
+    });
+
+    const unique = dedupe(addresses);
+    const first = unique.slice(0, EXTEND_BATCH_SIZE);
+    await this.send(
+      [
+        create,
+        ...(first.length
+          ? [this.extendInstruction(lookupTable, authority, first)]
+          : []),
+      ],
+      authority
+    );
+    this.logger.info("Lookup table created", {
+      method: "createLookupTable",
+      lookupTable: lookupTable.toBase58(),
+    });
+
+    await this.extendLookupTable(lookupTable, unique.slice(first.length));
+    if (first.length === 0) await this.waitForActivation(lookupTable);
+    return lookupTable;
+  }
+
+  /**
+   * Add the addresses the table does not hold yet, and wait until they can
+   * be used. Returns the number of addresses added.
+   */
+  async extendLookupTable(
+    table: LookupTableInput,
+    addresses: PublicKey[]
+  ): Promise<number> {
+    const authority = this.requireAuthority("extendLookupTable");
+    const lookupTable = toAddress(table);
+    const current = await this.getLookupTable(lookupTable, { refresh: true });
+    const existing = new Set(
+      current.state.addresses.map((address) => address.toBase58())
+    );
+    const missing = dedupe(addresses).filter(
+      (address) => !existing.has(address.toBase58())
+    );
+    if (missing.length === 0) return 0;
+
+    if (existing.size + missing.length > MAX_TABLE_ADDRESSES) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Lookup table ${lookupTable.toBase58()} would exceed ${MAX_TABLE_ADDRESSES} addresses`,
+        { lookupTable: lookupTable.toBase58(), addresses: missing.length },
+        { service: "AddressLookupTableManager", method: "extendLookupTable" }
+      );
+    }
+
+    for (let i = 0; i < missing.length; i += EXTEND_BATCH_SIZE) {
+      await this.send(
+        [
+          this.extendInstruction(
+            lookupTable,
+            authority,
+            missing.slice(i, i + EXTEND_BATCH_SIZE)
+          ),
+        ],
+        authority
+      );
+    }
+
+    await this.waitForActivation(lookupTable);
+    return missing.length;
+  }
+
+  /**
+   * Start the deactivation cooldown; the table is closable afterwards
+   */
+  async deactivateLookupTable(table: LookupTableInput): Promise<string> {
+    const authority = this.requireAuthority("deactivateLookupTable");
+    const lookupTable = toAddress(table);
+    const signature = await this.send(
+      [
+        AddressLookupTableProgram.deactivateLookupTable({
+          lookupTable,
+          authority: authority.publicKey,
+        }),
+      ],
+      authority
+    );
+    this.invalidate(lookupTable);
+    return signature;
+  }
+
+  /**
+   * Close a deactivated table, returning its rent to `recipient` (default
+   * the authority)
+   */
+  async closeLookupTable(
+    table: LookupTableInput,
+    recipient?: PublicKey
+  ): Promise<string> {
+    const authority = this.requireAuthority("closeLookupTable");
+    const lookupTable = toAddress(table);
+    const signature = await this.send(
+      [
+        AddressLookupTableProgram.closeLookupTable({
+          lookupTable,
+          authority: authority.publicKey,
+          recipient: recipient || authority.publicKey,
+        }),
+      ],
+      authority
+    );
+    this.invalidate(lookupTable);
+    this.lastUsedSlot.delete(lookupTable.toBase58());
+    return signature;
+  }
+
+  /**
+   * Deactivate idle app-owned tables and close the ones whose cooldown has
+   * passed, reclaiming their rent
+   */
+  async reclaimStaleTables(
+    options: ReclaimOptions = {}
+  ): Promise<ReclaimResult> {
+    const maxIdleSlots = options.maxIdleSlots ?? 216000;
+    const keep = new Set(
+      [...this.defaultTables, ...(options.keep || [])].map((table) =>
+        toAddress(table).toBase58()
+      )
+    );
+    const [tables, slot] = await Promise.all([
+      this.getOwnedLookupTables(),
+      this.connection.getSlot(),
+    ]);
+
+    const result: ReclaimResult = { deactivated: [], closed: [] };
+    for (const table of tables) {
+      const key = table.key.toBase58();
+      if (table.isActive()) {
+        const lastUsed = Math.max(
+          table.state.lastExtendedSlot,
+          this.lastUsedSlot.get(key) ?? 0
+        );
+        if (keep.has(key) || slot - lastUsed <= maxIdleSlots) continue;
+        await this.deactivateLookupTable(table.key);
+        result.deactivated.push(table.key);
+      } else if (
+        BigInt(slot) - table.state.deactivationSlot >
+        BigInt(DEACTIVATION_COOLDOWN_SLOTS)
+      ) {
+        await this.closeLookupTable(table.key);
+        result.closed.push(table.key);
+      }
+    }
+
+    if (result.deactivated.length || result.closed.length) {
+      this.logger.info("Reclaimed lookup tables", {
+        method: "reclaimStaleTables",
+        deactivated: result.deactivated.length,
+        closed: result.closed.length,
+      });
+    }
+    return result;
+  }
+
+  setAuthority(authority: Signer): void {
+    this.authority = authority;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  /**
+   * Record the current slot as last use, so reclaimStaleTables keeps tables
+   * still in use. Best effort: compiling never waits on it.
+   */
+  private markUsed(lookups: { accountKey: PublicKey }[]): void {
+    if (lookups.length === 0) return;
+    this.connection
+      .getSlot()
+      .then((slot) => {
+        for (const lookup of lookups) {
+          this.lastUsedSlot.set(lookup.accountKey.toBase58(), slot);
+        }
+      })
+      .catch(() => undefined);
+  }
+
+  private extendInstruction(
+    lookupTable: PublicKey,
+    authority: Signer,
+    addresses: PublicKey[]
+  ): TransactionInstruction {
+    return AddressLookupTableProgram.extendLookupTable({
+      lookupTable,
+      authority: authority.publicKey,
+      payer: authority.publicKey,
+      addresses,
+    });
+  }
+
+  private async send(
+    instructions: TransactionInstruction[],
+    authority: Signer
+  ): Promise<string> {
+    const transaction = new Transaction().add(...instructions);
+    transaction.feePayer = authority.publicKey;
+    return TransactionExecutor.assertConfirmed(
+      await this.executor.execute(transaction, { signer: authority })
+    );
+  }
+
+  /**
+   * Addresses added in a slot are usable from the next one
+   */
+  private async waitForActivation(lookupTable: PublicKey): Promise<void> {
+    const table = await this.getLookupTable(lookupTable, { refresh: true });
+    while ((await this.connection.getSlot()) <= table.state.lastExtendedSlot) {
+      await new Promise((resolve) => setTimeout(resolve, 400));
+    }
+  }
+
+  private requireAuthority(method: string): Signer {
+    if (!this.authority) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "An authority signer is required to manage lookup tables",
+        undefined,
+        { service: "AddressLookupTableManager", method }
+      );
+    }
+    return this.authority;
+  }
+
+  private tooLarge(size: number, hint: string): ForgeXSDKError {
+    return new ForgeXSDKError(
+      "INVALID_INPUT",
+      `Transaction is ${
+        Number.isFinite(size) ? `${size} bytes` : "too large"
+      } (limit ${PACKET_DATA_SIZE}). ${hint}.`,
+      { size, limit: PACKET_DATA_SIZE },
+      { service: "AddressLookupTableManager", method: "compileTransaction" }
+    );
+  }
+}
+
+function toAddress(table: LookupTableInput): PublicKey {
+  return table instanceof AddressLookupTableAccount
+    ? table.key
+    : new PublicKey(table);
+}
+
+function dedupe(addresses: PublicKey[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  for (const address of addresses) seen.set(address.toBase58(), address);
+  return [...seen.values()];
+}
+
+function shortVecLength(value: number): number {
+  let bytes = 1;
+  while ((value >>= 7) > 0) bytes++;
+  return bytes;
+}
+
+export default AddressLookupTableManager;
@@ -0,0 +1,434 @@
+import type { Connection, PublicKey } from "@solana/web3.js";
+import type { SDKConfig, ServiceOptions } from "../types.js";
+import { ForgeXSDKError } from "./errors.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+import type { Signer } from "./signer.js";
+import { noopTelemetry, type Telemetry } from "./telemetry.js";
+import type { PriorityFeeService } from "./priority-fees.js";
+import type { TransactionExecutor } from "./transaction-executor.js";
+import type { TransactionPacker } from "./transaction-packer.js";
+
+/**
+ * Options passed to initializeWalletServices for wallet-bound services
+ */
+export interface WalletServiceOptions {
+  referralCode?: PublicKey;
+  hermesUrl?: string;
+}
+
+/**
+ * What a plugin receives when it is constructed
+ */
+export interface PluginContext {
+  config: SDKConfig;
+  connection: Connection;
+  /** Connected wallet, falling back to the SDK signer */
+  wallet?: Signer;
+  walletOptions: WalletServiceOptions;
+  executor: TransactionExecutor;
+  priorityFees: PriorityFeeService;
+  packer: TransactionPacker;
+  /** Shared HTTP client, cache and logger */
+  serviceOptions: ServiceOptions;
+  logger: Logger;
+  /** Instance of a plugin listed in `dependsOn` */
+  get<T>(name: string): T;
+}
+
+/**
+ * A protocol service the SDK constructs on first access
+ */
+export interface ServicePlugin<T = unknown, M = any> {
+  /** Registry key, also the SDK property for built-in services */
+  name: string;
+  /** Plugins constructed first and handed over through context.get */
+  dependsOn?: string[];
+  /** SDKConfig paths that must be set, e.g. "apiKeys.tensor" */
+  requiredConfig?: string[];
+  /**
+   * "required": unavailable until a wallet is connected. Either way the
+   * instance is rebuilt when the wallet changes.
+   */
+  wallet?: "required" | "optional";
+  /**
+   * Imports the service's module, e.g. `() => import("./kamino.js")`, so it
+   * is only loaded when used. create() receives the module.
+   */
+  load?: () => Promise<M>;
+  create(context: PluginContext, module: M): T;
+}
+
+/**
+ * Declare a plugin, typing create()'s module from what load() imports
+ */
+export function definePlugin<T, M = undefined>(
+  plugin: ServicePlugin<T, M>
+): ServicePlugin<T, M> {
+  return plugin;
+}
+
+// Modules bundled with the entry point, so their plugins need no load()
+const providedModules = new WeakMap<ServicePlugin, unknown>();
+
+/**
+ * Hand a plugin its already imported module, making it usable without
+ * awaiting PluginRegistry.load()
+ */
+export function providePluginModule<M>(
+  plugin: ServicePlugin<unknown, M>,
+  module: M
+): void {
+  providedModules.set(plugin, module);
+}
+
+export type PluginRegistryContext = Omit<
+  PluginContext,
+  "get" | "wallet" | "walletOptions"
+>;
+
+export interface PluginRegistryConfig {
+  /** Wallet of wallet-bound plugins, e.g. the SDK signer */
+  wallet?: Signer;
+  /** Wraps every constructed service */
+  telemetry?: Telemetry;
+  logger?: Logger;
+}
+
+/**
+ * Declares services with their dependencies and required config, and
+ * constructs each one lazily on first access
+ */
+export class PluginRegistry {
+  private plugins = new Map<string, ServicePlugin>();
+  private instances = new Map<string, unknown>();
+  private modules = new Map<string, unknown>();
+  private loading = new Map<string, Promise<void>>();
+  private resolving = new Set<string>();
+  private wallet?: Signer;
+  private walletOptions: WalletServiceOptions = {};
+  private telemetry: Telemetry;
+  private logger: Logger;
+
+  constructor(
+    private context: PluginRegistryContext,
+    config: PluginRegistryConfig = {}
+  ) {
+    this.wallet = config.wallet;
+    this.telemetry = config.telemetry || noopTelemetry;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "PluginRegistry",
+    });
+  }
+
+  /**
+   * Add a plugin, replacing any registered under the same name
+   */
+  register(plugin: ServicePlugin): void {
+    if (!plugin?.name || typeof plugin.create !== "function") {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        "A plugin needs a name and a create function",
+        undefined,
+        { service: "PluginRegistry", method: "register" }
+      );
+    }
+    if (this.plugins.has(plugin.name)) {
+      this.logger.debug("Replacing plugin", { plugin: plugin.name });
+      this.unload(plugin.name);
+      this.modules.delete(plugin.name);
+      this.loading.delete(plugin.name);
+    }
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  /**
+   * Hand a registered plugin its already imported module, for this
+   * registry only. Ignored when another plugin took its name.
+   */
+  provideModule<M>(plugin: ServicePlugin<unknown, M>, module: M): void {
+    if (this.plugins.get(plugin.name) === plugin) {
+      this.modules.set(plugin.name, module);
+    }
+  }
+
+  unregister(name: string): boolean {
+    this.unload(name);
+    this.modules.delete(name);
+    this.loading.delete(name);
+    return this.plugins.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * Names of the registered plugins
+   */
+  list(): string[] {
+    return [...this.plugins.keys()];
+  }
+
+  /**
+   * Whether the service has been constructed
+   */
+  isLoaded(name: string): boolean {
+    return this.instances.has(name);
+  }
+
+  /**
+   * Whether the service's module has been imported
+   */
+  isModuleLoaded(name: string): boolean {
+    const plugin = this.plugins.get(name);
+    return (
+      !!plugin &&
+      (!plugin.load || this.modules.has(name) || providedModules.has(plugin))
+    );
+  }
+
+  /**
+   * Whether the plugin and its dependencies can be constructed
+   */
+  isAvailable(name: string): boolean {
+    return this.getMissingRequirements(name).length === 0;
+  }
+
+  /**
+   * Config paths, "wallet" or unregistered plugins keeping a plugin from
+   * being constructed
+   */
+  getMissingRequirements(name: string, seen = new Set<string>()): string[] {
+    const plugin = this.plugins.get(name);
+    if (!plugin) return [`plugin:${name}`];
+    if (seen.has(name)) return [];
+    seen.add(name);
+
+    const missing = (plugin.requiredConfig || []).filter(
+      (path) => !hasConfigValue(this.context.config, path)
+    );
+    if (plugin.wallet === "required" && !this.wallet) {
+      missing.push("wallet");
+    }
+    for (const dependency of plugin.dependsOn || []) {
+      missing.push(...this.getMissingRequirements(dependency, seen));
+    }
+    return [...new Set(missing)];
+  }
+
+  /**
+   * The service, constructed on first access, or undefined while its
+   * requirements are missing. Throws NOT_INITIALIZED when its module has
+   * not been loaded yet.
+   */
+  get<T>(name: string): T | undefined {
+    if (this.instances.has(name)) return this.instances.get(name) as T;
+    if (!this.isAvailable(name)) return undefined;
+    if (!this.isModuleLoaded(name)) {
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        `Service "${name}" is not loaded yet, await load("${name}") first`,
+        undefined,
+        { service: "PluginRegistry", method: "get" }
+      );
+    }
+    return this.construct<T>(name);
+  }
+
+  /**
+   * Import the service's module and those of its dependencies, then
+   * return it like get()
+   */
+  async load<T>(name: string): Promise<T | undefined> {
+    await this.loadModule(name);
+    return this.get<T>(name);
+  }
+
+  /**
+   * Like load(), but throws NOT_INITIALIZED naming what is missing
+   */
+  async loadRequired<T>(name: string): Promise<T> {
+    await this.loadModule(name);
+    return this.require<T>(name);
+  }
+
+  /**
+   * Import the modules of several services (all registered by default)
+   */
+  async loadAll(names: string[] = this.list()): Promise<void> {
+    await Promise.all(names.map((name) => this.loadModule(name)));
+  }
+
+  /**
+   * Like get(), but throws NOT_INITIALIZED naming what is missing
+   */
+  require<T>(name: string): T {
+    const service = this.get<T>(name);
+    if (service === undefined) {
+      const missing = this.getMissingRequirements(name);
+      throw new ForgeXSDKError(
+        "NOT_INITIALIZED",
+        `Service "${name}" is not available, missing: ${missing.join(", ")}`,
+        { missing },
+        { service: "PluginRegistry", method: "require" }
+      );
+    }
+    return service;
+  }
+
+  /**
+   * Switch the wallet of wallet-bound plugins. Their instances, and those
+   * of plugins depending on them, are rebuilt on next access.
+   */
+  setWallet(wallet?: Signer, options: WalletServiceOptions = {}): void {
+    this.wallet = wallet;
+    this.walletOptions = options;
+    for (const name of [...this.instances.keys()]) {
+      if (this.usesWallet(name)) this.unload(name);
+    }
+  }
+
+  getWallet(): Signer | undefined {
+    return this.wallet;
+  }
+
+  /**
+   * Drop constructed services (all by default) so they are rebuilt on
+   * next access
+   */
+  reset(name?: string): void {
+    if (name) {
+      this.unload(name);
+    } else {
+      this.instances.clear();
+    }
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private loadModule(name: string, seen = new Set<string>()): Promise<void> {
+    const plugin = this.plugins.get(name);
+    if (!plugin || seen.has(name)) return Promise.resolve();
+    seen.add(name);
+
+    let loading = this.loading.get(name);
+    if (!loading) {
+      loading = (async () => {
+        await Promise.all(
+          (plugin.dependsOn || []).map((dependency) =>
+            this.loadModule(dependency, seen)
+          )
+        );
+        if (!this.isModuleLoaded(name)) {
+          this.modules.set(name, await plugin.load());
+          this.logger.debug("Loaded plugin module", { plugin: name });
+        }
+      })().catch((error) => {
+        this.loading.delete(name);
+        throw ForgeXSDKError.from(error, {
+          service: "PluginRegistry",
+          method: `${name}.load`,
+        });
+      });
+      this.loading.set(name, loading);
+    }
+    return loading;
+  }
+
+  private construct<T>(name: string): T {
+    if (this.resolving.has(name)) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Circular plugin dependency: ${[...this.resolving, name].join(" -> ")}`,
+        undefined,
+        { service: "PluginRegistry", method: "get" }
+      );
+    }
+
+    const plugin = this.plugins.get(name)!;
+    this.resolving.add(name);
+    try {
+      for (const dependency of plugin.dependsOn || []) {
+        this.require(dependency);
+      }
+
+      const module = this.modules.has(name)
+        ? this.modules.get(name)
+        : providedModules.get(plugin);
+      let service = plugin.create(
+        {
+          ...this.context,
+          wallet: this.wallet,
+          walletOptions: this.walletOptions,
+          get: <D>(dependency: string) => {
+            if (!plugin.dependsOn?.includes(dependency)) {
+              throw new ForgeXSDKError(
+                "INVALID_INPUT",
+                `Plugin "${name}" must list "${dependency}" in dependsOn`,
+                undefined,
+                { service: "PluginRegistry", method: "get" }
+              );
+            }
+            return this.require<D>(dependency);
+          },
+        },
+        module
+      );
+      if (this.telemetry !== noopTelemetry && isObject(service)) {
+        service = this.telemetry.instrument(service);
+      }
+
+      this.instances.set(name, service);
+      this.logger.debug("Constructed service", { plugin: name });
+      return service as T;
+    } catch (error) {
+      throw ForgeXSDKError.from(error, {
+        service: "PluginRegistry",
+        method: `${name}.create`,
+      });
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+
+  // Drops the instance and every loaded instance depending on it
+  private unload(name: string): void {
+    this.instances.delete(name);
+    for (const [other, plugin] of this.plugins) {
+      if (plugin.dependsOn?.includes(name) && this.instances.has(other)) {
+        this.unload(other);
+      }
+    }
+  }
+
+  private usesWallet(name: string, seen = new Set<string>()): boolean {
+    const plugin = this.plugins.get(name);
+    if (!plugin || seen.has(name)) return false;
+    seen.add(name);
+    return (
+      !!plugin.wallet ||
+      (plugin.dependsOn || []).some((dependency) =>
+        this.usesWallet(dependency, seen)
+      )
+    );
+  }
+}
+
+function hasConfigValue(config: unknown, path: string): boolean {
+  let value: any = config;
+  for (const key of path.split(".")) {
+    if (value === undefined || value === null) return false;
+    value = value[key];
+  }
+  return value !== undefined && value !== null && value !== "";
+}
+
+function isObject(value: unknown): value is object {
+  return (
+    (typeof value === "object" && value !== null) || typeof value === "function"
+  );
+}
+
+export default PluginRegistry;
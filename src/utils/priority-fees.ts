@@ -0,0 +1,253 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { resolveLookupTables } from "./lookup-tables.js";
+
+export type PriorityLevel = "low" | "medium" | "high";
+
+/**
+ * Explicit priority settings. `microLamports` overrides the level-based
+ * estimate; `computeUnits` sets the compute unit limit.
+ */
+export interface PrioritySettings {
+  level?: PriorityLevel;
+  microLamports?: number;
+  computeUnits?: number;
+  maxMicroLamports?: number;
+}
+
+export type PriorityOption = PriorityLevel | PrioritySettings;
+
+/**
+ * Options accepted by transaction builders
+ */
+export interface PriorityOptions {
+  priority?: PriorityOption;
+}
+
+export interface PriorityFeeEstimates {
+  low: number;
+  medium: number;
+  high: number;
+  /** Number of recent slots the percentiles were computed from */
+  samples: number;
+}
+
+export interface PriorityFeeServiceConfig {
+  percentiles?: Partial<Record<PriorityLevel, number>>;
+  minMicroLamports?: number;
+  maxMicroLamports?: number;
+}
+
+// ComputeBudget instruction discriminators
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+/**
+ * Priority fee estimation from recent prioritization fees paid for the
+ * accounts a transaction writes to
+ */
+export class PriorityFeeService {
+  private connection: Connection;
+  private percentiles: Record<PriorityLevel, number>;
+  private minMicroLamports: number;
+  private maxMicroLamports?: number;
+
+  static readonly DEFAULT_PERCENTILES: Record<PriorityLevel, number> = {
+    low: 25,
+    medium: 50,
+    high: 75,
+  };
+
+  constructor(connection: Connection, config: PriorityFeeServiceConfig = {}) {
+    this.connection = connection;
+    this.percentiles = {
+      ...PriorityFeeService.DEFAULT_PERCENTILES,
+      ...config.percentiles,
+    };
+    this.minMicroLamports = config.minMicroLamports ?? 0;
+    this.maxMicroLamports = config.maxMicroLamports;
+  }
+
+  /**
+   * Get low/medium/high fee percentiles (micro-lamports per compute unit)
+   */
+  async getFeeEstimates(
+    accounts: PublicKey[] = []
+  ): Promise<PriorityFeeEstimates> {
+    const recent = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: accounts.slice(0, MAX_FEE_ACCOUNTS),
+    });
+    const fees = recent
+      .map((fee) => fee.prioritizationFee)
+      .sort((a, b) => a - b);
+
+    return {
+      low: this.percentile(fees, this.percentiles.low),
+      medium: this.percentile(fees, this.percentiles.medium),
+      high: this.percentile(fees, this.percentiles.high),
+      samples: fees.length,
+    };
+  }
+
+  /**
+   * Resolve a priority option to a compute unit price
+   */
+  async estimate(
+    accounts: PublicKey[],
+    priority: PriorityOption
+  ): Promise<number> {
+    const settings = PriorityFeeService.toSettings(priority);
+
+    let microLamports = settings.microLamports;
+    if (microLamports === undefined) {
+      const estimates = await this.getFeeEstimates(accounts);
+      microLamports = Math.max(
+        estimates[settings.level || "medium"],
+        this.minMicroLamports
+      );
+    }
+
+    const cap = settings.maxMicroLamports ?? this.maxMicroLamports;
+    return Math.floor(
+      cap !== undefined ? Math.min(microLamports, cap) : microLamports
+    );
+  }
+
+  /**
+   * Build ComputeBudget instructions for the given instructions
+   */
+  async getComputeBudgetInstructions(
+    instructions: TransactionInstruction[],
+    priority: PriorityOption
+  ): Promise<TransactionInstruction[]> {
+    const settings = PriorityFeeService.toSettings(priority);
+    const microLamports = await this.estimate(
+      PriorityFeeService.getWritableAccounts(instructions),
+      settings
+    );
+
+    const budget: TransactionInstruction[] = [];
+    if (settings.computeUnits) {
+      budget.push(
+        ComputeBudgetProgram.setComputeUnitLimit({
+          units: settings.computeUnits,
+        })
+      );
+    }
+    budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    return budget;
+  }
+
+  /**
+   * Prepend ComputeBudget instructions to a legacy transaction, replacing any
+   * existing price (and limit, when `computeUnits` is given)
+   */
+  async applyToTransaction(
+    transaction: Transaction,
+    priority: PriorityOption
+  ): Promise<Transaction> {
+    transaction.instructions = await this.withComputeBudget(
+      transaction.instructions,
+      priority
+    );
+    return transaction;
+  }
+
+  /**
+   * Rebuild a versioned transaction with ComputeBudget instructions.
+   * Existing signatures are dropped since the message changes.
+   */
+  async applyToVersionedTransaction(
+    transaction: VersionedTransaction,
+    priority: PriorityOption
+  ): Promise<VersionedTransaction> {
+    const lookupTables = await resolveLookupTables(
+      this.connection,
+      transaction.message
+    );
+    const message = TransactionMessage.decompile(transaction.message, {
+      addressLookupTableAccounts: lookupTables,
+    });
+
+    message.instructions = await this.withComputeBudget(
+      message.instructions,
+      priority
+    );
+
+    return new VersionedTransaction(
+      transaction.version === "legacy"
+        ? message.compileToLegacyMessage()
+        : message.compileToV0Message(lookupTables)
+    );
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * Unique writable, non-ComputeBudget accounts referenced by instructions
+   */
+  static getWritableAccounts(
+    instructions: TransactionInstruction[]
+  ): PublicKey[] {
+    const seen = new Map<string, PublicKey>();
+    for (const ix of instructions) {
+      if (ix.programId.equals(ComputeBudgetProgram.programId)) continue;
+      for (const key of ix.keys) {
+        if (key.isWritable) seen.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+    return [...seen.values()];
+  }
+
+  static isComputeBudgetInstruction(ix: TransactionInstruction): boolean {
+    return ix.programId.equals(ComputeBudgetProgram.programId);
+  }
+
+  static toSettings(priority: PriorityOption): PrioritySettings {
+    return typeof priority === "string" ? { level: priority } : priority;
+  }
+
+  private async withComputeBudget(
+    instructions: TransactionInstruction[],
+    priority: PriorityOption
+  ): Promise<TransactionInstruction[]> {
+    const settings = PriorityFeeService.toSettings(priority);
+    const body = instructions.filter(
+      (ix) => !PriorityFeeService.isComputeBudgetInstruction(ix)
+    );
+
+    // Keep an existing limit (and heap/data size requests) unless overridden
+    const kept = instructions.filter(
+      (ix) =>
+        PriorityFeeService.isComputeBudgetInstruction(ix) &&
+        ix.data[0] !== SET_COMPUTE_UNIT_PRICE &&
+        !(settings.computeUnits && ix.data[0] === SET_COMPUTE_UNIT_LIMIT)
+    );
+
+    const budget = await this.getComputeBudgetInstructions(body, settings);
+    return [...kept, ...budget, ...body];
+  }
+
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const index = Math.min(
+      sorted.length - 1,
+      Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+    );
+    return sorted[index];
+  }
+}
+
+export default PriorityFeeService;
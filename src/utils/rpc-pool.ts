@@ -0,0 +1,406 @@
+import {
+  Connection,
+  type Commitment,
+  type ConnectionConfig,
+} from "@solana/web3.js";
+import { ForgeXSDKError } from "./errors.js";
+import { silentLogger, type Logger } from "./logger.js";
+import { noopTelemetry, TELEMETRY_METRICS, type Telemetry } from "./telemetry.js";
+
+/**
+ * Traffic an endpoint serves: "read" endpoints never receive transactions,
+ * "send" endpoints receive nothing else
+ */
+export type RpcEndpointRole = "read" | "send" | "all";
+
+export interface RpcEndpoint {
+  url: string;
+  /** Share of traffic among healthy endpoints of the same role (default 1) */
+  weight?: number;
+  /** Default "all" */
+  role?: RpcEndpointRole;
+}
+
+export interface RpcPoolConfig {
+  endpoints: Array<string | RpcEndpoint>;
+  commitment?: Commitment;
+  /** Websocket endpoint for subscriptions (default: derived from the first read endpoint) */
+  wsEndpoint?: string;
+  /** Per-request timeout before failing over (default 30000) */
+  timeoutMs?: number;
+  /** How long a failed endpoint is skipped (default 30000) */
+  cooldownMs?: number;
+  /** Slots an endpoint may trail the highest known slot (default 50) */
+  maxSlotLag?: number;
+  /** Slot polling interval for lag detection, 0 to disable (default 30000) */
+  healthCheckIntervalMs?: number;
+  logger?: Logger;
+  /** Spans per JSON-RPC method, failover and rate-limit counters */
+  telemetry?: Telemetry;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  role: RpcEndpointRole;
+  weight: number;
+  healthy: boolean;
+  /** Last slot seen by a health check */
+  slot?: number;
+  lagging: boolean;
+  consecutiveFailures: number;
+  latencyMs?: number;
+  /** Epoch ms until which the endpoint is skipped after a failure */
+  cooldownUntil?: number;
+}
+
+interface EndpointState {
+  url: string;
+  host: string;
+  role: RpcEndpointRole;
+  weight: number;
+  slot?: number;
+  lagging: boolean;
+  consecutiveFailures: number;
+  latencyMs?: number;
+  cooldownUntil: number;
+}
+
+// JSON-RPC methods routed to "send" endpoints
+const SEND_METHODS = ["sendTransaction"];
+
+/**
+ * Weighted pool of RPC endpoints behind a single Connection. Requests fail
+ * over to the next endpoint on network errors, timeouts, 429 and 5xx
+ * responses; endpoints trailing the highest known slot are skipped.
+ */
+export class RpcPool {
+  readonly connection: Connection;
+  private endpoints: EndpointState[];
+  private config: Required<
+    Omit<
+      RpcPoolConfig,
+      "endpoints" | "commitment" | "wsEndpoint" | "logger" | "telemetry"
+    >
+  >;
+  private logger: Logger;
+  private telemetry: Telemetry;
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(config: RpcPoolConfig) {
+    this.endpoints = (config.endpoints || []).map((endpoint) => {
+      const {
+        url,
+        weight = 1,
+        role = "all",
+      } = typeof endpoint === "string" ? { url: endpoint } : endpoint;
+      return {
+        url,
+        host: getHost(url),
+        role,
+        weight,
+        lagging: false,
+        consecutiveFailures: 0,
+        cooldownUntil: 0,
+      };
+    });
+
+    const primary = this.endpoints.find((endpoint) => endpoint.role !== "send");
+    if (!primary) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        "RpcPool needs at least one endpoint that serves reads",
+        undefined,
+        { service: "RpcPool" }
+      );
+    }
+
+    this.config = {
+      timeoutMs: config.timeoutMs ?? 30000,
+      cooldownMs: config.cooldownMs ?? 30000,
+      maxSlotLag: config.maxSlotLag ?? 50,
+      healthCheckIntervalMs: config.healthCheckIntervalMs ?? 30000,
+    };
+    this.logger = config.logger || silentLogger;
+    this.telemetry = config.telemetry || noopTelemetry;
+
+    const connectionConfig: ConnectionConfig = {
+      commitment: config.commitment,
+      wsEndpoint: config.wsEndpoint,
+      // Every request is routed by the pool; the URL is only the primary
+      fetch: this.fetch as unknown as ConnectionConfig["fetch"],
+    };
+    this.connection = new Connection(primary.url, connectionConfig);
+
+    if (this.endpoints.length > 1 && this.config.healthCheckIntervalMs > 0) {
+      this.healthTimer = setInterval(
+        () => this.checkHealth().catch(() => undefined),
+        this.config.healthCheckIntervalMs
+      );
+      // Never keep the process alive just for health checks
+      (this.healthTimer as any).unref?.();
+    }
+  }
+
+  /**
+   * Poll every endpoint's slot and flag the ones lagging behind
+   */
+  async checkHealth(): Promise<RpcEndpointStatus[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const response = await this.send(
+            endpoint,
+            JSON.stringify({
+              jsonrpc: "2.0",
+              id: "health",
+              method: "getSlot",
+              params: [{ commitment: "processed" }],
+            })
+          );
+          const { result } = await response.json();
+          if (typeof result !== "number") {
+            throw new Error(`Unexpected getSlot response ${response.status}`);
+          }
+          endpoint.slot = result;
+          this.markSuccess(endpoint);
+        } catch (error) {
+          this.markFailure(
+            endpoint,
+            error,
+            TELEMETRY_METRICS.healthCheckFailures
+          );
+        }
+      })
+    );
+
+    const highest = Math.max(
+      ...this.endpoints.map((endpoint) => endpoint.slot ?? 0)
+    );
+    for (const endpoint of this.endpoints) {
+      const lagging =
+        endpoint.slot !== undefined &&
+        highest - endpoint.slot > this.config.maxSlotLag;
+      if (lagging && !endpoint.lagging) {
+        this.logger.warn("RPC endpoint lagging", {
+          service: "RpcPool",
+          host: endpoint.host,
+          slot: endpoint.slot,
+          highestSlot: highest,
+        });
+      }
+      endpoint.lagging = lagging;
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Fetch-compatible JSON-RPC transport over the pool, for clients other
+   * than `connection`. The URL is ignored; aborting `init.signal` rejects
+   * without failing over.
+   */
+  fetch = (_url: string | URL, init: RequestInit = {}): Promise<Response> =>
+    this.request(init);
+
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      role: endpoint.role,
+      weight: endpoint.weight,
+      healthy: this.isHealthy(endpoint, now),
+      slot: endpoint.slot,
+      lagging: endpoint.lagging,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      latencyMs: endpoint.latencyMs,
+      cooldownUntil: endpoint.cooldownUntil || undefined,
+    }));
+  }
+
+  /**
+   * Stop background health checks
+   */
+  close(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async request(init: RequestInit): Promise<Response> {
+    const body = typeof init.body === "string" ? init.body : "";
+    const span = this.telemetry.startSpan("RpcPool", getRpcMethod(body));
+    const candidates = this.order(isSendRequest(body));
+
+    let lastResponse: Response | undefined;
+    let lastError: unknown;
+
+    for (const [attempt, endpoint] of candidates.entries()) {
+      span.setAttributes({ endpoint: endpoint.host, attempts: attempt + 1 });
+      try {
+        const response = await this.send(endpoint, body, init);
+        if (response.status === 429 || response.status >= 500) {
+          this.markFailure(endpoint, `HTTP ${response.status}`);
+          lastResponse = response;
+          continue;
+        }
+        this.markSuccess(endpoint);
+        span.end();
+        return response;
+      } catch (error) {
+        // The caller gave up: not the endpoint's fault, nothing to retry
+        if (init.signal?.aborted) {
+          span.end(error);
+          throw error;
+        }
+        this.markFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    // Let the Connection surface the last HTTP error (and apply its own
+    // rate-limit backoff) when every endpoint answered with one
+    if (lastResponse) {
+      span.end(
+        new ForgeXSDKError(
+          lastResponse.status === 429 ? "RATE_LIMITED" : "API_ERROR",
+          `HTTP ${lastResponse.status}`
+        )
+      );
+      return lastResponse;
+    }
+    span.end(lastError);
+    throw lastError;
+  }
+
+  private async send(
+    endpoint: EndpointState,
+    body: string,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    const onAbort = () => controller.abort();
+    init.signal?.addEventListener("abort", onAbort);
+    if (init.signal?.aborted) controller.abort();
+
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(endpoint.url, {
+        ...init,
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...init.headers },
+        body,
+        signal: controller.signal,
+      });
+      endpoint.latencyMs = Date.now() - startedAt;
+      return response;
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Candidates for a request: one healthy endpoint picked by weight, then
+   * the other healthy ones by weight, then the unhealthy ones as a last resort
+   */
+  private order(isSend: boolean): EndpointState[] {
+    const eligible = this.endpoints.filter((endpoint) =>
+      isSend ? endpoint.role !== "read" : endpoint.role !== "send"
+    );
+    // Without dedicated send endpoints, transactions go to read endpoints
+    const pool = eligible.length
+      ? eligible
+      : this.endpoints.filter((endpoint) => endpoint.role !== "send");
+
+    const now = Date.now();
+    const healthy = pool
+      .filter((endpoint) => this.isHealthy(endpoint, now))
+      .sort((a, b) => b.weight - a.weight);
+    const unhealthy = pool
+      .filter((endpoint) => !this.isHealthy(endpoint, now))
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    const first = pickWeighted(healthy);
+    return [
+      ...(first ? [first] : []),
+      ...healthy.filter((endpoint) => endpoint !== first),
+      ...unhealthy,
+    ];
+  }
+
+  private isHealthy(endpoint: EndpointState, now: number): boolean {
+    return endpoint.cooldownUntil <= now && !endpoint.lagging;
+  }
+
+  private markSuccess(endpoint: EndpointState): void {
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private markFailure(
+    endpoint: EndpointState,
+    error: unknown,
+    metric: string = TELEMETRY_METRICS.failovers
+  ): void {
+    endpoint.consecutiveFailures += 1;
+    endpoint.cooldownUntil = Date.now() + this.config.cooldownMs;
+    this.telemetry.count(metric, { host: endpoint.host });
+    if (error === "HTTP 429") {
+      this.telemetry.count(TELEMETRY_METRICS.rateLimits, {
+        host: endpoint.host,
+      });
+    }
+    this.logger.warn("RPC endpoint failed", {
+      service: "RpcPool",
+      host: endpoint.host,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      error,
+    });
+  }
+}
+
+function getRpcMethod(body: string): string {
+  try {
+    const payload = JSON.parse(body);
+    return Array.isArray(payload) ? "batch" : payload?.method || "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+function isSendRequest(body: string): boolean {
+  try {
+    const payload = JSON.parse(body);
+    const requests = Array.isArray(payload) ? payload : [payload];
+    return requests.some((request) => SEND_METHODS.includes(request?.method));
+  } catch {
+    return false;
+  }
+}
+
+function pickWeighted(endpoints: EndpointState[]): EndpointState | undefined {
+  const total = endpoints.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+  let target = Math.random() * total;
+  for (const endpoint of endpoints) {
+    target -= endpoint.weight;
+    if (target < 0) return endpoint;
+  }
+  return endpoints[0];
+}
+
+// Hosts only: RPC URLs often carry API keys
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+export default RpcPool;
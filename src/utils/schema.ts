@@ -0,0 +1,322 @@
+import { PublicKey } from "@solana/web3.js";
+import { ForgeXSDKError } from "./errors.js";
+
+/**
+ * The subset of JSON Schema the builders below emit
+ */
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  enum?: readonly string[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+  examples?: unknown[];
+}
+
+/**
+ * A validator that describes itself as JSON Schema, so a parameter's
+ * TypeScript type, its validation and its API docs come from one declaration
+ */
+export interface Schema<T> {
+  readonly json: JsonSchema;
+  /** May be left out of an object */
+  readonly optional?: boolean;
+  /**
+   * Validate and normalize a value, throwing INVALID_INPUT that names the
+   * offending path
+   */
+  parse(value: unknown, path?: string): T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+/**
+ * The type a schema parses to
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalKeys<P> = {
+  [K in keyof P]: P[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof P];
+
+export type InferObject<P extends Record<string, Schema<unknown>>> = {
+  [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]>;
+} & { [K in OptionalKeys<P>]?: Infer<P[K]> };
+
+export interface SchemaOptions {
+  description?: string;
+  examples?: unknown[];
+}
+
+export interface NumberSchemaOptions extends SchemaOptions {
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ArraySchemaOptions extends SchemaOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+const UI_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Schema builders. Numbers and booleans also accept their string forms and
+ * arrays accept comma-separated strings, so query strings parse as well as
+ * JSON bodies.
+ */
+export const schema = {
+  string(options: SchemaOptions & { pattern?: RegExp } = {}): Schema<string> {
+    const { pattern, ...rest } = options;
+    return define(
+      { type: "string", pattern: pattern?.source, ...rest },
+      (value, path) => {
+        if (typeof value !== "string" || (pattern && !pattern.test(value))) {
+          throw invalid(
+            path,
+            pattern ? `string matching ${pattern}` : "string"
+          );
+        }
+        return value;
+      }
+    );
+  },
+
+  number(options: NumberSchemaOptions = {}): Schema<number> {
+    return numeric("number", options);
+  },
+
+  integer(options: NumberSchemaOptions = {}): Schema<number> {
+    return numeric("integer", options);
+  },
+
+  boolean(options: SchemaOptions = {}): Schema<boolean> {
+    return define({ type: "boolean", ...options }, (value, path) => {
+      if (value === true || value === "true") return true;
+      if (value === false || value === "false") return false;
+      throw invalid(path, "boolean");
+    });
+  },
+
+  enum<const V extends readonly string[]>(
+    values: V,
+    options: SchemaOptions = {}
+  ): Schema<V[number]> {
+    return define(
+      { type: "string", enum: values, ...options },
+      (value, path) => {
+        if (!values.includes(value as string)) {
+          throw invalid(path, `one of ${values.join(", ")}`);
+        }
+        return value as V[number];
+      }
+    );
+  },
+
+  /**
+   * A base58 address, returned as a string
+   */
+  publicKey(options: SchemaOptions = {}): Schema<string> {
+    return define(
+      { type: "string", description: "Base58 address", ...options },
+      (value, path) => {
+        try {
+          return new PublicKey(value as string).toBase58();
+        } catch {
+          throw invalid(path, "base58 address");
+        }
+      }
+    );
+  },
+
+  /**
+   * A UI amount (1.5 SOL, not lamports), returned as an exact decimal
+   * string for TokenAmount.fromUi()
+   */
+  amount(options: SchemaOptions = {}): Schema<string> {
+    return define(
+      {
+        type: "string",
+        pattern: UI_AMOUNT_PATTERN.source,
+        description: 'UI amount as a decimal string, e.g. "1.5"',
+        ...options,
+      },
+      (value, path) => {
+        const text =
+          typeof value === "number" && Number.isFinite(value)
+            ? String(value)
+            : value;
+        if (typeof text !== "string" || !UI_AMOUNT_PATTERN.test(text)) {
+          throw invalid(path, "decimal amount");
+        }
+        return text;
+      }
+    );
+  },
+
+  array<T>(items: Schema<T>, options: ArraySchemaOptions = {}): Schema<T[]> {
+    return define(
+      { type: "array", items: items.json, ...options },
+      (value, path) => {
+        const list = typeof value === "string" ? value.split(",") : value;
+        if (!Array.isArray(list)) throw invalid(path, "array");
+        if (list.length < (options.minItems ?? 0)) {
+          throw invalid(path, `at least ${options.minItems} items`);
+        }
+        if (list.length > (options.maxItems ?? Infinity)) {
+          throw invalid(path, `at most ${options.maxItems} items`);
+        }
+        return list.map((item, index) =>
+          items.parse(item, `${path}[${index}]`)
+        );
+      }
+    );
+  },
+
+  /**
+   * An object with exactly these properties; unknown ones are rejected
+   */
+  object<P extends Record<string, Schema<unknown>>>(
+    properties: P,
+    options: SchemaOptions = {}
+  ): Schema<InferObject<P>> {
+    const required = Object.keys(properties).filter(
+      (key) => !properties[key].optional
+    );
+    return define(
+      {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(properties).map(([key, property]) => [
+            key,
+            property.json,
+          ])
+        ),
+        required,
+        additionalProperties: false,
+        ...options,
+      },
+      (value, path) => {
+        if (
+          typeof value !== "object" ||
+          value === null ||
+          Array.isArray(value)
+        ) {
+          throw invalid(path, "object");
+        }
+        const unknown = Object.keys(value).find((key) => !(key in properties));
+        if (unknown) {
+          throw schemaError(`Unknown property ${path}.${unknown}`, path);
+        }
+
+        const parsed: Record<string, unknown> = {};
+        for (const [key, property] of Object.entries(properties)) {
+          const item = (value as Record<string, unknown>)[key];
+          if (item === undefined && !property.optional) {
+            throw schemaError(`Missing ${path}.${key}`, `${path}.${key}`);
+          }
+          const result = property.parse(item, `${path}.${key}`);
+          if (result !== undefined) parsed[key] = result;
+        }
+        return parsed as InferObject<P>;
+      }
+    );
+  },
+
+  /**
+   * Any JSON value, passed through unchanged (e.g. a quote returned by
+   * another operation)
+   */
+  json<T = unknown>(options: SchemaOptions = {}): Schema<T> {
+    return define({ ...options }, (value, path) => {
+      if (value === undefined) throw schemaError(`Missing ${path}`, path);
+      return value as T;
+    });
+  },
+
+  /**
+   * Make a property optional; a default is filled in when it is left out
+   */
+  optional<T>(inner: Schema<T>, defaultValue?: T): OptionalSchema<T> {
+    return {
+      json:
+        defaultValue === undefined
+          ? inner.json
+          : { ...inner.json, default: defaultValue },
+      optional: true,
+      parse: (value, path = "value") =>
+        value === undefined || value === null || value === ""
+          ? defaultValue
+          : inner.parse(value, path),
+    };
+  },
+};
+
+// ============================================
+// INTERNALS
+// ============================================
+
+function define<T>(
+  json: JsonSchema,
+  parse: (value: unknown, path: string) => T
+): Schema<T> {
+  const cleaned = Object.fromEntries(
+    Object.entries(json).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+  return {
+    json: cleaned,
+    parse: (value, path = "value") => parse(value, path),
+  };
+}
+
+function numeric(
+  type: "number" | "integer",
+  options: NumberSchemaOptions
+): Schema<number> {
+  return define({ type, ...options }, (value, path) => {
+    const number =
+      typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (
+      typeof number !== "number" ||
+      !Number.isFinite(number) ||
+      (type === "integer" && !Number.isInteger(number))
+    ) {
+      throw invalid(path, type);
+    }
+    if (number < (options.minimum ?? -Infinity)) {
+      throw invalid(path, `${type} >= ${options.minimum}`);
+    }
+    if (number > (options.maximum ?? Infinity)) {
+      throw invalid(path, `${type} <= ${options.maximum}`);
+    }
+    return number;
+  });
+}
+
+function invalid(path: string, expected: string): ForgeXSDKError {
+  return schemaError(`Invalid ${path}: expected ${expected}`, path);
+}
+
+function schemaError(message: string, path: string): ForgeXSDKError {
+  return new ForgeXSDKError(
+    "INVALID_INPUT",
+    message,
+    { path },
+    {
+      service: "Schema",
+      method: "parse",
+    }
+  );
+}
+
+export default schema;
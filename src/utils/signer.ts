@@ -0,0 +1,196 @@
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { sign } from "@noble/ed25519";
+import { Buffer } from "buffer";
+import { ForgeXSDKError } from "./errors.js";
+import type {
+  SendableTransaction,
+  TransactionSigner,
+} from "./transaction-executor.js";
+
+/**
+ * The signing model every service accepts. Signs legacy and versioned
+ * transactions, and is structurally an Anchor wallet.
+ */
+export interface Signer extends TransactionSigner {
+  signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]>;
+  /** Ed25519 signature over raw bytes */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Injected browser wallet (Phantom, Solflare, Backpack, wallet-adapter) or
+ * any Anchor-style wallet
+ */
+export interface BrowserWallet {
+  publicKey: PublicKey | null;
+  signTransaction<T extends SendableTransaction>(transaction: T): Promise<T>;
+  signAllTransactions?<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]>;
+  /** Phantom-style providers resolve `{ signature }` */
+  signMessage?(
+    message: Uint8Array
+  ): Promise<Uint8Array | { signature: Uint8Array }>;
+}
+
+export interface RemoteSignerConfig {
+  publicKey: PublicKey | string;
+  /** Ed25519-sign raw bytes, e.g. through a KMS or custody API */
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Anything a service accepts where it needs a signer
+ */
+export type SignerInput = Signer | Keypair | BrowserWallet;
+
+/**
+ * Signer backed by a local keypair
+ */
+export class KeypairSigner implements Signer {
+  constructor(private readonly keypair: Keypair) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+    return transaction;
+  }
+
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
+    for (const transaction of transactions) {
+      await this.signTransaction(transaction);
+    }
+    return transactions;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return sign(message, this.keypair.secretKey.slice(0, 32));
+  }
+}
+
+/**
+ * Signer backed by a browser wallet. The public key is read on every call,
+ * so the wallet may connect after the signer is created.
+ */
+export class WalletSigner implements Signer {
+  constructor(private readonly wallet: BrowserWallet) {}
+
+  get publicKey(): PublicKey {
+    if (!this.wallet.publicKey) {
+      throw new ForgeXSDKError(
+        "WALLET_REQUIRED",
+        "Wallet is not connected",
+        undefined,
+        { service: "WalletSigner" }
+      );
+    }
+    return this.wallet.publicKey;
+  }
+
+  signTransaction<T extends SendableTransaction>(transaction: T): Promise<T> {
+    return this.wallet.signTransaction(transaction);
+  }
+
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
+    if (this.wallet.signAllTransactions) {
+      return this.wallet.signAllTransactions(transactions);
+    }
+    const signed: T[] = [];
+    for (const transaction of transactions) {
+      signed.push(await this.wallet.signTransaction(transaction));
+    }
+    return signed;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.wallet.signMessage) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        "Wallet does not support message signing",
+        undefined,
+        { service: "WalletSigner", method: "signMessage" }
+      );
+    }
+    const signed = await this.wallet.signMessage(message);
+    return signed instanceof Uint8Array ? signed : signed.signature;
+  }
+}
+
+/**
+ * Signer whose key never leaves a remote service (KMS, MPC, custody API).
+ * Transactions are signed by sending their serialized message to `sign`.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+  private remoteSign: RemoteSignerConfig["sign"];
+
+  constructor(config: RemoteSignerConfig) {
+    this.publicKey = new PublicKey(config.publicKey);
+    this.remoteSign = config.sign;
+  }
+
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
+    if (transaction instanceof VersionedTransaction) {
+      const signature = await this.remoteSign(transaction.message.serialize());
+      transaction.addSignature(this.publicKey, signature);
+    } else {
+      const legacy = transaction as Transaction;
+      if (!legacy.feePayer) legacy.feePayer = this.publicKey;
+      const signature = await this.remoteSign(legacy.serializeMessage());
+      legacy.addSignature(this.publicKey, Buffer.from(signature));
+    }
+    return transaction;
+  }
+
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
+    for (const transaction of transactions) {
+      await this.signTransaction(transaction);
+    }
+    return transactions;
+  }
+
+  signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return this.remoteSign(message);
+  }
+}
+
+/**
+ * Normalize a keypair, browser wallet or signer into a Signer
+ */
+export function toSigner(input: SignerInput): Signer {
+  if (input instanceof Keypair) return new KeypairSigner(input);
+  if (
+    input instanceof KeypairSigner ||
+    input instanceof WalletSigner ||
+    input instanceof RemoteSigner
+  ) {
+    return input;
+  }
+  return new WalletSigner(input as BrowserWallet);
+}
+
+export default KeypairSigner;
@@ -0,0 +1,388 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+  type Commitment,
+  type TransactionError,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { resolveAccountKeys } from "./lookup-tables.js";
+import type { SendableTransaction } from "./transaction-executor.js";
+
+const TOKEN_PROGRAM_IDS = [
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+];
+
+// SPL token account layout: mint (32) | owner (32) | amount (u64)
+const TOKEN_ACCOUNT_MIN_SIZE = 165;
+// SPL mint layout: decimals live after authority option (36) + supply (8)
+const MINT_DECIMALS_OFFSET = 44;
+
+/**
+ * Decoded simulation or execution failure
+ */
+export interface DecodedTransactionError {
+  message: string;
+  instructionIndex?: number;
+  /** Custom program error code, when the failing program returned one */
+  code?: number;
+  /** Anchor error name parsed from the program logs */
+  name?: string;
+  programId?: string;
+  raw: TransactionError;
+}
+
+export interface SolBalanceChange {
+  account: string;
+  preLamports: number;
+  postLamports: number;
+  change: number;
+}
+
+export interface TokenBalanceChange {
+  account: string;
+  mint: string;
+  decimals: number;
+  /** Raw amounts in base units */
+  preAmount: string;
+  postAmount: string;
+  change: string;
+  uiChange: number;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  unitsConsumed?: number;
+  logs: string[];
+  error?: DecodedTransactionError;
+  balanceChanges: {
+    sol: SolBalanceChange;
+    tokens: TokenBalanceChange[];
+  };
+}
+
+export interface SimulateOptions {
+  commitment?: Commitment;
+}
+
+interface TokenAccountState {
+  mint: string;
+  owner: string;
+  amount: bigint;
+  decimals?: number;
+}
+
+/**
+ * Dry-run transactions against the current chain state and report what would
+ * change for the signer
+ */
+export class TransactionSimulator {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Simulate a transaction on behalf of `signer` without signing it
+   */
+  async simulate(
+    transaction: SendableTransaction,
+    signer: PublicKey,
+    options: SimulateOptions = {}
+  ): Promise<SimulationResult> {
+    const commitment = options.commitment || "confirmed";
+    const versioned = await this.toVersioned(transaction, signer);
+
+    const [preLamports, preTokens] = await Promise.all([
+      this.connection.getBalance(signer, commitment),
+      this.getTokenAccounts(signer, commitment),
+    ]);
+
+    // Watch the signer, its token accounts and any writable account the
+    // transaction touches, including those loaded from lookup tables (new
+    // ATAs are not in the pre-state yet)
+    const watched = new Set<string>([signer.toBase58(), ...preTokens.keys()]);
+    const message = versioned.message;
+    message.staticAccountKeys.forEach((key, index) => {
+      if (message.isAccountWritable(index)) watched.add(key.toBase58());
+    });
+    if (message.addressTableLookups.length > 0) {
+      const keys = await resolveAccountKeys(this.connection, message);
+      keys.accountKeysFromLookups?.writable.forEach((key) =>
+        watched.add(key.toBase58())
+      );
+    }
+    const addresses = [...watched];
+
+    const { value } = await this.connection.simulateTransaction(versioned, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment,
+      accounts: { encoding: "base64", addresses },
+    });
+
+    const logs = value.logs || [];
+    const postAccounts = value.accounts || [];
+
+    const signerIndex = addresses.indexOf(signer.toBase58());
+    const postLamports = postAccounts[signerIndex]?.lamports ?? preLamports;
+
+    const postTokens = new Map<string, TokenAccountState>();
+    postAccounts.forEach((account, index) => {
+      if (!account || !TOKEN_PROGRAM_IDS.includes(account.owner)) return;
+      const state = decodeTokenAccount(Buffer.from(account.data[0], "base64"));
+      if (state && state.owner === signer.toBase58()) {
+        postTokens.set(addresses[index], state);
+      }
+    });
+
+    return {
+      success: !value.err,
+      unitsConsumed: value.unitsConsumed,
+      logs,
+      error: value.err ? decodeTransactionError(value.err, logs) : undefined,
+      balanceChanges: {
+        sol: {
+          account: signer.toBase58(),
+          preLamports,
+          postLamports,
+          change: postLamports - preLamports,
+        },
+        tokens: await this.diffTokens(preTokens, postTokens),
+      },
+    };
+  }
+
+  /**
+   * Simulate instructions as a single legacy transaction paid by `signer`
+   */
+  async simulateInstructions(
+    instructions: TransactionInstruction[],
+    signer: PublicKey,
+    options?: SimulateOptions
+  ): Promise<SimulationResult> {
+    const transaction = new Transaction().add(...instructions);
+    transaction.feePayer = signer;
+    return this.simulate(transaction, signer, options);
+  }
+
+  /**
+   * Simulate several transactions independently against the current state
+   */
+  async simulateAll(
+    transactions: SendableTransaction[],
+    signer: PublicKey,
+    options?: SimulateOptions
+  ): Promise<SimulationResult[]> {
+    const results: SimulationResult[] = [];
+    for (const transaction of transactions) {
+      results.push(await this.simulate(transaction, signer, options));
+    }
+    return results;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async toVersioned(
+    transaction: SendableTransaction,
+    signer: PublicKey
+  ): Promise<VersionedTransaction> {
+    if (transaction instanceof VersionedTransaction) return transaction;
+
+    if (!transaction.feePayer) transaction.feePayer = signer;
+    if (!transaction.recentBlockhash) {
+      // Replaced by the node, but required to compile the message
+      transaction.recentBlockhash = (
+        await this.connection.getLatestBlockhash()
+      ).blockhash;
+    }
+    return new VersionedTransaction(transaction.compileMessage());
+  }
+
+  private async getTokenAccounts(
+    owner: PublicKey,
+    commitment: Commitment
+  ): Promise<Map<string, TokenAccountState>> {
+    const accounts = new Map<string, TokenAccountState>();
+    const responses = await Promise.all(
+      TOKEN_PROGRAM_IDS.map((programId) =>
+        this.connection.getParsedTokenAccountsByOwner(
+          owner,
+          { programId: new PublicKey(programId) },
+          commitment
+        )
+      )
+    );
+
+    for (const { value } of responses) {
+      for (const { pubkey, account } of value) {
+        const info = account.data.parsed?.info;
+        if (!info) continue;
+        accounts.set(pubkey.toBase58(), {
+          mint: info.mint,
+          owner: info.owner,
+          amount: BigInt(info.tokenAmount.amount),
+          decimals: info.tokenAmount.decimals,
+        });
+      }
+    }
+
+    return accounts;
+  }
+
+  private async diffTokens(
+    pre: Map<string, TokenAccountState>,
+    post: Map<string, TokenAccountState>
+  ): Promise<TokenBalanceChange[]> {
+    const changes: TokenBalanceChange[] = [];
+    const accounts = new Set([...pre.keys(), ...post.keys()]);
+
+    // Decimals for accounts created by the transaction come from the mint
+    const unknownMints = [...post.entries()]
+      .filter(([account]) => !pre.has(account))
+      .map(([, state]) => state.mint);
+    const decimals = await this.getMintDecimals(unknownMints);
+
+    for (const account of accounts) {
+      const before = pre.get(account);
+      // Accounts missing from the post-state were closed
+      const after = post.get(account) || (before && { ...before, amount: 0n });
+      const preAmount = before?.amount ?? 0n;
+      const postAmount = after!.amount;
+      if (preAmount === postAmount) continue;
+
+      const mint = (before || after)!.mint;
+      const mintDecimals = before?.decimals ?? decimals.get(mint) ?? 0;
+      const change = postAmount - preAmount;
+
+      changes.push({
+        account,
+        mint,
+        decimals: mintDecimals,
+        preAmount: preAmount.toString(),
+        postAmount: postAmount.toString(),
+        change: change.toString(),
+        uiChange: Number(change) / 10 ** mintDecimals,
+      });
+    }
+
+    return changes;
+  }
+
+  private async getMintDecimals(mints: string[]): Promise<Map<string, number>> {
+    const decimals = new Map<string, number>();
+    const unique = [...new Set(mints)];
+    if (unique.length === 0) return decimals;
+
+    const infos = await this.connection.getMultipleAccountsInfo(
+      unique.map((mint) => new PublicKey(mint))
+    );
+    infos.forEach((info, index) => {
+      if (info && info.data.length > MINT_DECIMALS_OFFSET) {
+        decimals.set(unique[index], info.data[MINT_DECIMALS_OFFSET]);
+      }
+    });
+    return decimals;
+  }
+}
+
+/**
+ * Decode an SPL token account (Token or Token-2022 base layout)
+ */
+function decodeTokenAccount(data: Buffer): TokenAccountState | null {
+  if (data.length < TOKEN_ACCOUNT_MIN_SIZE) return null;
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
+
+/**
+ * Program failure details recoverable from logs alone
+ */
+export interface ProgramLogError {
+  /** Anchor error name */
+  name?: string;
+  code?: number;
+  /** Anchor error message, or the reason from the "Program X failed" line */
+  message?: string;
+  programId?: string;
+}
+
+/**
+ * Extract the Anchor error and failing program from transaction logs
+ */
+export function parseProgramLogs(logs: string[] = []): ProgramLogError | null {
+  const anchor = logs
+    .map((log) =>
+      log.match(
+        /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/
+      )
+    )
+    .find(Boolean);
+  const failed = logs
+    .map((log) => log.match(/^Program (\w+) failed: (.*)$/))
+    .find(Boolean);
+  if (!anchor && !failed) return null;
+
+  const custom = failed?.[2].match(/custom program error: (0x[0-9a-f]+)/i);
+  return {
+    name: anchor?.[1],
+    code: anchor
+      ? Number(anchor[2])
+      : custom
+        ? parseInt(custom[1], 16)
+        : undefined,
+    message: anchor?.[3] ?? failed?.[2],
+    programId: failed?.[1],
+  };
+}
+
+/**
+ * Turn a TransactionError into a readable message, using program logs to
+ * recover Anchor error names and the failing program
+ */
+export function decodeTransactionError(
+  err: TransactionError,
+  logs: string[] = []
+): DecodedTransactionError {
+  const parsed = parseProgramLogs(logs);
+
+  const instructionError = (err as any)?.InstructionError;
+  if (Array.isArray(instructionError)) {
+    const [instructionIndex, detail] = instructionError;
+    const code = typeof detail === "object" ? detail?.Custom : undefined;
+
+    let message: string;
+    if (parsed?.name) {
+      message = `${parsed.name}: ${parsed.message}`;
+    } else if (code !== undefined) {
+      message = `custom program error 0x${code.toString(16)}`;
+    } else {
+      message = typeof detail === "string" ? detail : JSON.stringify(detail);
+    }
+
+    return {
+      message: `Instruction ${instructionIndex} failed: ${message}`,
+      instructionIndex,
+      code: code ?? (parsed?.name ? parsed.code : undefined),
+      name: parsed?.name,
+      programId: parsed?.programId,
+      raw: err,
+    };
+  }
+
+  return {
+    message: typeof err === "string" ? err : JSON.stringify(err),
+    raw: err,
+  };
+}
+
+export default TransactionSimulator;
@@ -0,0 +1,387 @@
+import { silentLogger, type Logger } from "./logger.js";
+
+export type TelemetryAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * A finished call to a service method or RPC endpoint
+ */
+export interface TelemetrySpan {
+  /** `${service}.${method}`, e.g. "JupiterService.getQuote" */
+  name: string;
+  service: string;
+  method: string;
+  /** Epoch ms */
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  outcome: "ok" | "error";
+  /** ForgeXSDKError code (or error name) of a failed call */
+  errorCode?: string;
+  errorMessage?: string;
+  attributes: TelemetryAttributes;
+}
+
+export interface TelemetryMetric {
+  name: string;
+  kind: "counter" | "histogram";
+  value: number;
+  attributes: TelemetryAttributes;
+  /** Epoch ms */
+  time: number;
+}
+
+/**
+ * Receives spans and metrics, e.g. to forward them to OpenTelemetry,
+ * Datadog or a log pipeline. Exporter failures never reach the caller.
+ */
+export interface TelemetryExporter {
+  exportSpan?(span: TelemetrySpan): void;
+  exportMetric?(metric: TelemetryMetric): void;
+}
+
+export interface TelemetryConfig {
+  exporters?: TelemetryExporter[];
+  /** Attributes added to every span and metric, e.g. the deployment */
+  attributes?: TelemetryAttributes;
+  /** Where exporter failures are reported */
+  logger?: Logger;
+}
+
+/**
+ * Handle on a running span
+ */
+export interface ActiveSpan {
+  setAttributes(attributes: TelemetryAttributes): void;
+  /** Finish the span, failed when `error` is given */
+  end(error?: unknown): void;
+}
+
+/**
+ * Metric names emitted by the SDK
+ */
+export const TELEMETRY_METRICS = {
+  /** Counter per finished span */
+  calls: "forgex.calls",
+  /** Histogram of span durations in ms */
+  duration: "forgex.call.duration",
+  /** Counter per failed span, with its error code */
+  errors: "forgex.errors",
+  /** Counter per HTTP retry */
+  retries: "forgex.http.retries",
+  /** Counter per 429 response from an API or RPC endpoint */
+  rateLimits: "forgex.rate_limits",
+  /** Counter per failed attempt on an RPC endpoint (the pool fails over) */
+  failovers: "forgex.rpc.failovers",
+  /** Counter per failed RpcPool health check on an endpoint */
+  healthCheckFailures: "forgex.rpc.health_check_failures",
+} as const;
+
+// Methods every object has; never worth a span
+const IGNORED_METHODS = new Set(Object.getOwnPropertyNames(Object.prototype));
+
+/**
+ * Spans and metrics for service calls, RPC requests and HTTP retries,
+ * handed to pluggable exporters. Without exporters nothing is recorded.
+ */
+export class Telemetry {
+  private exporters: TelemetryExporter[];
+  private attributes: TelemetryAttributes;
+  private logger: Logger;
+  private instrumented = new WeakSet<object>();
+
+  constructor(config: TelemetryConfig = {}) {
+    this.exporters = [...(config.exporters || [])];
+    this.attributes = config.attributes || {};
+    this.logger = config.logger || silentLogger;
+  }
+
+  get enabled(): boolean {
+    return this.exporters.length > 0;
+  }
+
+  addExporter(exporter: TelemetryExporter): void {
+    this.exporters.push(exporter);
+  }
+
+  startSpan(
+    service: string,
+    method: string,
+    attributes: TelemetryAttributes = {}
+  ): ActiveSpan {
+    const startTime = Date.now();
+    const spanAttributes = { ...attributes };
+    let ended = false;
+
+    return {
+      setAttributes: (extra) => Object.assign(spanAttributes, extra),
+      end: (error?: unknown) => {
+        if (ended || !this.enabled) return;
+        ended = true;
+
+        const endTime = Date.now();
+        const failed = error !== undefined;
+        const span: TelemetrySpan = {
+          name: `${service}.${method}`,
+          service,
+          method,
+          startTime,
+          endTime,
+          durationMs: endTime - startTime,
+          outcome: failed ? "error" : "ok",
+          ...(failed && {
+            errorCode: getErrorCode(error),
+            errorMessage: (error as any)?.message ?? String(error),
+          }),
+          attributes: { ...this.attributes, ...spanAttributes },
+        };
+        this.emit((exporter) => exporter.exportSpan?.(span));
+
+        const labels = { service, method, outcome: span.outcome };
+        this.count(TELEMETRY_METRICS.calls, labels);
+        this.record(TELEMETRY_METRICS.duration, span.durationMs, labels);
+        if (failed) {
+          this.count(TELEMETRY_METRICS.errors, {
+            service,
+            method,
+            code: span.errorCode,
+          });
+        }
+      },
+    };
+  }
+
+  /**
+   * Run `fn` inside a span, ending it when the result (or its promise)
+   * settles
+   */
+  trace<T>(
+    service: string,
+    method: string,
+    fn: () => T,
+    attributes?: TelemetryAttributes
+  ): T {
+    if (!this.enabled) return fn();
+
+    const span = this.startSpan(service, method, attributes);
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      span.end(error);
+      throw error;
+    }
+
+    if (isPromiseLike(result)) {
+      return result.then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (error) => {
+          span.end(error);
+          throw error;
+        }
+      ) as T;
+    }
+    span.end();
+    return result;
+  }
+
+  count(name: string, attributes: TelemetryAttributes = {}, value = 1): void {
+    this.metric(name, "counter", value, attributes);
+  }
+
+  record(
+    name: string,
+    value: number,
+    attributes: TelemetryAttributes = {}
+  ): void {
+    this.metric(name, "histogram", value, attributes);
+  }
+
+  /**
+   * Trace every method called on `target` from outside, e.g.
+   * `telemetry.instrument(new JupiterService())`. Calls a service makes to
+   * its own methods are not traced separately.
+   */
+  instrument<T extends object>(
+    target: T,
+    service: string = target.constructor?.name || "Service"
+  ): T {
+    if (this.instrumented.has(target)) return target;
+
+    const wrappers = new Map<string, Function>();
+    const proxy = new Proxy(target, {
+      get: (object, property) => {
+        const value = Reflect.get(object, property, object);
+        if (
+          typeof value !== "function" ||
+          typeof property !== "string" ||
+          property.startsWith("_") ||
+          IGNORED_METHODS.has(property)
+        ) {
+          return value;
+        }
+
+        let wrapper = wrappers.get(property);
+        if (!wrapper) {
+          wrapper = (...args: unknown[]) =>
+            this.trace(service, property, () =>
+              (object as any)[property](...args)
+            );
+          wrappers.set(property, wrapper);
+        }
+        return wrapper;
+      },
+    });
+
+    this.instrumented.add(proxy);
+    return proxy;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private metric(
+    name: string,
+    kind: TelemetryMetric["kind"],
+    value: number,
+    attributes: TelemetryAttributes
+  ): void {
+    if (!this.enabled) return;
+    const metric: TelemetryMetric = {
+      name,
+      kind,
+      value,
+      attributes: { ...this.attributes, ...attributes },
+      time: Date.now(),
+    };
+    this.emit((exporter) => exporter.exportMetric?.(metric));
+  }
+
+  private emit(send: (exporter: TelemetryExporter) => void): void {
+    for (const exporter of this.exporters) {
+      try {
+        send(exporter);
+      } catch (error) {
+        this.logger.warn("Telemetry exporter failed", {
+          service: "Telemetry",
+          error,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Default telemetry: no exporters, records nothing
+ */
+export const noopTelemetry = new Telemetry();
+
+// ============================================
+// OPENTELEMETRY
+// ============================================
+
+/**
+ * The parts of an @opentelemetry/api Tracer the exporter uses
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { startTime?: number; attributes?: TelemetryAttributes }
+  ): {
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(endTime?: number): void;
+  };
+}
+
+/**
+ * The parts of an @opentelemetry/api Meter the exporter uses
+ */
+export interface OpenTelemetryMeter {
+  createCounter(name: string): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createHistogram(name: string): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+}
+
+// SpanStatusCode.OK and SpanStatusCode.ERROR
+const OTEL_STATUS_OK = 1;
+const OTEL_STATUS_ERROR = 2;
+
+/**
+ * Forward spans and metrics to OpenTelemetry, e.g.
+ * `createOpenTelemetryExporter({ tracer: trace.getTracer("forgex"), meter: metrics.getMeter("forgex") })`.
+ * Typed structurally, so the SDK does not depend on @opentelemetry/api.
+ */
+export function createOpenTelemetryExporter(options: {
+  tracer?: OpenTelemetryTracer;
+  meter?: OpenTelemetryMeter;
+}): TelemetryExporter {
+  const counters = new Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createCounter"]>
+  >();
+  const histograms = new Map<
+    string,
+    ReturnType<OpenTelemetryMeter["createHistogram"]>
+  >();
+
+  return {
+    exportSpan(span) {
+      if (!options.tracer) return;
+      const otelSpan = options.tracer.startSpan(span.name, {
+        startTime: span.startTime,
+        attributes: {
+          ...span.attributes,
+          "forgex.service": span.service,
+          "forgex.method": span.method,
+          ...(span.errorCode && { "error.type": span.errorCode }),
+        },
+      });
+      otelSpan.setStatus(
+        span.outcome === "ok"
+          ? { code: OTEL_STATUS_OK }
+          : { code: OTEL_STATUS_ERROR, message: span.errorMessage }
+      );
+      otelSpan.end(span.endTime);
+    },
+    exportMetric(metric) {
+      const meter = options.meter;
+      if (!meter) return;
+      if (metric.kind === "counter") {
+        if (!counters.has(metric.name)) {
+          counters.set(metric.name, meter.createCounter(metric.name));
+        }
+        counters.get(metric.name)!.add(metric.value, metric.attributes);
+      } else {
+        if (!histograms.has(metric.name)) {
+          histograms.set(metric.name, meter.createHistogram(metric.name));
+        }
+        histograms.get(metric.name)!.record(metric.value, metric.attributes);
+      }
+    },
+  };
+}
+
+function getErrorCode(error: unknown): string {
+  const code = (error as any)?.code;
+  if (typeof code === "string") return code;
+  return (error as any)?.name || "Error";
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<any> {
+  return (
+    !!value &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as any).then === "function"
+  );
+}
+
+export default Telemetry;
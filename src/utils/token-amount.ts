@@ -0,0 +1,311 @@
+import { ForgeXSDKError } from "./errors.js";
+
+export const SOL_DECIMALS = 9;
+
+/**
+ * An amount as services accept it: a TokenAmount, base units as a bigint, or
+ * a UI amount (e.g. 1.5 USDC) as a number or decimal string
+ */
+export type AmountInput = TokenAmount | bigint | number | string;
+
+/**
+ * An amount for APIs that take base units: a TokenAmount, or base units as a
+ * bigint or integer number
+ */
+export type BaseUnitsInput = TokenAmount | bigint | number;
+
+export interface TokenAmountJSON {
+  /** Base units */
+  amount: string;
+  decimals: number;
+  uiAmountString: string;
+}
+
+export interface TokenAmountFormatOptions {
+  /** Round half up to this many decimals (default: all of them) */
+  maxDecimals?: number;
+  /** Separate thousands with commas */
+  grouping?: boolean;
+}
+
+/**
+ * An exact token amount: base units as a bigint plus the mint's decimals.
+ * Conversions never go through floating point, except toNumber().
+ */
+export class TokenAmount {
+  private constructor(
+    readonly raw: bigint,
+    readonly decimals: number
+  ) {}
+
+  /**
+   * From base units (lamports, micro-USDC, ...). Accepts anything whose
+   * toString() is an integer, such as BN.
+   */
+  static fromRaw(
+    raw: bigint | number | string | { toString(): string },
+    decimals: number
+  ): TokenAmount {
+    checkDecimals(decimals);
+    try {
+      return new TokenAmount(BigInt(raw.toString()), decimals);
+    } catch (error) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Invalid base unit amount: ${raw}`,
+        undefined,
+        { service: "TokenAmount", method: "fromRaw", cause: error }
+      );
+    }
+  }
+
+  /**
+   * From a UI amount. Strings are parsed exactly and rejected when they have
+   * more digits than the token's decimals; numbers are rounded half up to
+   * the token's decimals, which absorbs floating point noise.
+   */
+  static fromUi(value: number | string, decimals: number): TokenAmount {
+    checkDecimals(decimals);
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) {
+        throw invalidAmount(value, "fromUi");
+      }
+      return new TokenAmount(
+        parseDecimal(String(value), decimals, true),
+        decimals
+      );
+    }
+    return new TokenAmount(parseDecimal(value, decimals, false), decimals);
+  }
+
+  /**
+   * From any AmountInput. A TokenAmount must already have these decimals.
+   */
+  static from(value: AmountInput, decimals: number): TokenAmount {
+    if (value instanceof TokenAmount) {
+      if (value.decimals !== decimals) {
+        throw new ForgeXSDKError(
+          "INVALID_INPUT",
+          `Amount has ${value.decimals} decimals, expected ${decimals}`,
+          { amount: value.toString(), decimals },
+          { service: "TokenAmount", method: "from" }
+        );
+      }
+      return value;
+    }
+    return typeof value === "bigint"
+      ? TokenAmount.fromRaw(value, decimals)
+      : TokenAmount.fromUi(value, decimals);
+  }
+
+  /**
+   * A SOL amount; bigints are lamports
+   */
+  static sol(value: AmountInput): TokenAmount {
+    return TokenAmount.from(value, SOL_DECIMALS);
+  }
+
+  static lamports(lamports: bigint | number | string): TokenAmount {
+    return TokenAmount.fromRaw(lamports, SOL_DECIMALS);
+  }
+
+  static zero(decimals: number): TokenAmount {
+    return TokenAmount.fromRaw(0n, decimals);
+  }
+
+  add(other: AmountInput): TokenAmount {
+    return new TokenAmount(this.raw + this.coerce(other).raw, this.decimals);
+  }
+
+  sub(other: AmountInput): TokenAmount {
+    return new TokenAmount(this.raw - this.coerce(other).raw, this.decimals);
+  }
+
+  /**
+   * Multiply by a decimal factor (e.g. 0.995 for slippage), rounding toward
+   * zero
+   */
+  mul(factor: number | string): TokenAmount {
+    const scale = countDecimals(String(factor));
+    const multiplier = parseDecimal(String(factor), scale, false);
+    return new TokenAmount(
+      (this.raw * multiplier) / 10n ** BigInt(scale),
+      this.decimals
+    );
+  }
+
+  cmp(other: AmountInput): -1 | 0 | 1 {
+    const raw = this.coerce(other).raw;
+    return this.raw < raw ? -1 : this.raw > raw ? 1 : 0;
+  }
+
+  eq(other: AmountInput): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: AmountInput): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: AmountInput): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: AmountInput): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: AmountInput): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  /**
+   * Base units as a number, for SDKs that take one. Throws instead of losing
+   * precision above Number.MAX_SAFE_INTEGER.
+   */
+  toRawNumber(): number {
+    if (
+      this.raw > BigInt(Number.MAX_SAFE_INTEGER) ||
+      this.raw < BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Amount ${this.raw} is too large to pass as a number`,
+        undefined,
+        { service: "TokenAmount", method: "toRawNumber" }
+      );
+    }
+    return Number(this.raw);
+  }
+
+  /**
+   * UI amount as a number. May lose precision; prefer toString().
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Exact UI amount without trailing zeros, e.g. "1.5"
+   */
+  toString(): string {
+    return this.format();
+  }
+
+  format(options: TokenAmountFormatOptions = {}): string {
+    const maxDecimals = Math.min(
+      options.maxDecimals ?? this.decimals,
+      this.decimals
+    );
+    const drop = 10n ** BigInt(this.decimals - maxDecimals);
+    const magnitude = this.raw < 0n ? -this.raw : this.raw;
+    const rounded = (magnitude + drop / 2n) / drop;
+
+    const digits = rounded.toString().padStart(maxDecimals + 1, "0");
+    let whole = digits.slice(0, digits.length - maxDecimals);
+    const fraction = digits
+      .slice(digits.length - maxDecimals)
+      .replace(/0+$/, "");
+    if (options.grouping) {
+      whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    }
+    const sign = this.raw < 0n && rounded > 0n ? "-" : "";
+    return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  /**
+   * Same shape as the RPC's token amounts, with base units as a string
+   */
+  toJSON(): TokenAmountJSON {
+    return {
+      amount: this.raw.toString(),
+      decimals: this.decimals,
+      uiAmountString: this.toString(),
+    };
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private coerce(other: AmountInput): TokenAmount {
+    return TokenAmount.from(other, this.decimals);
+  }
+}
+
+/**
+ * Base units of a BaseUnitsInput; throws INVALID_INPUT for fractional numbers
+ */
+export function toBaseUnits(amount: BaseUnitsInput): bigint {
+  return amount instanceof TokenAmount
+    ? amount.raw
+    : TokenAmount.fromRaw(amount, 0).raw;
+}
+
+function checkDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new ForgeXSDKError(
+      "INVALID_INPUT",
+      `Invalid token decimals: ${decimals}`,
+      undefined,
+      { service: "TokenAmount" }
+    );
+  }
+}
+
+function invalidAmount(value: unknown, method: string): ForgeXSDKError {
+  return new ForgeXSDKError(
+    "INVALID_INPUT",
+    `Invalid amount: ${value}`,
+    undefined,
+    { service: "TokenAmount", method }
+  );
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Digits after the point, once any exponent is applied
+function countDecimals(value: string): number {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) return 0;
+  const [, , , fraction = "", exponent = "0"] = match;
+  return Math.max(0, fraction.length - Number(exponent));
+}
+
+// Decimal string (optionally in exponent notation) to base units
+function parseDecimal(value: string, decimals: number, round: boolean): bigint {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match || !(match[2] || match[3]) || Math.abs(Number(match[4])) > 1000) {
+    throw invalidAmount(value, "fromUi");
+  }
+  const [, sign, whole = "", fraction = "", exponent = "0"] = match;
+  const mantissa = BigInt(`${whole}${fraction}` || "0");
+  const shift = decimals + Number(exponent) - fraction.length;
+
+  let raw: bigint;
+  if (shift >= 0) {
+    raw = mantissa * 10n ** BigInt(shift);
+  } else {
+    const divisor = 10n ** BigInt(-shift);
+    if (!round && mantissa % divisor !== 0n) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Amount ${value} has more than ${decimals} decimals`,
+        undefined,
+        { service: "TokenAmount", method: "fromUi" }
+      );
+    }
+    raw = (mantissa + divisor / 2n) / divisor;
+  }
+  return sign === "-" ? -raw : raw;
+}
+
+export default TokenAmount;
@@ -0,0 +1,356 @@
+import { PublicKey } from "@solana/web3.js";
+import { TOKENS } from "./connection.js";
+import { ForgeXSDKError } from "./errors.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+
+export const TOKEN_PROGRAM_ADDRESS =
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM_ADDRESS =
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+
+/**
+ * A token as a source lists it
+ */
+export interface TokenListEntry {
+  mint: string;
+  symbol: string;
+  name?: string;
+  decimals: number;
+  /** Owning token program (default: SPL Token) */
+  programId?: string;
+  /** Overrides the source's `verified` flag */
+  verified?: boolean;
+  logoURI?: string;
+}
+
+/**
+ * A token merged from every source that lists its mint
+ */
+export interface RegistryToken {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  programId: string;
+  isToken2022: boolean;
+  /** Listed as verified by at least one source */
+  verified: boolean;
+  /** Sources listing the mint, first one wins on conflicts */
+  sources: string[];
+  logoURI?: string;
+}
+
+/**
+ * Where tokens come from: a full list, a search endpoint, or both
+ */
+export interface TokenSource {
+  name: string;
+  /** Whether entries without their own flag count as verified */
+  verified?: boolean;
+  list?(): Promise<TokenListEntry[]>;
+  search?(query: string): Promise<TokenListEntry[]>;
+}
+
+export interface TokenResolveOptions {
+  /** Only consider verified tokens */
+  strict?: boolean;
+}
+
+export interface TokenRegistryConfig {
+  /** Extra tokens, listed as verified under the "custom" source */
+  tokens?: TokenListEntry[];
+  sources?: TokenSource[];
+  /** Default for TokenResolveOptions.strict */
+  strict?: boolean;
+  logger?: Logger;
+}
+
+const DECIMALS: Record<keyof typeof TOKENS, number> = {
+  SOL: 9,
+  USDC: 6,
+  USDT: 6,
+  RAY: 6,
+  BONK: 5,
+  mSOL: 9,
+  jitoSOL: 9,
+  PYUSD: 6,
+};
+
+/**
+ * Tokens every registry starts with
+ */
+export const BUILTIN_TOKENS: TokenListEntry[] = Object.entries(TOKENS).map(
+  ([symbol, mint]) => ({
+    mint,
+    symbol,
+    name: symbol === "SOL" ? "Wrapped SOL" : symbol,
+    decimals: DECIMALS[symbol as keyof typeof TOKENS],
+    programId:
+      symbol === "PYUSD" ? TOKEN_2022_PROGRAM_ADDRESS : TOKEN_PROGRAM_ADDRESS,
+  })
+);
+
+/**
+ * Resolves symbols, mints, decimals and token programs from built-in tokens
+ * and the lists of protocol services. Symbols are matched exactly (ignoring
+ * case); a symbol listed for several mints is a collision and never guessed.
+ */
+export class TokenRegistry {
+  private tokens = new Map<string, RegistryToken>();
+  private bySymbol = new Map<string, Set<string>>();
+  private sources: TokenSource[] = [];
+  private loading = new Map<TokenSource, Promise<void>>();
+  private strict: boolean;
+  private logger: Logger;
+
+  constructor(config: TokenRegistryConfig = {}) {
+    this.strict = config.strict || false;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "TokenRegistry",
+    });
+    this.add(BUILTIN_TOKENS, "builtin", true);
+    this.add(config.tokens || [], "custom", true);
+    for (const source of config.sources || []) {
+      this.addSource(source);
+    }
+  }
+
+  /**
+   * Merge tokens into the registry
+   */
+  add(entries: TokenListEntry[], source = "custom", verified = false): void {
+    for (const entry of entries) {
+      if (!entry?.mint || !entry.symbol) continue;
+      const isVerified = entry.verified ?? verified;
+      const existing = this.tokens.get(entry.mint);
+
+      if (!existing) {
+        const programId = entry.programId || TOKEN_PROGRAM_ADDRESS;
+        this.tokens.set(entry.mint, {
+          mint: entry.mint,
+          symbol: entry.symbol,
+          name: entry.name || entry.symbol,
+          decimals: entry.decimals,
+          programId,
+          isToken2022: programId === TOKEN_2022_PROGRAM_ADDRESS,
+          verified: isVerified,
+          sources: [source],
+          logoURI: entry.logoURI,
+        });
+        this.indexSymbol(entry.symbol, entry.mint);
+        continue;
+      }
+
+      if (existing.decimals !== entry.decimals) {
+        this.logger.warn("Token sources disagree on decimals", {
+          mint: entry.mint,
+          sources: [...existing.sources, source],
+        });
+      }
+      if (
+        entry.programId === TOKEN_2022_PROGRAM_ADDRESS &&
+        !existing.isToken2022
+      ) {
+        existing.programId = TOKEN_2022_PROGRAM_ADDRESS;
+        existing.isToken2022 = true;
+      }
+      existing.verified = existing.verified || isVerified;
+      existing.logoURI = existing.logoURI || entry.logoURI;
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+      if (entry.symbol.toLowerCase() !== existing.symbol.toLowerCase()) {
+        this.indexSymbol(entry.symbol, entry.mint);
+      }
+    }
+  }
+
+  /**
+   * Register a source; its list is fetched on the next load() or lookup()
+   */
+  addSource(source: TokenSource): void {
+    this.sources.push(source);
+  }
+
+  /**
+   * Fetch the lists of every source not loaded yet. A failing source is
+   * logged and retried on the next call.
+   */
+  async load(): Promise<void> {
+    await Promise.all(
+      this.sources
+        .filter((source) => source.list)
+        .map((source) => {
+          let loading = this.loading.get(source);
+          if (!loading) {
+            loading = source
+              .list()
+              .then((entries) => {
+                this.add(entries, source.name, source.verified);
+                this.logger.debug("Loaded token source", {
+                  source: source.name,
+                  tokens: entries.length,
+                });
+              })
+              .catch((error) => {
+                this.loading.delete(source);
+                this.logger.warn("Failed to load token source", {
+                  source: source.name,
+                  error,
+                });
+              });
+            this.loading.set(source, loading);
+          }
+          return loading;
+        })
+    );
+  }
+
+  getByMint(mint: PublicKey | string): RegistryToken | undefined {
+    return this.tokens.get(mint.toString());
+  }
+
+  /**
+   * Every token listed under the symbol, verified ones first
+   */
+  findBySymbol(symbol: string): RegistryToken[] {
+    const mints = this.bySymbol.get(symbol.toLowerCase()) || new Set();
+    return [...mints]
+      .map((mint) => this.tokens.get(mint))
+      .sort((a, b) => Number(b.verified) - Number(a.verified));
+  }
+
+  /**
+   * The token a symbol stands for. Verified tokens win over unverified ones;
+   * throws INVALID_INPUT when several equally trusted mints share it.
+   */
+  getBySymbol(
+    symbol: string,
+    options: TokenResolveOptions = {}
+  ): RegistryToken | undefined {
+    const candidates = this.findBySymbol(symbol);
+    const verified = candidates.filter((token) => token.verified);
+    const strict = options.strict ?? this.strict;
+    const pool = verified.length || strict ? verified : candidates;
+
+    if (pool.length > 1) {
+      throw new ForgeXSDKError(
+        "INVALID_INPUT",
+        `Symbol ${symbol} is ambiguous, use a mint: ${pool
+          .map((token) => token.mint)
+          .join(", ")}`,
+        { symbol, mints: pool.map((token) => token.mint) },
+        { service: "TokenRegistry", method: "getBySymbol" }
+      );
+    }
+    return pool[0];
+  }
+
+  /**
+   * Token for a mint address or symbol, from what is loaded so far.
+   * Throws NOT_FOUND when unknown.
+   */
+  resolve(
+    symbolOrMint: PublicKey | string,
+    options: TokenResolveOptions = {}
+  ): RegistryToken {
+    const token = isMint(symbolOrMint)
+      ? this.getByMint(symbolOrMint)
+      : this.getBySymbol(symbolOrMint.toString(), options);
+    const strict = options.strict ?? this.strict;
+    if (!token || (strict && !token.verified)) {
+      throw new ForgeXSDKError(
+        "NOT_FOUND",
+        `Unknown ${strict ? "verified " : ""}token: ${symbolOrMint}`,
+        { token: symbolOrMint.toString() },
+        { service: "TokenRegistry", method: "resolve" }
+      );
+    }
+    return token;
+  }
+
+  /**
+   * Like resolve(), but undefined when unknown. Ambiguous symbols still
+   * throw.
+   */
+  find(
+    symbolOrMint: PublicKey | string,
+    options: TokenResolveOptions = {}
+  ): RegistryToken | undefined {
+    try {
+      return this.resolve(symbolOrMint, options);
+    } catch (error) {
+      if (error instanceof ForgeXSDKError && error.code === "NOT_FOUND") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Like resolve(), but loads the sources and asks searchable ones when the
+   * token is not known yet
+   */
+  async lookup(
+    symbolOrMint: PublicKey | string,
+    options: TokenResolveOptions = {}
+  ): Promise<RegistryToken> {
+    const known = this.find(symbolOrMint, options);
+    if (known) return known;
+
+    await this.load();
+    const listed = this.find(symbolOrMint, options);
+    if (listed) return listed;
+
+    const query = symbolOrMint.toString();
+    await Promise.all(
+      this.sources
+        .filter((source) => source.search)
+        .map(async (source) => {
+          try {
+            this.add(await source.search(query), source.name, source.verified);
+          } catch (error) {
+            this.logger.warn("Token search failed", {
+              source: source.name,
+              error,
+            });
+          }
+        })
+    );
+    return this.resolve(symbolOrMint, options);
+  }
+
+  /**
+   * Symbols listed for more than one mint
+   */
+  getCollisions(): Array<{ symbol: string; tokens: RegistryToken[] }> {
+    return [...this.bySymbol.keys()]
+      .map((symbol) => ({ symbol, tokens: this.findBySymbol(symbol) }))
+      .filter(({ tokens }) => tokens.length > 1);
+  }
+
+  list(): RegistryToken[] {
+    return [...this.tokens.values()];
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private indexSymbol(symbol: string, mint: string): void {
+    const key = symbol.toLowerCase();
+    if (!this.bySymbol.has(key)) this.bySymbol.set(key, new Set());
+    this.bySymbol.get(key).add(mint);
+  }
+}
+
+function isMint(value: PublicKey | string): boolean {
+  if (value instanceof PublicKey) return true;
+  if (value.length < 32) return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export default TokenRegistry;
@@ -0,0 +1,394 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+  type Commitment,
+  type SignatureStatus,
+  type Signer,
+  type TransactionError,
+  type TransactionSignature,
+} from "@solana/web3.js";
+import { ForgeXSDKError, classifyError } from "./errors.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+
+export type SendableTransaction = Transaction | VersionedTransaction;
+
+/**
+ * Anything able to sign legacy and versioned transactions. Every `Signer`
+ * (see ./signer) is one.
+ */
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction<T extends SendableTransaction>(transaction: T): Promise<T>;
+}
+
+export type ExecutionStatus = "confirmed" | "expired" | "failed";
+
+/**
+ * Outcome of a transaction sent through the executor
+ */
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  signature?: TransactionSignature;
+  slot?: number;
+  /** Number of blockhashes the transaction was signed against */
+  attempts: number;
+  error?: string;
+  /** On-chain error of a failed transaction */
+  transactionError?: TransactionError;
+  logs?: string[];
+}
+
+export interface TransactionExecutorConfig {
+  commitment?: Commitment;
+  /** How many times an expired transaction is re-signed with a fresh blockhash */
+  maxBlockhashRetries?: number;
+  /** Delay between status polls and rebroadcasts */
+  rebroadcastIntervalMs?: number;
+  skipPreflight?: boolean;
+}
+
+export interface ExecuteOptions extends TransactionExecutorConfig {
+  signer?: TransactionSigner;
+  /** Extra keypairs that must co-sign, e.g. freshly created accounts */
+  additionalSigners?: Signer[];
+  /**
+   * Re-sign with a fresh blockhash before sending. Defaults to true, unless
+   * keys other than the signer and additionalSigners already signed: a new
+   * blockhash would invalidate their signatures.
+   */
+  refreshBlockhash?: boolean;
+  /** Expiry height of an already signed transaction when not refreshing */
+  lastValidBlockHeight?: number;
+}
+
+const COMMITMENT_RANK: Record<string, number> = {
+  processed: 0,
+  confirmed: 1,
+  finalized: 2,
+};
+
+/**
+ * Shared send path for every service: signs, broadcasts, rebroadcasts until
+ * the blockhash expires and re-signs with a fresh one when it does.
+ */
+export class TransactionExecutor {
+  private connection: Connection;
+  private config: Required<TransactionExecutorConfig>;
+  private signer?: TransactionSigner;
+  private logger: Logger;
+
+  constructor(
+    connection: Connection,
+    config: TransactionExecutorConfig & {
+      signer?: TransactionSigner;
+      logger?: Logger;
+    } = {}
+  ) {
+    this.connection = connection;
+    this.signer = config.signer;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "TransactionExecutor",
+    });
+    this.config = {
+      commitment: config.commitment || "confirmed",
+      maxBlockhashRetries: config.maxBlockhashRetries ?? 2,
+      rebroadcastIntervalMs: config.rebroadcastIntervalMs ?? 2000,
+      skipPreflight: config.skipPreflight ?? false,
+    };
+  }
+
+  /**
+   * Sign, send and confirm a single transaction
+   */
+  async execute(
+    transaction: SendableTransaction,
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult> {
+    const commitment = options.commitment || this.config.commitment;
+    const maxRetries =
+      options.maxBlockhashRetries ?? this.config.maxBlockhashRetries;
+    const signer = options.signer || this.signer;
+    const refresh =
+      options.refreshBlockhash ??
+      !this.hasOtherSignatures(transaction, [
+        signer?.publicKey,
+        ...(options.additionalSigners || []).map((extra) => extra.publicKey),
+      ]);
+    const start = Date.now();
+
+    let attempts = 0;
+    let result: ExecutionResult;
+
+    do {
+      attempts++;
+
+      let lastValidBlockHeight = options.lastValidBlockHeight;
+      if (refresh || lastValidBlockHeight === undefined) {
+        const latest = await this.connection.getLatestBlockhash(commitment);
+        lastValidBlockHeight = latest.lastValidBlockHeight;
+        if (refresh) {
+          this.setBlockhash(transaction, latest.blockhash, signer);
+        }
+      }
+
+      await this.sign(transaction, signer, options.additionalSigners);
+
+      result = {
+        ...(await this.sendAndConfirm(
+          transaction.serialize(),
+          lastValidBlockHeight,
+          commitment,
+          options.skipPreflight ?? this.config.skipPreflight,
+          options.rebroadcastIntervalMs ?? this.config.rebroadcastIntervalMs
+        )),
+        attempts,
+      };
+    } while (result.status === "expired" && refresh && attempts <= maxRetries);
+
+    const fields = {
+      method: "execute",
+      signature: result.signature,
+      attempts,
+      durationMs: Date.now() - start,
+    };
+    if (result.status === "confirmed") {
+      this.logger.info("Transaction confirmed", fields);
+    } else {
+      this.logger.warn(`Transaction ${result.status}`, {
+        ...fields,
+        error: result.error,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Execute transactions one after another, stopping at the first one that
+   * does not confirm
+   */
+  async executeAll(
+    transactions: SendableTransaction[],
+    options: ExecuteOptions = {}
+  ): Promise<ExecutionResult[]> {
+    const results: ExecutionResult[] = [];
+    for (const transaction of transactions) {
+      const result = await this.execute(transaction, options);
+      results.push(result);
+      if (result.status !== "confirmed") break;
+    }
+    return results;
+  }
+
+  /**
+   * Throw unless the transaction confirmed, returning its signature otherwise.
+   * Failures are classified from the program logs (e.g. INSUFFICIENT_FUNDS),
+   * expiries throw BLOCKHASH_EXPIRED.
+   */
+  static assertConfirmed(result: ExecutionResult): TransactionSignature {
+    if (result.status === "confirmed" && result.signature) {
+      return result.signature;
+    }
+
+    const message = `Transaction ${result.status}${
+      result.error ? `: ${result.error}` : ""
+    }`;
+    if (result.status === "expired") {
+      throw new ForgeXSDKError("BLOCKHASH_EXPIRED", message, result, {
+        service: "TransactionExecutor",
+      });
+    }
+
+    const classified = classifyError({
+      message: result.error,
+      err: result.transactionError,
+      logs: result.logs,
+    });
+    throw new ForgeXSDKError(
+      classified.code === "UNKNOWN" ? "TRANSACTION_FAILED" : classified.code,
+      message,
+      result,
+      {
+        service: "TransactionExecutor",
+        programError: classified.programError,
+        logs: result.logs,
+      }
+    );
+  }
+
+  setSigner(signer: TransactionSigner): void {
+    this.signer = signer;
+  }
+
+  getSigner(): TransactionSigner | undefined {
+    return this.signer;
+  }
+
+  getConnection(): Connection {
+    return this.connection;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private setBlockhash(
+    transaction: SendableTransaction,
+    blockhash: string,
+    signer?: TransactionSigner
+  ): void {
+    if (transaction instanceof VersionedTransaction) {
+      transaction.message.recentBlockhash = blockhash;
+    } else {
+      transaction.recentBlockhash = blockhash;
+      if (!transaction.feePayer && signer) {
+        transaction.feePayer = signer.publicKey;
+      }
+    }
+  }
+
+  // Whether keys outside `own` signed the transaction already
+  private hasOtherSignatures(
+    transaction: SendableTransaction,
+    own: (PublicKey | undefined)[]
+  ): boolean {
+    const isOwn = (key: PublicKey) => own.some((mine) => mine?.equals(key));
+    if (transaction instanceof VersionedTransaction) {
+      const keys = transaction.message.staticAccountKeys;
+      return transaction.signatures.some(
+        (signature, index) =>
+          signature.some((byte) => byte !== 0) && !isOwn(keys[index])
+      );
+    }
+    return transaction.signatures.some(
+      ({ publicKey, signature }) => signature !== null && !isOwn(publicKey)
+    );
+  }
+
+  private async sign(
+    transaction: SendableTransaction,
+    signer?: TransactionSigner,
+    additionalSigners: Signer[] = []
+  ): Promise<void> {
+    if (additionalSigners.length > 0) {
+      if (transaction instanceof VersionedTransaction) {
+        transaction.sign(additionalSigners);
+      } else {
+        transaction.partialSign(...additionalSigners);
+      }
+    }
+
+    if (signer) {
+      const signed = await signer.signTransaction(transaction);
+      // Wallets may return a new instance instead of signing in place
+      if (signed !== transaction) {
+        if (transaction instanceof VersionedTransaction) {
+          transaction.signatures = (signed as VersionedTransaction).signatures;
+        } else {
+          transaction.signatures = (signed as Transaction).signatures;
+        }
+      }
+    }
+  }
+
+  private async sendAndConfirm(
+    raw: Uint8Array,
+    lastValidBlockHeight: number,
+    commitment: Commitment,
+    skipPreflight: boolean,
+    intervalMs: number
+  ): Promise<Omit<ExecutionResult, "attempts">> {
+    let signature: TransactionSignature;
+    try {
+      signature = await this.connection.sendRawTransaction(raw, {
+        skipPreflight,
+        preflightCommitment: commitment,
+        maxRetries: 0,
+      });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      if (/blockhash not found/i.test(message)) {
+        return { status: "expired", error: message };
+      }
+      return { status: "failed", error: message, logs: error?.logs };
+    }
+
+    while (true) {
+      const { value } = await this.connection.getSignatureStatuses([signature]);
+      const settled = await this.settle(signature, value[0], commitment);
+      if (settled) return settled;
+
+      const blockHeight = await this.connection.getBlockHeight(commitment);
+      if (blockHeight > lastValidBlockHeight) {
+        // It may have landed since the last poll. A landed transaction only
+        // needs to reach the commitment: re-signing it would send it twice.
+        const {
+          value: [status],
+        } = await this.connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: true,
+        });
+        const landed = await this.settle(signature, status, commitment);
+        if (landed) return landed;
+        if (!status) {
+          return {
+            status: "expired",
+            signature,
+            error: `Blockhash expired at block height ${lastValidBlockHeight}`,
+          };
+        }
+        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+        continue;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+      // Rebroadcast; the RPC node drops transactions it cannot forward
+      await this.connection
+        .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch(() => undefined);
+    }
+  }
+
+  // Final result for a status that failed or reached the commitment
+  private async settle(
+    signature: TransactionSignature,
+    status: SignatureStatus | null,
+    commitment: Commitment
+  ): Promise<Omit<ExecutionResult, "attempts"> | undefined> {
+    if (status?.err) {
+      return {
+        status: "failed",
+        signature,
+        slot: status.slot,
+        error: JSON.stringify(status.err),
+        transactionError: status.err,
+        logs: await this.fetchLogs(signature),
+      };
+    }
+
+    if (
+      status?.confirmationStatus &&
+      COMMITMENT_RANK[status.confirmationStatus] >=
+        (COMMITMENT_RANK[commitment] ?? COMMITMENT_RANK.confirmed)
+    ) {
+      return { status: "confirmed", signature, slot: status.slot };
+    }
+    return undefined;
+  }
+
+  private async fetchLogs(signature: string): Promise<string[] | undefined> {
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      return tx?.meta?.logMessages || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export default TransactionExecutor;
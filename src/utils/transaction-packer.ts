@@ -0,0 +1,345 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { ForgeXSDKError } from "./errors.js";
+import { silentLogger, withLogFields, type Logger } from "./logger.js";
+import {
+  AddressLookupTableManager,
+  getTransactionSize,
+  type LookupTableInput,
+} from "./lookup-tables.js";
+import {
+  TransactionExecutor,
+  type ExecuteOptions,
+  type ExecutionResult,
+  type SendableTransaction,
+} from "./transaction-executor.js";
+
+/**
+ * Instructions that must land in the same transaction, in order
+ */
+export interface InstructionGroup {
+  instructions: TransactionInstruction[];
+  /** Compute units the group needs (default defaultComputeUnits per instruction) */
+  computeUnits?: number;
+  /**
+   * Indexes of earlier groups that must execute first. Defaults to the
+   * previous group, so a plain list keeps its order; pass [] for a group
+   * that may run in parallel with everything before it.
+   */
+  dependsOn?: number[];
+}
+
+export type PackerInput = TransactionInstruction | InstructionGroup;
+
+export interface TransactionPackerConfig {
+  executor?: TransactionExecutor;
+  /** Resolves lookup tables passed to pack() */
+  lookupTables?: AddressLookupTableManager;
+  /** Compute budget of a transaction (default 1400000) */
+  maxComputeUnits?: number;
+  /** Estimate for instructions without an explicit budget (default 200000) */
+  defaultComputeUnits?: number;
+  logger?: Logger;
+}
+
+export interface PackOptions {
+  /** Instructions repeated at the start of every transaction, e.g. compute budget */
+  prefix?: TransactionInstruction[];
+  /** Compile v0 messages against these tables */
+  lookupTables?: LookupTableInput[];
+  /** Bytes kept free in every transaction, e.g. for priority fee instructions */
+  reserveBytes?: number;
+}
+
+export interface PackedTransaction {
+  transaction: SendableTransaction;
+  /** Indexes of the input groups it carries */
+  groups: number[];
+  /**
+   * Execution wave: transactions of the same stage do not depend on each
+   * other and can be sent in parallel once earlier stages confirmed
+   */
+  stage: number;
+  computeUnits: number;
+  size: number;
+}
+
+export interface ExecutePackedOptions extends ExecuteOptions {
+  /** Send one by one (default) or each stage in parallel */
+  mode?: "sequential" | "parallel";
+}
+
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Splits an ordered instruction list into the fewest transactions that fit
+ * the packet size and compute budget while keeping dependencies in order
+ */
+export class TransactionPacker {
+  private connection: Connection;
+  private executor: TransactionExecutor;
+  private lookupTables: AddressLookupTableManager;
+  private maxComputeUnits: number;
+  private defaultComputeUnits: number;
+  private logger: Logger;
+
+  constructor(connection: Connection, config: TransactionPackerConfig = {}) {
+    this.connection = connection;
+    this.logger = withLogFields(config.logger || silentLogger, {
+      service: "TransactionPacker",
+    });
+    this.executor =
+      config.executor ||
+      new TransactionExecutor(connection, { logger: config.logger });
+    this.lookupTables =
+      config.lookupTables ||
+      new AddressLookupTableManager(connection, { logger: config.logger });
+    this.maxComputeUnits = config.maxComputeUnits ?? 1_400_000;
+    this.defaultComputeUnits = config.defaultComputeUnits ?? 200_000;
+  }
+
+  /**
+   * Pack instructions (or groups of them) into unsigned transactions paid by
+   * `payer`. A group is never split; one that does not fit a transaction on
+   * its own throws INVALID_INPUT.
+   */
+  async pack(
+    inputs: PackerInput[],
+    payer: PublicKey,
+    options: PackOptions = {}
+  ): Promise<PackedTransaction[]> {
+    const groups = inputs.map(toGroup);
+    const prefix = options.prefix || [];
+    const limit = PACKET_DATA_SIZE - (options.reserveBytes ?? 0);
+    const tables = options.lookupTables?.length
+      ? await this.lookupTables.getLookupTables(options.lookupTables)
+      : [];
+
+    const packed: PackedTransaction[] = [];
+    // Transaction index of every group placed so far
+    const placement: number[] = [];
+
+    groups.forEach((group, index) => {
+      const dependencies = this.dependenciesOf(group, index);
+      const computeUnits =
+        group.computeUnits ??
+        group.instructions.length * this.defaultComputeUnits;
+
+      // Earliest stage the group can run in
+      const minStage = Math.max(
+        0,
+        ...dependencies.map((dep) => packed[placement[dep]].stage + 1)
+      );
+
+      for (let i = 0; i < packed.length; i++) {
+        const candidate = packed[i];
+        const ordered = dependencies.every(
+          (dep) =>
+            placement[dep] === i ||
+            packed[placement[dep]].stage < candidate.stage
+        );
+        if (
+          !ordered ||
+          candidate.computeUnits + computeUnits > this.maxComputeUnits
+        ) {
+          continue;
+        }
+
+        const transaction = this.compile(
+          [
+            ...prefix,
+            ...candidate.groups.flatMap((g) => groups[g].instructions),
+            ...group.instructions,
+          ],
+          payer,
+          tables
+        );
+        const size = getTransactionSize(transaction);
+        if (size > limit) continue;
+
+        candidate.transaction = transaction;
+        candidate.groups.push(index);
+        candidate.computeUnits += computeUnits;
+        candidate.size = size;
+        placement[index] = i;
+        return;
+      }
+
+      const transaction = this.compile(
+        [...prefix, ...group.instructions],
+        payer,
+        tables
+      );
+      const size = getTransactionSize(transaction);
+      if (size > limit) {
+        throw new ForgeXSDKError(
+          "INVALID_INPUT",
+          `Instruction group ${index} does not fit in a transaction (${
+            Number.isFinite(size) ? `${size} bytes` : "too large"
+          }, limit ${limit})`,
+          { group: index, size, limit },
+          { service: "TransactionPacker", method: "pack" }
+        );
+      }
+      if (computeUnits > this.maxComputeUnits) {
+        this.logger.warn("Instruction group exceeds the compute budget", {
+          method: "pack",
+          group: index,
+          computeUnits,
+        });
+      }
+
+      placement[index] = packed.length;
+      packed.push({
+        transaction,
+        groups: [index],
+        stage: minStage,
+        computeUnits,
+        size,
+      });
+    });
+
+    this.logger.debug("Packed instructions", {
+      method: "pack",
+      groups: groups.length,
+      transactions: packed.length,
+    });
+    return packed.sort((a, b) => a.stage - b.stage);
+  }
+
+  /**
+   * Send packed transactions, stage by stage. Stops after the first stage
+   * with a transaction that does not confirm.
+   */
+  async execute(
+    packed: PackedTransaction[],
+    options: ExecutePackedOptions = {}
+  ): Promise<ExecutionResult[]> {
+    const { mode = "sequential", ...executeOptions } = options;
+    if (mode === "sequential") {
+      return this.executor.executeAll(
+        packed.map(({ transaction }) => transaction),
+        executeOptions
+      );
+    }
+
+    const results: ExecutionResult[] = [];
+    for (const stage of groupByStage(packed)) {
+      const stageResults = await Promise.all(
+        stage.map(({ transaction }) =>
+          this.executor.execute(transaction, executeOptions)
+        )
+      );
+      results.push(...stageResults);
+      if (stageResults.some((result) => result.status !== "confirmed")) break;
+    }
+    return results;
+  }
+
+  /**
+   * Pack and send, throwing unless every transaction confirmed. Returns the
+   * signatures in execution order.
+   */
+  async packAndExecute(
+    inputs: PackerInput[],
+    payer: PublicKey,
+    options: PackOptions & ExecutePackedOptions = {}
+  ): Promise<string[]> {
+    const { prefix, lookupTables, reserveBytes, ...executeOptions } = options;
+    const packed = await this.pack(inputs, payer, {
+      prefix,
+      lookupTables,
+      reserveBytes,
+    });
+    const results = await this.execute(packed, executeOptions);
+    return results.map((result) => TransactionExecutor.assertConfirmed(result));
+  }
+
+  setExecutor(executor: TransactionExecutor): void {
+    this.executor = executor;
+  }
+
+  getConnection(): Connection {
+    return this.connection;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private dependenciesOf(group: InstructionGroup, index: number): number[] {
+    const dependencies = group.dependsOn ?? (index > 0 ? [index - 1] : []);
+    for (const dep of dependencies) {
+      if (!Number.isInteger(dep) || dep < 0 || dep >= index) {
+        throw new ForgeXSDKError(
+          "INVALID_INPUT",
+          `Instruction group ${index} can only depend on earlier groups (got ${dep})`,
+          { group: index, dependsOn: dependencies },
+          { service: "TransactionPacker", method: "pack" }
+        );
+      }
+    }
+    return dependencies;
+  }
+
+  private compile(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    tables: AddressLookupTableAccount[]
+  ): SendableTransaction {
+    if (tables.length === 0) {
+      return new Transaction({
+        feePayer: payer,
+        recentBlockhash: PLACEHOLDER_BLOCKHASH,
+      }).add(...instructions);
+    }
+    try {
+      return new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: payer,
+          recentBlockhash: PLACEHOLDER_BLOCKHASH,
+          instructions,
+        }).compileToV0Message(tables)
+      );
+    } catch {
+      // More accounts than a message can index; measured as oversized
+      return new Transaction({
+        feePayer: payer,
+        recentBlockhash: PLACEHOLDER_BLOCKHASH,
+      }).add(...instructions);
+    }
+  }
+}
+
+function toGroup(input: PackerInput): InstructionGroup {
+  if (input instanceof TransactionInstruction) {
+    return {
+      instructions: [input],
+      computeUnits: input.programId.equals(ComputeBudgetProgram.programId)
+        ? 0
+        : undefined,
+    };
+  }
+  return input;
+}
+
+function groupByStage(packed: PackedTransaction[]): PackedTransaction[][] {
+  const stages = new Map<number, PackedTransaction[]>();
+  for (const entry of packed) {
+    stages.set(entry.stage, [...(stages.get(entry.stage) || []), entry]);
+  }
+  return [...stages.keys()]
+    .sort((a, b) => a - b)
+    .map((stage) => stages.get(stage)!);
+}
+
+export default TransactionPacker;
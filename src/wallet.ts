@@ -3,14 +3,31 @@ import {
   PublicKey,
   Keypair,
   Transaction,
+  VersionedTransaction,
   SystemProgram,
-  LAMPORTS_PER_SOL,
   ComputeBudgetProgram,
 } from "@solana/web3.js";
+import {
+  TransactionExecutor,
+  type ExecutionResult,
+  type ExecutionStatus,
+  type SendableTransaction,
+} from "./utils/transaction-executor.js";
+import { KeypairSigner, WalletSigner, type Signer } from "./utils/signer.js";
+import { PriorityFeeService, type PriorityOption } from "./utils/priority-fees.js";
+import {
+  TransactionSimulator,
+  type SimulationResult,
+} from "./utils/simulation.js";
+import { silentLogger, withLogFields, type Logger } from "./utils/logger.js";
+import { TokenAmount, type AmountInput } from "./utils/token-amount.js";
+import type { ServiceOptions } from "./types.js";
 
 export interface WalletInfo {
   publicKey: string;
+  /** SOL balance; may lose precision, see balanceAmount */
   balance: number;
+  balanceAmount: TokenAmount;
   isConnected: boolean;
   walletType: WalletType;
 }
@@ -18,7 +35,9 @@ export interface WalletInfo {
 export interface WalletTransaction {
   signature?: string;
   success: boolean;
+  status?: ExecutionStatus;
   error?: string;
+  logs?: string[];
   timestamp: number;
 }
 
@@ -30,11 +49,17 @@ export enum WalletType {
   IMPORTED = "imported",
 }
 
+/**
+ * Wallet connection. Signs legacy and versioned (v0) transactions alike.
+ */
 export interface WalletAdapter {
   connect(): Promise<string>;
   disconnect(): Promise<void>;
-  signTransaction(transaction: Transaction): Promise<Transaction>;
-  signAllTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+  signTransaction<T extends SendableTransaction>(transaction: T): Promise<T>;
+  signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]>;
+  signMessage?(message: Uint8Array): Promise<Uint8Array>;
   isConnected(): boolean;
   getPublicKey(): string | null;
   walletType: WalletType;
@@ -46,24 +71,39 @@ declare global {
       isPhantom?: boolean;
       connect(): Promise<{ publicKey: PublicKey }>;
       disconnect(): Promise<void>;
-      signTransaction(transaction: Transaction): Promise<Transaction>;
-      signAllTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+      signTransaction<T extends SendableTransaction>(
+        transaction: T
+      ): Promise<T>;
+      signAllTransactions<T extends SendableTransaction>(
+        transactions: T[]
+      ): Promise<T[]>;
+      signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }>;
       isConnected: boolean;
       publicKey: PublicKey | null;
     };
     solflare?: {
       connect(): Promise<{ publicKey: PublicKey }>;
       disconnect(): Promise<void>;
-      signTransaction(transaction: Transaction): Promise<Transaction>;
-      signAllTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+      signTransaction<T extends SendableTransaction>(
+        transaction: T
+      ): Promise<T>;
+      signAllTransactions<T extends SendableTransaction>(
+        transactions: T[]
+      ): Promise<T[]>;
+      signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }>;
       isConnected: boolean;
       publicKey: PublicKey | null;
     };
     backpack?: {
       connect(): Promise<{ publicKey: PublicKey }>;
       disconnect(): Promise<void>;
-      signTransaction(transaction: Transaction): Promise<Transaction>;
-      signAllTransactions(transactions: Transaction[]): Promise<Transaction[]>;
+      signTransaction<T extends SendableTransaction>(
+        transaction: T
+      ): Promise<T>;
+      signAllTransactions<T extends SendableTransaction>(
+        transactions: T[]
+      ): Promise<T[]>;
+      signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }>;
       isConnected: boolean;
       publicKey: PublicKey | null;
     };
@@ -92,22 +132,32 @@ export class PhantomWalletAdapter implements WalletAdapter {
     }
   }
 
-  async signTransaction(transaction: Transaction): Promise<Transaction> {
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
     if (!window?.solana?.isConnected) {
       throw new Error("Phantom wallet not connected");
     }
     return await window.solana.signTransaction(transaction);
   }
 
-  async signAllTransactions(
-    transactions: Transaction[]
-  ): Promise<Transaction[]> {
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
     if (!window?.solana?.isConnected) {
       throw new Error("Phantom wallet not connected");
     }
     return await window.solana.signAllTransactions(transactions);
   }
 
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!window?.solana?.isConnected) {
+      throw new Error("Phantom wallet not connected");
+    }
+    const { signature } = await window.solana.signMessage(message);
+    return signature;
+  }
+
   isConnected(): boolean {
     return window?.solana?.isConnected || false;
   }
@@ -139,22 +189,32 @@ export class SolflareWalletAdapter implements WalletAdapter {
     }
   }
 
-  async signTransaction(transaction: Transaction): Promise<Transaction> {
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
     if (!window?.solflare?.isConnected) {
       throw new Error("Solflare wallet not connected");
     }
     return await window.solflare.signTransaction(transaction);
   }
 
-  async signAllTransactions(
-    transactions: Transaction[]
-  ): Promise<Transaction[]> {
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
     if (!window?.solflare?.isConnected) {
       throw new Error("Solflare wallet not connected");
     }
     return await window.solflare.signAllTransactions(transactions);
   }
 
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!window?.solflare?.isConnected) {
+      throw new Error("Solflare wallet not connected");
+    }
+    const { signature } = await window.solflare.signMessage(message);
+    return signature;
+  }
+
   isConnected(): boolean {
     return window?.solflare?.isConnected || false;
   }
@@ -186,22 +246,32 @@ export class BackpackWalletAdapter implements WalletAdapter {
     }
   }
 
-  async signTransaction(transaction: Transaction): Promise<Transaction> {
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
     if (!window?.backpack?.isConnected) {
       throw new Error("Backpack wallet not connected");
     }
     return await window.backpack.signTransaction(transaction);
   }
 
-  async signAllTransactions(
-    transactions: Transaction[]
-  ): Promise<Transaction[]> {
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
     if (!window?.backpack?.isConnected) {
       throw new Error("Backpack wallet not connected");
     }
     return await window.backpack.signAllTransactions(transactions);
   }
 
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!window?.backpack?.isConnected) {
+      throw new Error("Backpack wallet not connected");
+    }
+    const { signature } = await window.backpack.signMessage(message);
+    return signature;
+  }
+
   isConnected(): boolean {
     return window?.backpack?.isConnected || false;
   }
@@ -230,22 +300,29 @@ export class KeypairWalletAdapter implements WalletAdapter {
     this._isConnected = false;
   }
 
-  async signTransaction(transaction: Transaction): Promise<Transaction> {
+  async signTransaction<T extends SendableTransaction>(
+    transaction: T
+  ): Promise<T> {
     if (!this._isConnected) {
       throw new Error("Wallet not connected");
     }
-    transaction.sign(this.keypair);
-    return transaction;
+    return new KeypairSigner(this.keypair).signTransaction(transaction);
   }
 
-  async signAllTransactions(
-    transactions: Transaction[]
-  ): Promise<Transaction[]> {
+  async signAllTransactions<T extends SendableTransaction>(
+    transactions: T[]
+  ): Promise<T[]> {
     if (!this._isConnected) {
       throw new Error("Wallet not connected");
     }
-    transactions.forEach((tx) => tx.sign(this.keypair));
-    return transactions;
+    return new KeypairSigner(this.keypair).signAllTransactions(transactions);
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this._isConnected) {
+      throw new Error("Wallet not connected");
+    }
+    return new KeypairSigner(this.keypair).signMessage(message);
   }
 
   isConnected(): boolean {
@@ -265,9 +342,24 @@ export class SolanaWalletManager {
   private connection: Connection;
   private currentAdapter: WalletAdapter | null = null;
   private transactions: WalletTransaction[] = [];
-
-  constructor(connection: Connection) {
+  private executor: TransactionExecutor;
+  private priorityFees: PriorityFeeService;
+  private simulator: TransactionSimulator;
+  private logger: Logger;
+
+  constructor(
+    connection: Connection,
+    executor?: TransactionExecutor,
+    options: ServiceOptions = {}
+  ) {
     this.connection = connection;
+    this.executor = executor || new TransactionExecutor(connection);
+    this.priorityFees =
+      options.priorityFees || new PriorityFeeService(connection);
+    this.simulator = new TransactionSimulator(connection);
+    this.logger = withLogFields(options.logger || silentLogger, {
+      service: "SolanaWalletManager",
+    });
   }
 
   getAvailableWallets(): WalletType[] {
@@ -336,20 +428,25 @@ export class SolanaWalletManager {
     if (!publicKey) return null;
 
     try {
-      const balance = await this.connection.getBalance(
-        new PublicKey(publicKey)
+      const balance = TokenAmount.lamports(
+        await this.connection.getBalance(new PublicKey(publicKey))
       );
       return {
         publicKey,
-        balance: balance / LAMPORTS_PER_SOL,
+        balance: balance.toNumber(),
+        balanceAmount: balance,
         isConnected: true,
         walletType: this.currentAdapter.walletType,
       };
     } catch (error) {
-      console.error("Error fetching wallet info:", error);
+      this.logger.warn("Error fetching wallet info", {
+        method: "getWalletInfo",
+        error,
+      });
       return {
         publicKey,
         balance: 0,
+        balanceAmount: TokenAmount.lamports(0),
         isConnected: this.currentAdapter.isConnected(),
         walletType: this.currentAdapter.walletType,
       };
@@ -358,8 +455,12 @@ export class SolanaWalletManager {
 
   async sendSOL(
     toAddress: string,
-    amount: number,
-    options?: { computeUnits?: number; priorityFee?: number }
+    amount: AmountInput,
+    options?: {
+      computeUnits?: number;
+      priorityFee?: number;
+      priority?: PriorityOption;
+    }
   ): Promise<WalletTransaction> {
     if (!this.currentAdapter || !this.currentAdapter.isConnected()) {
       throw new Error("No wallet connected");
@@ -391,32 +492,25 @@ export class SolanaWalletManager {
         SystemProgram.transfer({
           fromPubkey: new PublicKey(publicKey),
           toPubkey: new PublicKey(toAddress),
-          lamports: amount * LAMPORTS_PER_SOL,
+          lamports: TokenAmount.sol(amount).raw,
         })
       );
 
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = new PublicKey(publicKey);
+      // Estimated priority replaces the raw priorityFee price
+      if (options?.priority) {
+        await this.priorityFees.applyToTransaction(
+          transaction,
+          options.priority
+        );
+      }
 
-      const signedTransaction = await this.currentAdapter.signTransaction(
-        transaction
-      );
+      transaction.feePayer = new PublicKey(publicKey);
 
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize()
+      return this.recordExecution(
+        await this.executor.execute(transaction, {
+          signer: this.getSigner(),
+        })
       );
-
-      await this.connection.confirmTransaction(signature);
-
-      const result: WalletTransaction = {
-        signature,
-        success: true,
-        timestamp: Date.now(),
-      };
-
-      this.transactions.push(result);
-      return result;
     } catch (error: any) {
       const result: WalletTransaction = {
         success: false,
@@ -429,31 +523,31 @@ export class SolanaWalletManager {
     }
   }
 
+  /**
+   * Sign and send a legacy or versioned transaction with the connected
+   * wallet. The blockhash is refreshed before signing, unless other keys
+   * (e.g. a new account) signed it already, and the transaction is
+   * rebroadcast until it confirms or expires. A priority rebuilds versioned
+   * transactions, resolving their address lookup tables.
+   */
   async executeTransaction(
-    transaction: Transaction
+    transaction: SendableTransaction,
+    options?: { priority?: PriorityOption }
   ): Promise<WalletTransaction> {
     if (!this.currentAdapter || !this.currentAdapter.isConnected()) {
       throw new Error("No wallet connected");
     }
 
     try {
-      const signedTransaction = await this.currentAdapter.signTransaction(
-        transaction
+      const prepared = await this.prepareTransaction(
+        transaction,
+        options?.priority
       );
-      const signature = await this.connection.sendRawTransaction(
-        signedTransaction.serialize()
+      return this.recordExecution(
+        await this.executor.execute(prepared, {
+          signer: this.getSigner(),
+        })
       );
-
-      await this.connection.confirmTransaction(signature);
-
-      const result: WalletTransaction = {
-        signature,
-        success: true,
-        timestamp: Date.now(),
-      };
-
-      this.transactions.push(result);
-      return result;
     } catch (error: any) {
       const result: WalletTransaction = {
         success: false,
@@ -466,6 +560,55 @@ export class SolanaWalletManager {
     }
   }
 
+  /**
+   * Sign and send transactions one after another (e.g. Raydium V0 swaps),
+   * stopping at the first one that does not confirm
+   */
+  async executeTransactions(
+    transactions: SendableTransaction[],
+    options?: { priority?: PriorityOption }
+  ): Promise<WalletTransaction[]> {
+    const results: WalletTransaction[] = [];
+    for (const transaction of transactions) {
+      const result = await this.executeTransaction(transaction, options);
+      results.push(result);
+      if (!result.success) break;
+    }
+    return results;
+  }
+
+  /**
+   * Dry-run a transaction for the connected wallet without signing it
+   */
+  async simulateTransaction(
+    transaction: Transaction | VersionedTransaction
+  ): Promise<SimulationResult> {
+    return this.simulator.simulate(transaction, this.getSigner().publicKey);
+  }
+
+  /**
+   * Expose the connected wallet as a transaction signer
+   */
+  getSigner(): Signer {
+    const adapter = this.currentAdapter;
+    const publicKey = adapter?.getPublicKey();
+    if (!adapter || !publicKey) {
+      throw new Error("No wallet connected");
+    }
+
+    return new WalletSigner({
+      publicKey: new PublicKey(publicKey),
+      signTransaction: (transaction) => adapter.signTransaction(transaction),
+      signAllTransactions: (transactions) =>
+        adapter.signAllTransactions(transactions),
+      signMessage: adapter.signMessage?.bind(adapter),
+    });
+  }
+
+  getExecutor(): TransactionExecutor {
+    return this.executor;
+  }
+
   getCurrentAdapter(): WalletAdapter | null {
     return this.currentAdapter;
   }
@@ -474,7 +617,7 @@ export class SolanaWalletManager {
     return [...this.transactions];
   }
 
-  async airdropSOL(amount: number = 1): Promise<WalletTransaction> {
+  async airdropSOL(amount: AmountInput = 1): Promise<WalletTransaction> {
     if (!this.currentAdapter || !this.currentAdapter.isConnected()) {
       throw new Error("No wallet connected");
     }
@@ -485,7 +628,7 @@ export class SolanaWalletManager {
     try {
       const signature = await this.connection.requestAirdrop(
         new PublicKey(publicKey),
-        amount * LAMPORTS_PER_SOL
+        TokenAmount.sol(amount).toRawNumber()
       );
 
       await this.connection.confirmTransaction(signature);
@@ -518,6 +661,34 @@ export class SolanaWalletManager {
       return false;
     }
   }
+
+  private async prepareTransaction(
+    transaction: SendableTransaction,
+    priority?: PriorityOption
+  ): Promise<SendableTransaction> {
+    if (!priority) return transaction;
+    if (transaction instanceof VersionedTransaction) {
+      return this.priorityFees.applyToVersionedTransaction(
+        transaction,
+        priority
+      );
+    }
+    return this.priorityFees.applyToTransaction(transaction, priority);
+  }
+
+  private recordExecution(execution: ExecutionResult): WalletTransaction {
+    const result: WalletTransaction = {
+      signature: execution.signature,
+      success: execution.status === "confirmed",
+      status: execution.status,
+      error: execution.error,
+      logs: execution.logs,
+      timestamp: Date.now(),
+    };
+
+    this.transactions.push(result);
+    return result;
+  }
 }
 
 export default SolanaWalletManager;
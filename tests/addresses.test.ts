@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import { Keypair } from "@solana/web3.js";
+import { AddressRegistry } from "../src/utils/addresses";
+import { getClusterUrl } from "../src/utils/connection";
+import { ForgeXSDKError } from "../src/utils/errors";
+
+describe("AddressRegistry", () => {
+  it("resolves the defaults of each network", () => {
+    const mainnet = new AddressRegistry("mainnet-beta");
+    const devnet = new AddressRegistry("devnet");
+    const localnet = new AddressRegistry("localnet");
+
+    expect(mainnet.require("solend", "program").toBase58()).toBe(
+      "So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo"
+    );
+    expect(devnet.require("solend", "program").toBase58()).toBe(
+      "ALend7Ketfx5bxh6ghsCDXAoDrhvEmsXT3cynB6aPLgx"
+    );
+    expect(localnet.get("kamino", "market")).toEqual(
+      mainnet.get("kamino", "market")
+    );
+    expect(devnet.get("kamino", "market")).toBeUndefined();
+    expect(getClusterUrl("localnet")).toBe("http://127.0.0.1:8899");
+  });
+
+  it("applies overrides on top of the defaults", () => {
+    const market = Keypair.generate().publicKey;
+    const addresses = new AddressRegistry("devnet", {
+      kamino: { market: market.toBase58() },
+      squads: { program: market },
+    });
+
+    expect(addresses.require("kamino", "market").equals(market)).toBe(true);
+    expect(addresses.require("squads", "program").equals(market)).toBe(true);
+    expect(Object.keys(addresses.getAll("meteora"))).toEqual([
+      "dlmmProgram",
+      "vaultProgram",
+    ]);
+  });
+
+  it("names the missing address and rejects invalid ones", () => {
+    let error: unknown;
+    try {
+      new AddressRegistry("testnet").require("kamino", "lendingProgram");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect((error as ForgeXSDKError).code).toBe("NOT_FOUND");
+    expect((error as ForgeXSDKError).message).toContain(
+      "kamino.lendingProgram"
+    );
+
+    expect(
+      () => new AddressRegistry("devnet", { solend: { program: "nope" } })
+    ).toThrow("Invalid solend.program address");
+  });
+});
@@ -0,0 +1,27 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { BirdeyeClient } from "../src/birdeye";
+import { HttpFixture } from "./helpers/fixtures";
+
+const fixture = new HttpFixture("birdeye");
+const birdeye = new BirdeyeClient(process.env.BIRDEYE_API_KEY || "test-key", {
+  httpClient: fixture.httpClient(),
+});
+
+afterAll(() => fixture.save());
+
+describe("BirdeyeClient.getTokenPrice", () => {
+  it("unwraps the data envelope", async () => {
+    const price = await birdeye.getTokenPrice(
+      "So11111111111111111111111111111111111111112"
+    );
+
+    expect(price.value).toBe(151.23);
+    expect(price.updateUnixTime).toBe(1717000000);
+  });
+
+  it("wraps request failures", async () => {
+    await expect(birdeye.getTokenPrice("invalid")).rejects.toThrow(
+      "Failed to get token price: Request failed with status code 400"
+    );
+  });
+});
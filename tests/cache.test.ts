@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test";
+import { MemoryCacheStore, ResponseCache } from "../src/utils/cache";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = new Date("2026-01-01T00:00:00Z").getTime();
+
+// Fetcher returning "v1", "v2", ... and counting its calls
+function counter() {
+  const fetcher = async () => `v${++fetcher.calls}`;
+  fetcher.calls = 0;
+  return fetcher;
+}
+
+// Lets a background refresh settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("MemoryCacheStore", () => {
+  const entry = (value: string, ttlMs = MINUTE) => ({
+    value,
+    expiresAt: Date.now() + ttlMs,
+    staleUntil: Date.now() + ttlMs,
+  });
+
+  it("evicts the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry("a"));
+    store.set("b", entry("b"));
+    store.get("a");
+    store.set("c", entry("c"));
+
+    expect(store.keys()).toEqual(["a", "c"]);
+    expect(store.get("b")).toBeUndefined();
+  });
+
+  it("drops entries past their stale window", () => {
+    setSystemTime(NOW);
+    const store = new MemoryCacheStore();
+    store.set("a", entry("a", MINUTE));
+
+    setSystemTime(NOW + MINUTE - 1);
+    expect(store.get("a")?.value).toBe("a");
+    setSystemTime(NOW + MINUTE);
+    expect(store.get("a")).toBeUndefined();
+    expect(store.keys()).toEqual([]);
+  });
+});
+
+describe("ResponseCache", () => {
+  it("serves fresh values, then refreshes stale ones in the background", async () => {
+    setSystemTime(NOW);
+    const cache = new ResponseCache({
+      policies: { list: { ttlMs: MINUTE, staleWhileRevalidateMs: HOUR } },
+    });
+    const fetcher = counter();
+
+    expect(await cache.wrap("list", {}, fetcher)).toBe("v1");
+    expect(await cache.wrap("list", {}, fetcher)).toBe("v1");
+    expect(fetcher.calls).toBe(1);
+
+    setSystemTime(NOW + 2 * MINUTE);
+    expect(await cache.wrap("list", {}, fetcher)).toBe("v1");
+    await settle();
+    expect(fetcher.calls).toBe(2);
+    expect(await cache.wrap("list", {}, fetcher)).toBe("v2");
+
+    setSystemTime(NOW + 3 * HOUR);
+    expect(await cache.wrap("list", {}, fetcher)).toBe("v3");
+  });
+
+  it("keeps serving the stale value when revalidation fails", async () => {
+    setSystemTime(NOW);
+    const cache = new ResponseCache({
+      policies: { list: { ttlMs: MINUTE, staleWhileRevalidateMs: HOUR } },
+    });
+    await cache.wrap("list", {}, async () => "cached");
+
+    setSystemTime(NOW + 2 * MINUTE);
+    let attempts = 0;
+    const failing = async () => {
+      attempts++;
+      throw new Error("API down");
+    };
+    expect(await cache.wrap("list", {}, failing)).toBe("cached");
+    await settle();
+    expect(await cache.wrap("list", {}, failing)).toBe("cached");
+    expect(attempts).toBe(2);
+
+    setSystemTime(NOW + 2 * HOUR);
+    await expect(cache.wrap("list", {}, failing)).rejects.toThrow("API down");
+  });
+
+  it("shares one request between concurrent misses and keys by args", async () => {
+    const cache = new ResponseCache();
+    const fetcher = counter();
+
+    const [first, second] = await Promise.all([
+      cache.wrap("search", { q: "bonk" }, fetcher),
+      cache.wrap("search", { q: "bonk" }, fetcher),
+    ]);
+    expect([first, second]).toEqual(["v1", "v1"]);
+    expect(await cache.wrap("search", { q: "wif" }, fetcher)).toBe("v2");
+
+    await cache.invalidate("search", { q: "bonk" });
+    expect(await cache.wrap("search", { q: "bonk" }, fetcher)).toBe("v3");
+    await cache.invalidate("search");
+    expect(await cache.wrap("search", { q: "wif" }, fetcher)).toBe("v4");
+  });
+
+  it("applies the default policies", () => {
+    const cache = new ResponseCache({
+      policies: { "jupiter:searchTokens": { ttlMs: 1000 } },
+    });
+
+    expect(cache.getPolicy("mayan:getAllSolanaTokens")).toEqual({
+      ttlMs: HOUR,
+      staleWhileRevalidateMs: 24 * HOUR,
+    });
+    expect(cache.getPolicy("sanctum:getAllLsts").ttlMs).toBe(10 * MINUTE);
+    expect(cache.getPolicy("jupiter:searchTokens")).toEqual({ ttlMs: 1000 });
+    expect(cache.getPolicy("birdeye:getPrice")).toBe(
+      ResponseCache.DEFAULT_POLICY
+    );
+    expect(ResponseCache.DEFAULT_POLICY.ttlMs).toBe(MINUTE);
+  });
+});
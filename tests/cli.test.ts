@@ -0,0 +1,163 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Keypair } from "@solana/web3.js";
+import { formatTable, runCli, type CliIO } from "../src/cli";
+import { TOKENS } from "../src/utils/connection";
+import { TokenAmount } from "../src/utils/token-amount";
+import { TokenRegistry } from "../src/utils/token-registry";
+import type { SDKConfig } from "../src/types";
+
+// Runs the CLI against fake services, capturing output and the SDK config
+async function run(argv: string[], services: Record<string, unknown> = {}) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const configs: SDKConfig[] = [];
+  const io: CliIO = {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+    env: { FORGEX_CONFIG: writeJson("config.json", { network: "devnet" }) },
+    createSdk: (config) => {
+      configs.push(config);
+      return {
+        tokens: new TokenRegistry(),
+        plugins: {
+          loadRequired: async (name: string) => services[name],
+        },
+      } as any;
+    },
+  };
+  const code = await runCli(argv, io);
+  return {
+    code,
+    stdout: stdout.join("\n"),
+    stderr: stderr.join("\n"),
+    config: configs[0],
+  };
+}
+
+function writeJson(name: string, value: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), "forgex-cli-")), name);
+  writeFileSync(path, JSON.stringify(value));
+  return path;
+}
+
+describe("forgex CLI", () => {
+  const jupiter = {
+    params: [] as any[],
+    getQuote: async (params: any) => {
+      jupiter.params.push(params);
+      return {
+        inAmount: "1500000000",
+        outAmount: "250120000",
+        otherAmountThreshold: "248869400",
+        priceImpactPct: "0.001",
+        slippageBps: params.slippageBps,
+        routePlan: [{ swapInfo: { label: "Whirlpool" } }],
+      };
+    },
+  };
+
+  it("quotes exact amounts resolved through the token registry", async () => {
+    const result = await run(
+      ["quote", "SOL", "USDC", "1.5", "--slippage-bps", "30"],
+      { jupiter }
+    );
+
+    expect(result.code).toBe(0);
+    expect(result.config.connection.network).toBe("devnet");
+    expect(jupiter.params[0].inputMint).toBe(TOKENS.SOL);
+    expect(jupiter.params[0].outputMint).toBe(TOKENS.USDC);
+    expect(jupiter.params[0].amount.raw).toBe(1_500_000_000n);
+    expect(result.stdout).toContain("in              1.5 SOL");
+    expect(result.stdout).toContain("out             250.12 USDC");
+    expect(result.stdout).toContain("route           Whirlpool");
+
+    const json = await run(["--json", "quote", "SOL", "USDC", "1.5"], {
+      jupiter,
+    });
+    expect(JSON.parse(json.stdout).outAmount).toBe("250120000");
+    expect(jupiter.params[1].slippageBps).toBe(50);
+  });
+
+  it("simulates with --dry-run instead of sending", async () => {
+    const keypair = Keypair.generate();
+    const keypairPath = writeJson("id.json", Array.from(keypair.secretKey));
+    const approvals: any[] = [];
+    const squads = {
+      approveProposal: async (multisig: any, index: bigint, member: any) => {
+        approvals.push({ multisig, index, member });
+        return { programId: multisig };
+      },
+      simulateInstructions: async () => ({
+        success: false,
+        unitsConsumed: 1200,
+        logs: [],
+        error: { message: "Proposal is not active" },
+        balanceChanges: { sol: { change: -5000 }, tokens: [] },
+      }),
+      buildTransaction: async () => {
+        throw new Error("should not send");
+      },
+    };
+    const multisig = Keypair.generate().publicKey.toBase58();
+
+    const result = await run(
+      ["squads", "approve", multisig, "7", "--dry-run", "-k", keypairPath],
+      { squads }
+    );
+
+    expect(result.code).toBe(1);
+    expect(approvals[0].index).toBe(7n);
+    expect(approvals[0].member.equals(keypair.publicKey)).toBe(true);
+    expect(result.config.signer).toBeInstanceOf(Keypair);
+    expect(result.stdout).toContain("solChange      -0.000005");
+    expect(result.stdout).toContain("error          Proposal is not active");
+  });
+
+  it("reports usage and service errors with distinct exit codes", async () => {
+    const unknown = await run(["bridge", "now"]);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain("Unknown command: bridge now");
+
+    const missing = await run(["quote", "SOL"], { jupiter });
+    expect(missing.code).toBe(2);
+
+    const badFlag = await run(["quote", "--slippage", "5"]);
+    expect(badFlag.code).toBe(2);
+
+    const failing = await run(["--json", "dexscreener", "search", "bonk"], {
+      dexscreener: {
+        searchPairs: async () => {
+          throw new Error("Request failed with status code 429");
+        },
+      },
+    });
+    expect(failing.code).toBe(1);
+    expect(JSON.parse(failing.stderr).error.code).toBe("RATE_LIMITED");
+
+    const help = await run(["--help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain("forgex squads propose");
+  });
+
+  it("formats tables from rows and objects", () => {
+    expect(
+      formatTable([
+        { pair: "BONK/SOL", liquidity: 1200.5 },
+        { pair: "BONK/USDC", volume: { h24: 10 } },
+      ])
+    ).toBe(
+      [
+        "pair       liquidity  volume",
+        "BONK/SOL   1200.5",
+        'BONK/USDC             {"h24":10}',
+      ].join("\n")
+    );
+    expect(formatTable({ sol: TokenAmount.sol("2.5"), error: undefined })).toBe(
+      "sol  2.5"
+    );
+    expect(formatTable([])).toBe("(none)");
+  });
+});
@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { DexScreenerClient } from "../src/dexscreener";
+import { HttpFixture } from "./helpers/fixtures";
+
+const JUP = "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN";
+const UNLISTED = "11111111111111111111111111111111";
+
+const fixture = new HttpFixture("dexscreener");
+const dexscreener = new DexScreenerClient({
+  httpClient: fixture.httpClient(),
+});
+
+afterAll(() => fixture.save());
+
+describe("DexScreenerClient", () => {
+  it("getBestPairByLiquidity picks the deepest pool", async () => {
+    const pair = await dexscreener.getBestPairByLiquidity("solana", JUP);
+
+    expect(pair?.pairAddress).toBe("pair-orca");
+    expect(pair?.liquidity.usd).toBe(1250000);
+  });
+
+  it("getBestPairByLiquidity returns null for unlisted tokens", async () => {
+    expect(
+      await dexscreener.getBestPairByLiquidity("solana", UNLISTED)
+    ).toBeNull();
+  });
+
+  it("getTokenPairsWithMinLiquidity filters on USD liquidity", async () => {
+    const pairs = await dexscreener.getTokenPairsWithMinLiquidity(
+      "solana",
+      JUP,
+      100000
+    );
+
+    expect(pairs.map((pair) => pair.pairAddress)).toEqual([
+      "pair-raydium",
+      "pair-orca",
+    ]);
+  });
+
+  it("getTokenPairsByVolume sorts by 24h volume", async () => {
+    const pairs = await dexscreener.getTokenPairsByVolume("solana", JUP);
+
+    expect(pairs.map((pair) => pair.pairAddress)).toEqual([
+      "pair-orca",
+      "pair-raydium",
+      "pair-meteora",
+    ]);
+  });
+
+  it("getActivePairs counts 5m buys and sells", async () => {
+    const pairs = await dexscreener.getActivePairs("solana", JUP, 5);
+
+    expect(pairs.map((pair) => pair.pairAddress)).toEqual([
+      "pair-orca",
+      "pair-meteora",
+    ]);
+  });
+});
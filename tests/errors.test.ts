@@ -0,0 +1,216 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ForgeXSDKError,
+  classifyError,
+  type ErrorCode,
+} from "../src/utils/errors";
+import { TransactionExecutor } from "../src/utils/transaction-executor";
+
+const JUPITER = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+
+// Shape of an axios error carrying a response
+function httpError(status: number, data: unknown = {}) {
+  return {
+    message: `Request failed with status code ${status}`,
+    response: { status, data },
+  };
+}
+
+describe("classifyError", () => {
+  const httpCases: [string, unknown, ErrorCode, string][] = [
+    ["429", httpError(429), "RATE_LIMITED", "status code 429"],
+    ["401", httpError(401), "UNAUTHORIZED", "status code 401"],
+    ["403", httpError(403), "UNAUTHORIZED", "status code 403"],
+    ["404", httpError(404), "NOT_FOUND", "status code 404"],
+    ["408", httpError(408), "TIMEOUT", "status code 408"],
+    [
+      "400 with a known reason",
+      httpError(400, { error: "Insufficient balance for swap" }),
+      "INSUFFICIENT_FUNDS",
+      "Insufficient balance for swap",
+    ],
+    [
+      "422 with an API message",
+      httpError(422, { message: "Invalid mint" }),
+      "INVALID_INPUT",
+      "Invalid mint",
+    ],
+    [
+      "nested API error",
+      httpError(400, { error: { message: "Slippage tolerance exceeded" } }),
+      "SLIPPAGE_EXCEEDED",
+      "Slippage tolerance exceeded",
+    ],
+    ["500", httpError(500), "API_ERROR", "status code 500"],
+    ["503", httpError(503), "API_ERROR", "status code 503"],
+  ];
+
+  it.each(httpCases)(
+    "maps HTTP %s responses by status",
+    (_, error, code, message) => {
+      const classified = classifyError(error);
+      expect(classified.code).toBe(code);
+      expect(classified.message).toContain(message);
+      expect(classified.status).toBe((error as any).response.status);
+      expect(classified.details).toBe((error as any).response.data);
+    }
+  );
+
+  const messageCases: [string, unknown, ErrorCode][] = [
+    ["cancelled", { code: "ERR_CANCELED", message: "canceled" }, "CANCELLED"],
+    [
+      "axios timeout",
+      { code: "ECONNABORTED", message: "timeout of 30000ms exceeded" },
+      "TIMEOUT",
+    ],
+    [
+      "DNS failure",
+      new Error("getaddrinfo ENOTFOUND api.example.com"),
+      "NETWORK_ERROR",
+    ],
+    ["fetch failure", new TypeError("fetch failed"), "NETWORK_ERROR"],
+    [
+      "RPC expired blockhash",
+      new Error(
+        "failed to send transaction: Transaction simulation failed: Blockhash not found"
+      ),
+      "BLOCKHASH_EXPIRED",
+    ],
+    [
+      "RPC block height exceeded",
+      new Error("Signature 5x has expired: block height exceeded"),
+      "BLOCKHASH_EXPIRED",
+    ],
+    [
+      "RPC rate limit",
+      new Error("429 Too Many Requests: rate limit exceeded"),
+      "RATE_LIMITED",
+    ],
+    [
+      "RPC missing lamports",
+      new Error(
+        "Attempt to debit an account but found no record of a prior credit."
+      ),
+      "INSUFFICIENT_FUNDS",
+    ],
+    ["missing account", new Error("Account not found"), "NOT_FOUND"],
+    [
+      "uninitialized service",
+      new Error("Drift client not initialized, call init() first"),
+      "NOT_INITIALIZED",
+    ],
+    ["string", "something odd", "UNKNOWN"],
+    ["anything else", new Error("boom"), "UNKNOWN"],
+  ];
+
+  it.each(messageCases)("maps %s by message", (_, error, code) => {
+    expect(classifyError(error).code).toBe(code);
+  });
+
+  it("decodes Anchor errors from program logs", () => {
+    const logs = [
+      `Program ${JUPITER} invoke [1]`,
+      "Program log: AnchorError occurred. Error Code: SlippageToleranceExceeded. Error Number: 6001. Error Message: Slippage tolerance exceeded.",
+      `Program ${JUPITER} failed: custom program error: 0x1771`,
+    ];
+    const classified = classifyError({
+      err: { InstructionError: [2, { Custom: 6001 }] },
+      logs,
+    });
+
+    expect(classified.code).toBe("SLIPPAGE_EXCEEDED");
+    expect(classified.message).toBe(
+      "Instruction 2 failed: SlippageToleranceExceeded: Slippage tolerance exceeded"
+    );
+    expect(classified.programError).toMatchObject({
+      instructionIndex: 2,
+      code: 6001,
+      name: "SlippageToleranceExceeded",
+      programId: JUPITER,
+    });
+    expect(classified.logs).toBe(logs);
+  });
+
+  it("classifies SPL failures from their log reason", () => {
+    const classified = classifyError({
+      message: "Transaction simulation failed",
+      transactionLogs: [
+        "Program log: Instruction: Transfer",
+        "Program log: Error: insufficient funds",
+        `Program ${TOKEN_PROGRAM} failed: custom program error: 0x1`,
+      ],
+    });
+
+    expect(classified.code).toBe("INSUFFICIENT_FUNDS");
+    expect(classified.programError).toMatchObject({
+      code: 1,
+      programId: TOKEN_PROGRAM,
+    });
+  });
+
+  it("falls back to PROGRAM_ERROR for unknown program failures", () => {
+    const custom = classifyError({ InstructionError: [0, { Custom: 3 }] });
+    expect(custom.code).toBe("PROGRAM_ERROR");
+    expect(custom.message).toBe(
+      "Instruction 0 failed: custom program error 0x3"
+    );
+    expect(custom.programError.code).toBe(3);
+
+    const builtin = classifyError({
+      transactionError: { InstructionError: [1, "InvalidAccountData"] },
+    });
+    expect(builtin.code).toBe("PROGRAM_ERROR");
+    expect(builtin.message).toBe("Instruction 1 failed: InvalidAccountData");
+  });
+});
+
+describe("ForgeXSDKError", () => {
+  it("wraps thrown values with their context", () => {
+    const cause = httpError(429);
+    const error = ForgeXSDKError.from(cause, {
+      service: "JupiterService",
+      method: "getQuote",
+    });
+
+    expect(error.code).toBe("RATE_LIMITED");
+    expect(error.message).toBe(
+      "getQuote failed: Request failed with status code 429"
+    );
+    expect(error.status).toBe(429);
+    expect(error.cause).toBe(cause);
+    expect(ForgeXSDKError.from(error)).toBe(error);
+  });
+
+  it("turns unconfirmed executions into classified errors", () => {
+    const expired = () =>
+      TransactionExecutor.assertConfirmed({ status: "expired", attempts: 3 });
+    expect(expired).toThrow(ForgeXSDKError);
+    expect(expired).toThrow("Transaction expired");
+
+    let error: ForgeXSDKError;
+    try {
+      TransactionExecutor.assertConfirmed({
+        status: "failed",
+        attempts: 1,
+        transactionError: { InstructionError: [0, { Custom: 1 }] },
+        logs: [
+          "Program log: Error: insufficient funds",
+          `Program ${TOKEN_PROGRAM} failed: custom program error: 0x1`,
+        ],
+      });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error.code).toBe("INSUFFICIENT_FUNDS");
+    expect(error.programError.programId).toBe(TOKEN_PROGRAM);
+
+    expect(() =>
+      TransactionExecutor.assertConfirmed({
+        status: "failed",
+        attempts: 1,
+        error: "custom failure",
+      })
+    ).toThrow(expect.objectContaining({ code: "TRANSACTION_FAILED" }));
+  });
+});
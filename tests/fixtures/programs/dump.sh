@@ -0,0 +1,10 @@
+#!/usr/bin/env sh
+# Dump the mainnet program binaries loaded by the integration tests.
+# Requires the Solana CLI; re-run after a program upgrade to pick it up.
+set -e
+
+DIR="$(cd "$(dirname "$0")" && pwd)"
+RPC_URL="${SOLANA_RPC_URL:-https://api.mainnet-beta.solana.com}"
+
+solana program dump -u "$RPC_URL" \
+  SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf "$DIR/squads_multisig.so"
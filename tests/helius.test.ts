@@ -0,0 +1,46 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { Connection } from "@solana/web3.js";
+import { HeliusClient } from "../src/helius";
+import { HttpFixture } from "./helpers/fixtures";
+
+const fixture = new HttpFixture("helius");
+const helius = new HeliusClient(
+  new Connection("http://127.0.0.1:8899"),
+  process.env.HELIUS_API_KEY || "test-key",
+  { httpClient: fixture.httpClient() }
+);
+
+afterAll(() => fixture.save());
+
+describe("HeliusClient.getNftMetadata", () => {
+  it("maps the first result onto HeliusNftMetadata", async () => {
+    const nft = await helius.getNftMetadata(
+      "DRiP2Pn2K6fuMLKQmt5rZWyHiUZ6WK3GChEySUpHSS4x"
+    );
+
+    expect(nft).toEqual({
+      mint: "DRiP2Pn2K6fuMLKQmt5rZWyHiUZ6WK3GChEySUpHSS4x",
+      name: "DRiP #1",
+      symbol: "DRIP",
+      description: "A DRiP drop",
+      image: "https://arweave.net/drip-1.png",
+      attributes: [{ trait_type: "Season", value: "1" }],
+      collection: { name: "DRiP", family: "DRiP" },
+      properties: { category: "image" },
+      creators: [
+        { address: "DRiPvo8QmPUmTYeVNuD1NpNVtYNXi3RzBHkE3ZHVGjfF", share: 100 },
+      ],
+      owner: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+      tokenStandard: "NonFungible",
+      royalty: { basis_points: 500 },
+    });
+  });
+
+  it("throws when the mint has no metadata", async () => {
+    await expect(
+      helius.getNftMetadata("11111111111111111111111111111111")
+    ).rejects.toThrow(
+      "No metadata found for NFT 11111111111111111111111111111111"
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { HttpClient } from "../../src/utils/http";
+
+export type FixtureMode = "record" | "replay";
+
+/**
+ * One recorded request/response pair, as stored on disk
+ */
+export interface FixtureInteraction {
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    data: unknown;
+  };
+}
+
+export interface FixtureOptions {
+  /** Defaults to "record" when FIXTURES=record, "replay" otherwise */
+  mode?: FixtureMode;
+  dir?: string;
+}
+
+const FIXTURES_DIR = path.join(__dirname, "..", "fixtures");
+
+// Query parameters that carry credentials; never written to disk
+const REDACTED_PARAMS = ["api-key", "apiKey", "api_key"];
+
+/**
+ * Records HTTP interactions into `tests/fixtures/<name>.json` and replays
+ * them deterministically. Services take the fixture through `httpClient()`;
+ * third-party SDKs with their own axios instance (Shyft) through
+ * `installGlobal()`.
+ *
+ * Re-record with `FIXTURES=record bun test <file>` and real API keys in the
+ * environment.
+ */
+export class HttpFixture {
+  readonly mode: FixtureMode;
+  private file: string;
+  private interactions: FixtureInteraction[];
+  private used = new Set<number>();
+  private passthrough: AxiosAdapter;
+
+  constructor(name: string, options: FixtureOptions = {}) {
+    this.mode =
+      options.mode || (process.env.FIXTURES === "record" ? "record" : "replay");
+    this.file = path.join(options.dir || FIXTURES_DIR, `${name}.json`);
+    this.passthrough = axios.getAdapter(axios.defaults.adapter);
+
+    if (this.mode === "replay") {
+      if (!fs.existsSync(this.file)) {
+        throw new Error(
+          `Missing fixture ${this.file}. Record it with FIXTURES=record.`
+        );
+      }
+      this.interactions = JSON.parse(fs.readFileSync(this.file, "utf8"));
+    } else {
+      this.interactions = [];
+    }
+  }
+
+  /**
+   * Axios adapter serving (or recording) this fixture
+   */
+  readonly adapter: AxiosAdapter = async (config) => {
+    const request = describeRequest(config);
+
+    if (this.mode === "record") {
+      const response = await this.passthrough({
+        ...config,
+        validateStatus: () => true,
+      });
+      this.interactions.push({
+        request,
+        response: { status: response.status, data: parseJson(response.data) },
+      });
+      return settle(config, response.status, response.data);
+    }
+
+    const interaction = this.match(request);
+    return settle(
+      config,
+      interaction.response.status,
+      interaction.response.data
+    );
+  };
+
+  /**
+   * HttpClient routed through the fixture. Replays skip retries and rate
+   * limits so tests run instantly.
+   */
+  httpClient(): HttpClient {
+    if (this.mode === "record") {
+      return new HttpClient({ adapter: this.adapter });
+    }
+
+    const unlimited = Object.fromEntries(
+      Object.keys(HttpClient.DEFAULT_RATE_LIMITS).map((host) => [
+        host,
+        { requestsPerSecond: 1e6, burst: 1e6 },
+      ])
+    );
+    return new HttpClient({
+      adapter: this.adapter,
+      retries: 0,
+      rateLimits: unlimited,
+    });
+  }
+
+  /**
+   * Route every axios instance created from now on through the fixture.
+   * Returns a function restoring the previous adapters.
+   */
+  installGlobal(): () => void {
+    const restores = globalAxiosInstances().map((instance) => {
+      const previous = instance.defaults.adapter;
+      instance.defaults.adapter = this.adapter;
+      return () => {
+        instance.defaults.adapter = previous;
+      };
+    });
+    return () => restores.forEach((restore) => restore());
+  }
+
+  /**
+   * Write recorded interactions to disk (no-op when replaying)
+   */
+  save(): void {
+    if (this.mode !== "record") return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(
+      this.file,
+      JSON.stringify(this.interactions, null, 2) + "\n"
+    );
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  /**
+   * Recorded interactions are served in order; once every match has been
+   * used the last one keeps answering, so repeated calls stay deterministic
+   */
+  private match(request: FixtureInteraction["request"]): FixtureInteraction {
+    const key = requestKey(request);
+    let fallback: number | undefined;
+
+    for (let i = 0; i < this.interactions.length; i++) {
+      if (requestKey(this.interactions[i].request) !== key) continue;
+      if (!this.used.has(i)) {
+        this.used.add(i);
+        return this.interactions[i];
+      }
+      fallback = i;
+    }
+
+    if (fallback !== undefined) return this.interactions[fallback];
+    throw new Error(
+      `No fixture for ${key} in ${this.file}. Re-record with FIXTURES=record.`
+    );
+  }
+}
+
+/**
+ * The ESM axios import and the one CommonJS packages get from
+ * `require("axios")`; under bun they are separate module instances, each
+ * with its own defaults
+ */
+function globalAxiosInstances(): (typeof axios)[] {
+  const required = createRequire(import.meta.url)("axios");
+  return [...new Set([axios, required, required.default])].filter(Boolean);
+}
+
+function describeRequest(
+  config: InternalAxiosRequestConfig
+): FixtureInteraction["request"] {
+  const request: FixtureInteraction["request"] = {
+    method: (config.method || "get").toUpperCase(),
+    url: normalizeUrl(axios.getUri(config)),
+  };
+  if (config.data !== undefined) {
+    request.body = parseJson(config.data);
+  }
+  return request;
+}
+
+/**
+ * Sort query parameters and redact credentials so keys are stable
+ */
+function normalizeUrl(raw: string): string {
+  const url = new URL(raw);
+  for (const param of REDACTED_PARAMS) {
+    if (url.searchParams.has(param)) url.searchParams.set(param, "REDACTED");
+  }
+  url.searchParams.sort();
+  return url.toString();
+}
+
+function requestKey(request: FixtureInteraction["request"]): string {
+  const body =
+    request.body === undefined ? "" : ` ${JSON.stringify(request.body)}`;
+  return `${request.method} ${request.url}${body}`;
+}
+
+function parseJson(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Resolve or reject like axios' own adapters do
+ */
+function settle(
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown
+): Promise<AxiosResponse> {
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (!config.validateStatus || config.validateStatus(status)) {
+    return Promise.resolve(response);
+  }
+  return Promise.reject(
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    )
+  );
+}
+
+export default HttpFixture;
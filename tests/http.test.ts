@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import axios from "axios";
+import { HttpClient } from "../src/utils/http";
+
+interface FakeApi {
+  url: string;
+  host: string;
+  /** Methods of the requests received, in order */
+  calls: string[];
+  stop: () => void;
+}
+
+/**
+ * Local server answering with `responses` in order, then 200s
+ */
+function fakeApi(
+  responses: { status: number; headers?: Record<string, string> }[] = []
+): FakeApi {
+  const calls: string[] = [];
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      calls.push(request.method);
+      const next = responses.shift() || { status: 200 };
+      return Response.json(
+        { ok: next.status === 200 },
+        { status: next.status, headers: next.headers }
+      );
+    },
+  });
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    host: `127.0.0.1:${server.port}`,
+    calls,
+    stop: () => server.stop(true),
+  };
+}
+
+describe("HttpClient", () => {
+  const servers: FakeApi[] = [];
+  const start = (responses?: Parameters<typeof fakeApi>[0]) => {
+    const server = fakeApi(responses);
+    servers.push(server);
+    return server;
+  };
+
+  afterEach(() => {
+    servers.splice(0).forEach((server) => server.stop());
+  });
+
+  it("retries idempotent requests on 429 and 5xx", async () => {
+    const api = start([{ status: 503 }, { status: 429 }, { status: 502 }]);
+    const http = new HttpClient({ retries: 3, retryDelayMs: 1 });
+
+    const response = await http.create({ baseURL: api.url }).get("/pairs");
+
+    expect(response.data).toEqual({ ok: true });
+    expect(api.calls).toEqual(["GET", "GET", "GET", "GET"]);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const api = start([{ status: 500 }, { status: 500 }, { status: 500 }]);
+    const http = new HttpClient({ retries: 2, retryDelayMs: 1 });
+
+    const error = await http
+      .create({ baseURL: api.url })
+      .get("/pairs")
+      .catch((caught) => caught);
+
+    expect(error.response.status).toBe(500);
+    expect(api.calls).toHaveLength(3);
+  });
+
+  it("retries POST only when rate limited", async () => {
+    const failing = start([{ status: 500 }]);
+    const http = new HttpClient({ retryDelayMs: 1 });
+
+    const error = await http
+      .create({ baseURL: failing.url })
+      .post("/transactions", {})
+      .catch((caught) => caught);
+    expect(error.response.status).toBe(500);
+    expect(failing.calls).toEqual(["POST"]);
+
+    const limited = start([{ status: 429 }]);
+    await http.create({ baseURL: limited.url }).post("/transactions", {});
+    expect(limited.calls).toEqual(["POST", "POST"]);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    const api = start([{ status: 429, headers: { "retry-after": "1" } }]);
+    const http = new HttpClient({ retryDelayMs: 1 });
+
+    const startedAt = Date.now();
+    await http.create({ baseURL: api.url }).get("/pairs");
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+    expect(api.calls).toHaveLength(2);
+  });
+
+  it("spaces requests to a host by its rate limit", async () => {
+    const api = start();
+    const http = new HttpClient({
+      rateLimits: { [api.host]: { requestsPerSecond: 10, burst: 1 } },
+    });
+    const instance = http.create({ baseURL: api.url });
+
+    const startedAt = Date.now();
+    await Promise.all([
+      instance.get("/a"),
+      instance.get("/b"),
+      instance.get("/c"),
+    ]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(180);
+    expect(api.calls).toHaveLength(3);
+  });
+
+  it("cancels requests waiting to retry when the signal aborts", async () => {
+    const api = start([{ status: 429, headers: { "retry-after": "10" } }]);
+    const controller = new AbortController();
+    const http = new HttpClient({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    const startedAt = Date.now();
+    const error = await http
+      .create({ baseURL: api.url })
+      .get("/pairs")
+      .catch((caught) => caught);
+
+    expect(axios.isCancel(error)).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(api.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { spawn, spawnSync, type ChildProcess } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+  type Signer,
+  type TransactionInstruction,
+} from "@solana/web3.js";
+
+/**
+ * Integration tests only run with INTEGRATION=1 (`npm run test:integration`)
+ */
+export const INTEGRATION = process.env.INTEGRATION === "1";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "fixtures");
+
+/**
+ * Program binary loaded at genesis, from `tests/fixtures/programs`
+ */
+export interface ProgramFixture {
+  programId: string;
+  file: string;
+}
+
+/**
+ * Squads v4, dumped from mainnet by `tests/fixtures/programs/dump.sh`.
+ * Its ProgramConfig account (`accounts/squads_program_config.json`) is
+ * generated with a zero multisig creation fee.
+ */
+export const SQUADS_PROGRAM: ProgramFixture = {
+  programId: "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf",
+  file: "squads_multisig.so",
+};
+export const SQUADS_ACCOUNTS = ["squads_program_config.json"];
+
+export interface ValidatorOptions {
+  programs?: ProgramFixture[];
+  /** Account JSON files from `tests/fixtures/accounts` */
+  accounts?: string[];
+  rpcPort?: number;
+  /** How long to wait for the first blockhash (default 60000) */
+  startupTimeoutMs?: number;
+}
+
+/**
+ * solana-test-validator running on a throwaway ledger. SPL Token, Token-2022
+ * and the associated token program are part of its genesis.
+ */
+export class LocalValidator {
+  readonly connection: Connection;
+  private process: ChildProcess;
+  private ledger: string;
+
+  private constructor(
+    connection: Connection,
+    process: ChildProcess,
+    ledger: string
+  ) {
+    this.connection = connection;
+    this.process = process;
+    this.ledger = ledger;
+  }
+
+  static async start(options: ValidatorOptions = {}): Promise<LocalValidator> {
+    const rpcPort = options.rpcPort ?? 8899;
+    const ledger = fs.mkdtempSync(path.join(os.tmpdir(), "forgex-ledger-"));
+    const args = [
+      "--reset",
+      "--quiet",
+      "--ledger",
+      ledger,
+      "--rpc-port",
+      String(rpcPort),
+    ];
+
+    for (const program of options.programs || []) {
+      const file = path.join(FIXTURES_DIR, "programs", program.file);
+      if (!fs.existsSync(file)) {
+        throw new Error(
+          `Missing program binary ${file}. Binaries are committed with the tests; run tests/fixtures/programs/dump.sh and commit the result.`
+        );
+      }
+      args.push("--bpf-program", program.programId, file);
+    }
+    for (const account of options.accounts || []) {
+      const file = path.join(FIXTURES_DIR, "accounts", account);
+      const { pubkey } = JSON.parse(fs.readFileSync(file, "utf8"));
+      args.push("--account", pubkey, file);
+    }
+
+    if (spawnSync("solana-test-validator", ["--version"]).error) {
+      throw new Error(
+        "solana-test-validator not found. Install the Solana CLI to run integration tests."
+      );
+    }
+
+    const child = spawn("solana-test-validator", args, {
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => (stderr += chunk));
+
+    const connection = new Connection(
+      `http://127.0.0.1:${rpcPort}`,
+      "confirmed"
+    );
+    const validator = new LocalValidator(connection, child, ledger);
+
+    const deadline = Date.now() + (options.startupTimeoutMs ?? 60000);
+    while (Date.now() < deadline) {
+      if (child.exitCode !== null) {
+        validator.cleanup();
+        throw new Error(`solana-test-validator exited: ${stderr.trim()}`);
+      }
+      try {
+        await connection.getLatestBlockhash();
+        return validator;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+    }
+
+    await validator.stop();
+    throw new Error("solana-test-validator did not start in time");
+  }
+
+  async stop(): Promise<void> {
+    if (this.process.exitCode === null) {
+      const exited = new Promise((resolve) =>
+        this.process.once("exit", resolve)
+      );
+      this.process.kill("SIGTERM");
+      await exited;
+    }
+    this.cleanup();
+  }
+
+  /**
+   * New keypair funded through an airdrop
+   */
+  async fundedKeypair(sol: number = 10): Promise<Keypair> {
+    const keypair = Keypair.generate();
+    await this.airdrop(keypair.publicKey, sol);
+    return keypair;
+  }
+
+  async airdrop(publicKey: PublicKey, sol: number): Promise<void> {
+    const signature = await this.connection.requestAirdrop(
+      publicKey,
+      sol * LAMPORTS_PER_SOL
+    );
+    const latest = await this.connection.getLatestBlockhash();
+    await this.connection.confirmTransaction({ signature, ...latest });
+  }
+
+  /**
+   * Send instructions in one legacy transaction; the first signer pays
+   */
+  async send(
+    instructions: TransactionInstruction[],
+    signers: Signer[]
+  ): Promise<string> {
+    const transaction = new Transaction().add(...instructions);
+    transaction.feePayer = signers[0].publicKey;
+    return sendAndConfirmTransaction(this.connection, transaction, signers);
+  }
+
+  private cleanup(): void {
+    fs.rmSync(this.ledger, { recursive: true, force: true });
+  }
+}
+
+export default LocalValidator;
@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { AccountRole, address, type Instruction } from "@solana/kit";
+import { Keypair, LAMPORTS_PER_SOL, SystemProgram } from "@solana/web3.js";
+import { KaminoService } from "../../src/kamino";
+import { INTEGRATION, LocalValidator } from "./helpers/validator";
+
+describe.skipIf(!INTEGRATION)("KaminoService.convertInstruction", () => {
+  let validator: LocalValidator;
+
+  beforeAll(async () => {
+    validator = await LocalValidator.start();
+  }, 120000);
+
+  afterAll(async () => {
+    await validator?.stop();
+  });
+
+  it("keeps signer and writable flags so the runtime accepts the instruction", async () => {
+    const payer = await validator.fundedKeypair();
+    const recipient = Keypair.generate().publicKey;
+    const transfer = SystemProgram.transfer({
+      fromPubkey: payer.publicKey,
+      toPubkey: recipient,
+      lamports: LAMPORTS_PER_SOL,
+    });
+
+    // The same transfer as @solana/kit builders return it
+    const instruction: Instruction = {
+      programAddress: address(SystemProgram.programId.toBase58()),
+      accounts: [
+        {
+          address: address(payer.publicKey.toBase58()),
+          role: AccountRole.WRITABLE_SIGNER,
+        },
+        { address: address(recipient.toBase58()), role: AccountRole.WRITABLE },
+      ],
+      data: transfer.data,
+    };
+
+    await validator.send(
+      [KaminoService.convertInstruction(instruction)],
+      [payer]
+    );
+
+    expect(await validator.connection.getBalance(recipient)).toBe(
+      LAMPORTS_PER_SOL
+    );
+  });
+});
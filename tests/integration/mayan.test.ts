@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { MayanSolanaService } from "../../src/mayan";
+import { INTEGRATION, LocalValidator } from "./helpers/validator";
+
+const WSOL_MINT = new PublicKey("So11111111111111111111111111111111111111112");
+
+describe.skipIf(!INTEGRATION)("MayanSolanaService wSOL", () => {
+  let validator: LocalValidator;
+  let owner: Keypair;
+  let mayan: MayanSolanaService;
+  let wsolAccount: PublicKey;
+
+  const sign = async (trx: Transaction | VersionedTransaction) => {
+    if (trx instanceof VersionedTransaction) {
+      trx.sign([owner]);
+    } else {
+      trx.partialSign(owner);
+    }
+    return trx;
+  };
+
+  const confirm = async (signature: string) => {
+    const latest = await validator.connection.getLatestBlockhash();
+    const { value } = await validator.connection.confirmTransaction({
+      signature,
+      ...latest,
+    });
+    expect(value.err).toBeNull();
+  };
+
+  const wsolBalance = async () => {
+    const info = await validator.connection.getAccountInfo(wsolAccount);
+    if (!info) return 0;
+    const { value } =
+      await validator.connection.getTokenAccountBalance(wsolAccount);
+    return Number(value.amount);
+  };
+
+  beforeAll(async () => {
+    validator = await LocalValidator.start();
+    owner = await validator.fundedKeypair();
+    mayan = new MayanSolanaService(validator.connection, owner.publicKey);
+    wsolAccount = mayan.getAssociatedTokenAddress(WSOL_MINT, owner.publicKey);
+  }, 120000);
+
+  afterAll(async () => {
+    await validator?.stop();
+  });
+
+  it("wrapSOL funds the wSOL associated token account", async () => {
+    const { signature } = await mayan.wrapSOL(1, sign);
+    await confirm(signature);
+
+    expect(await wsolBalance()).toBe(1_000_000_000);
+  });
+
+  it("unwrapSOL returns the lamports to the owner", async () => {
+    const before = await validator.connection.getBalance(owner.publicKey);
+
+    const { signature } = await mayan.unwrapSOL(1, sign);
+    await confirm(signature);
+
+    expect(await wsolBalance()).toBe(0);
+    expect(
+      await validator.connection.getBalance(owner.publicKey)
+    ).toBeGreaterThan(before);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import * as multisig from "@sqds/multisig";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import { SquadsService } from "../../src/squads";
+import {
+  INTEGRATION,
+  LocalValidator,
+  SQUADS_ACCOUNTS,
+  SQUADS_PROGRAM,
+} from "./helpers/validator";
+
+describe.skipIf(!INTEGRATION)("SquadsService lifecycle", () => {
+  let validator: LocalValidator;
+  let squads: SquadsService;
+  let creator: Keypair;
+  let approver: Keypair;
+  let multisigPda: PublicKey;
+
+  beforeAll(async () => {
+    validator = await LocalValidator.start({
+      programs: [SQUADS_PROGRAM],
+      accounts: SQUADS_ACCOUNTS,
+    });
+    squads = new SquadsService({ connection: validator.connection });
+    creator = await validator.fundedKeypair();
+    approver = await validator.fundedKeypair();
+  }, 120000);
+
+  afterAll(async () => {
+    await validator?.stop();
+  });
+
+  const approveBoth = async (transactionIndex: bigint) => {
+    await validator.send(
+      [
+        await squads.createProposal(
+          multisigPda,
+          transactionIndex,
+          creator.publicKey
+        ),
+        await squads.approveProposal(
+          multisigPda,
+          transactionIndex,
+          creator.publicKey
+        ),
+      ],
+      [creator]
+    );
+    await validator.send(
+      [
+        await squads.approveProposal(
+          multisigPda,
+          transactionIndex,
+          approver.publicKey
+        ),
+      ],
+      [approver]
+    );
+  };
+
+  it("creates a 2-of-2 multisig", async () => {
+    const createKey = Keypair.generate();
+    [multisigPda] = squads.getMultisigPda(createKey.publicKey);
+
+    await validator.send(
+      [
+        await squads.createMultisig({
+          creator,
+          createKey: createKey.publicKey,
+          members: [
+            {
+              key: creator.publicKey,
+              permissions: multisig.types.Permissions.all(),
+            },
+            {
+              key: approver.publicKey,
+              permissions: multisig.types.Permissions.all(),
+            },
+          ],
+          threshold: 2,
+        }),
+      ],
+      [creator, createKey]
+    );
+
+    const account = await squads.getMultisigAccount(multisigPda);
+    expect(account.threshold).toBe(2);
+    expect(account.members).toHaveLength(2);
+  });
+
+  it("creates, approves and executes a vault transaction", async () => {
+    const [vaultPda] = squads.getVaultPda(multisigPda, 0);
+    const recipient = Keypair.generate().publicKey;
+    await validator.airdrop(vaultPda, 2);
+
+    const transactionIndex = await squads.getNextTransactionIndex(multisigPda);
+    await validator.send(
+      [
+        await squads.createVaultTransaction({
+          multisigPda,
+          creator: creator.publicKey,
+          vaultIndex: 0,
+          instructions: [
+            SystemProgram.transfer({
+              fromPubkey: vaultPda,
+              toPubkey: recipient,
+              lamports: LAMPORTS_PER_SOL,
+            }),
+          ],
+        }),
+      ],
+      [creator]
+    );
+    await approveBoth(transactionIndex);
+
+    const [proposalPda] = squads.getProposalPda(multisigPda, transactionIndex);
+    const proposal = await squads.getProposalAccount(proposalPda);
+    expect(proposal.status.__kind).toBe("Approved");
+
+    await validator.send(
+      [
+        await squads.executeVaultTransaction(
+          multisigPda,
+          transactionIndex,
+          creator.publicKey
+        ),
+      ],
+      [creator]
+    );
+
+    expect(await validator.connection.getBalance(recipient)).toBe(
+      LAMPORTS_PER_SOL
+    );
+  });
+
+  it("creates, approves and executes a config transaction", async () => {
+    const transactionIndex = await squads.getNextTransactionIndex(multisigPda);
+    await validator.send(
+      [
+        await squads.createConfigTransaction(multisigPda, creator.publicKey, [
+          { __kind: "ChangeThreshold", newThreshold: 1 },
+        ]),
+      ],
+      [creator]
+    );
+    await approveBoth(transactionIndex);
+
+    await validator.send(
+      [
+        await squads.executeConfigTransaction(
+          multisigPda,
+          transactionIndex,
+          creator.publicKey
+        ),
+      ],
+      [creator]
+    );
+
+    const account = await squads.getMultisigAccount(multisigPda);
+    expect(account.threshold).toBe(1);
+  });
+});
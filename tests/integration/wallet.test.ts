@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  AddressLookupTableProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { KeypairWalletAdapter, SolanaWalletManager } from "../../src/wallet";
+import { INTEGRATION, LocalValidator } from "./helpers/validator";
+
+describe.skipIf(!INTEGRATION)("SolanaWalletManager", () => {
+  let validator: LocalValidator;
+  let wallet: SolanaWalletManager;
+
+  beforeAll(async () => {
+    validator = await LocalValidator.start();
+    wallet = new SolanaWalletManager(validator.connection);
+    await wallet.connectKeypairWallet(
+      new KeypairWalletAdapter(await validator.fundedKeypair())
+    );
+  }, 120000);
+
+  afterAll(async () => {
+    await validator?.stop();
+  });
+
+  it("transfers SOL and confirms", async () => {
+    const recipient = Keypair.generate().publicKey;
+
+    const result = await wallet.sendSOL(recipient.toBase58(), 1.5, {
+      computeUnits: 10000,
+      priorityFee: 1000,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe("confirmed");
+    expect(await validator.connection.getBalance(recipient)).toBe(
+      1.5 * LAMPORTS_PER_SOL
+    );
+  });
+
+  it("reports failures without throwing", async () => {
+    const result = await wallet.sendSOL(
+      Keypair.generate().publicKey.toBase58(),
+      1000
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  it("sends versioned transactions that load accounts from lookup tables", async () => {
+    const authority = await validator.fundedKeypair();
+    const recipient = Keypair.generate().publicKey;
+    const slot = await validator.connection.getSlot();
+    const [create, lookupTable] = AddressLookupTableProgram.createLookupTable({
+      authority: authority.publicKey,
+      payer: authority.publicKey,
+      recentSlot: slot,
+    });
+    await validator.send(
+      [
+        create,
+        AddressLookupTableProgram.extendLookupTable({
+          lookupTable,
+          authority: authority.publicKey,
+          payer: authority.publicKey,
+          addresses: [recipient],
+        }),
+      ],
+      [authority]
+    );
+    // Extended addresses become usable one slot later
+    const extendedAt = await validator.connection.getSlot();
+    while ((await validator.connection.getSlot()) <= extendedAt) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    const { value: table } =
+      await validator.connection.getAddressLookupTable(lookupTable);
+    const payer = wallet.getSigner().publicKey;
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: (await validator.connection.getLatestBlockhash())
+          .blockhash,
+        instructions: [
+          SystemProgram.transfer({
+            fromPubkey: payer,
+            toPubkey: recipient,
+            lamports: LAMPORTS_PER_SOL,
+          }),
+        ],
+      }).compileToV0Message([table!])
+    );
+    expect(transaction.message.addressTableLookups).toHaveLength(1);
+
+    const result = await wallet.executeTransaction(transaction, {
+      priority: { microLamports: 1000 },
+    });
+
+    expect(result.success).toBe(true);
+    expect(await validator.connection.getBalance(recipient)).toBe(
+      LAMPORTS_PER_SOL
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { JitoBundleSender } from "../src/utils/jito-bundles";
+import { KeypairSigner } from "../src/utils/signer";
+
+const BLOCKHASH = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const TIP_ACCOUNT = Keypair.generate().publicKey;
+
+interface FakeCluster {
+  url: string;
+  /** Transactions of every sendBundle call */
+  bundles: VersionedTransaction[][];
+  /** Transactions sent over plain RPC */
+  sent: VersionedTransaction[];
+  stop: () => void;
+}
+
+/**
+ * Local server answering both the block engine (/api/v1/bundles) and the
+ * Solana JSON-RPC methods the sender and executor call
+ */
+function fakeCluster(
+  bundleStatus: "Landed" | "Rejected",
+  inflightStatus = "Landed"
+): FakeCluster {
+  const bundles: VersionedTransaction[][] = [];
+  const sent: VersionedTransaction[] = [];
+  const decode = (encoded: string) =>
+    VersionedTransaction.deserialize(Buffer.from(encoded, "base64"));
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { id, method, params } = await request.json();
+      const reply = (result: unknown) =>
+        Response.json({ jsonrpc: "2.0", id, result });
+      const context = { slot: 10 };
+
+      switch (method) {
+        case "sendBundle":
+          if (bundleStatus === "Rejected") {
+            return Response.json({
+              jsonrpc: "2.0",
+              id,
+              error: {
+                code: -32602,
+                message: "bundle contains an expired blockhash",
+              },
+            });
+          }
+          bundles.push(params[0].map(decode));
+          return reply("bundle-1");
+        case "getInflightBundleStatuses":
+          return reply({
+            context,
+            value: [
+              {
+                bundle_id: "bundle-1",
+                status: inflightStatus,
+                landed_slot: 42,
+              },
+            ],
+          });
+        case "getLatestBlockhash":
+          return reply({
+            context,
+            value: { blockhash: BLOCKHASH, lastValidBlockHeight: 100 },
+          });
+        case "sendTransaction": {
+          const transaction = decode(params[0]);
+          sent.push(transaction);
+          return reply(bs58.encode(transaction.signatures[0]));
+        }
+        case "getSignatureStatuses":
+          return reply({
+            context,
+            value: params[0].map(() => ({
+              slot: 11,
+              confirmations: null,
+              err: null,
+              confirmationStatus: "confirmed",
+            })),
+          });
+        case "getBlockHeight":
+          return reply(50);
+        default:
+          return reply(null);
+      }
+    },
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    bundles,
+    sent,
+    stop: () => server.stop(true),
+  };
+}
+
+function transfer(from: Keypair): Transaction {
+  return new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: from.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    })
+  );
+}
+
+describe("JitoBundleSender", () => {
+  const clusters: FakeCluster[] = [];
+  const start = (status: "Landed" | "Rejected", inflightStatus?: string) => {
+    const cluster = fakeCluster(status, inflightStatus);
+    clusters.push(cluster);
+    return cluster;
+  };
+  const sender = (cluster: FakeCluster, keypair: Keypair) =>
+    new JitoBundleSender(new Connection(cluster.url), {
+      blockEngineUrl: cluster.url,
+      tipAccounts: [TIP_ACCOUNT],
+      tipLamports: 5000,
+      signer: new KeypairSigner(keypair),
+      pollIntervalMs: 0,
+    });
+
+  afterEach(() => {
+    clusters.splice(0).forEach((cluster) => cluster.stop());
+  });
+
+  it("submits signed transactions with a tip transaction and waits until it lands", async () => {
+    const cluster = start("Landed");
+    const keypair = Keypair.generate();
+
+    const result = await sender(cluster, keypair).sendBundle([
+      transfer(keypair),
+      transfer(keypair),
+    ]);
+
+    expect(result).toMatchObject({ status: "landed", via: "bundle", slot: 42 });
+    const [bundle] = cluster.bundles;
+    expect(bundle).toHaveLength(3);
+    expect(result.signatures).toEqual(
+      bundle.map((transaction) => bs58.encode(transaction.signatures[0]))
+    );
+
+    const tip = bundle[2].message;
+    expect(tip.recentBlockhash).toBe(BLOCKHASH);
+    expect(tip.staticAccountKeys.some((key) => key.equals(TIP_ACCOUNT))).toBe(
+      true
+    );
+  });
+
+  it("appends the tip to the last transaction of a full bundle", async () => {
+    const cluster = start("Landed");
+    const keypair = Keypair.generate();
+    const transactions = Array.from({ length: 5 }, () => transfer(keypair));
+
+    await sender(cluster, keypair).sendBundle(transactions);
+
+    const [bundle] = cluster.bundles;
+    expect(bundle).toHaveLength(5);
+    expect(bundle[4].message.compiledInstructions).toHaveLength(2);
+    // The caller's transactions are left untouched for the RPC fallback
+    expect(transactions[4].instructions).toHaveLength(1);
+  });
+
+  it("falls back to RPC without the tip when the block engine rejects the bundle", async () => {
+    const cluster = start("Rejected");
+    const keypair = Keypair.generate();
+
+    const result = await sender(cluster, keypair).sendBundle([
+      transfer(keypair),
+      transfer(keypair),
+    ]);
+
+    expect(result.status).toBe("landed");
+    expect(result.via).toBe("rpc");
+    expect(result.error).toContain("expired blockhash");
+    expect(cluster.sent).toHaveLength(2);
+    expect(
+      cluster.sent.every(
+        (transaction) =>
+          !transaction.message.staticAccountKeys.some((key) =>
+            key.equals(TIP_ACCOUNT)
+          )
+      )
+    ).toBe(true);
+  });
+
+  it("reads statuses the block engine adds later as Invalid", async () => {
+    const keypair = Keypair.generate();
+    const landed = sender(start("Landed"), keypair);
+    const timedOut = sender(start("Landed", "Timeout"), keypair);
+
+    expect((await landed.getBundleStatus("bundle-1")).status).toBe("Landed");
+    expect((await timedOut.getBundleStatus("bundle-1")).status).toBe("Invalid");
+  });
+
+  it("rejects bundles of more than five transactions", async () => {
+    const cluster = start("Landed");
+    const keypair = Keypair.generate();
+
+    await expect(
+      sender(cluster, keypair).sendBundle(
+        Array.from({ length: 6 }, () => transfer(keypair))
+      )
+    ).rejects.toThrow("A bundle takes 1 to 5 transactions");
+  });
+});
@@ -0,0 +1,46 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { JupiterService } from "../src/jupiter";
+import { ResponseCache } from "../src/utils/cache";
+import { HttpFixture } from "./helpers/fixtures";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const JUP = "JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN";
+
+const fixture = new HttpFixture("jupiter");
+const jupiter = new JupiterService({
+  httpClient: fixture.httpClient(),
+  cache: new ResponseCache({ enabled: false }),
+});
+
+afterAll(() => fixture.save());
+
+describe("JupiterService", () => {
+  it("getBestRoute parses price impact and output amount", async () => {
+    const route = await jupiter.getBestRoute(SOL, USDC, 1_000_000_000);
+
+    expect(route.priceImpact).toBe(0.0012);
+    expect(route.estimatedOutput).toBe(151234567);
+    expect(route.quote.routePlan[0].swapInfo.label).toBe("Raydium CLMM");
+  });
+
+  it("getPrice returns the entry for the mint", async () => {
+    expect(await jupiter.getPrice(JUP)).toEqual({
+      usdPrice: 0.6112,
+      blockId: 348004023,
+      decimals: 6,
+      priceChange24h: 3.42,
+    });
+  });
+
+  it("getPrice returns null for unpriced mints", async () => {
+    expect(
+      await jupiter.getPrice("11111111111111111111111111111111")
+    ).toBeNull();
+  });
+
+  it("getTokenStats picks the exact mint from search results", async () => {
+    const token = await jupiter.getTokenStats(JUP);
+    expect(token?.symbol).toBe("JUP");
+  });
+});
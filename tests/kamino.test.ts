@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, mock, spyOn } from "bun:test";
+import { AccountRole, address, type Instruction } from "@solana/kit";
+import { KaminoAction } from "@kamino-finance/klend-sdk";
+import { Connection, Keypair } from "@solana/web3.js";
+import { KaminoService } from "../src/kamino";
+import { TokenAmount } from "../src/utils/token-amount";
+
+const account = (role: AccountRole) => ({
+  address: address("9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"),
+  role,
+});
+
+describe("KaminoService.convertInstruction", () => {
+  it("maps every AccountRole onto signer and writable flags", () => {
+    const instruction: Instruction = {
+      programAddress: address("KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD"),
+      accounts: [
+        account(AccountRole.READONLY),
+        account(AccountRole.WRITABLE),
+        account(AccountRole.READONLY_SIGNER),
+        account(AccountRole.WRITABLE_SIGNER),
+      ],
+      data: new Uint8Array([1, 2, 3]),
+    };
+
+    const converted = KaminoService.convertInstruction(instruction);
+
+    expect(
+      converted.keys.map(({ isSigner, isWritable }) => [isSigner, isWritable])
+    ).toEqual([
+      [false, false],
+      [false, true],
+      [true, false],
+      [true, true],
+    ]);
+    expect(converted.programId.toBase58()).toBe(
+      "KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD"
+    );
+    expect([...converted.data]).toEqual([1, 2, 3]);
+  });
+});
+
+describe("KaminoService lending amounts", () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  // Service whose USDC reserve has 6 decimals; returns the amounts Kamino gets
+  function deposits() {
+    const kamino = new KaminoService(new Connection("http://127.0.0.1:8899"));
+    const service = kamino as any;
+    service.loadLendingMarket = async () => ({});
+    service.requireReserve = async () => ({
+      getMintDecimals: () => 6,
+      state: { liquidity: { mintPubkey: "mint" } },
+    });
+    const amounts: string[] = [];
+    spyOn(KaminoAction, "buildDepositTxns").mockImplementation(
+      async (_market: unknown, amount: string) => {
+        amounts.push(amount);
+        throw new Error("stop after building");
+      }
+    );
+    return { kamino, amounts };
+  }
+
+  it("reads numbers and strings as the same UI amount", async () => {
+    const { kamino, amounts } = deposits();
+    const owner = Keypair.generate();
+
+    await kamino.depositToLending(1.5, "USDC", owner).catch(() => {});
+    await kamino.depositToLending("1.5", "USDC", owner).catch(() => {});
+    await kamino
+      .buildDepositTransaction(1.5, "USDC", owner.publicKey)
+      .catch(() => {});
+
+    expect(amounts).toEqual(["1500000", "1500000", "1500000"]);
+  });
+
+  it("reads bigints and TokenAmounts as base units", async () => {
+    const { kamino, amounts } = deposits();
+    const owner = Keypair.generate().publicKey;
+
+    await kamino
+      .buildDepositTransaction(1500000n, "USDC", owner)
+      .catch(() => {});
+    await kamino
+      .buildDepositTransaction(TokenAmount.fromRaw(1500000n, 6), "USDC", owner)
+      .catch(() => {});
+
+    expect(amounts).toEqual(["1500000", "1500000"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  AddressLookupTableManager,
+  getTransactionSize,
+} from "../src/utils/lookup-tables";
+
+const BLOCKHASH = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const connection = new Connection("http://127.0.0.1:1");
+
+function lookupTable(addresses: PublicKey[]): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses,
+    },
+  });
+}
+
+/**
+ * An instruction touching `count` fresh accounts, too many for a legacy
+ * transaction once count passes ~35
+ */
+function wideInstruction(count: number): {
+  instruction: TransactionInstruction;
+  accounts: PublicKey[];
+} {
+  const accounts = Array.from(
+    { length: count },
+    () => Keypair.generate().publicKey
+  );
+  return {
+    accounts,
+    instruction: new TransactionInstruction({
+      programId: SystemProgram.programId,
+      keys: accounts.map((pubkey) => ({
+        pubkey,
+        isSigner: false,
+        isWritable: true,
+      })),
+      data: Buffer.alloc(8),
+    }),
+  };
+}
+
+describe("AddressLookupTableManager.compileTransaction", () => {
+  const payer = Keypair.generate().publicKey;
+
+  it("keeps transactions that fit as legacy", async () => {
+    const { instruction } = wideInstruction(5);
+    const manager = new AddressLookupTableManager(connection);
+
+    const transaction = await manager.compileTransaction([instruction], payer);
+
+    expect(transaction).toBeInstanceOf(Transaction);
+  });
+
+  it("compiles oversized transactions to v0 against lookup tables", async () => {
+    const { instruction, accounts } = wideInstruction(60);
+    const table = lookupTable(accounts);
+    const manager = new AddressLookupTableManager(connection);
+
+    const transaction = await manager.compileTransaction([instruction], payer, {
+      lookupTables: [table],
+      recentBlockhash: BLOCKHASH,
+    });
+
+    expect(transaction).toBeInstanceOf(VersionedTransaction);
+    const message = (transaction as VersionedTransaction).message;
+    expect(message.addressTableLookups).toHaveLength(1);
+    expect(message.addressTableLookups[0].accountKey.equals(table.key)).toBe(
+      true
+    );
+    expect(getTransactionSize(transaction)).toBeLessThanOrEqual(
+      PACKET_DATA_SIZE
+    );
+  });
+
+  it("rejects oversized transactions without lookup tables", async () => {
+    const { instruction } = wideInstruction(60);
+    const manager = new AddressLookupTableManager(connection);
+
+    await expect(
+      manager.compileTransaction([instruction], payer)
+    ).rejects.toThrow("Pass lookup tables");
+  });
+});
+
+describe("getTransactionSize", () => {
+  it("matches the serialized size of a signed transaction", () => {
+    const keypair = Keypair.generate();
+    const transaction = new Transaction({
+      feePayer: keypair.publicKey,
+      recentBlockhash: BLOCKHASH,
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: keypair.publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      })
+    );
+    transaction.sign(keypair);
+
+    expect(getTransactionSize(transaction)).toBe(
+      transaction.serialize().length
+    );
+  });
+});
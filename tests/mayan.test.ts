@@ -0,0 +1,46 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { MayanSolanaService } from "../src/mayan";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { ResponseCache } from "../src/utils/cache";
+import { HttpFixture } from "./helpers/fixtures";
+
+const fixture = new HttpFixture("mayan");
+const mayan = new MayanSolanaService(
+  new Connection("http://127.0.0.1:8899"),
+  new PublicKey("9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM"),
+  {
+    httpClient: fixture.httpClient(),
+    cache: new ResponseCache({ enabled: false }),
+  }
+);
+
+afterAll(() => fixture.save());
+
+describe("MayanSolanaService", () => {
+  it("getNativeSOL finds SOL in the native token list", async () => {
+    const sol = await mayan.getNativeSOL();
+
+    expect(sol?.decimals).toBe(9);
+    expect(sol?.realOriginContractAddress).toBe(
+      "So11111111111111111111111111111111111111112"
+    );
+  });
+
+  it("getSolanaTokens defaults to an empty list", async () => {
+    expect(await mayan.getSPL2022Tokens()).toEqual([]);
+  });
+
+  it("isSwapCompleted treats SETTLED statuses as complete", async () => {
+    expect(await mayan.isSwapCompleted("5xSettledTx")).toBe(true);
+  });
+
+  it("trackSwap reports unknown swaps as NOT_FOUND", async () => {
+    const error = await mayan.trackSwap("5xMissingTx").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect(error.code).toBe("NOT_FOUND");
+    expect(error.service).toBe("MayanSolanaService");
+    expect(error.method).toBe("trackSwap");
+  });
+});
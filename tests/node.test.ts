@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Keypair } from "@solana/web3.js";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { apiKeysFromEnv, loadKeypairFile, loadLocalSigner } from "../src/node";
+
+describe("node entry point", () => {
+  it("loads keypair files written by solana-keygen", () => {
+    const keypair = Keypair.generate();
+    const path = join(mkdtempSync(join(tmpdir(), "forgex-")), "id.json");
+    writeFileSync(path, JSON.stringify(Array.from(keypair.secretKey)));
+
+    expect(loadKeypairFile(path).publicKey.equals(keypair.publicKey)).toBe(
+      true
+    );
+    expect(loadLocalSigner(path).publicKey.equals(keypair.publicKey)).toBe(
+      true
+    );
+    expect(() => loadKeypairFile(join(path, "missing.json"))).toThrow(
+      ForgeXSDKError
+    );
+  });
+
+  it("reads API keys from the environment", () => {
+    expect(
+      apiKeysFromEnv({
+        HELIUS_API_KEY: "helius",
+        DIALECT_API_KEY: "[1,2,3]",
+        CROSSMINT_API_KEY: "crossmint",
+        BIRDEYE_API_KEY: "",
+      })
+    ).toEqual({
+      helius: "helius",
+      dialect: "[1,2,3]",
+      crossmint: { apiKey: "crossmint", jwt: undefined },
+    });
+  });
+});
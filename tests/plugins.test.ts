@@ -0,0 +1,225 @@
+import { describe, expect, it } from "bun:test";
+import { Connection, Keypair } from "@solana/web3.js";
+import { marinadePlugin, meteoraPlugin, squadsPlugin } from "../src/plugins";
+import { ForgeXSDKError } from "../src/utils/errors";
+import {
+  PluginRegistry,
+  definePlugin,
+  providePluginModule,
+  type PluginRegistryContext,
+  type ServicePlugin,
+} from "../src/utils/plugins";
+import { PriorityFeeService } from "../src/utils/priority-fees";
+import { KeypairSigner } from "../src/utils/signer";
+import { Telemetry, type TelemetrySpan } from "../src/utils/telemetry";
+
+function registry(config: any = {}, telemetry?: Telemetry) {
+  const context = {
+    config: { connection: { network: "devnet" }, ...config },
+    connection: new Connection("http://127.0.0.1:8899"),
+    serviceOptions: {},
+  } as PluginRegistryContext;
+  return new PluginRegistry(context, { telemetry });
+}
+
+class PriceFeed {
+  constructor(public readonly source: string) {}
+
+  getPrice(): number {
+    return 1;
+  }
+}
+
+describe("PluginRegistry", () => {
+  it("constructs a service once, on first access", () => {
+    let created = 0;
+    const plugins = registry();
+    plugins.register({
+      name: "prices",
+      create: () => {
+        created++;
+        return new PriceFeed("test");
+      },
+    });
+
+    expect(created).toBe(0);
+    expect(plugins.get<PriceFeed>("prices")).toBe(plugins.get("prices"));
+    expect(created).toBe(1);
+    expect(plugins.isLoaded("prices")).toBe(true);
+  });
+
+  it("leaves services unavailable until their config and wallet are set", async () => {
+    const plugins = registry({ apiKeys: { feed: "key" } });
+    plugins.register({
+      name: "keyed",
+      requiredConfig: ["apiKeys.feed"],
+      create: ({ config }) => new PriceFeed(config.apiKeys.feed as string),
+    });
+    plugins.register({
+      name: "signed",
+      requiredConfig: ["apiKeys.other"],
+      wallet: "required",
+      create: () => new PriceFeed("signed"),
+    });
+
+    expect(plugins.get<PriceFeed>("keyed").source).toBe("key");
+    expect(plugins.get("signed")).toBeUndefined();
+    expect(plugins.getMissingRequirements("signed")).toEqual([
+      "apiKeys.other",
+      "wallet",
+    ]);
+
+    let error: unknown;
+    try {
+      plugins.require("signed");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect((error as ForgeXSDKError).code).toBe("NOT_INITIALIZED");
+    expect((error as ForgeXSDKError).message).toContain("apiKeys.other");
+    await expect(plugins.loadRequired("signed")).rejects.toThrow("wallet");
+  });
+
+  it("resolves dependencies and rejects cycles", () => {
+    const plugins = registry();
+    plugins.register({ name: "feed", create: () => new PriceFeed("feed") });
+    plugins.register({
+      name: "portfolio",
+      dependsOn: ["feed"],
+      create: (context) => ({ feed: context.get<PriceFeed>("feed") }),
+    });
+    plugins.register({ name: "a", dependsOn: ["b"], create: () => ({}) });
+    plugins.register({ name: "b", dependsOn: ["a"], create: () => ({}) });
+
+    expect(plugins.get<{ feed: PriceFeed }>("portfolio").feed).toBe(
+      plugins.get("feed")
+    );
+    expect(() => plugins.get("a")).toThrow(
+      "Circular plugin dependency: a -> b -> a"
+    );
+  });
+
+  it("rebuilds wallet-bound services and their dependents on wallet change", () => {
+    const plugins = registry();
+    const wallet: ServicePlugin<{ owner: string }> = {
+      name: "vault",
+      wallet: "required",
+      create: (context) => ({ owner: context.wallet.publicKey.toBase58() }),
+    };
+    plugins.register(wallet);
+    plugins.register({
+      name: "strategy",
+      dependsOn: ["vault"],
+      create: (context) => context.get<{ owner: string }>("vault"),
+    });
+    plugins.register({ name: "feed", create: () => new PriceFeed("feed") });
+    const feed = plugins.get("feed");
+
+    const first = Keypair.generate();
+    plugins.setWallet(new KeypairSigner(first));
+    expect(plugins.get<{ owner: string }>("strategy").owner).toBe(
+      first.publicKey.toBase58()
+    );
+
+    const second = Keypair.generate();
+    plugins.setWallet(new KeypairSigner(second));
+    expect(plugins.isLoaded("strategy")).toBe(false);
+    expect(plugins.get<{ owner: string }>("strategy").owner).toBe(
+      second.publicKey.toBase58()
+    );
+    expect(plugins.get("feed")).toBe(feed);
+
+    plugins.setWallet(undefined);
+    expect(plugins.get("vault")).toBeUndefined();
+  });
+
+  it("imports a plugin's module on load() unless it was provided", async () => {
+    let imports = 0;
+    const lazy = () =>
+      definePlugin({
+        name: "prices",
+        load: async () => {
+          imports++;
+          return { PriceFeed };
+        },
+        create: (_context, module) => new module.PriceFeed("lazy"),
+      });
+
+    const plugins = registry();
+    plugins.register(lazy());
+    expect(() => plugins.get("prices")).toThrow(
+      'Service "prices" is not loaded yet'
+    );
+    const [first, second] = await Promise.all([
+      plugins.load<PriceFeed>("prices"),
+      plugins.load<PriceFeed>("prices"),
+    ]);
+    expect(first.source).toBe("lazy");
+    expect(second).toBe(first);
+    expect(imports).toBe(1);
+
+    const provided = lazy();
+    providePluginModule(provided, { PriceFeed });
+    const bundled = registry();
+    bundled.register(provided);
+    expect(bundled.get<PriceFeed>("prices").source).toBe("lazy");
+    expect(imports).toBe(1);
+  });
+
+  it("takes bundled modules per registry", () => {
+    const plugin = definePlugin({
+      name: "prices",
+      load: async () => ({ PriceFeed }),
+      create: (_context, module) => new module.PriceFeed("bundled"),
+    });
+
+    const bundled = registry();
+    bundled.register(plugin);
+    bundled.provideModule(plugin, { PriceFeed });
+    expect(bundled.get<PriceFeed>("prices").source).toBe("bundled");
+
+    const other = registry();
+    other.register(plugin);
+    expect(() => other.get("prices")).toThrow("is not loaded yet");
+
+    const replaced = registry();
+    replaced.register({ ...plugin });
+    replaced.provideModule(plugin, { PriceFeed });
+    expect(replaced.isModuleLoaded("prices")).toBe(false);
+  });
+
+  it("replaces built-ins and traces constructed services", () => {
+    const spans: TelemetrySpan[] = [];
+    const plugins = registry(
+      {},
+      new Telemetry({ exporters: [{ exportSpan: (span) => spans.push(span) }] })
+    );
+    plugins.register({ name: "prices", create: () => new PriceFeed("a") });
+    plugins.get("prices");
+    plugins.register({ name: "prices", create: () => new PriceFeed("b") });
+
+    expect(plugins.get<PriceFeed>("prices").source).toBe("b");
+    expect(plugins.get<PriceFeed>("prices").getPrice()).toBe(1);
+    expect(spans.map((span) => span.name)).toEqual(["PriceFeed.getPrice"]);
+  });
+
+  it("hands every service the shared fee estimates", async () => {
+    const connection = new Connection("http://127.0.0.1:8899");
+    const priorityFees = new PriorityFeeService(connection);
+    const plugins = new PluginRegistry(
+      {
+        config: { connection: { network: "devnet" } },
+        connection,
+        priorityFees,
+        serviceOptions: {},
+      } as PluginRegistryContext,
+      { wallet: new KeypairSigner(Keypair.generate()) }
+    );
+    for (const plugin of [squadsPlugin, meteoraPlugin, marinadePlugin]) {
+      plugins.register(plugin);
+      const service = await plugins.load(plugin.name);
+      expect((service as any).priorityFees).toBe(priorityFees);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { RpcPool } from "../src/utils/rpc-pool";
+
+interface FakeRpc {
+  url: string;
+  methods: string[];
+  stop: () => void;
+}
+
+/**
+ * Local JSON-RPC server answering getSlot with `slot` (or `status` when set)
+ * after `delayMs`
+ */
+function fakeRpc(slot: number, status = 200, delayMs = 0): FakeRpc {
+  const methods: string[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { id, method } = await request.json();
+      methods.push(method);
+      if (delayMs) await Bun.sleep(delayMs);
+      if (status !== 200) return new Response("unavailable", { status });
+      const result = method === "sendTransaction" ? "signature" : slot;
+      return Response.json({ jsonrpc: "2.0", id, result });
+    },
+  });
+  return {
+    url: `http://127.0.0.1:${server.port}`,
+    methods,
+    stop: () => server.stop(true),
+  };
+}
+
+describe("RpcPool", () => {
+  const servers: FakeRpc[] = [];
+  const pools: RpcPool[] = [];
+  const start = (slot: number, status?: number, delayMs?: number) => {
+    const server = fakeRpc(slot, status, delayMs);
+    servers.push(server);
+    return server;
+  };
+  const pool = (config: ConstructorParameters<typeof RpcPool>[0]) => {
+    const rpcPool = new RpcPool({ healthCheckIntervalMs: 0, ...config });
+    pools.push(rpcPool);
+    return rpcPool;
+  };
+
+  afterEach(() => {
+    pools.splice(0).forEach((rpcPool) => rpcPool.close());
+    servers.splice(0).forEach((server) => server.stop());
+  });
+
+  it("fails over to the next endpoint on 5xx responses", async () => {
+    const down = start(0, 503);
+    const up = start(100);
+    const rpcPool = pool({
+      endpoints: [{ url: down.url, weight: 1e6 }, up.url],
+    });
+
+    expect(await rpcPool.connection.getSlot()).toBe(100);
+    expect(down.methods).toEqual(["getSlot"]);
+
+    const status = rpcPool.getStatus();
+    expect(status[0].healthy).toBe(false);
+    expect(status[0].consecutiveFailures).toBe(1);
+    expect(status[1].healthy).toBe(true);
+  });
+
+  it("routes transactions to send endpoints only", async () => {
+    const read = start(100);
+    const send = start(100);
+    const rpcPool = pool({
+      endpoints: [
+        { url: read.url, role: "read" },
+        { url: send.url, role: "send" },
+      ],
+    });
+
+    await rpcPool.connection.getSlot();
+    await rpcPool.connection.sendRawTransaction(Buffer.from([1, 2, 3]), {
+      skipPreflight: true,
+    });
+
+    expect(read.methods).toEqual(["getSlot"]);
+    expect(send.methods).toEqual(["sendTransaction"]);
+  });
+
+  it("skips endpoints lagging behind the highest slot", async () => {
+    const behind = start(100);
+    const ahead = start(1000);
+    const rpcPool = pool({
+      endpoints: [{ url: behind.url, weight: 1e6 }, ahead.url],
+      maxSlotLag: 50,
+    });
+
+    const status = await rpcPool.checkHealth();
+    expect(status.map((endpoint) => endpoint.lagging)).toEqual([true, false]);
+
+    expect(await rpcPool.connection.getSlot()).toBe(1000);
+  });
+
+  it("rejects aborted requests without failing over", async () => {
+    const slow = start(100, 200, 500);
+    const other = start(100);
+    const rpcPool = pool({
+      endpoints: [{ url: slow.url, weight: 1e6 }, other.url],
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const error = await rpcPool
+      .fetch(slow.url, {
+        method: "POST",
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getSlot" }),
+        signal: controller.signal,
+      })
+      .catch((caught) => caught);
+
+    expect(error.name).toBe("AbortError");
+    expect(slow.methods).toEqual(["getSlot"]);
+    expect(other.methods).toEqual([]);
+    expect(rpcPool.getStatus().every((endpoint) => endpoint.healthy)).toBe(
+      true
+    );
+  });
+
+  it("requires an endpoint serving reads", () => {
+    expect(
+      () => new RpcPool({ endpoints: [{ url: "http://x", role: "send" }] })
+    ).toThrow("at least one endpoint that serves reads");
+  });
+});
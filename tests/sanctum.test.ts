@@ -0,0 +1,80 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { SanctumService, type FeeInfo } from "../src/sanctum";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { ResponseCache } from "../src/utils/cache";
+import { HttpFixture } from "./helpers/fixtures";
+
+const fixture = new HttpFixture("sanctum");
+const sanctum = new SanctumService(
+  process.env.SANCTUM_API_KEY || "test-key",
+  undefined,
+  {
+    httpClient: fixture.httpClient(),
+    cache: new ResponseCache({ enabled: false }),
+  }
+);
+
+afterAll(() => fixture.save());
+
+const fee = (code: FeeInfo["code"], amount: string): FeeInfo => ({
+  code,
+  rate: 0.0001,
+  amount,
+  mint: "So11111111111111111111111111111111111111112",
+});
+
+describe("SanctumService.calculateTotalFees", () => {
+  it("sums amounts without losing u64 precision", () => {
+    expect(
+      SanctumService.calculateTotalFees([
+        fee("InfLpFee", "18446744073709551000"),
+        fee("InfProtocolFee", "615"),
+      ])
+    ).toBe("18446744073709551615");
+  });
+
+  it("returns zero for no fees", () => {
+    expect(SanctumService.calculateTotalFees([])).toBe("0");
+  });
+});
+
+describe("SanctumService LST helpers", () => {
+  it("getAllLsts unwraps the data envelope", async () => {
+    const lsts = await sanctum.getAllLsts();
+    expect(lsts.map((lst) => lst.symbol)).toEqual(["bSOL", "JitoSOL", "mSOL"]);
+  });
+
+  it("getBestApy ignores LSTs without an APY", async () => {
+    const lsts = await sanctum.getAllLsts();
+    expect(SanctumService.getBestApy(lsts)?.symbol).toBe("JitoSOL");
+    expect(SanctumService.getBestApy([])).toBeNull();
+  });
+
+  it("filterByMinApy and sortByTvl", async () => {
+    const lsts = await sanctum.getAllLsts();
+
+    expect(
+      SanctumService.filterByMinApy(lsts, 0.075).map((lst) => lst.symbol)
+    ).toEqual(["JitoSOL"]);
+    expect(SanctumService.sortByTvl(lsts).map((lst) => lst.symbol)).toEqual([
+      "JitoSOL",
+      "mSOL",
+      "bSOL",
+    ]);
+  });
+
+  it("surfaces API errors as ForgeXSDKError", async () => {
+    const error = await sanctum.getLst("notAnLst").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect(error.code).toBe("INVALID_INPUT");
+    expect(error.status).toBe(400);
+    expect(error.service).toBe("SanctumService");
+    expect(error.message).toBe("notAnLst is not a known LST mint or symbol");
+    expect(error.details.error.code).toBe("INVALID_MINT_OR_SYMBOL");
+  });
+
+  it("isLstSupported is false when the lookup fails", async () => {
+    expect(await sanctum.isLstSupported("notAnLst")).toBe(false);
+  });
+});
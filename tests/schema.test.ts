@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { Keypair } from "@solana/web3.js";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { schema } from "../src/utils/schema";
+
+describe("schema", () => {
+  const params = schema.object({
+    wallet: schema.publicKey(),
+    amount: schema.amount(),
+    feeds: schema.array(schema.string(), { maxItems: 2 }),
+    side: schema.enum(["long", "short"] as const),
+    slippageBps: schema.optional(schema.integer({ minimum: 0 }), 50),
+    reduceOnly: schema.optional(schema.boolean()),
+  });
+
+  it("describes itself as JSON Schema", () => {
+    expect(params.json.required).toEqual(["wallet", "amount", "feeds", "side"]);
+    expect(params.json.additionalProperties).toBe(false);
+    expect(params.json.properties.slippageBps).toEqual({
+      type: "integer",
+      minimum: 0,
+      default: 50,
+    });
+    expect(params.json.properties.side.enum).toEqual(["long", "short"]);
+    expect(params.json.properties.feeds.items).toEqual({ type: "string" });
+  });
+
+  it("parses JSON bodies and query strings alike", () => {
+    const wallet = Keypair.generate().publicKey.toBase58();
+
+    expect(
+      params.parse({
+        wallet,
+        amount: 1.5,
+        feeds: ["SOL_USD"],
+        side: "long",
+        reduceOnly: false,
+      })
+    ).toEqual({
+      wallet,
+      amount: "1.5",
+      feeds: ["SOL_USD"],
+      side: "long",
+      slippageBps: 50,
+      reduceOnly: false,
+    });
+    expect(
+      params.parse({
+        wallet,
+        amount: "0.000001",
+        feeds: "SOL_USD,BTC_USD",
+        side: "short",
+        slippageBps: "30",
+        reduceOnly: "true",
+      })
+    ).toMatchObject({ feeds: ["SOL_USD", "BTC_USD"], slippageBps: 30 });
+  });
+
+  it("rejects invalid input with the offending path", () => {
+    const wallet = Keypair.generate().publicKey.toBase58();
+    const valid = { wallet, amount: "1", feeds: [], side: "long" };
+
+    let error: unknown;
+    try {
+      params.parse({ ...valid, slippageBps: -1 }, "params");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect((error as ForgeXSDKError).code).toBe("INVALID_INPUT");
+    expect((error as ForgeXSDKError).details).toEqual({
+      path: "params.slippageBps",
+    });
+
+    expect(() => params.parse({ ...valid, wallet: "nope" })).toThrow(
+      "Invalid value.wallet: expected base58 address"
+    );
+    expect(() => params.parse({ ...valid, amount: "1e9" })).toThrow(
+      "decimal amount"
+    );
+    expect(() => params.parse({ ...valid, feeds: "a,b,c" })).toThrow(
+      "at most 2 items"
+    );
+    expect(() => params.parse({ ...valid, side: "flat" })).toThrow(
+      "one of long, short"
+    );
+    expect(() => params.parse({ ...valid, extra: 1 })).toThrow(
+      "Unknown property value.extra"
+    );
+    expect(() => params.parse({ wallet })).toThrow("Missing value.amount");
+  });
+});
@@ -0,0 +1,267 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { Keypair, SystemProgram, Transaction } from "@solana/web3.js";
+import { defineOperation, OPERATIONS, type Operation } from "../src/operations";
+import {
+  createGatewayServer,
+  createOpenApiSpec,
+  type GatewayConfig,
+} from "../src/server";
+import { schema } from "../src/utils/schema";
+import { TOKENS } from "../src/utils/connection";
+import { TokenRegistry } from "../src/utils/token-registry";
+
+const servers: Server[] = [];
+
+afterEach(() => {
+  for (const server of servers.splice(0)) server.close();
+});
+
+// Starts a gateway on a free port and returns its base URL
+async function start(config: Partial<GatewayConfig> = {}) {
+  const server = createGatewayServer({
+    sdk: fakeSdk(),
+    apiKeys: ["secret"],
+    ...config,
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+}
+
+function fakeSdk(services: Record<string, unknown> = {}): any {
+  return {
+    tokens: new TokenRegistry(),
+    connection: {
+      getLatestBlockhash: async () => ({
+        blockhash: Keypair.generate().publicKey.toBase58(),
+        lastValidBlockHeight: 1000,
+      }),
+    },
+    plugins: { loadRequired: async (name: string) => services[name] },
+  };
+}
+
+const echo = defineOperation({
+  name: "test.echo",
+  description: "Echo",
+  kind: "read",
+  params: schema.object({
+    amount: schema.amount(),
+    feeds: schema.optional(schema.array(schema.string())),
+  }),
+  run: async (_sdk, params) => ({ ...params, raw: 15n }),
+});
+
+const build = defineOperation({
+  name: "test.build",
+  description: "Build",
+  kind: "build",
+  params: schema.object({ wallet: schema.publicKey() }),
+  run: async (sdk, { wallet }) => {
+    const { blockhash } = await sdk.connection.getLatestBlockhash();
+    const payer = Keypair.generate().publicKey;
+    const transaction = new Transaction({
+      recentBlockhash: blockhash,
+      feePayer: payer,
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: payer,
+        lamports: 1,
+      })
+    );
+    return { transactions: [transaction], blockhash, wallet };
+  },
+});
+
+const operations: Operation[] = [echo, build];
+const auth = { "x-api-key": "secret" };
+
+describe("gateway server", () => {
+  it("serves read operations over GET and builds over POST", async () => {
+    const base = await start({ operations });
+
+    const read = await fetch(
+      `${base}/test/echo?amount=1.5&feeds=SOL_USD&feeds=BTC_USD`,
+      { headers: auth }
+    );
+    expect(read.status).toBe(200);
+    expect(await read.json()).toEqual({
+      result: { amount: "1.5", feeds: ["SOL_USD", "BTC_USD"], raw: "15" },
+    });
+
+    const wallet = Keypair.generate().publicKey.toBase58();
+    const built = await fetch(`${base}/test/build`, {
+      method: "POST",
+      headers: { authorization: "Bearer secret" },
+      body: JSON.stringify({ wallet }),
+    });
+    const { result } = (await built.json()) as any;
+    expect(result.wallet).toBe(wallet);
+    const transaction = Transaction.from(
+      Buffer.from(result.transactions[0], "base64")
+    );
+    expect(transaction.recentBlockhash).toBe(result.blockhash);
+    expect(transaction.signatures[0].signature).toBeNull();
+
+    const wrongMethod = await fetch(`${base}/test/echo`, {
+      method: "POST",
+      headers: auth,
+      body: "{}",
+    });
+    expect(wrongMethod.status).toBe(404);
+
+    const invalid = await fetch(`${base}/test/echo?amount=lots`, {
+      headers: auth,
+    });
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as any).error).toMatchObject({
+      code: "INVALID_INPUT",
+      details: { path: "params.amount" },
+    });
+  });
+
+  it("requires an API key and limits each key per operation", async () => {
+    const base = await start({
+      operations,
+      apiKeys: ["secret", "other"],
+      rateLimits: { "test.echo": { requestsPerSecond: 0.01, burst: 2 } },
+    });
+    const echoWith = (key?: string) =>
+      fetch(`${base}/test/echo?amount=1`, {
+        headers: key ? { "x-api-key": key } : {},
+      });
+
+    expect((await echoWith()).status).toBe(401);
+    expect((await echoWith("guess")).status).toBe(401);
+    expect((await echoWith("secret")).status).toBe(200);
+    expect((await echoWith("secret")).status).toBe(200);
+    const limited = await echoWith("secret");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect((await echoWith("other")).status).toBe(200);
+
+    expect((await fetch(`${base}/openapi.json`)).status).toBe(200);
+  });
+
+  it("answers JSON-RPC calls and batches", async () => {
+    const base = await start({ operations });
+    const rpc = async (body: unknown) =>
+      (
+        await fetch(`${base}/rpc`, {
+          method: "POST",
+          headers: auth,
+          body: JSON.stringify(body),
+        })
+      ).json() as Promise<any>;
+
+    expect(
+      await rpc({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "test.echo",
+        params: { amount: "2" },
+      })
+    ).toEqual({ jsonrpc: "2.0", id: 1, result: { amount: "2", raw: "15" } });
+
+    const [unknown, invalid, malformed] = await rpc([
+      { jsonrpc: "2.0", id: "a", method: "test.missing" },
+      { jsonrpc: "2.0", id: "b", method: "test.echo", params: {} },
+      { id: "c", method: "test.echo" },
+    ]);
+    expect(unknown.error.code).toBe(-32601);
+    expect(invalid.error.code).toBe(-32602);
+    expect(invalid.error.data.code).toBe("INVALID_INPUT");
+    expect(malformed.error.code).toBe(-32600);
+  });
+
+  it("keeps upstream error details out of responses", async () => {
+    const upstream = {
+      message: "Request failed with status code 502",
+      response: {
+        status: 502,
+        data: { url: "https://api.example.com/?api-key=upstream-secret" },
+      },
+    };
+    const failing = defineOperation({
+      name: "test.failing",
+      description: "Failing",
+      kind: "read",
+      params: schema.object({}),
+      run: async () => {
+        throw upstream;
+      },
+    });
+    const logged: unknown[] = [];
+    const logger = {
+      debug: () => {},
+      info: () => {},
+      warn: (_: string, fields?: unknown) => logged.push(fields),
+      error: (_: string, fields?: unknown) => logged.push(fields),
+    };
+    const base = await start({ operations: [failing], logger });
+
+    const rest = await fetch(`${base}/test/failing`, { headers: auth });
+    const rpc = await fetch(`${base}/rpc`, {
+      method: "POST",
+      headers: auth,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "test.failing" }),
+    });
+
+    expect(rest.status).toBe(502);
+    const restBody = await rest.text();
+    const rpcBody = await rpc.text();
+    expect(JSON.parse(restBody).error).toEqual({
+      code: "API_ERROR",
+      message: "Request failed with status code 502",
+    });
+    expect(restBody).not.toContain("upstream-secret");
+    expect(rpcBody).not.toContain("upstream-secret");
+    expect(JSON.stringify(logged)).toContain("upstream-secret");
+  });
+
+  it("runs SDK operations and documents them in OpenAPI", async () => {
+    const quotes: any[] = [];
+    const base = await start({
+      apiKeys: [],
+      sdk: fakeSdk({
+        jupiter: {
+          getQuote: async (params: any) => {
+            quotes.push(params);
+            return { inAmount: params.amount.raw.toString() };
+          },
+        },
+      }),
+    });
+
+    const response = await fetch(
+      `${base}/jupiter/getQuote?inputToken=SOL&outputToken=USDC&amount=0.25`
+    );
+    expect(await response.json()).toEqual({
+      result: { inAmount: "250000000" },
+    });
+    expect(quotes[0].outputMint).toBe(TOKENS.USDC);
+    expect(quotes[0].slippageBps).toBe(50);
+
+    const spec = createOpenApiSpec({ operations: OPERATIONS }) as any;
+    expect(spec.paths["/v1/drift/placePerpOrder"]).toBeUndefined();
+    const quote = spec.paths["/v1/jupiter/getQuote"].get;
+    expect(quote.operationId).toBe("jupiter.getQuote");
+    expect(quote.parameters.map((p: any) => [p.name, p.required])).toEqual([
+      ["inputToken", true],
+      ["outputToken", true],
+      ["amount", true],
+      ["slippageBps", false],
+    ]);
+    const deposit = spec.paths["/v1/kamino/buildDepositTransaction"].post;
+    expect(
+      deposit.requestBody.content["application/json"].schema.required
+    ).toEqual(["wallet", "symbol", "amount"]);
+    expect(
+      deposit.responses["200"].content["application/json"].schema.properties
+        .result
+    ).toEqual({ $ref: "#/components/schemas/UnsignedTransactions" });
+  });
+});
@@ -0,0 +1,32 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { ShyftService } from "../src/shyft";
+import { HttpFixture } from "./helpers/fixtures";
+
+const WALLET = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+// The Shyft SDK creates its own axios instance, so route axios globally
+const fixture = new HttpFixture("shyft");
+let restore: () => void;
+let shyft: ShyftService;
+
+beforeAll(() => {
+  restore = fixture.installGlobal();
+  shyft = new ShyftService(process.env.SHYFT_API_KEY || "test-key");
+});
+
+afterAll(() => {
+  restore();
+  fixture.save();
+});
+
+describe("ShyftService", () => {
+  it("getWalletBalance returns the SOL balance", async () => {
+    expect(await shyft.getWalletBalance(WALLET)).toBe(12.5);
+  });
+
+  it("wraps SDK failures", async () => {
+    await expect(shyft.getWalletBalance("invalid")).rejects.toThrow(
+      "Failed to fetch wallet balance"
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "bun:test";
+import { sign, verify } from "@noble/ed25519";
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  KeypairSigner,
+  RemoteSigner,
+  WalletSigner,
+  toSigner,
+} from "../src/utils/signer";
+import { SolanaWalletManager } from "../src/wallet";
+
+const BLOCKHASH = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const message = new TextEncoder().encode("forgex");
+
+function transfer(keypair: Keypair) {
+  return SystemProgram.transfer({
+    fromPubkey: keypair.publicKey,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1,
+  });
+}
+
+function legacyTransaction(keypair: Keypair): Transaction {
+  const transaction = new Transaction().add(transfer(keypair));
+  transaction.feePayer = keypair.publicKey;
+  transaction.recentBlockhash = BLOCKHASH;
+  return transaction;
+}
+
+function versionedTransaction(keypair: Keypair): VersionedTransaction {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: keypair.publicKey,
+      recentBlockhash: BLOCKHASH,
+      instructions: [transfer(keypair)],
+    }).compileToV0Message()
+  );
+}
+
+describe("KeypairSigner", () => {
+  it("signs legacy and versioned transactions and messages", async () => {
+    const keypair = Keypair.generate();
+    const signer = new KeypairSigner(keypair);
+
+    const [legacy, versioned] = await Promise.all([
+      signer.signTransaction(legacyTransaction(keypair)),
+      signer.signTransaction(versionedTransaction(keypair)),
+    ]);
+    expect(legacy.verifySignatures()).toBe(true);
+    expect(
+      await verify(
+        versioned.signatures[0],
+        versioned.message.serialize(),
+        keypair.publicKey.toBytes()
+      )
+    ).toBe(true);
+
+    const signature = await signer.signMessage(message);
+    expect(await verify(signature, message, keypair.publicKey.toBytes())).toBe(
+      true
+    );
+  });
+});
+
+describe("RemoteSigner", () => {
+  it("signs transactions through the remote sign callback", async () => {
+    const keypair = Keypair.generate();
+    const requests: Uint8Array[] = [];
+    const signer = new RemoteSigner({
+      publicKey: keypair.publicKey.toBase58(),
+      sign: async (bytes) => {
+        requests.push(bytes);
+        return sign(bytes, keypair.secretKey.slice(0, 32));
+      },
+    });
+
+    const [legacy, versioned] = await signer.signAllTransactions<any>([
+      legacyTransaction(keypair),
+      versionedTransaction(keypair),
+    ]);
+
+    expect(requests).toHaveLength(2);
+    expect((legacy as Transaction).verifySignatures()).toBe(true);
+    expect(
+      await verify(
+        (versioned as VersionedTransaction).signatures[0],
+        (versioned as VersionedTransaction).message.serialize(),
+        keypair.publicKey.toBytes()
+      )
+    ).toBe(true);
+  });
+});
+
+describe("WalletSigner", () => {
+  it("unwraps Phantom-style message signatures", async () => {
+    const signature = new Uint8Array(64).fill(7);
+    const signer = new WalletSigner({
+      publicKey: Keypair.generate().publicKey,
+      signTransaction: async (transaction) => transaction,
+      signMessage: async () => ({ signature }),
+    });
+
+    expect(await signer.signMessage(message)).toBe(signature);
+  });
+
+  it("requires a connected wallet", () => {
+    const signer = new WalletSigner({
+      publicKey: null,
+      signTransaction: async (transaction) => transaction,
+    });
+
+    expect(() => signer.publicKey).toThrow("Wallet is not connected");
+  });
+
+  it("signs one by one without signAllTransactions", async () => {
+    const keypair = Keypair.generate();
+    const local = new KeypairSigner(keypair);
+    const signer = new WalletSigner({
+      publicKey: keypair.publicKey,
+      signTransaction: (transaction) => local.signTransaction(transaction),
+    });
+
+    const signed = await signer.signAllTransactions([
+      legacyTransaction(keypair),
+      legacyTransaction(keypair),
+    ]);
+    expect(signed.every((transaction) => transaction.verifySignatures())).toBe(
+      true
+    );
+  });
+});
+
+describe("toSigner", () => {
+  it("wraps keypairs and wallets, and passes signers through", () => {
+    const keypair = Keypair.generate();
+    const signer = new KeypairSigner(keypair);
+
+    expect(toSigner(keypair)).toBeInstanceOf(KeypairSigner);
+    expect(toSigner(keypair).publicKey.equals(keypair.publicKey)).toBe(true);
+    expect(toSigner(signer)).toBe(signer);
+    expect(
+      toSigner({
+        publicKey: keypair.publicKey,
+        signTransaction: async (transaction) => transaction,
+      })
+    ).toBeInstanceOf(WalletSigner);
+  });
+});
+
+describe("SolanaWalletManager.getSigner", () => {
+  it("exposes the connected adapter as a full signer", async () => {
+    const manager = new SolanaWalletManager(
+      new Connection("http://127.0.0.1:8899")
+    );
+    const adapter = manager.generateWallet();
+    await manager.connectKeypairWallet(adapter);
+
+    const signer = manager.getSigner();
+    const keypair = adapter.getKeypair();
+
+    expect(signer.publicKey.equals(keypair.publicKey)).toBe(true);
+    const signature = await signer.signMessage(message);
+    expect(await verify(signature, message, keypair.publicKey.toBytes())).toBe(
+      true
+    );
+  });
+});
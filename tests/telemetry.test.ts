@@ -0,0 +1,177 @@
+import { describe, expect, it } from "bun:test";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { RpcPool } from "../src/utils/rpc-pool";
+import {
+  Telemetry,
+  TELEMETRY_METRICS,
+  createOpenTelemetryExporter,
+  type TelemetryMetric,
+  type TelemetrySpan,
+} from "../src/utils/telemetry";
+
+class QuoteService {
+  calls = 0;
+
+  async getQuote(amount: number): Promise<number> {
+    this.calls++;
+    return this.applyFee(amount);
+  }
+
+  async failingCall(): Promise<never> {
+    throw new ForgeXSDKError("RATE_LIMITED", "Too many requests");
+  }
+
+  applyFee(amount: number): number {
+    return amount - 1;
+  }
+}
+
+function collect() {
+  const spans: TelemetrySpan[] = [];
+  const metrics: TelemetryMetric[] = [];
+  const telemetry = new Telemetry({
+    exporters: [
+      {
+        exportSpan: (span) => spans.push(span),
+        exportMetric: (metric) => metrics.push(metric),
+      },
+    ],
+  });
+  return { telemetry, spans, metrics };
+}
+
+describe("Telemetry.instrument", () => {
+  it("emits a span per external call with its outcome", async () => {
+    const { telemetry, spans, metrics } = collect();
+    const service = telemetry.instrument(new QuoteService());
+
+    expect(await service.getQuote(10)).toBe(9);
+    await expect(service.failingCall()).rejects.toThrow("Too many requests");
+
+    // applyFee runs inside getQuote and gets no span of its own
+    expect(spans.map((span) => [span.name, span.outcome])).toEqual([
+      ["QuoteService.getQuote", "ok"],
+      ["QuoteService.failingCall", "error"],
+    ]);
+    expect(spans[1].errorCode).toBe("RATE_LIMITED");
+    expect(service.calls).toBe(1);
+    expect(service).toBeInstanceOf(QuoteService);
+
+    const errors = metrics.filter(
+      (metric) => metric.name === TELEMETRY_METRICS.errors
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0].attributes).toMatchObject({
+      service: "QuoteService",
+      method: "failingCall",
+      code: "RATE_LIMITED",
+    });
+  });
+
+  it("keeps calls working when an exporter throws", async () => {
+    const telemetry = new Telemetry({
+      exporters: [
+        {
+          exportSpan: () => {
+            throw new Error("collector down");
+          },
+        },
+      ],
+    });
+    const service = telemetry.instrument(new QuoteService());
+
+    expect(await service.getQuote(5)).toBe(4);
+  });
+});
+
+describe("RpcPool telemetry", () => {
+  it("traces JSON-RPC methods and counts failovers apart from health checks", async () => {
+    const down = Bun.serve({
+      port: 0,
+      fetch: () => new Response("unavailable", { status: 503 }),
+    });
+    const up = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const { id } = await request.json();
+        return Response.json({ jsonrpc: "2.0", id, result: 7 });
+      },
+    });
+    const upHost = `127.0.0.1:${up.port}`;
+    const { telemetry, spans, metrics } = collect();
+    const pool = new RpcPool({
+      endpoints: [
+        { url: `http://127.0.0.1:${down.port}`, weight: 1e6 },
+        `http://${upHost}`,
+      ],
+      healthCheckIntervalMs: 0,
+      telemetry,
+    });
+
+    try {
+      expect(await pool.connection.getSlot()).toBe(7);
+      await pool.checkHealth();
+    } finally {
+      pool.close();
+      down.stop(true);
+      up.stop(true);
+    }
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: "RpcPool.getSlot",
+      outcome: "ok",
+      attributes: { endpoint: upHost, attempts: 2 },
+    });
+    expect(
+      metrics.filter((metric) => metric.name === TELEMETRY_METRICS.failovers)
+    ).toHaveLength(1);
+    expect(
+      metrics.filter(
+        (metric) => metric.name === TELEMETRY_METRICS.healthCheckFailures
+      )
+    ).toHaveLength(1);
+  });
+});
+
+describe("createOpenTelemetryExporter", () => {
+  it("maps spans and metrics onto a tracer and meter", () => {
+    const ended: Array<{ name: string; status: number; endTime?: number }> = [];
+    const counted: Array<[string, number]> = [];
+    const telemetry = new Telemetry({
+      exporters: [
+        createOpenTelemetryExporter({
+          tracer: {
+            startSpan: (name) => {
+              let status = 0;
+              return {
+                setStatus: ({ code }) => (status = code),
+                end: (endTime) => ended.push({ name, status, endTime }),
+              };
+            },
+          },
+          meter: {
+            createCounter: (name) => ({
+              add: (value) => counted.push([name, value]),
+            }),
+            createHistogram: () => ({ record: () => undefined }),
+          },
+        }),
+      ],
+    });
+
+    telemetry.startSpan("JupiterService", "getQuote").end(new Error("boom"));
+
+    expect(ended).toEqual([
+      {
+        name: "JupiterService.getQuote",
+        status: 2,
+        endTime: expect.any(Number),
+      },
+    ]);
+    expect(counted).toEqual([
+      [TELEMETRY_METRICS.calls, 1],
+      [TELEMETRY_METRICS.errors, 1],
+    ]);
+  });
+});
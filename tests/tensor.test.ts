@@ -0,0 +1,34 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { Connection } from "@solana/web3.js";
+import { TensorService } from "../src/tensor";
+import { ResponseCache } from "../src/utils/cache";
+import { HttpFixture } from "./helpers/fixtures";
+
+const fixture = new HttpFixture("tensor");
+const tensor = new TensorService({
+  connection: new Connection("http://127.0.0.1:8899"),
+  apiKey: process.env.TENSOR_API_KEY || "test-key",
+  httpClient: fixture.httpClient(),
+  cache: new ResponseCache({ enabled: false }),
+});
+
+afterAll(() => fixture.save());
+
+describe("TensorService collections", () => {
+  it("getAllCollections unwraps instrumentTV2", async () => {
+    const collections = await tensor.getAllCollections(2);
+
+    expect(collections.map((collection) => collection.slug)).toEqual([
+      "madlads",
+      "tensorians",
+    ]);
+    expect(collections[0].statsV2?.floorPrice).toBe(98500000000);
+  });
+
+  it("getCollectionUuid resolves the collection id", async () => {
+    expect(await tensor.getCollectionUuid("madlads")).toBe(
+      "05c52d84-2e49-4ed9-a473-b43cab41e777"
+    );
+    expect(await tensor.getCollectionUuid("unknown-collection")).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import { ForgeXSDKError } from "../src/utils/errors";
+import { TokenAmount, toBaseUnits } from "../src/utils/token-amount";
+
+describe("TokenAmount", () => {
+  it("parses UI amounts without floating point losses", () => {
+    const large = TokenAmount.fromUi("90071992547.409931", 6);
+    expect(large.raw).toBe(90071992547409931n);
+    expect(large.toString()).toBe("90071992547.409931");
+
+    expect(TokenAmount.fromUi(0.1 + 0.2, 6).raw).toBe(300000n);
+    expect(TokenAmount.fromUi(1e-7, 9).raw).toBe(100n);
+    expect(TokenAmount.sol(1.5).raw).toBe(1_500_000_000n);
+    expect(TokenAmount.sol(1_500_000_000n).toString()).toBe("1.5");
+    expect(TokenAmount.fromRaw("-250", 2).toString()).toBe("-2.5");
+  });
+
+  it("rejects invalid or over-precise input", () => {
+    let error: unknown;
+    try {
+      TokenAmount.fromUi("1.0000001", 6);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect((error as ForgeXSDKError).code).toBe("INVALID_INPUT");
+
+    expect(() => TokenAmount.fromUi("abc", 6)).toThrow("Invalid amount");
+    expect(() => TokenAmount.fromUi(NaN, 6)).toThrow(ForgeXSDKError);
+    expect(() => TokenAmount.fromRaw(1.5, 6)).toThrow(ForgeXSDKError);
+    expect(() => TokenAmount.from(TokenAmount.sol(1), 6)).toThrow("expected 6");
+    expect(() => TokenAmount.fromRaw(2n ** 60n, 0).toRawNumber()).toThrow(
+      "too large"
+    );
+  });
+
+  it("does exact arithmetic and comparison", () => {
+    const usdc = TokenAmount.fromUi("1000000.000001", 6);
+
+    expect(usdc.add("0.000002").toString()).toBe("1000000.000003");
+    expect(usdc.sub(usdc).isZero()).toBe(true);
+    expect(usdc.mul("0.995").raw).toBe(995000000000n);
+    expect(usdc.gt(1_000_000)).toBe(true);
+    expect(usdc.cmp(1_000_000_000_001n)).toBe(0);
+    expect(TokenAmount.zero(6).sub(1n).isNegative()).toBe(true);
+    expect(toBaseUnits(usdc)).toBe(1_000_000_000_001n);
+    expect(toBaseUnits(42)).toBe(42n);
+  });
+
+  it("formats and serializes", () => {
+    const amount = TokenAmount.fromUi("1234567.891", 6);
+
+    expect(amount.format({ maxDecimals: 2, grouping: true })).toBe(
+      "1,234,567.89"
+    );
+    expect(amount.format({ maxDecimals: 0 })).toBe("1234568");
+    expect(TokenAmount.fromRaw(-4n, 3).format({ maxDecimals: 2 })).toBe("0");
+    expect(JSON.parse(JSON.stringify(amount))).toEqual({
+      amount: "1234567891000",
+      decimals: 6,
+      uiAmountString: "1234567.891",
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { Keypair } from "@solana/web3.js";
+import { TOKENS } from "../src/utils/connection";
+import { ForgeXSDKError } from "../src/utils/errors";
+import {
+  TOKEN_2022_PROGRAM_ADDRESS,
+  TokenRegistry,
+} from "../src/utils/token-registry";
+
+const mint = () => Keypair.generate().publicKey.toBase58();
+
+describe("TokenRegistry", () => {
+  it("resolves built-in tokens by symbol and mint", () => {
+    const tokens = new TokenRegistry();
+
+    expect(tokens.resolve("usdc").mint).toBe(TOKENS.USDC);
+    expect(tokens.resolve(TOKENS.BONK).decimals).toBe(5);
+    expect(tokens.resolve("PYUSD").isToken2022).toBe(true);
+    expect(tokens.find("NOPE")).toBeUndefined();
+  });
+
+  it("prefers verified tokens over unverified symbol clashes", () => {
+    const tokens = new TokenRegistry();
+    const spoof = mint();
+    tokens.add([{ mint: spoof, symbol: "USDC", decimals: 6 }], "dex");
+
+    expect(tokens.resolve("USDC").mint).toBe(TOKENS.USDC);
+    expect(tokens.getCollisions().map(({ symbol }) => symbol)).toEqual([
+      "usdc",
+    ]);
+    expect(tokens.resolve(spoof).sources).toEqual(["dex"]);
+  });
+
+  it("refuses to guess between equally trusted mints", () => {
+    const tokens = new TokenRegistry();
+    tokens.add(
+      [
+        { mint: mint(), symbol: "WIF", decimals: 6 },
+        { mint: mint(), symbol: "wif", decimals: 6 },
+      ],
+      "dex"
+    );
+
+    let error: unknown;
+    try {
+      tokens.resolve("WIF");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ForgeXSDKError);
+    expect((error as ForgeXSDKError).code).toBe("INVALID_INPUT");
+    expect((error as ForgeXSDKError).message).toContain("ambiguous");
+  });
+
+  it("only resolves verified tokens in strict mode", () => {
+    const tokens = new TokenRegistry({ strict: true });
+    const unverified = mint();
+    tokens.add([{ mint: unverified, symbol: "JUNK", decimals: 9 }], "dex");
+
+    expect(() => tokens.resolve("JUNK")).toThrow("Unknown verified token");
+    expect(() => tokens.resolve(unverified)).toThrow(ForgeXSDKError);
+    expect(tokens.resolve("JUNK", { strict: false }).mint).toBe(unverified);
+  });
+
+  it("loads and searches sources on lookup", async () => {
+    const listed = mint();
+    const searched = mint();
+    const queries: string[] = [];
+    const tokens = new TokenRegistry({
+      sources: [
+        {
+          name: "list",
+          list: async () => [{ mint: listed, symbol: "LST", decimals: 9 }],
+        },
+        {
+          name: "search",
+          verified: true,
+          search: async (query) => {
+            queries.push(query);
+            return [
+              {
+                mint: searched,
+                symbol: "NEW",
+                decimals: 6,
+                programId: TOKEN_2022_PROGRAM_ADDRESS,
+              },
+            ];
+          },
+        },
+      ],
+    });
+
+    expect((await tokens.lookup("LST")).mint).toBe(listed);
+    expect(queries).toEqual([]);
+
+    const token = await tokens.lookup("NEW");
+    expect(token.mint).toBe(searched);
+    expect(token.verified).toBe(true);
+    expect(token.isToken2022).toBe(true);
+    expect(queries).toEqual(["NEW"]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "bun:test";
+import { Keypair } from "@solana/web3.js";
+import { ToolCatalog } from "../src/tools";
+import { TokenAmount } from "../src/utils/token-amount";
+import { TokenRegistry } from "../src/utils/token-registry";
+
+function fakeSdk(services: Record<string, unknown>, wallet?: Keypair): any {
+  return {
+    tokens: new TokenRegistry(),
+    plugins: {
+      getWallet: () => wallet,
+      loadRequired: async (name: string) => services[name],
+    },
+  };
+}
+
+describe("ToolCatalog", () => {
+  it("describes operations as flagged function definitions", () => {
+    const catalog = new ToolCatalog();
+    const names = catalog.list().map((tool) => tool.name);
+    expect(names).toContain("jupiter_getQuote");
+    expect(names).toContain("kamino_buildDepositTransaction");
+    expect(names).toContain("sanctum_getLstApys");
+    expect(names).toContain("pyth_fetchLatestPriceUpdates");
+    expect(names.every((name) => /^[a-zA-Z0-9_-]{1,64}$/.test(name))).toBe(
+      true
+    );
+
+    const order = catalog.get("drift.placePerpOrder");
+    expect(order.readOnly).toBe(false);
+    expect(order.kind).toBe("send");
+    expect(order.description).toContain("STATE-CHANGING");
+    expect(order.parameters.required).toEqual(["marketIndex", "side", "size"]);
+    expect(order.parameters.properties.side.enum).toEqual(["buy", "sell"]);
+
+    const deposit = catalog.get("kamino_buildDepositTransaction");
+    expect(deposit.readOnly).toBe(true);
+    expect(deposit.description).toContain("unsigned");
+
+    expect(catalog.toAnthropicTools()[0]).toEqual({
+      name: "sdk_getPortfolio",
+      description: catalog.list()[0].description,
+      input_schema: catalog.list()[0].parameters,
+    });
+    expect(catalog.toOpenAITools()[0].function.name).toBe("sdk_getPortfolio");
+
+    const readOnly = new ToolCatalog({ readOnly: true });
+    expect(readOnly.list().every((tool) => tool.readOnly)).toBe(true);
+    expect(readOnly.get("drift_placePerpOrder")).toBeUndefined();
+  });
+
+  it("dispatches tool calls and returns serializable results", async () => {
+    const orders: any[] = [];
+    const drift = {
+      placePerpOrder: async (order: any) => {
+        orders.push(order);
+        return "5ig";
+      },
+    };
+    const sanctum = {
+      getLstApys: async (lst: string, limit?: number) => [
+        { epoch: 700n, apy: 0.071, lst, limit },
+      ],
+    };
+    const catalog = new ToolCatalog();
+    const sdk = fakeSdk({ drift, sanctum }, Keypair.generate());
+
+    expect(
+      await catalog.execute(sdk, {
+        name: "sanctum_getLstApys",
+        arguments: '{"lst":"INF","limit":2}',
+      })
+    ).toEqual({
+      tool: "sanctum_getLstApys",
+      readOnly: true,
+      ok: true,
+      result: [{ epoch: "700", apy: 0.071, lst: "INF", limit: 2 }],
+    });
+
+    const placed = await catalog.execute(sdk, {
+      name: "drift_placePerpOrder",
+      arguments: { marketIndex: 0, side: "buy", size: 0.5, price: "142.5" },
+    });
+    expect(placed).toEqual({
+      tool: "drift_placePerpOrder",
+      readOnly: false,
+      ok: true,
+      result: { signature: "5ig" },
+    });
+    expect(orders[0]).toEqual({
+      marketIndex: 0,
+      side: "buy",
+      size: "0.5",
+      price: "142.5",
+    });
+    expect(TokenAmount.fromUi(orders[0].size, 9).raw).toBe(500_000_000n);
+  });
+
+  it("returns errors as results instead of throwing", async () => {
+    const catalog = new ToolCatalog();
+    const sdk = fakeSdk({ drift: {} });
+
+    const invalid = await catalog.execute(sdk, {
+      name: "drift_placePerpOrder",
+      arguments: { marketIndex: 0, side: "long", size: "1" },
+    });
+    expect(invalid.ok).toBe(false);
+    expect(invalid.ok === false && invalid.error).toMatchObject({
+      code: "INVALID_INPUT",
+      details: { path: "params.side" },
+    });
+
+    const noWallet = await catalog.execute(sdk, {
+      name: "drift_placePerpOrder",
+      arguments: { marketIndex: 0, side: "buy", size: "1" },
+    });
+    expect(noWallet.ok === false && noWallet.error.code).toBe(
+      "WALLET_REQUIRED"
+    );
+
+    const malformed = await catalog.execute(sdk, {
+      name: "sanctum_getLst",
+      arguments: "{lst:",
+    });
+    expect(malformed.ok === false && malformed.error.code).toBe(
+      "INVALID_INPUT"
+    );
+
+    const unknown = await catalog.execute(sdk, { name: "transfer_all" });
+    expect(unknown).toMatchObject({
+      tool: "transfer_all",
+      ok: false,
+      error: { code: "NOT_FOUND" },
+    });
+    expect(JSON.parse(JSON.stringify(unknown))).toEqual(unknown);
+  });
+});
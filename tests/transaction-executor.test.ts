@@ -0,0 +1,115 @@
+import { describe, expect, it } from "bun:test";
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  type Connection,
+} from "@solana/web3.js";
+import { TransactionExecutor } from "../src/utils/transaction-executor";
+import { KeypairSigner } from "../src/utils/signer";
+
+const OLD_BLOCKHASH = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const NEW_BLOCKHASH = "EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N";
+
+// Connection confirming everything it is sent, keeping the wire bytes
+function fakeConnection(sent: Transaction[]): Connection {
+  return {
+    getLatestBlockhash: async () => ({
+      blockhash: NEW_BLOCKHASH,
+      lastValidBlockHeight: 100,
+    }),
+    sendRawTransaction: async (raw: Uint8Array) => {
+      const transaction = Transaction.from(raw);
+      sent.push(transaction);
+      return "sig";
+    },
+    getSignatureStatuses: async () => ({
+      value: [{ slot: 1, confirmationStatus: "confirmed", err: null }],
+    }),
+  } as any;
+}
+
+function transfer(payer: Keypair, account: Keypair): Transaction {
+  return new Transaction({
+    recentBlockhash: OLD_BLOCKHASH,
+    feePayer: payer.publicKey,
+  }).add(
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: account.publicKey,
+      lamports: 1_000_000,
+      space: 0,
+      programId: SystemProgram.programId,
+    })
+  );
+}
+
+describe("TransactionExecutor", () => {
+  it("keeps the blockhash of transactions other keys signed", async () => {
+    const sent: Transaction[] = [];
+    const wallet = Keypair.generate();
+    const account = Keypair.generate();
+    const executor = new TransactionExecutor(fakeConnection(sent), {
+      signer: new KeypairSigner(wallet),
+    });
+
+    const transaction = transfer(wallet, account);
+    transaction.partialSign(account);
+    const result = await executor.execute(transaction);
+
+    expect(result.status).toBe("confirmed");
+    expect(sent[0].recentBlockhash).toBe(OLD_BLOCKHASH);
+    expect(sent[0].verifySignatures()).toBe(true);
+  });
+
+  it("refreshes the blockhash when only its own keys sign", async () => {
+    const sent: Transaction[] = [];
+    const wallet = Keypair.generate();
+    const account = Keypair.generate();
+    const executor = new TransactionExecutor(fakeConnection(sent), {
+      signer: new KeypairSigner(wallet),
+    });
+
+    const signed = transfer(wallet, account);
+    signed.partialSign(account);
+    await executor.execute(signed, { additionalSigners: [account] });
+    await executor.execute(transfer(wallet, account), {
+      additionalSigners: [account],
+    });
+
+    for (const transaction of sent) {
+      expect(transaction.recentBlockhash).toBe(NEW_BLOCKHASH);
+      expect(transaction.verifySignatures()).toBe(true);
+    }
+  });
+
+  it("waits for a landed transaction past its blockhash expiry", async () => {
+    const sent: Transaction[] = [];
+    const statuses = ["processed", "processed", "confirmed"];
+    const lookups: unknown[] = [];
+    const connection = {
+      ...fakeConnection(sent),
+      getBlockHeight: async () => 101,
+      getSignatureStatuses: async (_: string[], config?: unknown) => {
+        lookups.push(config);
+        return {
+          value: [{ slot: 1, confirmationStatus: statuses.shift(), err: null }],
+        };
+      },
+    } as any;
+    const wallet = Keypair.generate();
+    const account = Keypair.generate();
+    const executor = new TransactionExecutor(connection, {
+      signer: new KeypairSigner(wallet),
+      rebroadcastIntervalMs: 1,
+    });
+
+    const result = await executor.execute(transfer(wallet, account), {
+      additionalSigners: [account],
+    });
+
+    expect(result).toMatchObject({ status: "confirmed", attempts: 1 });
+    expect(sent).toHaveLength(1);
+    expect(lookups[1]).toEqual({ searchTransactionHistory: true });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { TransactionPacker } from "../src/utils/transaction-packer";
+
+const connection = new Connection("http://127.0.0.1:1");
+const payer = Keypair.generate().publicKey;
+
+/**
+ * An instruction touching `accounts` fresh accounts, about 34 bytes each
+ */
+function instruction(accounts: number): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: SystemProgram.programId,
+    keys: Array.from({ length: accounts }, () => ({
+      pubkey: Keypair.generate().publicKey,
+      isSigner: false,
+      isWritable: true,
+    })),
+    data: Buffer.alloc(8),
+  });
+}
+
+function programIds(transaction: Transaction): PublicKey[] {
+  return transaction.instructions.map((ix) => ix.programId);
+}
+
+describe("TransactionPacker.pack", () => {
+  it("splits an ordered list into sequential transactions under the size limit", async () => {
+    const packer = new TransactionPacker(connection);
+    const instructions = Array.from({ length: 6 }, () => instruction(12));
+
+    const packed = await packer.pack(instructions, payer);
+
+    expect(packed.length).toBeGreaterThan(1);
+    expect(packed.length).toBeLessThan(instructions.length);
+    expect(packed.flatMap(({ groups }) => groups)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(packed.map(({ stage }) => stage)).toEqual(
+      packed.map((_, index) => index)
+    );
+    for (const { transaction, size } of packed) {
+      expect(size).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+      expect(size).toBe(
+        (transaction as Transaction).serialize({ requireAllSignatures: false })
+          .length
+      );
+    }
+  });
+
+  it("runs independent groups in the same stage", async () => {
+    const packer = new TransactionPacker(connection);
+
+    const packed = await packer.pack(
+      [
+        { instructions: [instruction(12)] },
+        { instructions: [instruction(12)], dependsOn: [] },
+        { instructions: [instruction(12)], dependsOn: [] },
+        { instructions: [instruction(2)], dependsOn: [0, 1, 2] },
+      ],
+      payer
+    );
+
+    expect(packed.map(({ stage }) => stage)).toEqual([0, 0, 1]);
+    expect(packed.map(({ groups }) => groups)).toEqual([[0, 1], [2], [3]]);
+  });
+
+  it("keeps groups together and repeats the prefix in every transaction", async () => {
+    const packer = new TransactionPacker(connection, {
+      maxComputeUnits: 400_000,
+    });
+    const budget = ComputeBudgetProgram.setComputeUnitLimit({
+      units: 400_000,
+    });
+
+    const packed = await packer.pack(
+      [
+        { instructions: [instruction(1), instruction(1)] },
+        { instructions: [instruction(1)], computeUnits: 300_000 },
+      ],
+      payer,
+      { prefix: [budget] }
+    );
+
+    expect(packed.map(({ computeUnits }) => computeUnits)).toEqual([
+      400_000, 300_000,
+    ]);
+    for (const { transaction } of packed) {
+      expect(
+        programIds(transaction as Transaction)[0].equals(
+          ComputeBudgetProgram.programId
+        )
+      ).toBe(true);
+    }
+    expect((packed[0].transaction as Transaction).instructions).toHaveLength(3);
+  });
+
+  it("rejects groups that cannot fit a transaction on their own", async () => {
+    const packer = new TransactionPacker(connection);
+
+    await expect(
+      packer.pack([{ instructions: [instruction(40)] }], payer)
+    ).rejects.toThrow("does not fit in a transaction");
+  });
+
+  it("rejects dependencies on later groups", async () => {
+    const packer = new TransactionPacker(connection);
+
+    await expect(
+      packer.pack(
+        [{ instructions: [instruction(1)], dependsOn: [1] }, instruction(1)],
+        payer
+      )
+    ).rejects.toThrow("can only depend on earlier groups");
+  });
+});